@@ -0,0 +1,221 @@
+/**
+ * 一貫性トークン（read-your-writes）の単体テスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createMockRedis, type MockRedis } from "@/test-helpers/mock-redis";
+import {
+  CONSISTENCY_HEADER,
+  WATERMARK_HEADER,
+  consistentRead,
+  queryWithConsistencyToken,
+} from "@/api/consistency";
+import { createWatermarkRecorder } from "@/lib/watermark";
+import { MetricsRegistry } from "@/lib/metrics";
+
+describe("consistentRead", () => {
+  let redis: MockRedis;
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    redis = createMockRedis();
+    registry = new MetricsRegistry();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function handle(query: Record<string, string | undefined>) {
+    const res = {
+      headers: {} as Record<string, string>,
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      set: vi.fn(function (this: any, name: string, value: string) {
+        this.headers[name] = value;
+        return this;
+      }),
+    };
+    const next = vi.fn();
+    await consistentRead(redis, "cache-updater", ["public.posts"], {
+      waitTimeoutMs: 100,
+      pollIntervalMs: 10,
+      registry,
+      sleep: async () => {},
+    })({ query } as any, res as any, next);
+    return { res, next };
+  }
+
+  const reads = (result: string) =>
+    registry
+      .counter("consistent_reads_total", "")
+      .get({ consumer: "cache-updater", result });
+
+  const advance = (lsn: number, txId: string) =>
+    createWatermarkRecorder(redis, "cache-updater").advance("public.posts", {
+      lsn,
+      txId,
+    });
+
+  it("should pass through reads without ?after=", async () => {
+    // Act
+    const { res, next } = await handle({});
+
+    // Assert
+    expect(next).toHaveBeenCalled();
+    expect(res.set).not.toHaveBeenCalled();
+    expect(redis.hgetall).not.toHaveBeenCalled();
+  });
+
+  it("should mark the read fresh once the watermark passes the token", async () => {
+    // Arrange
+    await advance(0x2000, "8");
+
+    // Act
+    const { res, next } = await handle({ after: "0/1000:7" });
+
+    // Assert
+    expect(next).toHaveBeenCalled();
+    expect(res.headers).toEqual({
+      [CONSISTENCY_HEADER]: "fresh",
+      [WATERMARK_HEADER]: "0/2000",
+    });
+    expect(reads("fresh")).toBe(1);
+  });
+
+  it("should mark the read fresh once the write itself has been applied", async () => {
+    // Arrange: 書き込み自身のイベントの LSN は COMMIT の後の位置より小さい
+    await advance(0x0f00, "7");
+
+    // Act
+    const { res } = await handle({ after: "0/1000:7" });
+
+    // Assert
+    expect(res.headers[CONSISTENCY_HEADER]).toBe("fresh");
+  });
+
+  it.each([
+    { name: "the consumer is behind", watermark: 256 },
+    {
+      name: "only a transaction committed before the write has a higher LSN",
+      watermark: 0x0f80,
+    },
+    { name: "the consumer has not recorded a watermark", watermark: null },
+  ])("should mark the read stale when $name", async ({ watermark }) => {
+    // Arrange
+    if (watermark) await advance(watermark, "6");
+
+    // Act
+    const { res, next } = await handle({ after: "0/1000:7" });
+
+    // Assert
+    expect(next).toHaveBeenCalled();
+    expect(res.headers[CONSISTENCY_HEADER]).toBe("stale");
+    expect(reads("stale")).toBe(1);
+  });
+
+  it("should mark the read stale when the watermark cannot be read", async () => {
+    // Arrange
+    redis.hgetall.mockRejectedValueOnce(new Error("connection refused"));
+
+    // Act
+    const { res, next } = await handle({ after: "0/1000" });
+
+    // Assert
+    expect(next).toHaveBeenCalled();
+    expect(res.headers[CONSISTENCY_HEADER]).toBe("stale");
+  });
+
+  it("should return 400 for a malformed token", async () => {
+    // Act
+    const { res, next } = await handle({ after: "latest" });
+
+    // Assert
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe("queryWithConsistencyToken", () => {
+  function createPool({ fail = false, rowCount = 1 } = {}) {
+    const client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes("pg_current_wal_lsn")) {
+          return { rows: [{ lsn: "0/16B3748" }] };
+        }
+        if (sql.includes("pg_current_xact_id")) {
+          return { rows: [{ tx_id: "571" }] };
+        }
+        if (sql.startsWith("INSERT")) {
+          if (fail) throw new Error("duplicate key");
+          return { rows: rowCount ? [{ id: 1 }] : [], rowCount };
+        }
+        return { rows: [] };
+      }),
+      release: vi.fn(),
+    };
+    return { pool: { connect: vi.fn(async () => client) }, client };
+  }
+
+  it("should read the WAL position after the commit", async () => {
+    // Arrange
+    const { pool, client } = createPool();
+
+    // Act
+    const result = await queryWithConsistencyToken(
+      pool as any,
+      "INSERT INTO posts (title) VALUES ($1) RETURNING id",
+      ["Title"],
+      ["public.posts"],
+    );
+
+    // Assert
+    expect(result).toEqual({
+      rows: [{ id: 1 }],
+      consistencyToken: "0/16B3748:571:public.posts",
+    });
+    expect(client.query.mock.calls.map(([sql]) => sql)).toEqual([
+      "BEGIN",
+      "INSERT INTO posts (title) VALUES ($1) RETURNING id",
+      expect.stringContaining("pg_current_xact_id"),
+      "COMMIT",
+      expect.stringContaining("pg_current_wal_lsn"),
+    ]);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("should carry no tables when the write changes no rows", async () => {
+    // Arrange
+    const { pool } = createPool({ rowCount: 0 });
+
+    // Act
+    const result = await queryWithConsistencyToken(
+      pool as any,
+      "INSERT INTO posts (title) VALUES ($1) ON CONFLICT DO NOTHING",
+      ["Title"],
+      ["public.posts"],
+    );
+
+    // Assert
+    expect(result.consistencyToken).toBe("0/16B3748:571:");
+  });
+
+  it("should roll back and release the client when the write fails", async () => {
+    // Arrange
+    const { pool, client } = createPool({ fail: true });
+
+    // Act & Assert
+    await expect(
+      queryWithConsistencyToken(
+        pool as any,
+        "INSERT INTO posts",
+        [],
+        ["public.posts"],
+      ),
+    ).rejects.toThrow("duplicate key");
+    expect(client.query).toHaveBeenLastCalledWith("ROLLBACK");
+    expect(client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * API のメトリクスの単体テスト
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import { httpMetrics } from "@/api/http-metrics";
+import { MetricsRegistry } from "@/lib/metrics";
+
+// レスポンスを返し終わった（finish）ところまでを再現する
+function handle(
+  registry: MetricsRegistry,
+  req: { method: string; baseUrl?: string; route?: { path: string } },
+  statusCode: number,
+) {
+  const res = Object.assign(new EventEmitter(), { statusCode });
+  const next = vi.fn();
+
+  httpMetrics(registry)({ baseUrl: "", ...req } as any, res as any, next);
+  res.emit("finish");
+
+  return next;
+}
+
+describe("httpMetrics", () => {
+  /**
+   * DDT: route ラベル
+   */
+  const routeCases = [
+    {
+      name: "the route pattern instead of the path",
+      req: { method: "GET", route: { path: "/posts/:id" } },
+      expected: "/posts/:id",
+    },
+    {
+      name: "the router prefix",
+      req: { method: "GET", baseUrl: "/v1", route: { path: "/posts" } },
+      expected: "/v1/posts",
+    },
+    {
+      name: "unmatched for requests without a route",
+      req: { method: "GET" },
+      expected: "unmatched",
+    },
+  ];
+
+  routeCases.forEach((testCase) => {
+    it(`should label requests with ${testCase.name}`, () => {
+      // Arrange
+      const registry = new MetricsRegistry();
+
+      // Act
+      const next = handle(registry, testCase.req, 200);
+
+      // Assert
+      expect(next).toHaveBeenCalled();
+      expect(
+        registry
+          .counter("http_requests_total", "")
+          .get({ route: testCase.expected, method: "GET", status: 200 }),
+      ).toBe(1);
+      expect(
+        registry
+          .histogram("http_request_duration_seconds", "")
+          .getCount({ route: testCase.expected, method: "GET" }),
+      ).toBe(1);
+    });
+  });
+
+  it("should count requests by status", () => {
+    const registry = new MetricsRegistry();
+    const req = { method: "GET", route: { path: "/posts/:id" } };
+
+    handle(registry, req, 200);
+    handle(registry, req, 404);
+    handle(registry, req, 404);
+
+    const requests = registry.counter("http_requests_total", "");
+    const labels = { route: "/posts/:id", method: "GET" };
+    expect(requests.get({ ...labels, status: 200 })).toBe(1);
+    expect(requests.get({ ...labels, status: 404 })).toBe(2);
+  });
+});
@@ -0,0 +1,641 @@
+/**
+ * 投稿の変更の Server-Sent Events（GET /posts/stream）の単体テスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import { AssignerProtocol } from "kafkajs";
+import {
+  MockConsumer,
+  MockProducer,
+  createMockDebeziumEvent,
+  createMockKafka,
+  createMockKafkaMessage,
+  createMockTombstoneMessage,
+} from "@/test-helpers/mock-kafka";
+import {
+  InvalidLastEventIdError,
+  POST_STREAM_GROUP_ID,
+  PostStreamHub,
+  decodePosition,
+  encodePosition,
+  parseStreamFilter,
+  postStreamHandler,
+  startPostStreamConsumer,
+  type PostStreamFilter,
+} from "@/api/post-stream";
+import { MetricsRegistry } from "@/lib/metrics";
+
+const post = (id: number, author = "Alice") => ({
+  id,
+  title: `Post ${id}`,
+  content: "Content",
+  author,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+// 書き込まれた SSE のフレームを記録する（full = true なら送信バッファがいっぱいのふりをする）
+function createWriter(full = false) {
+  const chunks: string[] = [];
+  const drain = new EventEmitter();
+  return {
+    chunks,
+    write: vi.fn((chunk: string) => {
+      chunks.push(chunk);
+      return !full;
+    }),
+    end: vi.fn(),
+    once: vi.fn((event: "drain", listener: () => void) =>
+      drain.once(event, listener),
+    ),
+    // テスト用: 送信バッファが空いた
+    drain: () => drain.emit("drain"),
+    // イベントのフレームだけ（id / event / data）
+    events: () =>
+      chunks
+        .filter((chunk) => chunk.startsWith("id:"))
+        .map((chunk) => {
+          const [, id, event, data] =
+            /^id: (.*)\nevent: (.*)\ndata: (.*)\n\n$/.exec(chunk)!;
+          return { id, event, data: JSON.parse(data) };
+        }),
+  };
+}
+
+describe("PostStreamHub", () => {
+  let registry: MetricsRegistry;
+  let hub: PostStreamHub;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    registry = new MetricsRegistry();
+    hub = new PostStreamHub({
+      maxConnections: 2,
+      bufferSize: 3,
+      heartbeatMs: 1000,
+      maxPendingWrites: 2,
+      registry,
+    });
+  });
+
+  afterEach(() => {
+    hub.close();
+    vi.useRealTimers();
+  });
+
+  const publish = (
+    offset: number,
+    op: "c" | "u" | "d" | "r" | "t",
+    row: unknown = post(1),
+    partition = 0,
+  ) =>
+    hub.publish({
+      partition,
+      offset: String(offset),
+      event: createMockDebeziumEvent({
+        op,
+        ...(op === "d" ? { before: row } : { after: row }),
+        source: { ts_ms: 1704067200000 },
+      }) as any,
+    });
+
+  it("should stream changes with their Kafka position as the id", () => {
+    // Arrange
+    const writer = createWriter();
+    hub.connect(writer, {});
+
+    // Act
+    publish(10, "c");
+    publish(11, "u");
+    publish(12, "d", { id: 1, author: null });
+    publish(5, "c", post(2), 1);
+
+    // Assert
+    expect(writer.events()).toEqual([
+      {
+        id: "0:10",
+        event: "post.created",
+        data: { op: "c", post: post(1), ts_ms: 1704067200000 },
+      },
+      expect.objectContaining({ id: "0:11", event: "post.updated" }),
+      expect.objectContaining({ id: "0:12", event: "post.deleted" }),
+      expect.objectContaining({ id: "0:12,1:5", event: "post.created" }),
+    ]);
+  });
+
+  it("should not stream snapshot reads", () => {
+    // Arrange
+    const writer = createWriter();
+    hub.connect(writer, {});
+
+    // Act
+    publish(10, "r");
+
+    // Assert
+    expect(writer.events()).toEqual([]);
+  });
+
+  /**
+   * DDT: 絞り込み
+   */
+  const filterCases: {
+    name: string;
+    filter: PostStreamFilter;
+    expected: string[];
+  }[] = [
+    {
+      name: "all changes without a filter",
+      filter: {},
+      expected: ["0:1", "0:2", "0:3", "0:4"],
+    },
+    {
+      name: "changes of the author and deletes of unknown authors",
+      filter: { author: "Alice" },
+      expected: ["0:1", "0:3", "0:4"],
+    },
+    {
+      name: "changes of the post IDs",
+      filter: { postIds: new Set([2]) },
+      expected: ["0:2", "0:3", "0:4"],
+    },
+    {
+      name: "changes matching both",
+      filter: { author: "Alice", postIds: new Set([2]) },
+      expected: ["0:3", "0:4"],
+    },
+  ];
+
+  // TRUNCATE（0:3）はどの絞り込みでも送る
+  it.each(filterCases)("should stream $name", ({ filter, expected }) => {
+    // Arrange
+    const writer = createWriter();
+    hub.connect(writer, filter);
+
+    // Act
+    publish(1, "c", post(1, "Alice"));
+    publish(2, "c", post(2, "Bob"));
+    publish(3, "t");
+    publish(4, "d", { id: 2, author: null });
+
+    // Assert
+    expect(writer.events().map((event) => event.id)).toEqual(expected);
+  });
+
+  it("should resume after the Last-Event-ID from the buffer", () => {
+    // Arrange
+    publish(10, "c", post(1));
+    publish(11, "c", post(2));
+    publish(12, "c", post(3));
+    const writer = createWriter();
+
+    // Act
+    hub.connect(writer, {}, "0:10");
+    publish(13, "c", post(4));
+
+    // Assert
+    expect(writer.events().map((event) => event.id)).toEqual([
+      "0:11",
+      "0:12",
+      "0:13",
+    ]);
+  });
+
+  it("should read the events no longer buffered again from Kafka", () => {
+    // Arrange: bufferSize = 3 なので 10 は捨てられている
+    const seeker = vi.fn();
+    hub.setSeeker(seeker);
+    for (const offset of [10, 11, 12, 13]) {
+      publish(offset, "c", post(offset));
+    }
+    const live = createWriter();
+    hub.connect(live, {});
+    const writer = createWriter();
+
+    // Act: 10 から読み直したイベントが届く
+    hub.connect(writer, {}, "0:9");
+    for (const offset of [10, 11, 12, 13, 14]) {
+      publish(offset, "c", post(offset));
+    }
+
+    // Assert
+    expect(seeker).toHaveBeenCalledWith(0, "10");
+    expect(writer.events().map((event) => event.id)).toEqual([
+      "0:10",
+      "0:11",
+      "0:12",
+      "0:13",
+      "0:14",
+    ]);
+    // 読み直した分は、もう受け取ったクライアントには送らない
+    expect(live.events().map((event) => event.id)).toEqual(["0:14"]);
+  });
+
+  /**
+   * DDT: 手元に無い位置からの再開は Kafka を seek して読み直す
+   */
+  const seekCases: {
+    name: string;
+    read: { partition: number; offset: number }[];
+    lastEventId: string;
+    expected: [number, string][];
+  }[] = [
+    {
+      // API の再起動をまたいで、末尾から読み始めた
+      name: "behind the first event read",
+      read: [{ partition: 0, offset: 100 }],
+      lastEventId: "0:50",
+      expected: [[0, "51"]],
+    },
+    {
+      // API が再起動した直後で、まだ何も読んでいない
+      name: "before any event is read since a restart",
+      read: [],
+      lastEventId: "0:50",
+      expected: [[0, "51"]],
+    },
+    {
+      // パーティション0 は読んだが、パーティション1 はまだ
+      name: "on a partition not read since a restart",
+      read: [{ partition: 0, offset: 100 }],
+      lastEventId: "0:99,1:40",
+      expected: [[1, "41"]],
+    },
+    {
+      name: "not when it is caught up",
+      read: [{ partition: 0, offset: 100 }],
+      lastEventId: "0:100",
+      expected: [],
+    },
+  ];
+
+  it.each(seekCases)("should seek $name", ({ read, lastEventId, expected }) => {
+    // Arrange
+    const seeker = vi.fn();
+    hub.setSeeker(seeker);
+    for (const { partition, offset } of read) {
+      publish(offset, "c", post(1), partition);
+    }
+
+    // Act
+    hub.connect(createWriter(), {}, lastEventId);
+
+    // Assert
+    expect(seeker.mock.calls).toEqual(expected);
+  });
+
+  it("should not seek again while reading from an earlier offset", () => {
+    // Arrange
+    const seeker = vi.fn();
+    hub.setSeeker(seeker);
+    publish(100, "c");
+    hub.connect(createWriter(), {}, "0:50");
+
+    // Act
+    hub.connect(createWriter(), {}, "0:60");
+
+    // Assert
+    expect(seeker.mock.calls).toEqual([[0, "51"]]);
+    expect(hub.nextOffsets()).toEqual(new Map([[0, "51"]]));
+  });
+
+  it("should ask the client to resync when the events are gone from Kafka too", () => {
+    // Arrange
+    hub.setSeeker(vi.fn());
+    publish(100, "c");
+    const writer = createWriter();
+    hub.connect(writer, {}, "0:50");
+
+    // Act: 保持期間を過ぎて、51 からではなく 80 から届いた
+    publish(80, "c");
+
+    // Assert
+    expect(writer.events().map((event) => [event.id, event.event])).toEqual([
+      ["0:80", "resync"],
+      ["0:80", "post.created"],
+    ]);
+  });
+
+  it("should advance the position past messages without an event", () => {
+    // Arrange
+    const writer = createWriter();
+    hub.connect(writer, {});
+
+    // Act
+    hub.publish({ partition: 0, offset: "10", event: null });
+    publish(11, "r");
+    publish(12, "c");
+
+    // Assert
+    expect(writer.events().map((event) => event.id)).toEqual(["0:12"]);
+    expect(hub.nextOffsets()).toEqual(new Map([[0, "13"]]));
+  });
+
+  it("should send heartbeats", () => {
+    // Arrange
+    const writer = createWriter();
+    hub.connect(writer, {});
+
+    // Act
+    vi.advanceTimersByTime(2500);
+
+    // Assert
+    expect(writer.chunks).toEqual([": heartbeat\n\n", ": heartbeat\n\n"]);
+  });
+
+  it("should drop a client that cannot keep up", () => {
+    // Arrange: maxPendingWrites = 2
+    const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const writer = createWriter(true);
+    hub.connect(writer, {});
+
+    // Act
+    for (const offset of [1, 2, 3, 4]) {
+      publish(offset, "c");
+    }
+
+    // Assert
+    expect(writer.write).toHaveBeenCalledTimes(3);
+    expect(writer.end).toHaveBeenCalled();
+    expect(hub.connections).toBe(0);
+    expect(
+      registry.counter("post_stream_slow_clients_dropped_total", "").get(),
+    ).toBe(1);
+    consoleSpy.mockRestore();
+  });
+
+  it("should keep a client that drains", () => {
+    // Arrange
+    const writer = createWriter(true);
+    hub.connect(writer, {});
+
+    // Act
+    for (const offset of [1, 2, 3, 4, 5, 6]) {
+      publish(offset, "c");
+      if (offset % 3 === 0) writer.drain();
+    }
+
+    // Assert
+    expect(writer.write).toHaveBeenCalledTimes(6);
+    expect(writer.end).not.toHaveBeenCalled();
+    expect(hub.connections).toBe(1);
+  });
+
+  it("should refuse connections over the cap", () => {
+    // Arrange: maxConnections = 2
+    const first = hub.connect(createWriter(), {});
+    hub.connect(createWriter(), {});
+
+    // Act & Assert
+    expect(hub.connect(createWriter(), {})).toBeNull();
+    expect(registry.gauge("post_stream_connections", "").get()).toBe(2);
+
+    hub.disconnect(first!);
+    expect(hub.connect(createWriter(), {})).not.toBeNull();
+  });
+
+  it("should stop writing to disconnected clients and end the rest on close", () => {
+    // Arrange
+    const gone = createWriter();
+    const open = createWriter();
+    hub.disconnect(hub.connect(gone, {})!);
+    hub.connect(open, {});
+
+    // Act
+    publish(1, "c");
+    hub.close();
+
+    // Assert
+    expect(gone.events()).toEqual([]);
+    expect(open.end).toHaveBeenCalled();
+    expect(hub.connections).toBe(0);
+  });
+});
+
+describe("startPostStreamConsumer", () => {
+  const TOPIC = "blogdb.public.posts";
+  let consumer: MockConsumer;
+  let kafka: ReturnType<typeof createMockKafka>;
+  let hub: PostStreamHub;
+
+  beforeEach(() => {
+    consumer = new MockConsumer();
+    kafka = createMockKafka(consumer, new MockProducer());
+    hub = new PostStreamHub({
+      maxConnections: 1,
+      bufferSize: 10,
+      heartbeatMs: 1000,
+      maxPendingWrites: 2,
+      registry: new MetricsRegistry(),
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    hub.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should read every partition in one group without committing", async () => {
+    // Act
+    await startPostStreamConsumer(kafka, TOPIC, hub);
+
+    // Assert
+    const options = vi.mocked(kafka.consumer).mock.calls[0][0];
+    expect(options.groupId).toBe(POST_STREAM_GROUP_ID);
+    expect(consumer.run).toHaveBeenCalledWith(
+      expect.objectContaining({ autoCommit: false }),
+    );
+
+    // どのメンバーにもすべてのパーティションを割り当てる
+    const assigner = options.partitionAssigners![0]({
+      cluster: {
+        findTopicPartitionMetadata: () => [
+          { partitionId: 0 },
+          { partitionId: 1 },
+        ],
+      },
+    } as any);
+    const assignments = await assigner.assign({
+      members: [{ memberId: "a" }, { memberId: "b" }] as any,
+      topics: [TOPIC],
+    });
+    expect(assignments.map(({ memberId }) => memberId)).toEqual(["a", "b"]);
+    for (const { memberAssignment } of assignments) {
+      expect(
+        AssignerProtocol.MemberAssignment.decode(memberAssignment)!.assignment,
+      ).toEqual({ [TOPIC]: [0, 1] });
+    }
+  });
+
+  it("should publish every message, including ones without an event", async () => {
+    // Arrange
+    const publishSpy = vi.spyOn(hub, "publish");
+    await startPostStreamConsumer(kafka, TOPIC, hub);
+
+    // Act
+    await consumer.deliver(
+      createMockKafkaMessage({
+        topic: TOPIC,
+        offset: "5",
+        value: JSON.stringify(
+          createMockDebeziumEvent({ op: "c", after: post(1) }),
+        ),
+      }),
+    );
+    await consumer.deliver(
+      createMockTombstoneMessage({ id: 1, topic: TOPIC, offset: "6" }),
+    );
+
+    // Assert
+    expect(publishSpy.mock.calls.map(([change]) => change)).toEqual([
+      expect.objectContaining({
+        partition: 0,
+        offset: "5",
+        event: expect.anything(),
+      }),
+      { partition: 0, offset: "6", event: null },
+    ]);
+  });
+
+  it("should seek where the hub asks and return there after a rebalance", async () => {
+    // Arrange
+    await startPostStreamConsumer(kafka, TOPIC, hub);
+    hub.publish({ partition: 0, offset: "100", event: null });
+
+    // Act
+    hub.connect(createWriter(), {}, "0:50");
+    consumer.emit(consumer.events.GROUP_JOIN);
+
+    // Assert
+    expect(consumer.seek.mock.calls).toEqual([
+      [{ topic: TOPIC, partition: 0, offset: "51" }],
+      [{ topic: TOPIC, partition: 0, offset: "51" }],
+    ]);
+  });
+});
+
+describe("position", () => {
+  it("should round-trip the offsets of each partition", () => {
+    const position = new Map([
+      [1, 45n],
+      [0, 123n],
+    ]);
+
+    expect(encodePosition(position)).toBe("0:123,1:45");
+    expect(decodePosition("0:123,1:45")).toEqual(position);
+  });
+
+  it.each(["", "abc", "0:", "0:1,", "-1:5"])(
+    "should reject %j",
+    (lastEventId) => {
+      expect(() => decodePosition(lastEventId)).toThrow(
+        InvalidLastEventIdError,
+      );
+    },
+  );
+});
+
+describe("parseStreamFilter", () => {
+  it.each([
+    { query: {}, expected: {} },
+    { query: { author: "Alice" }, expected: { author: "Alice" } },
+    { query: { post_id: "1,2" }, expected: { postIds: new Set([1, 2]) } },
+    {
+      query: { post_id: "1,x" },
+      expected: {
+        error: "post_id must be a comma-separated list of post IDs",
+      },
+    },
+  ])("should parse $query", ({ query, expected }) => {
+    expect(parseStreamFilter(query)).toEqual(expected);
+  });
+});
+
+describe("postStreamHandler", () => {
+  function handle(
+    hub: PostStreamHub,
+    query: Record<string, string | undefined>,
+    headers: Record<string, string | undefined> = {},
+  ) {
+    const req = Object.assign(new EventEmitter(), {
+      query,
+      get: (name: string) => headers[name],
+    });
+    const res = {
+      status: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      writeHead: vi.fn(),
+      write: vi.fn(),
+      end: vi.fn(),
+      once: vi.fn(),
+    };
+    postStreamHandler(hub)(req as any, res as any, vi.fn() as any);
+    return { req, res };
+  }
+
+  let hub: PostStreamHub;
+
+  beforeEach(() => {
+    hub = new PostStreamHub({
+      maxConnections: 1,
+      bufferSize: 10,
+      heartbeatMs: 1000,
+      maxPendingWrites: 2,
+      registry: new MetricsRegistry(),
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    hub.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should open an event stream and disconnect when the client goes away", () => {
+    // Act
+    const { req, res } = handle(hub, {});
+
+    // Assert
+    expect(res.writeHead).toHaveBeenCalledWith(
+      200,
+      expect.objectContaining({ "Content-Type": "text/event-stream" }),
+    );
+    expect(hub.connections).toBe(1);
+
+    req.emit("close");
+    expect(hub.connections).toBe(0);
+  });
+
+  it("should return 503 over the connection cap", () => {
+    // Arrange: maxConnections = 1
+    handle(hub, {});
+
+    // Act
+    const { res } = handle(hub, {});
+
+    // Assert
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.writeHead).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    { name: "a malformed filter", query: { post_id: "x" }, headers: {} },
+    {
+      name: "a malformed Last-Event-ID",
+      query: {},
+      headers: { "Last-Event-ID": "abc" },
+    },
+    {
+      name: "a malformed last_event_id",
+      query: { last_event_id: "abc" },
+      headers: {},
+    },
+  ])("should return 400 for $name", ({ query, headers }) => {
+    const { res } = handle(hub, query, headers);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(hub.connections).toBe(0);
+  });
+});
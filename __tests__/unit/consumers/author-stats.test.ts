@@ -0,0 +1,285 @@
+/**
+ * Author Stats（著者ごとの集計）の単体テスト
+ * 実際のハンドラーを MockRedis で動かす
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  createMockDebeziumEvent,
+  createMockTombstoneMessage,
+  createMockTruncateEvent,
+} from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import {
+  createAuthorStatsSink,
+  seedPostStats,
+} from "@/consumers/author-stats-handlers";
+import {
+  AUTHOR_RANKING_KEY,
+  authorStatsKey,
+  toAuthorStats,
+} from "@/consumers/author-stats-scripts";
+import { routeChangeEvent } from "@/lib/change-event-consumer";
+
+const post = (overrides: Partial<Record<string, unknown>> = {}) => ({
+  id: 1,
+  title: "Title",
+  content: "Hello",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const create = (lsn: number, overrides: Partial<Record<string, unknown>>) =>
+  createMockDebeziumEvent({ op: "c", after: post(overrides), source: { lsn } });
+
+const update = (
+  lsn: number,
+  before: Partial<Record<string, unknown>> | null,
+  after: Partial<Record<string, unknown>>,
+) =>
+  createMockDebeziumEvent({
+    op: "u",
+    before: before && post(before),
+    after: post(after),
+    source: { lsn },
+  });
+
+// REPLICA IDENTITY DEFAULT の削除イベント（before は主キーだけ）
+const remove = (lsn: number, id: number) =>
+  createMockDebeziumEvent({
+    op: "d",
+    before: { id, title: null, content: null, author: null },
+    source: { lsn },
+  });
+
+describe("Author Stats", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    vi.clearAllMocks();
+  });
+
+  async function apply(
+    ...events: ReturnType<typeof createMockDebeziumEvent>[]
+  ) {
+    for (const event of events) {
+      await routeChangeEvent(
+        event as any,
+        createAuthorStatsSink(mockRedis as any),
+      );
+    }
+  }
+
+  const statsOf = async (author: string) =>
+    toAuthorStats(author, await mockRedis.hgetall(authorStatsKey(author)));
+
+  const ranking = () =>
+    Object.fromEntries(
+      mockRedis.getAllSortedSets().get(AUTHOR_RANKING_KEY) ?? [],
+    );
+
+  /**
+   * DDT: イベントの並びと集計の結果
+   */
+  const cases = [
+    {
+      name: "creates",
+      events: [
+        create(100, { id: 1, content: "Hello" }),
+        create(200, {
+          id: 2,
+          content: "World!",
+          created_at: "2024-01-03T00:00:00.000Z",
+        }),
+      ],
+      expected: {
+        Alice: {
+          post_count: 2,
+          first_post_at: "2024-01-01T00:00:00.000Z",
+          last_post_at: "2024-01-03T00:00:00.000Z",
+          total_content_length: 11,
+        },
+      },
+    },
+    {
+      name: "an update of the content",
+      events: [
+        create(100, { content: "Hello" }),
+        update(200, { content: "Hello" }, { content: "Hello, world" }),
+      ],
+      expected: {
+        Alice: {
+          post_count: 1,
+          first_post_at: "2024-01-01T00:00:00.000Z",
+          last_post_at: "2024-01-01T00:00:00.000Z",
+          total_content_length: 12,
+        },
+      },
+    },
+    {
+      name: "an update that changes the author (without before)",
+      events: [
+        create(100, { id: 1 }),
+        create(200, { id: 2, created_at: "2024-01-02T00:00:00.000Z" }),
+        update(300, null, {
+          id: 2,
+          author: "Bob",
+          created_at: "2024-01-02T00:00:00.000Z",
+        }),
+      ],
+      expected: {
+        Alice: {
+          post_count: 1,
+          first_post_at: "2024-01-01T00:00:00.000Z",
+          last_post_at: "2024-01-01T00:00:00.000Z",
+          total_content_length: 5,
+        },
+        Bob: {
+          post_count: 1,
+          first_post_at: "2024-01-02T00:00:00.000Z",
+          last_post_at: "2024-01-02T00:00:00.000Z",
+          total_content_length: 5,
+        },
+      },
+    },
+    {
+      name: "a delete of the first post",
+      events: [
+        create(100, { id: 1 }),
+        create(200, { id: 2, created_at: "2024-01-02T00:00:00.000Z" }),
+        remove(300, 1),
+      ],
+      expected: {
+        Alice: {
+          post_count: 1,
+          first_post_at: "2024-01-02T00:00:00.000Z",
+          last_post_at: "2024-01-02T00:00:00.000Z",
+          total_content_length: 5,
+        },
+      },
+    },
+    {
+      name: "a delete of the last post of an author",
+      events: [create(100, { id: 1 }), remove(200, 1)],
+      expected: { Alice: null },
+    },
+  ];
+
+  cases.forEach((testCase) => {
+    it(`should aggregate ${testCase.name}`, async () => {
+      // Act
+      await apply(...testCase.events);
+
+      // Assert
+      for (const [author, expected] of Object.entries(testCase.expected)) {
+        expect(await statsOf(author)).toEqual(
+          expected && { author, ...expected },
+        );
+      }
+    });
+  });
+
+  it("should not count a redelivered event twice", async () => {
+    // Arrange
+    const event = create(100, {});
+    await apply(event);
+
+    // Act: at-least-once で同じイベントがもう一度届く
+    await apply(event);
+
+    // Assert
+    expect((await statsOf("Alice"))?.post_count).toBe(1);
+    expect((await statsOf("Alice"))?.total_content_length).toBe(5);
+  });
+
+  it("should not bring back a deleted post with a stale event", async () => {
+    // Arrange
+    await apply(create(100, {}), remove(300, 1));
+
+    // Act
+    await apply(update(200, null, { content: "Stale" }));
+
+    // Assert
+    expect(await statsOf("Alice")).toBeNull();
+  });
+
+  it("should rank authors by post count", async () => {
+    // Act
+    await apply(
+      create(100, { id: 1, author: "Alice" }),
+      create(200, { id: 2, author: "Bob" }),
+      create(300, { id: 3, author: "Bob" }),
+    );
+
+    // Assert
+    expect(ranking()).toEqual({ Alice: 1, Bob: 2 });
+    expect(await mockRedis.zrevrange(AUTHOR_RANKING_KEY, 0, -1)).toEqual([
+      "Bob",
+      "Alice",
+    ]);
+  });
+
+  it("should remove an author from the ranking when their last post moves", async () => {
+    // Act
+    await apply(create(100, {}), update(200, null, { author: "Bob" }));
+
+    // Assert
+    expect(ranking()).toEqual({ Bob: 1 });
+  });
+
+  it("should uncount a post left behind by a compacted delete", async () => {
+    // Arrange
+    await apply(create(100, { id: 1 }), create(200, { id: 2 }));
+    const { message } = createMockTombstoneMessage({ id: 1 });
+
+    // Act
+    await createAuthorStatsSink(mockRedis as any).tombstone!(message.key);
+
+    // Assert
+    expect((await statsOf("Alice"))?.post_count).toBe(1);
+  });
+
+  it("should delete all stats on TRUNCATE", async () => {
+    // Arrange
+    await apply(create(100, {}));
+    await mockRedis.set("post:1", "{}");
+
+    // Act
+    await apply(createMockTruncateEvent({ source: { lsn: 200 } }));
+
+    // Assert
+    expect(await statsOf("Alice")).toBeNull();
+    expect(ranking()).toEqual({});
+    expect(await mockRedis.get("post:1")).toBe("{}");
+  });
+
+  it("should rebuild from the posts in PostgreSQL and the changes after the head", async () => {
+    // Arrange: 付け替えた末尾より後の変更
+    await apply(create(100, { id: 1 }), create(200, { id: 2, author: "Bob" }));
+    const changes = [
+      update(300, null, { id: 1, author: "Bob", content: "Moved" }),
+      remove(400, 2),
+    ];
+    await apply(...changes);
+    const before = await statsOf("Bob");
+
+    // Act: 集計を消して PostgreSQL から作る（300 の後、400 の前に読んだ）。その後に続きを読む
+    mockRedis.clear();
+    await seedPostStats(
+      [
+        post({ id: 1, author: "Bob", content: "Moved" }),
+        post({ id: 2, author: "Bob" }),
+      ] as any,
+      mockRedis as any,
+    );
+    await apply(...changes);
+
+    // Assert
+    expect(await statsOf("Bob")).toEqual(before);
+    expect(before).toMatchObject({ post_count: 1, total_content_length: 5 });
+    expect(await statsOf("Alice")).toBeNull();
+  });
+});
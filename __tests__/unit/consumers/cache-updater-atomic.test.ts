@@ -0,0 +1,192 @@
+/**
+ * Cache Updater のアトミックな複数キー更新の単体テスト
+ * 1イベント = 1回のLuaスクリプト実行になっていることを確認する
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockDebeziumEvent } from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { handleChangeEvent } from "@/consumers/cache-updater-handlers";
+
+const post = (id: number, title: string) => ({
+  id,
+  title,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+describe("Cache Updater Atomic Updates", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    vi.clearAllMocks();
+  });
+
+  async function apply(event: ReturnType<typeof createMockDebeziumEvent>) {
+    await handleChangeEvent(event as any, mockRedis as any);
+  }
+
+  /**
+   * DDT: どの操作も1回のスクリプト実行だけでRedisを更新する
+   */
+  const singleRoundTripCases = [
+    {
+      name: "create",
+      event: createMockDebeziumEvent({
+        op: "c",
+        after: post(1, "v1"),
+        source: { lsn: 100 },
+      }),
+    },
+    {
+      name: "update",
+      event: createMockDebeziumEvent({
+        op: "u",
+        after: post(1, "v2"),
+        source: { lsn: 200 },
+      }),
+    },
+    {
+      name: "delete",
+      event: createMockDebeziumEvent({
+        op: "d",
+        before: post(1, "v2"),
+        source: { lsn: 300 },
+      }),
+    },
+  ];
+
+  singleRoundTripCases.forEach((testCase) => {
+    it(`should apply ${testCase.name} with a single script call`, async () => {
+      // Act
+      await apply(testCase.event);
+
+      // Assert: 個別のコマンドは送らない（途中で落ちても中途半端な状態にならない）
+      expect(mockRedis.eval).toHaveBeenCalledTimes(1);
+      expect(mockRedis.set).not.toHaveBeenCalled();
+      expect(mockRedis.setex).not.toHaveBeenCalled();
+      expect(mockRedis.del).not.toHaveBeenCalled();
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+      expect(mockRedis.zrem).not.toHaveBeenCalled();
+      expect(mockRedis.expire).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should update the post and the author list together", async () => {
+    // Act
+    await apply(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(1, "v1"),
+        source: { lsn: 100 },
+      }),
+    );
+
+    // Assert
+    expect(mockRedis.getAllData().has("post:1")).toBe(true);
+    expect(await mockRedis.zrevrange("author:Alice:posts", 0, -1)).toEqual([
+      "1",
+    ]);
+  });
+
+  it("should remove the post and the author list entry together", async () => {
+    // Arrange
+    await apply(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(1, "v1"),
+        source: { lsn: 100 },
+      }),
+    );
+
+    // Act
+    await apply(
+      createMockDebeziumEvent({
+        op: "d",
+        before: post(1, "v1"),
+        source: { lsn: 200 },
+      }),
+    );
+
+    // Assert
+    expect(mockRedis.getAllData().has("post:1")).toBe(false);
+    expect(await mockRedis.zrevrange("author:Alice:posts", 0, -1)).toEqual([]);
+  });
+
+  it("should leave the author list untouched for stale events", async () => {
+    // Arrange: 削除済み（トゥームストーンあり）
+    await apply(
+      createMockDebeziumEvent({
+        op: "d",
+        before: post(1, "v2"),
+        source: { lsn: 300 },
+      }),
+    );
+
+    // Act: 遅れて届いた古い create
+    await apply(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(1, "v1"),
+        source: { lsn: 100 },
+      }),
+    );
+
+    // Assert
+    expect(await mockRedis.zrevrange("author:Alice:posts", 0, -1)).toEqual([]);
+  });
+
+  it("should propagate Redis errors instead of swallowing them", async () => {
+    // Arrange
+    mockRedis.eval.mockRejectedValueOnce(new Error("Connection is closed."));
+
+    // Act & Assert: 呼び出し側でリトライ/DLQに回せるように例外を投げる
+    await expect(
+      apply(
+        createMockDebeziumEvent({
+          op: "c",
+          after: post(1, "v1"),
+          source: { lsn: 100 },
+        }),
+      ),
+    ).rejects.toThrow("Connection is closed.");
+  });
+
+  describe("MockRedis pipeline / multi", () => {
+    it("should queue commands and return [error, result] pairs", async () => {
+      // Arrange
+      await mockRedis.set("post:1", "a");
+
+      // Act
+      const results = await mockRedis
+        .pipeline()
+        .get("post:1")
+        .get("post:2")
+        .exec();
+
+      // Assert
+      expect(results).toEqual([
+        [null, "a"],
+        [null, null],
+      ]);
+    });
+
+    it("should execute multi commands only on exec", async () => {
+      // Arrange
+      const multi = mockRedis.multi().set("post:1", "a").zadd("k", 1, "1");
+
+      // Assert: exec 前は何も反映されていない
+      expect(mockRedis.getAllData().has("post:1")).toBe(false);
+
+      // Act
+      await multi.exec();
+
+      // Assert
+      expect(mockRedis.getAllData().get("post:1")).toBe("a");
+      expect(await mockRedis.zrevrange("k", 0, -1)).toEqual(["1"]);
+    });
+  });
+});
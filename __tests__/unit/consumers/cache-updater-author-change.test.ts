@@ -0,0 +1,130 @@
+/**
+ * Cache Updater の著者変更（二次キーの付け替え）の単体テスト
+ * before がある場合（REPLICA IDENTITY FULL）と無い場合（DEFAULT）の両方を確認する
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockDebeziumEvent } from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { handleChangeEvent } from "@/consumers/cache-updater-handlers";
+
+const post = (author: string) => ({
+  id: 1,
+  title: "Title",
+  content: "Content",
+  author,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+// REPLICA IDENTITY DEFAULT の削除イベントの before（主キー以外は null）
+const keyOnly = { id: 1, title: null, content: null, author: null };
+
+describe("Cache Updater Author Change", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    vi.clearAllMocks();
+  });
+
+  async function apply(event: ReturnType<typeof createMockDebeziumEvent>) {
+    await handleChangeEvent(event as any, mockRedis as any);
+  }
+
+  const authorPosts = (author: string) =>
+    mockRedis.zrevrange(`author:${author}:posts`, 0, -1);
+
+  /**
+   * DDT: 著者が変わったら以前の著者のリストから外れる
+   */
+  const authorChangeCases = [
+    {
+      name: "before is present (REPLICA IDENTITY FULL)",
+      update: createMockDebeziumEvent({
+        op: "u",
+        before: post("Alice"),
+        after: post("Bob"),
+        source: { lsn: 200 },
+      }),
+    },
+    {
+      name: "before is missing (falls back to last-known author)",
+      update: createMockDebeziumEvent({
+        op: "u",
+        before: null,
+        after: post("Bob"),
+        source: { lsn: 200 },
+      }),
+    },
+  ];
+
+  authorChangeCases.forEach((testCase) => {
+    it(`should move the post to the new author when ${testCase.name}`, async () => {
+      // Arrange
+      await apply(
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("Alice"),
+          source: { lsn: 100 },
+        }),
+      );
+
+      // Act
+      await apply(testCase.update);
+
+      // Assert
+      expect(await authorPosts("Alice")).toEqual([]);
+      expect(await authorPosts("Bob")).toEqual(["1"]);
+    });
+  });
+
+  it("should remove the post from the last-known author on a key-only delete", async () => {
+    // Arrange
+    await apply(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post("Alice"),
+        source: { lsn: 100 },
+      }),
+    );
+
+    // Act
+    await apply(
+      createMockDebeziumEvent({
+        op: "d",
+        before: keyOnly as any,
+        source: { lsn: 200 },
+      }),
+    );
+
+    // Assert
+    expect(await authorPosts("Alice")).toEqual([]);
+    expect(mockRedis.getAllData().has("post:1:author")).toBe(false);
+  });
+
+  it("should not move the post on a stale author change", async () => {
+    // Arrange: Bob に変わった後の状態
+    await apply(
+      createMockDebeziumEvent({
+        op: "u",
+        before: post("Alice"),
+        after: post("Bob"),
+        source: { lsn: 200 },
+      }),
+    );
+
+    // Act: 遅れて届いた古いイベント（著者は Alice）
+    await apply(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post("Alice"),
+        source: { lsn: 100 },
+      }),
+    );
+
+    // Assert
+    expect(await authorPosts("Alice")).toEqual([]);
+    expect(await authorPosts("Bob")).toEqual(["1"]);
+  });
+});
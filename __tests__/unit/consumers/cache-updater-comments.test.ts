@@ -0,0 +1,152 @@
+/**
+ * Cache Updater のコメントのハンドラーの単体テスト
+ * 実際のハンドラーを MockRedis で動かす
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  createMockDebeziumEvent,
+  createMockTombstoneMessage,
+} from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { createCommentCacheSink } from "@/consumers/cache-updater-comments";
+import { createCacheSinks } from "@/consumers/cache-updater-handlers";
+import { routeChangeEvent } from "@/lib/change-event-consumer";
+
+const comment = (overrides: Partial<Record<string, unknown>> = {}) => ({
+  id: 10,
+  post_id: 1,
+  author: "Bob",
+  body: "Nice post",
+  created_at: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+function commentEvent(params: {
+  op: "c" | "u" | "d";
+  before?: unknown;
+  after?: unknown;
+  lsn: number;
+}) {
+  return createMockDebeziumEvent({
+    ...params,
+    source: { lsn: params.lsn, table: "comments" },
+  });
+}
+
+describe("Cache Updater Comments", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    vi.clearAllMocks();
+  });
+
+  async function apply(event: ReturnType<typeof createMockDebeziumEvent>) {
+    await routeChangeEvent(
+      event as any,
+      createCommentCacheSink(mockRedis as any),
+    );
+  }
+
+  const commentIds = (postId: number) =>
+    [...(mockRedis.getAllSortedSets().get(`post:${postId}:comments`) ?? [])]
+      .sort(([, a], [, b]) => a - b)
+      .map(([id]) => id);
+
+  it("should cache a comment and list it under its post", async () => {
+    // Act
+    await apply(commentEvent({ op: "c", after: comment(), lsn: 100 }));
+
+    // Assert
+    expect(JSON.parse((await mockRedis.get("comment:10"))!)).toEqual(comment());
+    expect(commentIds(1)).toEqual(["10"]);
+    expect(await mockRedis.get("comment:10:post")).toBe("1");
+  });
+
+  it("should list comments of a post oldest first", async () => {
+    // Arrange
+    const newer = comment({ id: 11, created_at: "2024-01-02T00:00:00.000Z" });
+
+    // Act: 新しいコメントのイベントが先に届いても作成日時の順に並ぶ
+    await apply(commentEvent({ op: "c", after: newer, lsn: 200 }));
+    await apply(commentEvent({ op: "c", after: comment(), lsn: 100 }));
+
+    // Assert
+    expect(commentIds(1)).toEqual(["10", "11"]);
+  });
+
+  it("should move a comment to its new post", async () => {
+    // Arrange
+    await apply(commentEvent({ op: "c", after: comment(), lsn: 100 }));
+
+    // Act: before が無い（REPLICA IDENTITY DEFAULT）更新
+    await apply(
+      commentEvent({ op: "u", after: comment({ post_id: 2 }), lsn: 200 }),
+    );
+
+    // Assert
+    expect(commentIds(1)).toEqual([]);
+    expect(commentIds(2)).toEqual(["10"]);
+  });
+
+  it("should remove a deleted comment using the last known post", async () => {
+    // Arrange
+    await apply(commentEvent({ op: "c", after: comment(), lsn: 100 }));
+
+    // Act: before に主キーしか無い削除
+    await apply(commentEvent({ op: "d", before: { id: 10 }, lsn: 200 }));
+
+    // Assert
+    expect(await mockRedis.get("comment:10")).toBeNull();
+    expect(commentIds(1)).toEqual([]);
+  });
+
+  it("should not bring back a deleted comment with a stale event", async () => {
+    // Arrange
+    await apply(commentEvent({ op: "d", before: comment(), lsn: 200 }));
+
+    // Act
+    await apply(commentEvent({ op: "c", after: comment(), lsn: 100 }));
+
+    // Assert
+    expect(await mockRedis.get("comment:10")).toBeNull();
+    expect(commentIds(1)).toEqual([]);
+  });
+
+  it("should delete a comment left behind by a compacted delete", async () => {
+    // Arrange
+    await apply(commentEvent({ op: "c", after: comment(), lsn: 100 }));
+    const { message } = createMockTombstoneMessage({
+      id: 10,
+      topic: "blogdb.public.comments",
+    });
+
+    // Act
+    await createCommentCacheSink(mockRedis as any).tombstone!(message.key);
+
+    // Assert
+    expect(await mockRedis.get("comment:10")).toBeNull();
+    expect(commentIds(1)).toEqual([]);
+  });
+
+  it("should truncate only comment keys", async () => {
+    // Arrange
+    await apply(commentEvent({ op: "c", after: comment(), lsn: 100 }));
+    await mockRedis.set("post:1", "{}");
+
+    // Act
+    await createCommentCacheSink(mockRedis as any).truncate!();
+
+    // Assert
+    expect(await mockRedis.get("comment:10")).toBeNull();
+    expect(commentIds(1)).toEqual([]);
+    expect(await mockRedis.get("post:1")).toBe("{}");
+  });
+
+  it("should share one close between the posts and comments sinks", () => {
+    const sinks = createCacheSinks(mockRedis as any);
+
+    expect(sinks["public.comments"]?.close).toBe(sinks["public.posts"]?.close);
+  });
+});
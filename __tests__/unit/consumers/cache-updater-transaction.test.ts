@@ -0,0 +1,178 @@
+/**
+ * Cache Updater のトランザクション単位の反映の単体テスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  createMockDebeziumEvent,
+  createMockTruncateEvent,
+} from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import {
+  createCacheSinks,
+  handleTransaction,
+} from "@/consumers/cache-updater-handlers";
+
+const post = (id: number, title = `Post ${id}`) => ({
+  id,
+  title,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+describe("Cache Updater Transactions", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    vi.clearAllMocks();
+  });
+
+  it("should apply every event of a transaction in one MULTI/EXEC", async () => {
+    // Arrange
+    const events = [
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(1),
+        source: { lsn: 100 },
+      }),
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(2),
+        source: { lsn: 101 },
+      }),
+    ];
+
+    // Act
+    await handleTransaction("tx-1", events as any, mockRedis as any);
+
+    // Assert
+    expect(mockRedis.multi).toHaveBeenCalledTimes(1);
+    expect(mockRedis.multi.mock.results[0].value.exec).toHaveBeenCalledTimes(1);
+    expect(mockRedis.getAllData().has("post:1")).toBe(true);
+    expect(mockRedis.getAllData().has("post:2")).toBe(true);
+  });
+
+  it("should apply events of the same post in transaction order", async () => {
+    // Arrange
+    const events = [
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(1, "v1"),
+        source: { lsn: 100 },
+      }),
+      createMockDebeziumEvent({
+        op: "u",
+        after: post(1, "v2"),
+        source: { lsn: 101 },
+      }),
+    ];
+
+    // Act
+    await handleTransaction("tx-1", events as any, mockRedis as any);
+
+    // Assert
+    expect(JSON.parse(mockRedis.getAllData().get("post:1")!).title).toBe("v2");
+  });
+
+  it("should run a truncate first and drop the events before it", async () => {
+    // Arrange
+    await mockRedis.set("post:9", "old");
+    const events = [
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(1),
+        source: { lsn: 100 },
+      }),
+      createMockTruncateEvent({ source: { lsn: 101 } }),
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(2),
+        source: { lsn: 102 },
+      }),
+    ];
+
+    // Act
+    await handleTransaction("tx-1", events as any, mockRedis as any);
+
+    // Assert
+    const keys = [...mockRedis.getAllData().keys()];
+    expect(keys).toContain("post:2");
+    expect(keys).not.toContain("post:1");
+    expect(keys).not.toContain("post:9");
+  });
+
+  it("should delete a post and its comments in one MULTI/EXEC", async () => {
+    // Arrange
+    const sinks = createCacheSinks(mockRedis as any);
+    const comment = {
+      id: 10,
+      post_id: 1,
+      author: "Bob",
+      body: "Nice post",
+      created_at: "2024-01-01T00:00:00.000Z",
+    };
+    await handleTransaction(
+      "tx-1",
+      [
+        createMockDebeziumEvent({
+          op: "c",
+          after: post(1),
+          source: { lsn: 100 },
+        }),
+        createMockDebeziumEvent({
+          op: "c",
+          after: comment,
+          source: { lsn: 101, table: "comments" },
+        }),
+      ] as any,
+      mockRedis as any,
+    );
+    mockRedis.multi.mockClear();
+
+    // Act: 投稿の削除が comments に ON DELETE CASCADE する
+    await sinks["public.posts"]!.applyTransaction!("tx-2", [
+      createMockDebeziumEvent({
+        op: "d",
+        before: post(1),
+        source: { lsn: 200 },
+      }),
+      createMockDebeziumEvent({
+        op: "d",
+        before: comment,
+        source: { lsn: 201, table: "comments" },
+      }),
+    ] as any);
+
+    // Assert
+    expect(sinks["public.comments"]!.applyTransaction).toBe(
+      sinks["public.posts"]!.applyTransaction,
+    );
+    expect(mockRedis.multi).toHaveBeenCalledTimes(1);
+    const keys = [...mockRedis.getAllData().keys()];
+    expect(keys).not.toContain("post:1");
+    expect(keys).not.toContain("comment:10");
+  });
+
+  it("should throw when a command in the transaction fails", async () => {
+    // Arrange
+    mockRedis.eval.mockRejectedValueOnce(new Error("Connection is closed."));
+
+    // Act & Assert: 呼び出し側でリトライ/DLQに回す
+    await expect(
+      handleTransaction(
+        "tx-1",
+        [
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(1),
+            source: { lsn: 100 },
+          }),
+        ] as any,
+        mockRedis as any,
+      ),
+    ).rejects.toThrow("Connection is closed.");
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Cache Updater の古いイベント対策（LSNバージョニング）の単体テスト
+ * 実際のハンドラーを MockRedis で動かす
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockDebeziumEvent } from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { handleChangeEvent } from "@/consumers/cache-updater-handlers";
+
+const post = (title: string) => ({
+  id: 1,
+  title,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+describe("Cache Updater Versioning", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    vi.clearAllMocks();
+  });
+
+  async function apply(event: ReturnType<typeof createMockDebeziumEvent>) {
+    await handleChangeEvent(event as any, mockRedis as any);
+  }
+
+  /**
+   * DDT: 届く順番が入れ替わっても最新の状態に収束する
+   */
+  const orderingCases = [
+    {
+      name: "in-order update keeps newest title",
+      events: [
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("v1"),
+          source: { lsn: 100 },
+        }),
+        createMockDebeziumEvent({
+          op: "u",
+          after: post("v2"),
+          source: { lsn: 200 },
+        }),
+      ],
+      expectedTitle: "v2",
+    },
+    {
+      name: "reordered update does not overwrite newer data",
+      events: [
+        createMockDebeziumEvent({
+          op: "u",
+          after: post("v2"),
+          source: { lsn: 200 },
+        }),
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("v1"),
+          source: { lsn: 100 },
+        }),
+      ],
+      expectedTitle: "v2",
+    },
+    {
+      name: "late create after delete does not resurrect the post",
+      events: [
+        createMockDebeziumEvent({
+          op: "d",
+          before: post("v2"),
+          source: { lsn: 300 },
+        }),
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("v1"),
+          source: { lsn: 100 },
+        }),
+      ],
+      expectedTitle: null,
+    },
+  ];
+
+  orderingCases.forEach((testCase) => {
+    it(testCase.name, async () => {
+      // Act
+      for (const event of testCase.events) {
+        await apply(event);
+      }
+
+      // Assert
+      const cached = await mockRedis.get("post:1");
+      expect(cached ? JSON.parse(cached).title : null).toBe(
+        testCase.expectedTitle,
+      );
+    });
+  });
+
+  it("should not touch author list for stale events", async () => {
+    // Arrange
+    await apply(
+      createMockDebeziumEvent({
+        op: "d",
+        before: post("v2"),
+        source: { lsn: 300 },
+      }),
+    );
+    vi.clearAllMocks();
+
+    // Act
+    await apply(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post("v1"),
+        source: { lsn: 100 },
+      }),
+    );
+
+    // Assert
+    expect(mockRedis.zadd).not.toHaveBeenCalled();
+  });
+});
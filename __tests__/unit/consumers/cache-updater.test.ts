@@ -9,7 +9,7 @@ import {
   generateDebeziumTestCases,
 } from "@/test-helpers/mock-kafka";
 import { createMockRedis } from "@/test-helpers/mock-redis";
-import type { DebeziumChangeEvent } from "@/types/index";
+import type { DebeziumChangeEvent, Post } from "@/types/index";
 
 const CACHE_TTL = 300; // 5分
 
@@ -35,7 +35,7 @@ describe("Cache Updater Consumer", () => {
           value: JSON.stringify(testCase.event),
         });
 
-        const changeEvent: DebeziumChangeEvent = JSON.parse(
+        const changeEvent: DebeziumChangeEvent<Post> = JSON.parse(
           message.message.value!.toString(),
         );
 
@@ -272,7 +272,7 @@ describe("Cache Updater Consumer", () => {
  * テスト対象の関数（実際のConsumerから抽出）
  */
 async function handleCreateOrUpdate(
-  event: DebeziumChangeEvent,
+  event: DebeziumChangeEvent<Post>,
   redis: ReturnType<typeof createMockRedis>,
 ) {
   const post = event.payload.after;
@@ -304,7 +304,7 @@ async function handleCreateOrUpdate(
 }
 
 async function handleDelete(
-  event: DebeziumChangeEvent,
+  event: DebeziumChangeEvent<Post>,
   redis: ReturnType<typeof createMockRedis>,
 ) {
   const post = event.payload.before;
@@ -0,0 +1,428 @@
+/**
+ * Search Indexer のバッチ処理（Bulk API）の単体テスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { KafkaMessage } from "kafkajs";
+import {
+  createMockDebeziumEvent,
+  createMockKafkaMessage,
+  createMockTombstoneMessage,
+  createMockTruncateEvent,
+} from "@/test-helpers/mock-kafka";
+import { createMockElasticsearch } from "@/test-helpers/mock-elasticsearch";
+import {
+  bulkIndex,
+  collapseByPostId,
+  toBulkOperations,
+  writeBulk,
+} from "@/consumers/search-indexer-bulk";
+import type { RetryPolicy } from "@/lib/retry";
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 10,
+  maxDelayMs: 100,
+  multiplier: 2,
+  jitter: 0,
+};
+
+const noSleep = vi.fn(async () => {});
+
+const post = (id: number, title: string) => ({
+  id,
+  title,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+function toMessage(offset: number, value: unknown): KafkaMessage {
+  return createMockKafkaMessage({
+    topic: "blogdb.public.posts",
+    value: typeof value === "string" ? value : JSON.stringify(value),
+    offset: offset.toString(),
+  }).message;
+}
+
+describe("Search Indexer Bulk", () => {
+  let mockEs: ReturnType<typeof createMockElasticsearch>;
+
+  beforeEach(() => {
+    mockEs = createMockElasticsearch();
+    vi.clearAllMocks();
+  });
+
+  describe("collapseByPostId", () => {
+    it("should keep only the last event per post id", () => {
+      // Arrange
+      const messages = [
+        toMessage(
+          0,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(1, "v1"),
+            source: { lsn: 100 },
+          }),
+        ),
+        toMessage(
+          1,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(2, "other"),
+            source: { lsn: 150 },
+          }),
+        ),
+        toMessage(
+          2,
+          createMockDebeziumEvent({
+            op: "u",
+            after: post(1, "v2"),
+            source: { lsn: 200 },
+          }),
+        ),
+      ];
+
+      // Act
+      const { entries } = collapseByPostId(messages);
+
+      // Assert
+      expect(entries).toHaveLength(2);
+      const entry = entries.find((e) => e.postId === 1)!;
+      expect(entry.event!.payload.after?.title).toBe("v2");
+      expect(entry.messages.map((m) => m.offset)).toEqual(["0", "2"]);
+    });
+
+    it("should fold a tombstone into the preceding delete", () => {
+      // Arrange
+      const messages = [
+        toMessage(
+          0,
+          createMockDebeziumEvent({
+            op: "d",
+            before: post(1, "gone"),
+            source: { lsn: 100 },
+          }),
+        ),
+        createMockTombstoneMessage({ id: 1, offset: "1" }).message,
+      ];
+
+      // Act
+      const { entries } = collapseByPostId(messages);
+
+      // Assert
+      expect(entries).toHaveLength(1);
+      expect(entries[0].event!.payload.op).toBe("d");
+      expect(entries[0].messages.map((m) => m.offset)).toEqual(["0", "1"]);
+    });
+
+    it("should turn a lone tombstone into an unversioned delete", () => {
+      const { entries } = collapseByPostId([
+        createMockTombstoneMessage({ id: 1, offset: "0" }).message,
+      ]);
+
+      expect(entries).toEqual([
+        expect.objectContaining({ postId: 1, event: null }),
+      ]);
+      expect(toBulkOperations(entries)).toEqual([
+        { delete: { _index: "posts", _id: "1" } },
+      ]);
+    });
+
+    it("should drop entries that precede a truncate", () => {
+      // Arrange
+      const messages = [
+        toMessage(
+          0,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(1, "wiped"),
+            source: { lsn: 100 },
+          }),
+        ),
+        toMessage(1, createMockTruncateEvent({ source: { lsn: 200 } })),
+        toMessage(
+          2,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(2, "after"),
+            source: { lsn: 300 },
+          }),
+        ),
+      ];
+
+      // Act
+      const { entries, skipped, truncated } = collapseByPostId(messages);
+
+      // Assert
+      expect(entries.map((e) => e.postId)).toEqual([2]);
+      expect(skipped.map((m) => m.offset)).toEqual(["0"]);
+      expect(truncated.map((m) => m.offset)).toEqual(["1"]);
+    });
+
+    it("should separate malformed JSON as poison pills", () => {
+      const { entries, poisoned } = collapseByPostId([toMessage(0, "{broken")]);
+
+      expect(entries).toHaveLength(0);
+      expect(poisoned).toHaveLength(1);
+      expect(poisoned[0].reason).toBe("non-retryable");
+    });
+  });
+
+  describe("toBulkOperations", () => {
+    it("should build versioned index and delete actions", () => {
+      const { entries } = collapseByPostId([
+        toMessage(
+          0,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(1, "v1"),
+            source: { lsn: 100 },
+          }),
+        ),
+        toMessage(
+          1,
+          createMockDebeziumEvent({
+            op: "d",
+            before: post(2, "gone"),
+            source: { lsn: 200 },
+          }),
+        ),
+      ]);
+
+      const operations = toBulkOperations(entries);
+
+      expect(operations).toEqual([
+        {
+          index: {
+            _index: "posts",
+            _id: "1",
+            version: 100,
+            version_type: "external",
+          },
+        },
+        expect.objectContaining({ id: 1, title: "v1" }),
+        {
+          delete: {
+            _index: "posts",
+            _id: "2",
+            version: 200,
+            version_type: "external",
+          },
+        },
+      ]);
+    });
+  });
+
+  describe("bulkIndex", () => {
+    it("should write all entries in one bulk request", async () => {
+      // Arrange
+      const { entries } = collapseByPostId([
+        toMessage(
+          0,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(1, "a"),
+            source: { lsn: 100 },
+          }),
+        ),
+        toMessage(
+          1,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(2, "b"),
+            source: { lsn: 101 },
+          }),
+        ),
+      ]);
+
+      // Act
+      const result = await bulkIndex(mockEs as any, entries, POLICY, {
+        sleep: noSleep,
+      });
+
+      // Assert
+      expect(mockEs.bulk).toHaveBeenCalledTimes(1);
+      expect(result.indexed).toHaveLength(2);
+      expect(mockEs.getDocumentCount("posts")).toBe(2);
+    });
+
+    it("should count version conflicts as skips", async () => {
+      // Arrange: より新しいバージョンが既に書き込まれている
+      await mockEs.index({
+        index: "posts",
+        id: "1",
+        document: post(1, "newer"),
+        version: 500,
+        version_type: "external",
+      });
+      const { entries } = collapseByPostId([
+        toMessage(
+          0,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(1, "older"),
+            source: { lsn: 100 },
+          }),
+        ),
+      ]);
+
+      // Act
+      const result = await bulkIndex(mockEs as any, entries, POLICY, {
+        sleep: noSleep,
+      });
+
+      // Assert
+      expect(result.skipped).toHaveLength(1);
+      expect(result.poisoned).toHaveLength(0);
+      expect(mockEs.getAllDocuments("posts").get("1").title).toBe("newer");
+    });
+
+    /**
+     * DDT: アイテム単位の失敗の扱い
+     */
+    const partialFailureCases = [
+      {
+        name: "retry only the failed retryable item",
+        failures: [429],
+        expected: { completed: 2, poisoned: 0, bulkCalls: 2 },
+      },
+      {
+        name: "poison non-retryable item without retry",
+        failures: [400],
+        expected: { completed: 1, poisoned: 1, bulkCalls: 1 },
+      },
+      {
+        name: "poison item after retries are exhausted",
+        failures: [503, 503, 503],
+        expected: { completed: 1, poisoned: 1, bulkCalls: 3 },
+      },
+    ];
+
+    partialFailureCases.forEach((testCase) => {
+      it(`should ${testCase.name}`, async () => {
+        // Arrange: 投稿2のアイテムだけが指定のステータスで失敗する
+        const failures = [...testCase.failures];
+        const original = mockEs.bulk.getMockImplementation()!;
+        mockEs.bulk.mockImplementation(async (params) => {
+          const response = await original(params);
+          response.items.forEach((item: any) => {
+            if (item.index._id === "2" && failures.length > 0) {
+              item.index.status = failures.shift();
+              item.index.error = { type: "simulated" };
+            }
+          });
+          return response;
+        });
+
+        const { entries } = collapseByPostId([
+          toMessage(
+            0,
+            createMockDebeziumEvent({
+              op: "c",
+              after: post(1, "a"),
+              source: { lsn: 100 },
+            }),
+          ),
+          toMessage(
+            1,
+            createMockDebeziumEvent({
+              op: "c",
+              after: post(2, "b"),
+              source: { lsn: 101 },
+            }),
+          ),
+        ]);
+
+        // Act
+        const result = await bulkIndex(mockEs as any, entries, POLICY, {
+          sleep: noSleep,
+        });
+
+        // Assert
+        // モックは失敗扱いにする前に書き込むので、リトライ時は409（スキップ）になる
+        expect(result.indexed.length + result.skipped.length).toBe(
+          testCase.expected.completed,
+        );
+        expect(result.poisoned).toHaveLength(testCase.expected.poisoned);
+        expect(mockEs.bulk).toHaveBeenCalledTimes(testCase.expected.bulkCalls);
+      });
+    });
+
+    it("should leave retryable items pending when the consumer is stopping", async () => {
+      const error: any = new Error("connect ECONNREFUSED");
+      error.code = "ECONNREFUSED";
+      mockEs.bulk.mockRejectedValueOnce(error);
+      const { entries } = collapseByPostId([
+        toMessage(0, createMockDebeziumEvent({ op: "c", after: post(1, "a") })),
+      ]);
+
+      const result = await bulkIndex(mockEs as any, entries, POLICY, {
+        sleep: noSleep,
+        shouldContinue: () => false,
+      });
+
+      expect(result.pending).toHaveLength(1);
+      expect(result.poisoned).toHaveLength(0);
+    });
+  });
+
+  describe("writeBulk", () => {
+    it("should dead-letter every message collapsed into a failed entry", async () => {
+      // Arrange: 投稿1の書き込みが 400 で失敗する
+      const original = mockEs.bulk.getMockImplementation()!;
+      mockEs.bulk.mockImplementation(async (params) => {
+        const response = await original(params);
+        for (const item of response.items) {
+          if (item.index._id === "1") {
+            item.index.status = 400;
+            item.index.error = { type: "simulated" };
+          }
+        }
+        return response;
+      });
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const messages = [
+        toMessage(
+          0,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(1, "a"),
+            source: { lsn: 100 },
+          }),
+        ),
+        toMessage(
+          1,
+          createMockDebeziumEvent({
+            op: "c",
+            after: post(2, "b"),
+            source: { lsn: 101 },
+          }),
+        ),
+        toMessage(
+          2,
+          createMockDebeziumEvent({
+            op: "u",
+            after: post(1, "a2"),
+            source: { lsn: 102 },
+          }),
+        ),
+      ];
+
+      // Act
+      const result = await writeBulk(mockEs as any, messages, POLICY, {
+        sleep: noSleep,
+      });
+
+      // Assert
+      expect(
+        result.poisoned.map(({ message, reason }) => [message.offset, reason]),
+      ).toEqual([
+        ["0", "non-retryable"],
+        ["2", "non-retryable"],
+      ]);
+      expect(result.completed.map((message) => message.offset)).toEqual(["1"]);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * 再索引中の Search Indexer の単体テスト
+ * 新旧両方のインデックスへの書き込みと、PostgreSQL から新しいインデックスを作る処理
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { KafkaMessage } from "kafkajs";
+import {
+  createMockDebeziumEvent,
+  createMockKafkaMessage,
+  createMockTombstoneMessage,
+} from "@/test-helpers/mock-kafka";
+import {
+  createMockElasticsearch,
+  type MockElasticsearch,
+} from "@/test-helpers/mock-elasticsearch";
+import {
+  createSearchConsistencyStore,
+  createSearchIndexSink,
+} from "@/consumers/search-indexer-handlers";
+import { writeBulk } from "@/consumers/search-indexer-bulk";
+import { applyMessage, routeChangeEvent } from "@/lib/change-event-consumer";
+import { checkAllPosts, type PostSource } from "@/lib/consistency-check";
+import { fixedWriteIndices } from "@/lib/search-index";
+import type { RetryPolicy } from "@/lib/retry";
+import type { Post } from "@/types/index";
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 10,
+  maxDelayMs: 100,
+  multiplier: 2,
+  jitter: 0,
+};
+
+const INDICES = ["posts_v1", "posts_v2"];
+
+const post = (id: number, title: string): Post => ({
+  id,
+  title,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+function toMessage(offset: number, value: unknown): KafkaMessage {
+  return createMockKafkaMessage({
+    topic: "blogdb.public.posts",
+    value: JSON.stringify(value),
+    offset: offset.toString(),
+  }).message;
+}
+
+describe("Search Indexer during a reindex", () => {
+  let es: MockElasticsearch;
+
+  beforeEach(() => {
+    es = createMockElasticsearch();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  // 新しいインデックスに PostgreSQL から先に書かれている
+  async function prefill(index: string, row: Post, version: number) {
+    await es.index({
+      index,
+      id: String(row.id),
+      version,
+      version_type: "external",
+      document: row,
+    });
+  }
+
+  describe("createSearchIndexSink", () => {
+    const sink = () =>
+      createSearchIndexSink(es as any, fixedWriteIndices(...INDICES));
+
+    it("should write every change to both indices", async () => {
+      // Act
+      await routeChangeEvent(
+        createMockDebeziumEvent({
+          op: "c",
+          after: post(1, "kept"),
+          source: { lsn: 100 },
+        }) as any,
+        sink(),
+      );
+      await routeChangeEvent(
+        createMockDebeziumEvent({
+          op: "c",
+          after: post(2, "deleted"),
+          source: { lsn: 110 },
+        }) as any,
+        sink(),
+      );
+      await routeChangeEvent(
+        createMockDebeziumEvent({
+          op: "d",
+          before: post(2, "deleted"),
+          source: { lsn: 120 },
+        }) as any,
+        sink(),
+      );
+
+      // Assert
+      for (const index of INDICES) {
+        expect([...es.getAllDocuments(index).keys()]).toEqual(["1"]);
+      }
+    });
+
+    it("should still write to the old index when the new one already has a newer version", async () => {
+      // Arrange: PostgreSQL から作った新しいインデックスの方が新しい
+      await prefill("posts_v2", post(1, "from postgres"), 200);
+
+      // Act: Search Indexer は遅れて古いイベントを反映する
+      await routeChangeEvent(
+        createMockDebeziumEvent({
+          op: "u",
+          after: post(1, "lagging"),
+          source: { lsn: 150 },
+        }) as any,
+        sink(),
+      );
+
+      // Assert
+      expect(es.getAllDocuments("posts_v1").get("1").title).toBe("lagging");
+      expect(es.getAllDocuments("posts_v2").get("1").title).toBe(
+        "from postgres",
+      );
+    });
+
+    it("should apply tombstones to both indices", async () => {
+      // Arrange
+      await prefill("posts_v1", post(1, "a"), 1);
+
+      // Act
+      await applyMessage(createMockTombstoneMessage({ id: 1 }).message, sink());
+
+      // Assert
+      expect(es.getDocumentCount("posts_v1")).toBe(0);
+      expect(es.getDocumentCount("posts_v2")).toBe(0);
+    });
+  });
+
+  describe("writeBulk", () => {
+    const messages = () => [
+      toMessage(
+        0,
+        createMockDebeziumEvent({
+          op: "c",
+          after: post(1, "a"),
+          source: { lsn: 100 },
+        }),
+      ),
+      toMessage(
+        1,
+        createMockDebeziumEvent({
+          op: "c",
+          after: post(2, "b"),
+          source: { lsn: 101 },
+        }),
+      ),
+    ];
+
+    it("should write each entry to every index in one bulk request", async () => {
+      // Arrange: 新しいインデックスには投稿1のより新しいバージョンがある
+      await prefill("posts_v2", post(1, "newer"), 500);
+
+      // Act
+      const result = await writeBulk(es as any, messages(), POLICY, {
+        indices: INDICES,
+        sleep: async () => {},
+      });
+
+      // Assert: 片方だけの競合はスキップではなく書き込み
+      expect(es.bulk).toHaveBeenCalledTimes(1);
+      expect(result.completed).toHaveLength(2);
+      expect(es.getDocumentCount("posts_v1")).toBe(2);
+      expect(es.getAllDocuments("posts_v2").get("1").title).toBe("newer");
+      expect(es.getAllDocuments("posts_v2").get("2").title).toBe("b");
+    });
+
+    it("should retry an entry until it is written to both indices", async () => {
+      // Arrange: 新しいインデックスへの投稿2の書き込みが1回だけ 429 になる
+      let failures = 1;
+      const original = es.bulk.getMockImplementation()!;
+      es.bulk.mockImplementation(async (params) => {
+        const response = await original(params);
+        for (const item of response.items) {
+          if (
+            item.index._index === "posts_v2" &&
+            item.index._id === "2" &&
+            failures-- > 0
+          ) {
+            item.index.status = 429;
+            item.index.error = { type: "simulated" };
+          }
+        }
+        return response;
+      });
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      // Act
+      const result = await writeBulk(es as any, messages(), POLICY, {
+        indices: INDICES,
+        sleep: async () => {},
+      });
+
+      // Assert
+      expect(es.bulk).toHaveBeenCalledTimes(2);
+      expect(result.completed).toHaveLength(2);
+      expect(result.poisoned).toHaveLength(0);
+    });
+  });
+
+  describe("building from PostgreSQL", () => {
+    it("should fill the new index without overwriting newer dual-written changes", async () => {
+      // Arrange: スナップショットの後の LSN は 1000、投稿2は Search Indexer が既により新しい内容を書いた
+      const rows = [post(1, "a"), post(2, "b"), post(3, "c")];
+      const source: PostSource = {
+        maxId: async () => 3,
+        read: async (ids) => ({
+          posts: rows.filter((row) => ids.includes(row.id)),
+          lsn: 1000,
+          changing: [],
+        }),
+      };
+      await prefill("posts_v2", post(2, "updated meanwhile"), 1200);
+
+      // Act
+      const report = await checkAllPosts(
+        source,
+        [createSearchConsistencyStore(es as any, "posts_v2")],
+        { rangeSize: 2, repair: true },
+      );
+
+      // Assert
+      expect(report.stores.elasticsearch.repaired).toBe(2);
+      expect(es.getAllDocuments("posts_v2").get("1").title).toBe("a");
+      expect(es.getAllDocuments("posts_v2").get("2").title).toBe(
+        "updated meanwhile",
+      );
+      expect(es.getDocumentCount("posts_v1")).toBe(0);
+    });
+  });
+});
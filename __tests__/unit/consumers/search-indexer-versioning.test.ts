@@ -0,0 +1,137 @@
+/**
+ * Search Indexer の外部バージョニングの単体テスト
+ * 実際のハンドラーを MockElasticsearch で動かす
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockDebeziumEvent } from "@/test-helpers/mock-kafka";
+import { createMockElasticsearch } from "@/test-helpers/mock-elasticsearch";
+import { handleChangeEvent } from "@/consumers/search-indexer-handlers";
+
+const post = (title: string) => ({
+  id: 1,
+  title,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+describe("Search Indexer Versioning", () => {
+  let mockEs: ReturnType<typeof createMockElasticsearch>;
+
+  beforeEach(() => {
+    mockEs = createMockElasticsearch();
+    vi.clearAllMocks();
+  });
+
+  async function apply(event: ReturnType<typeof createMockDebeziumEvent>) {
+    await handleChangeEvent(event as any, mockEs as any);
+  }
+
+  it("should index with LSN as external version", async () => {
+    await apply(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post("v1"),
+        source: { lsn: 100 },
+      }),
+    );
+
+    expect(mockEs.index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: "posts",
+        id: "1",
+        version: 100,
+        version_type: "external",
+      }),
+    );
+  });
+
+  /**
+   * DDT: リプレイや順序の入れ替わりでも最新の状態に収束する
+   */
+  const orderingCases = [
+    {
+      name: "replayed create does not overwrite newer update",
+      events: [
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("v1"),
+          source: { lsn: 100 },
+        }),
+        createMockDebeziumEvent({
+          op: "u",
+          after: post("v2"),
+          source: { lsn: 200 },
+        }),
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("v1"),
+          source: { lsn: 100 },
+        }),
+      ],
+      expectedTitle: "v2",
+    },
+    {
+      name: "old create replayed after delete does not resurrect the document",
+      events: [
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("v1"),
+          source: { lsn: 100 },
+        }),
+        createMockDebeziumEvent({
+          op: "d",
+          before: post("v1"),
+          source: { lsn: 300 },
+        }),
+        createMockDebeziumEvent({
+          op: "c",
+          after: post("v1"),
+          source: { lsn: 100 },
+        }),
+      ],
+      expectedTitle: null,
+    },
+    {
+      name: "stale delete does not remove newer document",
+      events: [
+        createMockDebeziumEvent({
+          op: "u",
+          after: post("v3"),
+          source: { lsn: 400 },
+        }),
+        createMockDebeziumEvent({
+          op: "d",
+          before: post("v1"),
+          source: { lsn: 300 },
+        }),
+      ],
+      expectedTitle: "v3",
+    },
+  ];
+
+  orderingCases.forEach((testCase) => {
+    it(testCase.name, async () => {
+      // Act: バージョン競合は例外にならずスキップされる
+      for (const event of testCase.events) {
+        await expect(apply(event)).resolves.toBeUndefined();
+      }
+
+      // Assert
+      const doc = mockEs.getAllDocuments("posts").get("1");
+      expect(doc ? doc.title : null).toBe(testCase.expectedTitle);
+    });
+  });
+
+  it("should still propagate non-conflict errors", async () => {
+    const error: any = new Error("mapper_parsing_exception");
+    error.meta = { statusCode: 400 };
+    mockEs.index.mockRejectedValueOnce(error);
+
+    await expect(
+      apply(createMockDebeziumEvent({ op: "c", after: post("v1") })),
+    ).rejects.toThrow("mapper_parsing_exception");
+  });
+});
@@ -10,7 +10,7 @@ import {
   type DebeziumTestCase,
 } from "@/test-helpers/mock-kafka";
 import { createMockElasticsearch } from "@/test-helpers/mock-elasticsearch";
-import type { DebeziumChangeEvent } from "@/types/index";
+import type { DebeziumChangeEvent, Post } from "@/types/index";
 
 describe("Search Indexer Consumer", () => {
   // ReturnType<typeof 関数名>
@@ -42,7 +42,7 @@ describe("Search Indexer Consumer", () => {
           value: JSON.stringify(testCase.event),
         });
 
-        const changeEvent: DebeziumChangeEvent = JSON.parse(
+        const changeEvent: DebeziumChangeEvent<Post> = JSON.parse(
           message.message.value!.toString(),
         );
 
@@ -91,7 +91,7 @@ describe("Search Indexer Consumer", () => {
       mockEs.index.mockRejectedValueOnce(new Error("Network error"));
 
       const event = generateDebeziumTestCases()[0].event;
-      const changeEvent: DebeziumChangeEvent = event as any;
+      const changeEvent: DebeziumChangeEvent<Post> = event as any;
 
       // Act & Assert: エラーをキャッチして適切に処理
       await expect(async () => {
@@ -106,7 +106,7 @@ describe("Search Indexer Consumer", () => {
       mockEs.delete.mockRejectedValueOnce(error);
 
       const event = generateDebeziumTestCases()[2].event; // DELETE event
-      const changeEvent: DebeziumChangeEvent = event as any;
+      const changeEvent: DebeziumChangeEvent<Post> = event as any;
 
       // Act: エラーを無視して処理
       await handleDelete(changeEvent, mockEs);
@@ -173,7 +173,7 @@ describe("Search Indexer Consumer", () => {
  * 実際の実装では、Consumerクラスからこれらのメソッドを分離してテスト可能にする
  */
 async function handleCreateOrUpdate(
-  event: DebeziumChangeEvent,
+  event: DebeziumChangeEvent<Post>,
   es: ReturnType<typeof createMockElasticsearch>,
 ) {
   const post = event.payload.after;
@@ -208,7 +208,7 @@ async function handleCreateOrUpdate(
 }
 
 async function handleDelete(
-  event: DebeziumChangeEvent,
+  event: DebeziumChangeEvent<Post>,
   es: ReturnType<typeof createMockElasticsearch>,
 ) {
   const post = event.payload.before;
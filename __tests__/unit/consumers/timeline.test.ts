@@ -0,0 +1,241 @@
+/**
+ * Timeline（フォローとホームタイムラインの fan-out）の単体テスト
+ * 実際のハンドラーを MockRedis で動かす
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  createMockDebeziumEvent,
+  createMockTombstoneMessage,
+} from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { createTimelineSinks } from "@/consumers/timeline-handlers";
+import {
+  routeChangeEvent,
+  type ChangeEventSink,
+} from "@/lib/change-event-consumer";
+import { CELEBRITIES_KEY, readTimeline } from "@/lib/timeline";
+
+const post = (id: number, author: string, day = id) => ({
+  id,
+  title: `Post ${id}`,
+  content: "Content",
+  author,
+  created_at: `2024-01-${String(day).padStart(2, "0")}T00:00:00.000Z`,
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+const follow = (id: number, follower: string, followee: string) => ({
+  id,
+  follower,
+  followee,
+  created_at: "2024-01-01T00:00:00.000Z",
+});
+
+let lsn = 0;
+const postEvent = (op: "c" | "u" | "d", row: unknown) =>
+  createMockDebeziumEvent({
+    op,
+    ...(op === "d" ? { before: row } : { after: row }),
+    source: { lsn: ++lsn },
+  });
+const followEvent = (op: "c" | "d", row: unknown) =>
+  createMockDebeziumEvent({
+    op,
+    ...(op === "d" ? { before: row } : { after: row }),
+    source: { lsn: ++lsn, table: "follows" },
+  });
+
+describe("Timeline", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+  let sinks: ReturnType<typeof createTimelineSinks>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    sinks = createTimelineSinks(mockRedis as any, {
+      fanoutMaxFollowers: 2,
+      maxLength: 3,
+    });
+    vi.clearAllMocks();
+  });
+
+  async function apply(
+    ...events: ReturnType<typeof createMockDebeziumEvent>[]
+  ) {
+    for (const event of events) {
+      const table = `public.${event.payload.source.table}` as
+        "public.posts" | "public.follows";
+      await routeChangeEvent(event as any, sinks[table] as ChangeEventSink);
+    }
+  }
+
+  const timelineOf = async (user: string) =>
+    (await readTimeline(mockRedis as any, user, { limit: 10 })).entries.map(
+      (entry) => entry.postId,
+    );
+
+  it("should fan a new post out to every follower", async () => {
+    // Arrange
+    await apply(
+      followEvent("c", follow(1, "Alice", "Bob")),
+      followEvent("c", follow(2, "Carol", "Bob")),
+    );
+
+    // Act
+    await apply(postEvent("c", post(10, "Bob")));
+
+    // Assert
+    expect(await timelineOf("Alice")).toEqual([10]);
+    expect(await timelineOf("Carol")).toEqual([10]);
+    expect(await timelineOf("Bob")).toEqual([]);
+  });
+
+  it("should remove a deleted post from the timelines", async () => {
+    // Arrange
+    await apply(
+      followEvent("c", follow(1, "Alice", "Bob")),
+      postEvent("c", post(10, "Bob")),
+    );
+
+    // Act: before に主キーしか無い削除
+    await apply(postEvent("d", { id: 10, author: null }));
+
+    // Assert
+    expect(await timelineOf("Alice")).toEqual([]);
+  });
+
+  it("should backfill recent posts when following", async () => {
+    // Arrange: フォローより先に投稿のイベントが届く
+    await apply(
+      postEvent("c", post(10, "Bob")),
+      postEvent("c", post(11, "Bob")),
+    );
+
+    // Act
+    await apply(followEvent("c", follow(1, "Alice", "Bob")));
+
+    // Assert
+    expect(await timelineOf("Alice")).toEqual([11, 10]);
+  });
+
+  it("should remove the followee's posts on unfollow", async () => {
+    // Arrange
+    await apply(
+      followEvent("c", follow(1, "Alice", "Bob")),
+      followEvent("c", follow(2, "Alice", "Carol")),
+      postEvent("c", post(10, "Bob")),
+      postEvent("c", post(11, "Carol")),
+    );
+
+    // Act: before に主キーしか無い削除（フォローした時の記録を使う）
+    await apply(followEvent("d", { id: 1, follower: null, followee: null }));
+
+    // Assert
+    expect(await timelineOf("Alice")).toEqual([11]);
+
+    // フォロー解除後の投稿は配られない
+    await apply(postEvent("c", post(12, "Bob")));
+    expect(await timelineOf("Alice")).toEqual([11]);
+  });
+
+  it("should move a post to the followers of its new author", async () => {
+    // Arrange
+    await apply(
+      followEvent("c", follow(1, "Alice", "Bob")),
+      followEvent("c", follow(2, "Dave", "Carol")),
+      postEvent("c", post(10, "Bob")),
+    );
+
+    // Act
+    await apply(postEvent("u", post(10, "Carol")));
+
+    // Assert
+    expect(await timelineOf("Alice")).toEqual([]);
+    expect(await timelineOf("Dave")).toEqual([10]);
+  });
+
+  it("should keep only the newest posts in a timeline", async () => {
+    // Arrange
+    await apply(followEvent("c", follow(1, "Alice", "Bob")));
+
+    // Act
+    for (const id of [1, 2, 3, 4]) {
+      await apply(postEvent("c", post(id, "Bob")));
+    }
+
+    // Assert: maxLength = 3
+    expect(await timelineOf("Alice")).toEqual([4, 3, 2]);
+  });
+
+  it("should keep only the newest posts of an author", async () => {
+    // Act
+    for (const id of [1, 2, 3, 4]) {
+      await apply(postEvent("c", post(id, "Bob")));
+    }
+
+    // Assert: maxLength = 3
+    expect(await mockRedis.zrange("timeline-posts:Bob", 0, -1)).toEqual([
+      "2",
+      "3",
+      "4",
+    ]);
+  });
+
+  it("should not fan out posts of authors with many followers", async () => {
+    // Arrange: fanoutMaxFollowers = 2
+    await apply(
+      followEvent("c", follow(1, "Alice", "Star")),
+      followEvent("c", follow(2, "Bob", "Star")),
+      postEvent("c", post(10, "Star")),
+      followEvent("c", follow(3, "Carol", "Star")),
+    );
+
+    // Act
+    await apply(postEvent("c", post(11, "Star")));
+
+    // Assert: 書き込みは配る前のものだけ、読み込みでは両方見える
+    expect(await mockRedis.sismember(CELEBRITIES_KEY, "Star")).toBe(1);
+    expect(await mockRedis.zrange("timeline:Carol", 0, -1)).toEqual([]);
+    expect(await timelineOf("Alice")).toEqual([11, 10]);
+    expect(await timelineOf("Carol")).toEqual([11, 10]);
+  });
+
+  it("should not fan out a post again from a stale event", async () => {
+    // Arrange
+    await apply(
+      followEvent("c", follow(1, "Alice", "Bob")),
+      postEvent("c", post(10, "Bob")),
+    );
+    const staleCreate = createMockDebeziumEvent({
+      op: "c",
+      after: post(10, "Bob"),
+      source: { lsn: 1 },
+    });
+    await apply(postEvent("d", post(10, "Bob")));
+
+    // Act
+    await apply(staleCreate);
+
+    // Assert
+    expect(await timelineOf("Alice")).toEqual([]);
+  });
+
+  it("should withdraw a post left behind by a compacted delete", async () => {
+    // Arrange
+    await apply(
+      followEvent("c", follow(1, "Alice", "Bob")),
+      postEvent("c", post(10, "Bob")),
+    );
+    const { message } = createMockTombstoneMessage({ id: 10 });
+
+    // Act
+    await sinks["public.posts"]!.tombstone!(message.key);
+
+    // Assert
+    expect(await timelineOf("Alice")).toEqual([]);
+  });
+
+  it("should share one close between the posts and follows sinks", () => {
+    expect(sinks["public.follows"]?.close).toBe(sinks["public.posts"]?.close);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * トゥームストーンと TRUNCATE イベントの単体テスト
+ * 両方の Consumer の実際のハンドラーをモックで動かす
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  createMockDebeziumEvent,
+  createMockTombstoneMessage,
+  createMockTruncateEvent,
+} from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { createMockElasticsearch } from "@/test-helpers/mock-elasticsearch";
+import * as cacheUpdater from "@/consumers/cache-updater-handlers";
+import * as searchIndexer from "@/consumers/search-indexer-handlers";
+
+const post = (id: number, author = "Alice") => ({
+  id,
+  title: `Post ${id}`,
+  content: "Content",
+  author,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+const create = (id: number, lsn: number, author?: string) =>
+  createMockDebeziumEvent({
+    op: "c",
+    after: post(id, author),
+    source: { lsn },
+  });
+
+const remove = (id: number, lsn: number) =>
+  createMockDebeziumEvent({ op: "d", before: post(id), source: { lsn } });
+
+const tombstoneKey = (id: number) =>
+  createMockTombstoneMessage({ id }).message.key;
+
+describe("Tombstone and Truncate Events", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+  let mockEs: ReturnType<typeof createMockElasticsearch>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    mockEs = createMockElasticsearch();
+    vi.clearAllMocks();
+  });
+
+  describe("Cache Updater", () => {
+    const apply = (event: ReturnType<typeof createMockDebeziumEvent>) =>
+      cacheUpdater.handleChangeEvent(event as any, mockRedis as any);
+
+    it("should do nothing for a tombstone after the delete event", async () => {
+      // Arrange
+      await apply(create(1, 100));
+      await apply(remove(1, 200));
+      vi.clearAllMocks();
+
+      // Act
+      await cacheUpdater.handleTombstone(tombstoneKey(1), mockRedis as any);
+
+      // Assert: トゥームストーン（バージョン）は残ったまま
+      expect(mockRedis.getAllData().get("post:1:version")).toBe("200");
+      expect(mockRedis.del).not.toHaveBeenCalled();
+    });
+
+    it("should delete by key when the delete event was compacted away", async () => {
+      // Arrange: delete イベントを受け取っていない
+      await apply(create(1, 100));
+
+      // Act
+      await cacheUpdater.handleTombstone(tombstoneKey(1), mockRedis as any);
+
+      // Assert
+      expect(mockRedis.getAllData().has("post:1")).toBe(false);
+      expect(mockRedis.getAllData().has("post:1:author")).toBe(false);
+      expect(await mockRedis.zrevrange("author:Alice:posts", 0, -1)).toEqual(
+        [],
+      );
+    });
+
+    it("should ignore a message with neither value nor key", async () => {
+      await cacheUpdater.handleTombstone(null, mockRedis as any);
+
+      expect(mockRedis.eval).not.toHaveBeenCalled();
+    });
+
+    it("should clear every post and author list key on truncate", async () => {
+      // Arrange
+      await apply(create(1, 100, "Alice"));
+      await apply(create(2, 101, "Bob"));
+      await mockRedis.set("unrelated", "keep");
+
+      // Act
+      await apply(createMockTruncateEvent({ source: { lsn: 300 } }));
+
+      // Assert
+      expect([...mockRedis.getAllData().keys()]).toEqual(["unrelated"]);
+      expect(mockRedis.getAllSortedSets().size).toBe(0);
+    });
+
+    it("should keep the comment lists on truncate", async () => {
+      // Arrange: post:{id}:comments は comments の sink が持つキー
+      await apply(create(1, 100));
+      await mockRedis.zadd("post:1:comments", 1, "10");
+
+      // Act
+      await apply(createMockTruncateEvent({ source: { lsn: 300 } }));
+
+      // Assert
+      expect(mockRedis.getAllData().has("post:1")).toBe(false);
+      expect(await mockRedis.zrevrange("post:1:comments", 0, -1)).toEqual([
+        "10",
+      ]);
+    });
+  });
+
+  describe("Search Indexer", () => {
+    const apply = (event: ReturnType<typeof createMockDebeziumEvent>) =>
+      searchIndexer.handleChangeEvent(event as any, mockEs as any);
+
+    /**
+     * DDT: トゥームストーンを受け取った時の状態
+     */
+    const tombstoneCases = [
+      {
+        name: "after the delete event",
+        events: [create(1, 100), remove(1, 200)],
+      },
+      {
+        name: "when the delete event was compacted away",
+        events: [create(1, 100)],
+      },
+    ];
+
+    tombstoneCases.forEach((testCase) => {
+      it(`should leave no document for a tombstone ${testCase.name}`, async () => {
+        // Arrange
+        for (const event of testCase.events) {
+          await apply(event);
+        }
+
+        // Act
+        await searchIndexer.handleTombstone(tombstoneKey(1), mockEs as any);
+
+        // Assert
+        expect(mockEs.getDocumentCount("posts")).toBe(0);
+      });
+    });
+
+    it("should delete all documents on truncate", async () => {
+      // Arrange
+      await apply(create(1, 100));
+      await apply(create(2, 101));
+
+      // Act
+      await apply(createMockTruncateEvent({ source: { lsn: 300 } }));
+
+      // Assert
+      expect(mockEs.deleteByQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ index: "posts", query: { match_all: {} } }),
+      );
+      expect(mockEs.getDocumentCount("posts")).toBe(0);
+    });
+  });
+});
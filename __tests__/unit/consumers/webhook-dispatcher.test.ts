@@ -0,0 +1,321 @@
+/**
+ * Webhook Dispatcher の単体テスト
+ * 実際のハンドラーから、ローカルの HTTP サーバー（MockWebhookReceiver）に POST する
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  createMockDebeziumEvent,
+  createMockTruncateEvent,
+} from "@/test-helpers/mock-kafka";
+import {
+  createMockWebhookStore,
+  type MockWebhookStore,
+} from "@/test-helpers/mock-webhook-store";
+import { MockWebhookReceiver } from "@/test-helpers/mock-webhook-receiver";
+import {
+  createWebhookSink,
+  isRetryableDeliveryError,
+  WebhookResponseError,
+  type WebhookDispatchOptions,
+} from "@/consumers/webhook-dispatcher-handlers";
+import {
+  routeChangeEvent,
+  type ChangeEventSink,
+} from "@/lib/change-event-consumer";
+import { NonRetryableError } from "@/lib/retry";
+import { verifySignature, type WebhookEvent } from "@/lib/webhooks";
+
+const post = (overrides: Partial<Record<string, unknown>> = {}) => ({
+  id: 1,
+  title: "Title",
+  content: "Hello",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const OPTIONS: WebhookDispatchOptions = {
+  retryPolicy: {
+    maxAttempts: 3,
+    initialDelayMs: 1,
+    maxDelayMs: 1,
+    multiplier: 1,
+    jitter: 0,
+  },
+  timeoutMs: 1000,
+  disableAfterFailures: 2,
+  deadlineMs: 10000,
+  sleep: async () => {},
+};
+
+describe("Webhook Dispatcher", () => {
+  let receiver: MockWebhookReceiver;
+  let store: MockWebhookStore;
+  let sink: ChangeEventSink;
+
+  beforeEach(async () => {
+    receiver = await MockWebhookReceiver.start();
+    store = createMockWebhookStore();
+    sink = createWebhookSink(store, OPTIONS) as ChangeEventSink;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await receiver.close();
+  });
+
+  const apply = (event: ReturnType<typeof createMockDebeziumEvent>) =>
+    routeChangeEvent(event as any, sink);
+
+  it.each([
+    { op: "c" as const, type: "post.created" },
+    { op: "u" as const, type: "post.updated" },
+    { op: "d" as const, type: "post.deleted" },
+  ])("should deliver $type for op $op", async ({ op, type }) => {
+    // Arrange
+    store.addSubscription({ url: `${receiver.url}/hook` });
+    const event = createMockDebeziumEvent({
+      op,
+      ...(op === "d" ? { before: post() } : { after: post() }),
+      source: { lsn: 42, ts_ms: Date.parse("2024-01-02T00:00:00.000Z") },
+    });
+
+    // Act
+    await apply(event);
+
+    // Assert
+    expect(receiver.requests).toHaveLength(1);
+    const [request] = receiver.requests;
+    expect(request.path).toBe("/hook");
+    expect(request.headers["x-webhook-event"]).toBe(type);
+    expect(request.headers["x-webhook-id"]).toBe("post-1-42");
+    expect(JSON.parse(request.body)).toEqual({
+      id: "post-1-42",
+      type,
+      occurred_at: "2024-01-02T00:00:00.000Z",
+      data: { post: post() },
+    });
+  });
+
+  it("should sign the body with the subscription secret", async () => {
+    // Arrange
+    store.addSubscription({ url: receiver.url, secret: "s3cret" });
+
+    // Act
+    await apply(createMockDebeziumEvent({ op: "c", after: post() }));
+
+    // Assert
+    const [request] = receiver.requests;
+    const timestamp = Number(request.headers["x-webhook-timestamp"]);
+    const signature = String(request.headers["x-webhook-signature"]);
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifySignature("s3cret", timestamp, request.body, signature)).toBe(
+      true,
+    );
+    expect(verifySignature("other", timestamp, request.body, signature)).toBe(
+      false,
+    );
+  });
+
+  it("should deliver only to subscriptions of the event type", async () => {
+    // Arrange
+    const deletes = store.addSubscription({
+      url: `${receiver.url}/deletes`,
+      event_types: ["post.deleted"],
+    });
+    store.addSubscription({ url: `${receiver.url}/all` });
+
+    // Act
+    await apply(createMockDebeziumEvent({ op: "c", after: post() }));
+
+    // Assert
+    expect(receiver.requests.map((request) => request.path)).toEqual(["/all"]);
+    expect(store.getDeliveries(deletes.id)).toEqual([]);
+  });
+
+  it("should not deliver snapshot reads", async () => {
+    // Arrange
+    store.addSubscription({ url: receiver.url });
+
+    // Act
+    await apply(createMockDebeziumEvent({ op: "r", after: post() }));
+    await apply(createMockTruncateEvent() as any);
+
+    // Assert
+    expect(receiver.requests).toEqual([]);
+  });
+
+  it("should retry a failing endpoint with backoff and record the delivery", async () => {
+    // Arrange
+    const subscription = store.addSubscription({ url: receiver.url });
+    receiver.respondWith(503, 500);
+
+    // Act
+    await apply(createMockDebeziumEvent({ op: "c", after: post() }));
+
+    // Assert
+    expect(receiver.requests).toHaveLength(3);
+    expect(store.getDeliveries(subscription.id)).toEqual([
+      expect.objectContaining({
+        status: "succeeded",
+        attempts: 3,
+        response_status: 200,
+        error: null,
+      }),
+    ]);
+  });
+
+  it("should not retry a client error", async () => {
+    // Arrange
+    const subscription = store.addSubscription({ url: receiver.url });
+    receiver.respondWith(400);
+
+    // Act
+    await apply(createMockDebeziumEvent({ op: "c", after: post() }));
+
+    // Assert
+    expect(receiver.requests).toHaveLength(1);
+    expect(store.getDeliveries(subscription.id)).toEqual([
+      expect.objectContaining({
+        status: "failed",
+        attempts: 1,
+        response_status: 400,
+        error: "Webhook endpoint responded with 400",
+      }),
+    ]);
+  });
+
+  it("should keep delivering to other subscriptions when one fails", async () => {
+    // Arrange: 接続できない購読先（閉じたポート）
+    const closed = await MockWebhookReceiver.start();
+    await closed.close();
+    const broken = store.addSubscription({ url: closed.url });
+    const healthy = store.addSubscription({ url: receiver.url });
+
+    // Act: 失敗してもメッセージの処理は成功する（DLQ に送らない）
+    await expect(
+      apply(createMockDebeziumEvent({ op: "c", after: post() })),
+    ).resolves.toBeUndefined();
+
+    // Assert
+    expect(store.getDeliveries(broken.id)).toEqual([
+      expect.objectContaining({ status: "failed", attempts: 3 }),
+    ]);
+    expect(store.getDeliveries(healthy.id)).toEqual([
+      expect.objectContaining({ status: "succeeded" }),
+    ]);
+  });
+
+  it("should defer a slow subscription to the DLQ at the deadline", async () => {
+    // Arrange: 待つたびに 600ms 進む時計。2回目の失敗の後は次の試行（timeoutMs）が deadlineMs に収まらない
+    let clock = 0;
+    sink = createWebhookSink(store, {
+      ...OPTIONS,
+      deadlineMs: 1500,
+      now: () => clock,
+      sleep: async () => {
+        clock += 600;
+      },
+    }) as ChangeEventSink;
+    const slow = store.addSubscription({ url: receiver.url });
+    receiver.respondWith(503, 503);
+    const event = createMockDebeziumEvent({ op: "c", after: post() });
+
+    // Act & Assert: 打ち切った購読先は記録せず（失敗に数えず）、メッセージごと DLQ に回す
+    await expect(apply(event)).rejects.toThrow(NonRetryableError);
+    expect(receiver.requests).toHaveLength(2);
+    expect(store.getDeliveries(slow.id)).toEqual([]);
+    expect(store.getSubscription(slow.id)).toMatchObject({
+      consecutive_failures: 0,
+    });
+
+    // Act: DLQ のリプレイで配り直す
+    clock = 0;
+    await apply(event);
+
+    // Assert
+    expect(store.getDeliveries(slow.id)).toEqual([
+      expect.objectContaining({ status: "succeeded", attempts: 1 }),
+    ]);
+  });
+
+  it("should disable a subscription after repeated failures", async () => {
+    // Arrange: disableAfterFailures = 2
+    const subscription = store.addSubscription({ url: receiver.url });
+    receiver.respondWith(404, 404, 404);
+
+    // Act
+    await apply(createMockDebeziumEvent({ op: "c", after: post({ id: 1 }) }));
+    await apply(createMockDebeziumEvent({ op: "c", after: post({ id: 2 }) }));
+    await apply(createMockDebeziumEvent({ op: "c", after: post({ id: 3 }) }));
+
+    // Assert: 無効にした後のイベントは送らない
+    expect(receiver.requests).toHaveLength(2);
+    expect(store.getSubscription(subscription.id)).toMatchObject({
+      active: false,
+      consecutive_failures: 2,
+    });
+  });
+
+  it("should reset the failure count after a success", async () => {
+    // Arrange
+    const subscription = store.addSubscription({ url: receiver.url });
+    receiver.respondWith(404);
+
+    // Act
+    await apply(createMockDebeziumEvent({ op: "c", after: post({ id: 1 }) }));
+    await apply(createMockDebeziumEvent({ op: "c", after: post({ id: 2 }) }));
+
+    // Assert
+    expect(store.getSubscription(subscription.id)).toMatchObject({
+      active: true,
+      consecutive_failures: 0,
+    });
+  });
+
+  it("should not deliver a redelivered event twice to the same subscription", async () => {
+    // Arrange
+    store.addSubscription({ url: receiver.url });
+    const event = createMockDebeziumEvent({
+      op: "c",
+      after: post(),
+      source: { lsn: 7 },
+    });
+    await apply(event);
+
+    // Act: オフセットのコミット前に落ちて再配信された
+    await apply(event);
+
+    // Assert
+    expect(receiver.requests).toHaveLength(1);
+    const body = JSON.parse(receiver.requests[0].body) as WebhookEvent;
+    expect(body.id).toBe("post-1-7");
+  });
+});
+
+describe("isRetryableDeliveryError", () => {
+  it.each([
+    { error: new WebhookResponseError(500), expected: true },
+    { error: new WebhookResponseError(503), expected: true },
+    { error: new WebhookResponseError(429), expected: true },
+    { error: new WebhookResponseError(408), expected: true },
+    { error: new WebhookResponseError(400), expected: false },
+    { error: new WebhookResponseError(410), expected: false },
+    {
+      error: Object.assign(new Error("timed out"), { name: "TimeoutError" }),
+      expected: true,
+    },
+    {
+      error: new TypeError("fetch failed", {
+        cause: Object.assign(new Error("refused"), { code: "ECONNREFUSED" }),
+      }),
+      expected: true,
+    },
+    { error: new TypeError("Invalid URL"), expected: false },
+  ])("should return $expected for $error.message", ({ error, expected }) => {
+    expect(isRetryableDeliveryError(error)).toBe(expected);
+  });
+});
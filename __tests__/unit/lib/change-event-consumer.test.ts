@@ -0,0 +1,980 @@
+/**
+ * 変更イベント Consumer の共通フレームワークの単体テスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  MockAdmin,
+  createMockConsumer,
+  createMockDebeziumEvent,
+  createMockKafka,
+  createMockKafkaMessage,
+  createMockProducer,
+  createMockTombstoneMessage,
+  createMockTransactionMetadata,
+  createMockTruncateEvent,
+} from "@/test-helpers/mock-kafka";
+import {
+  ChangeEventConsumer,
+  applyMessage,
+  lastContiguousOffset,
+  routeChangeEvent,
+  type ChangeEventConsumerOptions,
+  type ChangeEventSink,
+} from "@/lib/change-event-consumer";
+import { NonRetryableError, type RetryPolicy } from "@/lib/retry";
+import { MetricsRegistry } from "@/lib/metrics";
+import { EventDecodeError } from "@/lib/event-decoder";
+import { TRANSACTION_TOPIC } from "@/lib/transaction-buffer";
+import { tablesTopicPattern } from "@/lib/tables";
+import { WatermarkTracker, type Watermark } from "@/lib/watermark";
+
+const SOURCE_TOPIC = "blogdb.public.posts";
+const DLQ_TOPIC = `${SOURCE_TOPIC}.test-consumer.dlq`;
+
+// リトライせずに諦める（テストで待たない）
+const NO_RETRY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  multiplier: 1,
+  jitter: 0,
+};
+
+const post = (id: number) => ({
+  id,
+  title: `Post ${id}`,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+function createSink(overrides: Partial<ChangeEventSink> = {}) {
+  return {
+    upsert: vi.fn(async () => {}),
+    remove: vi.fn(async () => {}),
+    truncate: vi.fn(async () => {}),
+    tombstone: vi.fn(async () => {}),
+    close: vi.fn(async () => {}),
+    ...overrides,
+  };
+}
+
+const COMMENTS_TOPIC = "blogdb.public.comments";
+
+const comment = (id: number) => ({
+  id,
+  post_id: 1,
+  author: "Bob",
+  body: `Comment ${id}`,
+  created_at: "2024-01-01T00:00:00.000Z",
+});
+
+function commentMessage(
+  offset: number,
+  commentId: number,
+  transactionId?: string,
+) {
+  return createMockKafkaMessage({
+    topic: COMMENTS_TOPIC,
+    key: JSON.stringify({ id: commentId }),
+    value: JSON.stringify(
+      createMockDebeziumEvent({
+        op: "c",
+        after: comment(commentId),
+        source: { lsn: 100 + offset, table: "comments" },
+        transaction: transactionId
+          ? { id: transactionId, total_order: offset + 1 }
+          : undefined,
+      }),
+    ),
+    offset: offset.toString(),
+  });
+}
+
+function dataMessage(offset: number, postId: number, transactionId?: string) {
+  return createMockKafkaMessage({
+    topic: SOURCE_TOPIC,
+    key: JSON.stringify({ id: postId }),
+    value: JSON.stringify(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(postId),
+        source: { lsn: 100 + offset },
+        transaction: transactionId
+          ? { id: transactionId, total_order: offset + 1 }
+          : undefined,
+      }),
+    ),
+    offset: offset.toString(),
+  });
+}
+
+describe("routeChangeEvent", () => {
+  /**
+   * DDT: op ごとに sink のメソッドへ振り分ける
+   */
+  const routeCases = [
+    { op: "c" as const, expected: "upsert" },
+    { op: "r" as const, expected: "upsert" },
+    { op: "u" as const, expected: "upsert" },
+    { op: "d" as const, expected: "remove" },
+  ];
+
+  routeCases.forEach((testCase) => {
+    it(`should route op "${testCase.op}" to ${testCase.expected}`, async () => {
+      // Arrange
+      const sink = createSink();
+      const event = createMockDebeziumEvent({
+        op: testCase.op,
+        before: testCase.op === "d" ? post(1) : null,
+        after: testCase.op === "d" ? null : post(1),
+      });
+
+      // Act
+      await routeChangeEvent(event as any, sink);
+
+      // Assert
+      const called = sink[testCase.expected as "upsert" | "remove"];
+      expect(called).toHaveBeenCalledWith(post(1), event);
+      expect(
+        testCase.expected === "upsert" ? sink.remove : sink.upsert,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should route a truncate to the sink", async () => {
+    const sink = createSink();
+
+    await routeChangeEvent(createMockTruncateEvent() as any, sink);
+
+    expect(sink.truncate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip a truncate when the sink does not support it", async () => {
+    const sink = createSink({ truncate: undefined });
+
+    await expect(
+      routeChangeEvent(createMockTruncateEvent() as any, sink),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should skip an event without after data", async () => {
+    const sink = createSink();
+
+    await routeChangeEvent(
+      createMockDebeziumEvent({ op: "u", after: null }) as any,
+      sink,
+    );
+
+    expect(sink.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("applyMessage", () => {
+  it("should pass a tombstone key to the sink", async () => {
+    // Arrange
+    const sink = createSink();
+    const { message } = createMockTombstoneMessage({ id: 1 });
+
+    // Act
+    await applyMessage(message, sink);
+
+    // Assert
+    expect(sink.tombstone).toHaveBeenCalledWith(message.key);
+    expect(sink.upsert).not.toHaveBeenCalled();
+  });
+
+  it("should throw on malformed JSON", async () => {
+    const sink = createSink();
+    const { message } = createMockKafkaMessage({
+      topic: SOURCE_TOPIC,
+      value: "{not json",
+    });
+
+    await expect(applyMessage(message, sink)).rejects.toThrow(EventDecodeError);
+  });
+
+  it("should reject an event that does not match the expected shape", async () => {
+    const sink = createSink();
+    const { message } = createMockKafkaMessage({
+      topic: SOURCE_TOPIC,
+      value: JSON.stringify(createMockDebeziumEvent({ op: "c", after: {} })),
+    });
+
+    await expect(applyMessage(message, sink)).rejects.toThrow(
+      "missing payload.after.id",
+    );
+    expect(sink.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("lastContiguousOffset", () => {
+  /**
+   * DDT: 成功したものだけオフセットを進める
+   */
+  const offsetCases = [
+    { name: "all completed", completed: ["0", "1", "2"], expected: "2" },
+    { name: "gap in the middle", completed: ["0", "2"], expected: "0" },
+    { name: "first not completed", completed: ["1", "2"], expected: null },
+  ];
+
+  offsetCases.forEach((testCase) => {
+    it(`should handle ${testCase.name}`, () => {
+      const messages = [0, 1, 2].map(
+        (offset) => dataMessage(offset, 1).message,
+      );
+
+      expect(lastContiguousOffset(messages, new Set(testCase.completed))).toBe(
+        testCase.expected,
+      );
+    });
+  });
+});
+
+describe("ChangeEventConsumer", () => {
+  let consumer: ReturnType<typeof createMockConsumer>;
+  let producer: ReturnType<typeof createMockProducer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consumer = createMockConsumer();
+    producer = createMockProducer();
+  });
+
+  async function start(
+    sink: ChangeEventSink,
+    options: Partial<ChangeEventConsumerOptions> = {},
+  ) {
+    const changeEventConsumer = new ChangeEventConsumer({
+      name: "test-consumer",
+      groupId: "test-consumer-group",
+      topic: SOURCE_TOPIC,
+      sink,
+      retryPolicy: NO_RETRY,
+      kafka: createMockKafka(consumer, producer),
+      ...options,
+    });
+    await changeEventConsumer.start();
+    return changeEventConsumer;
+  }
+
+  describe("message mode", () => {
+    it("should apply each message to the sink", async () => {
+      // Arrange
+      const sink = createSink();
+      await start(sink);
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1));
+
+      // Assert
+      expect(consumer.subscribe).toHaveBeenCalledWith({
+        topic: SOURCE_TOPIC,
+        fromBeginning: true,
+      });
+      expect(sink.upsert).toHaveBeenCalledTimes(1);
+      expect(producer.getSentMessages(DLQ_TOPIC)).toHaveLength(0);
+    });
+
+    it("should dead-letter a message the sink gives up on", async () => {
+      // Arrange
+      const sink = createSink({
+        upsert: vi.fn(async () => {
+          throw new NonRetryableError("mapping error");
+        }),
+      });
+      await start(sink);
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1));
+
+      // Assert
+      expect(producer.getSentMessages(DLQ_TOPIC)).toHaveLength(1);
+    });
+  });
+
+  describe("shutdown", () => {
+    it("should drain, disconnect and close the sink", async () => {
+      // Arrange
+      const sink = createSink();
+      const changeEventConsumer = await start(sink);
+
+      // Act
+      await changeEventConsumer.stop();
+
+      // Assert
+      expect(consumer.stop).toHaveBeenCalled();
+      expect(consumer.disconnect).toHaveBeenCalled();
+      expect(producer.disconnect).toHaveBeenCalled();
+      expect(sink.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should close connections even if in-flight messages do not finish in time", async () => {
+      // Arrange: ハンドラーが終わらない
+      consumer.stop.mockImplementation(() => new Promise(() => {}));
+      const sink = createSink();
+      const changeEventConsumer = await start(sink, { shutdownTimeoutMs: 10 });
+
+      // Act
+      await changeEventConsumer.stop();
+
+      // Assert: disconnect() は同じ stop() を待つので呼ばない
+      expect(consumer.disconnect).not.toHaveBeenCalled();
+      expect(producer.disconnect).toHaveBeenCalled();
+      expect(sink.close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should shut down only once when stopped twice", async () => {
+      const sink = createSink();
+      const changeEventConsumer = await start(sink);
+
+      await Promise.all([
+        changeEventConsumer.stop(),
+        changeEventConsumer.stop(),
+      ]);
+
+      expect(consumer.stop).toHaveBeenCalledTimes(1);
+      expect(sink.close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("batch mode", () => {
+    it("should require sink.writeBatch", () => {
+      expect(
+        () =>
+          new ChangeEventConsumer({
+            name: "test-consumer",
+            groupId: "test-consumer-group",
+            topic: SOURCE_TOPIC,
+            sink: createSink(),
+            retryPolicy: NO_RETRY,
+            mode: "batch",
+            kafka: createMockKafka(consumer, producer),
+          }),
+      ).toThrow("batch mode requires sink.writeBatch");
+    });
+
+    /**
+     * DDT: DLQ に送ったメッセージは完了、未完了のメッセージの手前までオフセットを進める
+     */
+    const batchCases = [
+      {
+        name: "a poisoned message is dead-lettered and resolved",
+        completed: [0, 2],
+        poisoned: [1],
+        pending: 0,
+        expectedOffset: "2",
+        expectedDeadLetters: 1,
+      },
+      {
+        name: "a pending message stops the offset",
+        completed: [0],
+        poisoned: [],
+        pending: 2,
+        expectedOffset: "0",
+        expectedDeadLetters: 0,
+      },
+    ];
+
+    batchCases.forEach((testCase) => {
+      it(`should handle when ${testCase.name}`, async () => {
+        // Arrange
+        const messages = [0, 1, 2].map(
+          (offset) => dataMessage(offset, offset + 1).message,
+        );
+        const writeBatch = vi.fn(async () => ({
+          completed: testCase.completed.map((i) => messages[i]),
+          poisoned: testCase.poisoned.map((i) => ({
+            message: messages[i],
+            error: new Error("mapping error"),
+            attempts: 1,
+            reason: "non-retryable" as const,
+          })),
+          pending: testCase.pending,
+        }));
+        await start(createSink({ writeBatch }), { mode: "batch" });
+
+        // Act
+        const payload = await consumer.deliverBatch(SOURCE_TOPIC, 0, messages);
+
+        // Assert
+        expect(writeBatch).toHaveBeenCalledTimes(1);
+        expect(payload.resolveOffset).toHaveBeenCalledWith(
+          testCase.expectedOffset,
+        );
+        expect(producer.getSentMessages(DLQ_TOPIC)).toHaveLength(
+          testCase.expectedDeadLetters,
+        );
+      });
+    });
+  });
+
+  describe("transaction mode", () => {
+    async function deliverTransaction() {
+      await consumer.deliver(dataMessage(0, 1, "tx-1"));
+      await consumer.deliver(dataMessage(1, 2, "tx-1"));
+      await consumer.deliver(
+        createMockKafkaMessage({
+          topic: TRANSACTION_TOPIC,
+          value: createMockTransactionMetadata({
+            status: "END",
+            id: "tx-1",
+            eventCount: 2,
+          }),
+          offset: "0",
+        }),
+      );
+    }
+
+    it("should apply a complete transaction at once", async () => {
+      // Arrange
+      const applyTransaction = vi.fn(
+        async (_transactionId: string, _events: any[]) => {},
+      );
+      const sink = createSink({ applyTransaction });
+      await start(sink, { mode: "transaction" });
+
+      // Act
+      await deliverTransaction();
+
+      // Assert
+      expect(applyTransaction).toHaveBeenCalledTimes(1);
+      const [transactionId, events] = applyTransaction.mock.calls[0];
+      expect(transactionId).toBe("tx-1");
+      expect(events.map((event) => event.payload.after.id)).toEqual([1, 2]);
+      expect(sink.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should dead-letter every event of a transaction that fails", async () => {
+      // Arrange
+      const applyTransaction = vi.fn(async () => {
+        throw new NonRetryableError("script error");
+      });
+      await start(createSink({ applyTransaction }), { mode: "transaction" });
+
+      // Act
+      await deliverTransaction();
+
+      // Assert
+      expect(producer.getSentMessages(DLQ_TOPIC)).toHaveLength(2);
+    });
+
+    it("should fall back to applying events one by one", async () => {
+      // Arrange
+      const sink = createSink();
+      await start(sink, { mode: "transaction" });
+
+      // Act
+      await deliverTransaction();
+
+      // Assert
+      expect(sink.upsert).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("multiple tables", () => {
+    const PATTERN = tablesTopicPattern("blogdb", [
+      "public.posts",
+      "public.comments",
+    ]);
+
+    async function startWithSinks(
+      sinks: ChangeEventConsumerOptions["sinks"],
+      options: Partial<ChangeEventConsumerOptions> = {},
+    ) {
+      const changeEventConsumer = new ChangeEventConsumer({
+        name: "test-consumer",
+        groupId: "test-consumer-group",
+        topic: PATTERN,
+        sinks,
+        retryPolicy: NO_RETRY,
+        commitBatchSize: 1,
+        kafka: createMockKafka(consumer, producer),
+        ...options,
+      });
+      await changeEventConsumer.start();
+      return changeEventConsumer;
+    }
+
+    it("should route each message to the sink of its table", async () => {
+      // Arrange
+      const posts = createSink();
+      const comments = createSink();
+      await startWithSinks({
+        "public.posts": posts,
+        "public.comments": comments,
+      });
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1));
+      await consumer.deliver(commentMessage(0, 10));
+
+      // Assert
+      expect(consumer.subscribe).toHaveBeenCalledWith({
+        topic: PATTERN,
+        fromBeginning: true,
+      });
+      expect(posts.upsert).toHaveBeenCalledWith(
+        post(1),
+        expect.objectContaining({}),
+      );
+      expect(comments.upsert).toHaveBeenCalledWith(
+        comment(10),
+        expect.objectContaining({}),
+      );
+      expect(posts.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip and commit messages of a table without a sink", async () => {
+      // Arrange
+      const posts = createSink();
+      await startWithSinks({ "public.posts": posts });
+
+      // Act
+      await consumer.deliver(commentMessage(0, 10));
+
+      // Assert
+      expect(posts.upsert).not.toHaveBeenCalled();
+      expect(
+        producer.getSentMessages(`${COMMENTS_TOPIC}.test-consumer.dlq`),
+      ).toHaveLength(0);
+      expect(consumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: COMMENTS_TOPIC, partition: 0, offset: "1" },
+      ]);
+    });
+
+    it("should apply a transaction to the sink of each table", async () => {
+      // Arrange
+      const postsTransaction = vi.fn(
+        async (_transactionId: string, _events: any[]) => {},
+      );
+      const commentsTransaction = vi.fn(
+        async (_transactionId: string, _events: any[]) => {},
+      );
+      await startWithSinks(
+        {
+          "public.posts": createSink({ applyTransaction: postsTransaction }),
+          "public.comments": createSink({
+            applyTransaction: commentsTransaction,
+          }),
+        },
+        { mode: "transaction" },
+      );
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1, "tx-1"));
+      await consumer.deliver(commentMessage(1, 10, "tx-1"));
+      await consumer.deliver(
+        createMockKafkaMessage({
+          topic: TRANSACTION_TOPIC,
+          value: createMockTransactionMetadata({
+            status: "END",
+            id: "tx-1",
+            dataCollections: { "public.posts": 1, "public.comments": 1 },
+          }),
+          offset: "0",
+        }),
+      );
+
+      // Assert
+      expect(postsTransaction).toHaveBeenCalledTimes(1);
+      expect(postsTransaction.mock.calls[0][1]).toHaveLength(1);
+      expect(commentsTransaction).toHaveBeenCalledTimes(1);
+      expect(commentsTransaction.mock.calls[0][1][0].payload.after).toEqual(
+        comment(10),
+      );
+    });
+
+    it("should apply a transaction once to the tables of a shared applyTransaction", async () => {
+      // Arrange
+      const watermark = {
+        advance: vi.fn(async (_table: string, _watermark: Watermark) => {}),
+      };
+      const applyTransaction = vi.fn(
+        async (_transactionId: string, _events: any[]) => {},
+      );
+      await startWithSinks(
+        {
+          "public.posts": createSink({ applyTransaction }),
+          "public.comments": createSink({ applyTransaction }),
+        },
+        { mode: "transaction", watermark },
+      );
+
+      // Act
+      await consumer.deliver(commentMessage(0, 10, "tx-1"));
+      await consumer.deliver(dataMessage(1, 1, "tx-1"));
+      await consumer.deliver(
+        createMockKafkaMessage({
+          topic: TRANSACTION_TOPIC,
+          value: createMockTransactionMetadata({
+            status: "END",
+            id: "tx-1",
+            dataCollections: { "public.posts": 1, "public.comments": 1 },
+          }),
+          offset: "0",
+        }),
+      );
+
+      // Assert: トランザクションの順のまま1回で渡す
+      expect(applyTransaction).toHaveBeenCalledTimes(1);
+      expect(
+        applyTransaction.mock.calls[0][1].map(
+          (event: any) => event.payload.after,
+        ),
+      ).toEqual([comment(10), post(1)]);
+      expect(
+        watermark.advance.mock.calls.map(([table]) => table).sort(),
+      ).toEqual(["public.comments", "public.posts"]);
+    });
+
+    it("should dead-letter every table of a shared applyTransaction that fails", async () => {
+      // Arrange
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const applyTransaction = vi.fn(async () => {
+        throw new Error("Connection is closed.");
+      });
+      await startWithSinks(
+        {
+          "public.posts": createSink({ applyTransaction }),
+          "public.comments": createSink({ applyTransaction }),
+        },
+        { mode: "transaction" },
+      );
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1, "tx-1"));
+      await consumer.deliver(commentMessage(0, 10, "tx-1"));
+      await consumer.deliver(
+        createMockKafkaMessage({
+          topic: TRANSACTION_TOPIC,
+          value: createMockTransactionMetadata({
+            status: "END",
+            id: "tx-1",
+            dataCollections: { "public.posts": 1, "public.comments": 1 },
+          }),
+          offset: "0",
+        }),
+      );
+
+      // Assert
+      expect(applyTransaction).toHaveBeenCalledTimes(1);
+      expect(producer.getSentMessages(DLQ_TOPIC)).toHaveLength(1);
+      expect(
+        producer.getSentMessages(`${COMMENTS_TOPIC}.test-consumer.dlq`),
+      ).toHaveLength(1);
+    });
+
+    it("should close a shared connection once", async () => {
+      // Arrange
+      const close = vi.fn(async () => {});
+      const changeEventConsumer = await startWithSinks({
+        "public.posts": createSink({ close }),
+        "public.comments": createSink({ close }),
+      });
+
+      // Act
+      await changeEventConsumer.stop();
+
+      // Assert
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+
+    it("should require either sink or sinks", () => {
+      expect(
+        () =>
+          new ChangeEventConsumer({
+            name: "test-consumer",
+            groupId: "test-consumer-group",
+            topic: PATTERN,
+            retryPolicy: NO_RETRY,
+            kafka: createMockKafka(consumer, producer),
+          }),
+      ).toThrow("pass either sink or sinks");
+    });
+
+    it("should report the lag of every topic matching the pattern", async () => {
+      // Arrange
+      const metrics = new MetricsRegistry();
+      const admin = new MockAdmin();
+      admin.setTopics([SOURCE_TOPIC, COMMENTS_TOPIC, TRANSACTION_TOPIC]);
+      admin.setTopicOffsets([{ partition: 0, high: "10", low: "0" }]);
+      admin.setGroupOffsets([{ partition: 0, offset: "4" }]);
+      const changeEventConsumer = await startWithSinks(
+        { "public.posts": createSink() },
+        { metrics, kafka: createMockKafka(consumer, producer, admin) },
+      );
+
+      // Act
+      const text = await metrics.render();
+      await changeEventConsumer.stop();
+
+      // Assert
+      expect(text).toContain(`topic="${SOURCE_TOPIC}"} 6`);
+      expect(text).toContain(`topic="${COMMENTS_TOPIC}"} 6`);
+      expect(text).not.toContain(`topic="${TRANSACTION_TOPIC}"`);
+    });
+  });
+
+  describe("watermark", () => {
+    const recorder = () => ({
+      advance: vi.fn(async (_table: string, _watermark: Watermark) => {}),
+    });
+
+    it("should record the LSN of each applied event for its table", async () => {
+      // Arrange
+      const watermark = recorder();
+      await start(createSink(), { watermark });
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1));
+      await consumer.deliver(
+        createMockTombstoneMessage({ id: 1, offset: "1", withSchema: false }),
+      );
+
+      // Assert: dataMessage の LSN は 100 + offset。トゥームストーンは LSN を持たない
+      expect(watermark.advance.mock.calls).toEqual([
+        ["public.posts", { lsn: 100, txId: "1" }],
+      ]);
+    });
+
+    it("should not record the LSN of a dead-lettered event", async () => {
+      // Arrange
+      const watermark = recorder();
+      const sink = createSink({
+        upsert: vi.fn(async () => {
+          throw new NonRetryableError("mapping error");
+        }),
+      });
+      await start(sink, { watermark });
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1));
+
+      // Assert
+      expect(watermark.advance).not.toHaveBeenCalled();
+    });
+
+    it("should record the highest LSN of a batch", async () => {
+      // Arrange
+      const watermark = recorder();
+      const writeBatch = vi.fn(async (messages: any[]) => ({
+        completed: messages,
+        poisoned: [],
+        pending: 0,
+      }));
+      await start(createSink({ writeBatch }), { watermark, mode: "batch" });
+
+      // Act
+      await consumer.deliverBatch(SOURCE_TOPIC, 0, [
+        dataMessage(0, 1).message,
+        dataMessage(1, 2).message,
+      ]);
+
+      // Assert
+      expect(watermark.advance.mock.calls).toEqual([
+        ["public.posts", { lsn: 101, txId: "1" }],
+      ]);
+    });
+
+    it("should not move past a transaction that has not been applied yet", async () => {
+      // Arrange
+      const watermark = recorder();
+      const applyTransaction = vi.fn(async () => {});
+      await start(createSink({ applyTransaction }), {
+        watermark,
+        mode: "transaction",
+      });
+      const end = (id: string, offset: string) =>
+        createMockKafkaMessage({
+          topic: TRANSACTION_TOPIC,
+          value: createMockTransactionMetadata({
+            status: "END",
+            id,
+            eventCount: 1,
+          }),
+          offset,
+        });
+
+      // Act: 後にコミットされた tx-2 の END が先に届いた
+      await consumer.deliver(dataMessage(0, 1, "tx-1"));
+      await consumer.deliver(dataMessage(1, 2, "tx-2"));
+      await consumer.deliver(end("tx-2", "0"));
+      const beforeFirst = [...watermark.advance.mock.calls];
+      await consumer.deliver(end("tx-1", "1"));
+
+      // Assert
+      expect(applyTransaction).toHaveBeenCalledTimes(2);
+      expect(beforeFirst).toEqual([]);
+      expect(watermark.advance.mock.calls).toEqual([
+        ["public.posts", { lsn: 101, txId: "1" }],
+      ]);
+    });
+
+    it("should forget the applied positions on a rebalance", async () => {
+      // Arrange
+      const clear = vi.spyOn(WatermarkTracker.prototype, "clear");
+      await start(createSink(), { watermark: recorder() });
+
+      // Act
+      consumer.emit(consumer.events.GROUP_JOIN);
+
+      // Assert
+      expect(clear).toHaveBeenCalledTimes(1);
+      clear.mockRestore();
+    });
+
+    it("should keep consuming when the watermark cannot be recorded", async () => {
+      // Arrange
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const sink = createSink();
+      await start(sink, {
+        watermark: {
+          advance: vi.fn(async () => {
+            throw new Error("connection refused");
+          }),
+        },
+      });
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1));
+
+      // Assert
+      expect(sink.upsert).toHaveBeenCalledTimes(1);
+      expect(producer.getSentMessages(DLQ_TOPIC)).toHaveLength(0);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("Failed to record the watermark"),
+      );
+      warn.mockRestore();
+    });
+  });
+
+  describe("metrics", () => {
+    const consumerLabel = { consumer: "test-consumer" };
+
+    it("should count processed events by op and dead-lettered failures", async () => {
+      // Arrange
+      const metrics = new MetricsRegistry();
+      const sink = createSink({
+        remove: vi.fn(async () => {
+          throw new NonRetryableError("mapping error");
+        }),
+      });
+      await start(sink, { metrics });
+
+      // Act
+      await consumer.deliver(dataMessage(0, 1));
+      await consumer.deliver(
+        createMockTombstoneMessage({ id: 1, offset: "1", withSchema: false }),
+      );
+      await consumer.deliver(
+        createMockKafkaMessage({
+          topic: SOURCE_TOPIC,
+          value: JSON.stringify(
+            createMockDebeziumEvent({ op: "d", before: post(2) }),
+          ),
+          offset: "2",
+        }),
+      );
+
+      // Assert
+      const processed = metrics.counter("cdc_events_processed_total", "");
+      expect(processed.get({ ...consumerLabel, op: "c" })).toBe(1);
+      expect(processed.get({ ...consumerLabel, op: "tombstone" })).toBe(1);
+      expect(processed.get({ ...consumerLabel, op: "d" })).toBe(0);
+      expect(
+        metrics
+          .counter("cdc_handler_failures_total", "")
+          .get({ ...consumerLabel, outcome: "dead_lettered" }),
+      ).toBe(1);
+    });
+
+    it("should observe the delay since the Postgres commit", async () => {
+      // Arrange
+      const metrics = new MetricsRegistry();
+      await start(createSink(), { metrics });
+
+      // Act: 2秒前にコミットされた変更
+      await consumer.deliver(
+        createMockKafkaMessage({
+          topic: SOURCE_TOPIC,
+          value: JSON.stringify(
+            createMockDebeziumEvent({
+              op: "u",
+              after: post(1),
+              source: { ts_ms: Date.now() - 2000 },
+            }),
+          ),
+          offset: "0",
+        }),
+      );
+
+      // Assert
+      const text = await metrics.render();
+      expect(text).toContain(
+        'cdc_propagation_delay_seconds_bucket{consumer="test-consumer",le="1"} 0',
+      );
+      expect(text).toContain(
+        'cdc_propagation_delay_seconds_bucket{consumer="test-consumer",le="2.5"} 1',
+      );
+    });
+
+    it("should count events written in a batch", async () => {
+      // Arrange
+      const metrics = new MetricsRegistry();
+      const writeBatch = vi.fn(async (messages: any[]) => ({
+        completed: messages,
+        poisoned: [],
+        pending: 0,
+      }));
+      await start(createSink({ writeBatch }), { metrics, mode: "batch" });
+
+      // Act
+      await consumer.deliverBatch(SOURCE_TOPIC, 0, [
+        dataMessage(0, 1).message,
+        dataMessage(1, 2).message,
+      ]);
+
+      // Assert
+      expect(
+        metrics
+          .counter("cdc_events_processed_total", "")
+          .get({ ...consumerLabel, op: "c" }),
+      ).toBe(2);
+    });
+
+    it("should report the lag of each partition on scrape", async () => {
+      // Arrange
+      const metrics = new MetricsRegistry();
+      const admin = new MockAdmin();
+      admin.setTopicOffsets([
+        { partition: 0, high: "120", low: "0" },
+        { partition: 1, high: "50", low: "10" },
+      ]);
+      // パーティション1はまだコミットしていない
+      admin.setGroupOffsets([
+        { partition: 0, offset: "100" },
+        { partition: 1, offset: "-1" },
+      ]);
+      const changeEventConsumer = await start(createSink(), {
+        metrics,
+        kafka: createMockKafka(consumer, producer, admin),
+      });
+
+      // Act
+      const text = await metrics.render();
+      await changeEventConsumer.stop();
+
+      // Assert
+      expect(text).toContain(
+        'cdc_consumer_lag{consumer="test-consumer",partition="0",topic="blogdb.public.posts"} 20',
+      );
+      expect(text).toContain(
+        'cdc_consumer_lag{consumer="test-consumer",partition="1",topic="blogdb.public.posts"} 40',
+      );
+      expect(admin.disconnect).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Debezium の列の値の変換の単体テスト
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  convertRow,
+  convertValue,
+  decimalToString,
+  pgTimestampToIso,
+} from "@/lib/column-types";
+
+describe("convertValue", () => {
+  /**
+   * DDT: 論理型ごとの変換
+   */
+  const cases = [
+    {
+      name: "connect Timestamp (millis)",
+      schema: {
+        type: "int64",
+        name: "org.apache.kafka.connect.data.Timestamp",
+      },
+      value: 1704067200123,
+      expected: "2024-01-01T00:00:00.123Z",
+    },
+    {
+      name: "MicroTimestamp",
+      schema: { type: "int64", name: "io.debezium.time.MicroTimestamp" },
+      value: 1704067200123456,
+      expected: "2024-01-01T00:00:00.123Z",
+    },
+    {
+      name: "NanoTimestamp",
+      schema: { type: "int64", name: "io.debezium.time.NanoTimestamp" },
+      value: 1704067200123456789,
+      expected: "2024-01-01T00:00:00.123Z",
+    },
+    {
+      name: "ZonedTimestamp",
+      schema: { type: "string", name: "io.debezium.time.ZonedTimestamp" },
+      value: "2024-01-01T09:00:00+09:00",
+      expected: "2024-01-01T00:00:00.000Z",
+    },
+    {
+      name: "connect Date (days)",
+      schema: { type: "int32", name: "org.apache.kafka.connect.data.Date" },
+      value: 19723,
+      expected: "2024-01-01",
+    },
+    {
+      name: "MicroTime",
+      schema: { type: "int64", name: "io.debezium.time.MicroTime" },
+      value: 45296000123,
+      expected: "12:34:56.000123",
+    },
+    {
+      name: "connect Decimal",
+      schema: {
+        type: "bytes",
+        name: "org.apache.kafka.connect.data.Decimal",
+        parameters: { scale: "2" },
+      },
+      // 12345 = 0x3039
+      value: Buffer.from([0x30, 0x39]).toString("base64"),
+      expected: "123.45",
+    },
+    {
+      name: "VariableScaleDecimal",
+      schema: { type: "struct", name: "io.debezium.data.VariableScaleDecimal" },
+      value: { scale: 3, value: Buffer.from([0x30, 0x39]).toString("base64") },
+      expected: "12.345",
+    },
+    {
+      name: "a value without a logical type",
+      schema: { type: "string" },
+      value: "Alice",
+      expected: "Alice",
+    },
+    {
+      name: "a value of an unexpected type",
+      schema: { type: "int64", name: "io.debezium.time.MicroTimestamp" },
+      value: "2024-01-01T00:00:00.000Z",
+      expected: "2024-01-01T00:00:00.000Z",
+    },
+    {
+      name: "null",
+      schema: { type: "int64", name: "io.debezium.time.MicroTimestamp" },
+      value: null,
+      expected: null,
+    },
+  ];
+
+  cases.forEach((testCase) => {
+    it(`should convert ${testCase.name}`, () => {
+      expect(convertValue(testCase.value, testCase.schema)).toBe(
+        testCase.expected,
+      );
+    });
+  });
+});
+
+describe("decimalToString", () => {
+  /**
+   * DDT: 2の補数・scale
+   */
+  const cases = [
+    { bytes: [0x30, 0x39], scale: 2, expected: "123.45" },
+    { bytes: [0xcf, 0xc7], scale: 2, expected: "-123.45" },
+    { bytes: [0x05], scale: 3, expected: "0.005" },
+    { bytes: [0xff], scale: 0, expected: "-1" },
+    { bytes: [0x0c], scale: -2, expected: "1200" },
+  ];
+
+  cases.forEach(({ bytes, scale, expected }) => {
+    it(`should decode [${bytes}] with scale ${scale} as ${expected}`, () => {
+      expect(decimalToString(Buffer.from(bytes), scale)).toBe(expected);
+    });
+  });
+});
+
+describe("convertRow", () => {
+  it("should convert only the columns in the schema", () => {
+    const row = { id: 1, title: "Hello", created_at: 1704067200000 };
+
+    const converted = convertRow(row, [
+      {
+        field: "created_at",
+        type: "int64",
+        name: "org.apache.kafka.connect.data.Timestamp",
+      },
+      {
+        field: "updated_at",
+        type: "int64",
+        name: "org.apache.kafka.connect.data.Timestamp",
+      },
+    ]);
+
+    expect(converted).toEqual({
+      id: 1,
+      title: "Hello",
+      created_at: "2024-01-01T00:00:00.000Z",
+    });
+    expect(row.created_at).toBe(1704067200000);
+  });
+});
+
+describe("pgTimestampToIso", () => {
+  it("should read a TIMESTAMP as UTC like Debezium does", () => {
+    expect(pgTimestampToIso("2024-01-01 00:00:00.123456")).toBe(
+      "2024-01-01T00:00:00.123Z",
+    );
+  });
+
+  it("should leave values that are not dates as they are", () => {
+    expect(pgTimestampToIso("infinity")).toBe("infinity");
+  });
+});
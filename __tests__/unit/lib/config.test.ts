@@ -0,0 +1,213 @@
+/**
+ * 設定の読み込みの単体テスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { ConfigError, loadConfig } from "@/lib/config";
+
+// ファイル読み込みのモック（パス → 中身）
+function fakeFiles(files: Record<string, string>) {
+  return (path: string) => {
+    if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+    return files[path];
+  };
+}
+
+function problemsOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof ConfigError) return error.problems;
+    throw error;
+  }
+  throw new Error("Expected ConfigError");
+}
+
+describe("loadConfig", () => {
+  it("should use the docker-compose defaults without any settings", () => {
+    const config = loadConfig({});
+
+    expect(config.kafka.brokers).toEqual(["localhost:9092"]);
+    expect(config.kafka.postsTopic).toBe("blogdb.public.posts");
+    expect(config.kafka.transactionTopic).toBe("blogdb.transaction");
+    expect(config.postgres).toEqual({
+      host: "localhost",
+      port: 5433,
+      database: "blog_db",
+      user: "blog_user",
+      password: "blog_pass",
+    });
+    expect(config.redis).toEqual({ host: "localhost", port: 6380 });
+    expect(config.elasticsearch.index).toBe("posts");
+    expect(config.cache.ttlSeconds).toBe(300);
+    expect(config.api.port).toBe(3000);
+  });
+
+  it("should build a retry policy for each consumer", () => {
+    const config = loadConfig({});
+
+    expect(config.searchIndexer.retryPolicy).toEqual({
+      maxAttempts: 5,
+      initialDelayMs: 500,
+      maxDelayMs: 10000,
+      multiplier: 2,
+      jitter: 0.2,
+    });
+    expect(config.cacheUpdater.retryPolicy.initialDelayMs).toBe(200);
+    expect(config.webhooks.deliveryRetryPolicy.maxAttempts).toBe(4);
+  });
+
+  /**
+   * DDT: 環境変数の型変換
+   */
+  const envCases = [
+    {
+      name: "comma-separated brokers",
+      env: { KAFKA_BROKERS: "kafka-1:9092, kafka-2:9092" },
+      read: (c: ReturnType<typeof loadConfig>) => c.kafka.brokers,
+      expected: ["kafka-1:9092", "kafka-2:9092"],
+    },
+    {
+      name: "port number",
+      env: { REDIS_PORT: "6379" },
+      read: (c: ReturnType<typeof loadConfig>) => c.redis.port,
+      expected: 6379,
+    },
+    {
+      name: "boolean flag",
+      env: { SEARCH_INDEXER_BATCH_MODE: "true" },
+      read: (c: ReturnType<typeof loadConfig>) => c.searchIndexer.batchMode,
+      expected: true,
+    },
+    {
+      name: "consumer retry policy",
+      env: {
+        CACHE_UPDATER_RETRY_MAX_ATTEMPTS: "8",
+        CACHE_UPDATER_RETRY_MAX_DELAY_MS: "30000",
+      },
+      read: (c: ReturnType<typeof loadConfig>) => c.cacheUpdater.retryPolicy,
+      expected: {
+        maxAttempts: 8,
+        initialDelayMs: 200,
+        maxDelayMs: 30000,
+        multiplier: 2,
+        jitter: 0.2,
+      },
+    },
+    {
+      name: "topic prefix",
+      env: { KAFKA_TOPIC_PREFIX: "staging" },
+      read: (c: ReturnType<typeof loadConfig>) => c.kafka.postsTopic,
+      expected: "staging.public.posts",
+    },
+    {
+      name: "URL with a trailing slash",
+      env: { DEBEZIUM_API: "http://connect:8083/" },
+      read: (c: ReturnType<typeof loadConfig>) => c.debezium.api,
+      expected: "http://connect:8083",
+    },
+  ];
+
+  envCases.forEach((testCase) => {
+    it(`should read ${testCase.name} from the environment`, () => {
+      expect(testCase.read(loadConfig(testCase.env))).toEqual(
+        testCase.expected,
+      );
+    });
+  });
+
+  it("should prefer environment variables over the config file", () => {
+    // Arrange
+    const readFile = fakeFiles({
+      "/etc/app.json": JSON.stringify({
+        redis: { host: "redis", port: 6379 },
+        cache: { ttlSeconds: 60 },
+      }),
+    });
+
+    // Act
+    const config = loadConfig(
+      { APP_CONFIG_FILE: "/etc/app.json", REDIS_PORT: "6400" },
+      { readFile },
+    );
+
+    // Assert
+    expect(config.redis).toEqual({ host: "redis", port: 6400 });
+    expect(config.cache.ttlSeconds).toBe(60);
+  });
+
+  it("should read secrets from files", () => {
+    const readFile = fakeFiles({ "/run/secrets/pg": "s3cret\n" });
+
+    const config = loadConfig(
+      { POSTGRES_PASSWORD_FILE: "/run/secrets/pg" },
+      { readFile },
+    );
+
+    expect(config.postgres.password).toBe("s3cret");
+  });
+
+  /**
+   * DDT: 不正な値はまとめて報告する
+   */
+  const invalidCases = [
+    {
+      name: "a non-numeric port",
+      env: { POSTGRES_PORT: "abc" },
+      expected: ['POSTGRES_PORT: must be a port number (1-65535) (got "abc")'],
+    },
+    {
+      name: "an invalid boolean",
+      env: { CACHE_UPDATER_TRANSACTION_MODE: "yes" },
+      expected: [
+        'CACHE_UPDATER_TRANSACTION_MODE: must be "true" or "false" (got "yes")',
+      ],
+    },
+    {
+      name: "multiple problems",
+      env: { ELASTICSEARCH_NODE: "localhost:9200", CACHE_TTL: "0" },
+      expected: [
+        'ELASTICSEARCH_NODE: must be an http(s) URL (got "localhost:9200")',
+        'CACHE_TTL: must be a positive integer (got "0")',
+      ],
+    },
+    {
+      name: "an empty secret without echoing it",
+      env: { POSTGRES_PASSWORD: " " },
+      expected: ["POSTGRES_PASSWORD: must not be empty"],
+    },
+  ];
+
+  invalidCases.forEach((testCase) => {
+    it(`should reject ${testCase.name}`, () => {
+      expect(problemsOf(() => loadConfig(testCase.env))).toEqual(
+        testCase.expected,
+      );
+    });
+  });
+
+  it("should report unknown keys in the config file", () => {
+    const readFile = fakeFiles({
+      "/etc/app.json": JSON.stringify({ redis: { prot: 6379 } }),
+    });
+
+    expect(
+      problemsOf(() =>
+        loadConfig({ APP_CONFIG_FILE: "/etc/app.json" }, { readFile }),
+      ),
+    ).toEqual(['/etc/app.json: unknown setting "redis.prot"']);
+  });
+
+  it("should report a missing secret file", () => {
+    expect(
+      problemsOf(() =>
+        loadConfig(
+          { POSTGRES_PASSWORD_FILE: "/run/secrets/missing" },
+          { readFile: fakeFiles({}) },
+        ),
+      ),
+    ).toEqual([
+      "POSTGRES_PASSWORD_FILE: cannot read /run/secrets/missing (ENOENT: /run/secrets/missing)",
+    ]);
+  });
+});
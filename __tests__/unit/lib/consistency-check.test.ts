@@ -0,0 +1,397 @@
+/**
+ * PostgreSQL と派生ストアの突き合わせの単体テスト
+ * Redis・Elasticsearch は Consumer のハンドラーのストア（MockRedis / MockElasticsearch 上）で確かめる
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockRedis, type MockRedis } from "@/test-helpers/mock-redis";
+import {
+  createMockElasticsearch,
+  type MockElasticsearch,
+} from "@/test-helpers/mock-elasticsearch";
+import {
+  checkAllPosts,
+  checkPosts,
+  checkSampledPosts,
+  createPgPostSource,
+  hasDrift,
+  outsideSnapshot,
+  postChecksum,
+  type DerivedPostStore,
+  type PostSource,
+} from "@/lib/consistency-check";
+import {
+  createCacheConsistencyStore,
+  toCacheValue,
+} from "@/consumers/cache-updater-handlers";
+import {
+  INDEX_NAME,
+  createSearchConsistencyStore,
+  toSearchDocument,
+} from "@/consumers/search-indexer-handlers";
+import { authorPostsKey, postKey } from "@/consumers/cache-updater-scripts";
+import type { Post } from "@/types/index";
+
+const post = (id: number, overrides: Partial<Post> = {}): Post => ({
+  id,
+  title: `Post ${id}`,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+// PostgreSQL の代わり（posts と、スナップショットの後の LSN、変更中の投稿ID）
+function createSource(
+  posts: Post[],
+  lsn = 1000,
+  changing: number[] = [],
+): PostSource {
+  const rows = new Map(posts.map((row) => [row.id, row]));
+  return {
+    maxId: async () => Math.max(0, ...rows.keys()),
+    read: async (ids) => ({
+      posts: ids.flatMap((id) => (rows.has(id) ? [rows.get(id)!] : [])),
+      lsn,
+      changing: changing.filter((id) => ids.includes(id)),
+    }),
+  };
+}
+
+describe("consistency check", () => {
+  let redis: MockRedis;
+  let es: MockElasticsearch;
+  let stores: DerivedPostStore[];
+
+  beforeEach(() => {
+    redis = createMockRedis();
+    es = createMockElasticsearch();
+    stores = [
+      createCacheConsistencyStore(redis as any),
+      createSearchConsistencyStore(es as any),
+    ];
+  });
+
+  // Consumer が書くのと同じ形で両方のストアに書く
+  async function project(row: Post, version = 1) {
+    await redis.set(postKey(row.id), toCacheValue(row));
+    await redis.zadd(authorPostsKey(row.author), Date.now(), String(row.id));
+    await es.index({
+      index: INDEX_NAME,
+      id: String(row.id),
+      version,
+      version_type: "external",
+      document: toSearchDocument(row),
+    });
+  }
+
+  it("should report no drift when the stores match Postgres", async () => {
+    // Arrange
+    await project(post(1));
+    await project(post(2));
+
+    // Act
+    const report = await checkPosts(
+      createSource([post(1), post(2)]),
+      stores,
+      [1, 2, 3],
+    );
+
+    // Assert
+    expect(hasDrift(report)).toBe(false);
+    expect(report).toMatchObject({ checked: 3, rows: 2 });
+  });
+
+  /**
+   * DDT: ずれの種類
+   */
+  const driftCases = [
+    {
+      // Redis はキャッシュなので、無いのは TTL の期限切れとみなす
+      name: "a post missing from both stores",
+      arrange: async () => {},
+      postgres: [post(1)],
+      redis: { missing: [], extra: [], stale: [] },
+      elasticsearch: { missing: [1], extra: [], stale: [] },
+    },
+    {
+      name: "a deleted post left in both stores",
+      arrange: () => project(post(1)),
+      postgres: [],
+      redis: { missing: [], extra: [1], stale: [] },
+      elasticsearch: { missing: [], extra: [1], stale: [] },
+    },
+    {
+      name: "an update that was not applied",
+      arrange: () => project(post(1, { title: "Old title" })),
+      postgres: [post(1)],
+      redis: { missing: [], extra: [], stale: [1] },
+      elasticsearch: { missing: [], extra: [], stale: [1] },
+    },
+  ];
+
+  it.each(driftCases)(
+    "should report $name",
+    async ({ arrange, postgres, ...expected }) => {
+      // Arrange
+      await arrange();
+
+      // Act
+      const report = await checkPosts(createSource(postgres), stores, [1]);
+
+      // Assert
+      expect(report.stores).toEqual({
+        redis: { ...expected.redis, repaired: 0 },
+        elasticsearch: { ...expected.elasticsearch, repaired: 0 },
+      });
+    },
+  );
+
+  it("should report a cached post missing from its author list as stale", async () => {
+    // Arrange
+    await project(post(1));
+    await project(post(2));
+    await redis.zrem(authorPostsKey("Alice"), "1");
+
+    // Act
+    const report = await checkPosts(
+      createSource([post(1), post(2)]),
+      stores,
+      [1, 2],
+    );
+
+    // Assert
+    expect(report.stores.redis.stale).toEqual([1]);
+    expect(report.stores.elasticsearch.stale).toEqual([]);
+  });
+
+  it("should not report a cached post whose author list has expired", async () => {
+    // Arrange
+    await project(post(1));
+    await redis.del(authorPostsKey("Alice"));
+
+    // Act
+    const report = await checkPosts(createSource([post(1)]), stores, [1]);
+
+    // Assert
+    expect(hasDrift(report)).toBe(false);
+  });
+
+  it("should repair every difference so that a second check is clean", async () => {
+    // Arrange
+    await project(post(2, { title: "Old title", author: "Bob" }));
+    await project(post(3));
+    const source = createSource([post(1), post(2)]);
+
+    // Act
+    const report = await checkPosts(source, stores, [1, 2, 3], {
+      repair: true,
+    });
+
+    // Assert: Redis には無い投稿（1）を入れない
+    expect(report.stores.redis.repaired).toBe(2);
+    expect(report.stores.elasticsearch.repaired).toBe(3);
+    expect(hasDrift(await checkPosts(source, stores, [1, 2, 3]))).toBe(false);
+    expect(await redis.get(postKey(1))).toBeNull();
+    // 著者が変わった投稿は以前の著者のリストから外す
+    expect(await redis.zscore(authorPostsKey("Bob"), "2")).toBeNull();
+    expect(es.getAllDocuments(INDEX_NAME).get("2")).toEqual(
+      toSearchDocument(post(2)),
+    );
+  });
+
+  it("should not overwrite a newer version written by the consumer", async () => {
+    // Arrange: Consumer が突き合わせの LSN（1000）より新しいイベントを反映済み
+    await project(post(1, { title: "Newer title" }), 2000);
+
+    // Act
+    const report = await checkPosts(
+      createSource([post(1)], 1000),
+      stores,
+      [1],
+      {
+        repair: true,
+      },
+    );
+
+    // Assert
+    expect(report.stores.elasticsearch).toMatchObject({
+      stale: [1],
+      repaired: 0,
+    });
+    expect(es.getAllDocuments(INDEX_NAME).get("1").title).toBe("Newer title");
+  });
+
+  it("should leave a post changed by an uncommitted transaction to the consumer", async () => {
+    // Arrange: スナップショットの時点で、投稿1を更新するトランザクション（変更の LSN は 900）が COMMIT していない
+    await project(post(1, { title: "Lagging" }), 500);
+    const source = createSource([post(1, { title: "Before" })], 1000, [1]);
+
+    // Act
+    const report = await checkPosts(source, stores, [1], { repair: true });
+    // COMMIT の後に Consumer が反映する
+    await es.index({
+      index: INDEX_NAME,
+      id: "1",
+      version: 900,
+      version_type: "external",
+      document: toSearchDocument(post(1, { title: "After" })),
+    });
+
+    // Assert
+    expect(report.changing).toEqual([1]);
+    expect(report.stores.elasticsearch).toEqual({
+      missing: [],
+      extra: [],
+      stale: [],
+      repaired: 0,
+    });
+    expect(es.getAllDocuments(INDEX_NAME).get("1").title).toBe("After");
+  });
+
+  it("should not remove a post inserted and applied after the stores were read", async () => {
+    // Arrange: スナップショットを取るまでの間に投稿1の INSERT が COMMIT され、Consumer が反映した
+    const source: PostSource = {
+      maxId: async () => 1,
+      read: async () => {
+        await project(post(1), 900);
+        return { posts: [], lsn: 1000, changing: [] };
+      },
+    };
+
+    // Act
+    const report = await checkPosts(source, stores, [1], { repair: true });
+
+    // Assert
+    expect(hasDrift(report)).toBe(false);
+    expect(es.getAllDocuments(INDEX_NAME).has("1")).toBe(true);
+  });
+
+  it("should walk every ID up to the last one in ranges", async () => {
+    // Arrange
+    const ranges: [number, number][] = [];
+    await project(post(5));
+
+    // Act
+    const report = await checkAllPosts(
+      createSource([post(1), post(2), post(4), post(5)]),
+      stores,
+      { rangeSize: 2, onRange: (from, to) => ranges.push([from, to]) },
+    );
+
+    // Assert
+    expect(ranges).toEqual([
+      [1, 2],
+      [3, 4],
+      [5, 5],
+    ]);
+    expect(report).toMatchObject({ checked: 5, rows: 4 });
+    expect(report.stores.elasticsearch.missing).toEqual([1, 2, 4]);
+  });
+
+  it("should check distinct random IDs in a sample", async () => {
+    // Arrange
+    const source = createSource(
+      Array.from({ length: 100 }, (_, i) => post(i + 1)),
+    );
+    const values = [0.1, 0.1, 0.5, 0.99];
+    const random = () => values.shift() ?? 0;
+
+    // Act
+    const report = await checkSampledPosts(source, stores, 3, random);
+
+    // Assert: 0.1 は2回出たので、重ならない3件（11, 51, 100）を調べる
+    expect(report.checked).toBe(3);
+    expect(report.stores.elasticsearch.missing).toEqual([11, 51, 100]);
+  });
+});
+
+describe("outsideSnapshot", () => {
+  // xmin=100, xmax=110, 実行中は 103 と 105（エポック 1 の 64 ビットの値）
+  const changing = outsideSnapshot(
+    `${2 ** 32 + 100}:${2 ** 32 + 110}:${2 ** 32 + 103},${2 ** 32 + 105}`,
+  );
+
+  /**
+   * DDT: 行の xmax（32 ビット）がスナップショットの外のトランザクションか
+   */
+  it.each([
+    { name: "no transaction", xid: 0, expected: false },
+    { name: "committed before xmin", xid: 90, expected: false },
+    { name: "finished within the snapshot", xid: 104, expected: false },
+    { name: "running at the snapshot", xid: 103, expected: true },
+    { name: "started after the snapshot", xid: 110, expected: true },
+    { name: "started long after the snapshot", xid: 5000, expected: true },
+  ])("should return $expected for $name", ({ xid, expected }) => {
+    expect(changing(xid)).toBe(expected);
+  });
+
+  it("should compare across the wraparound of 32-bit xids", () => {
+    // Arrange: xmax はエポック 2 の 5、エポック 1 の 2^32 - 10 は前
+    const wrapped = outsideSnapshot(`${2 * 2 ** 32}:${2 * 2 ** 32 + 5}:`);
+
+    // Act & Assert
+    expect(wrapped(2 ** 32 - 10)).toBe(false);
+    expect(wrapped(7)).toBe(true);
+  });
+});
+
+describe("createPgPostSource", () => {
+  function createPool(rows: (Post & { row_xmax: string })[]) {
+    const client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes("pg_current_snapshot")) {
+          return { rows: [{ snapshot: "100:110:103" }] };
+        }
+        if (sql.includes("pg_current_wal_lsn")) {
+          return { rows: [{ wal_lsn: "23803208" }] };
+        }
+        if (sql.includes("FROM posts")) {
+          return { rows };
+        }
+        return { rows: [] };
+      }),
+      release: vi.fn(),
+    };
+    return { pool: { connect: vi.fn(async () => client) }, client };
+  }
+
+  it("should read in one snapshot and report the rows changed outside it", async () => {
+    // Arrange: 投稿2は実行中のトランザクション 103 が更新している
+    const { pool, client } = createPool([
+      { ...post(1), row_xmax: "0" },
+      { ...post(2), row_xmax: "103" },
+      { ...post(3), row_xmax: "95" },
+    ]);
+
+    // Act
+    const result = await createPgPostSource(pool as any).read([1, 2, 3]);
+
+    // Assert: LSN はスナップショットを取った後に読む
+    expect(result).toEqual({
+      posts: [post(1), post(2), post(3)],
+      lsn: 23803208,
+      changing: [2],
+    });
+    expect(client.query.mock.calls.map(([sql]) => sql)).toEqual([
+      "BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY",
+      expect.stringContaining("pg_current_snapshot"),
+      expect.stringContaining("pg_current_wal_lsn"),
+      expect.stringContaining("FROM posts"),
+      "COMMIT",
+    ]);
+    expect(client.release).toHaveBeenCalled();
+  });
+});
+
+describe("postChecksum", () => {
+  it("should only depend on the columns written to the stores", () => {
+    expect(postChecksum({ ...post(1), score: 1.5 } as Post)).toBe(
+      postChecksum(post(1)),
+    );
+    expect(postChecksum(post(1, { content: "Edited" }))).not.toBe(
+      postChecksum(post(1)),
+    );
+  });
+});
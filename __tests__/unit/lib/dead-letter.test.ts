@@ -0,0 +1,157 @@
+/**
+ * Dead Letter Queue の単体テスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  createMockKafkaMessage,
+  createMockProducer,
+} from "@/test-helpers/mock-kafka";
+import {
+  DLQ_HEADERS,
+  deadLetterTopic,
+  publishToDeadLetter,
+  readDeadLetterMetadata,
+} from "@/lib/dead-letter";
+
+describe("Dead Letter Queue", () => {
+  let mockProducer: ReturnType<typeof createMockProducer>;
+
+  beforeEach(() => {
+    mockProducer = createMockProducer();
+    vi.clearAllMocks();
+  });
+
+  describe("deadLetterTopic", () => {
+    /**
+     * DDT: Consumerごとに別のDLQトピックになる
+     */
+    const topicCases = [
+      {
+        consumerName: "search-indexer",
+        expected: "blogdb.public.posts.search-indexer.dlq",
+      },
+      {
+        consumerName: "cache-updater",
+        expected: "blogdb.public.posts.cache-updater.dlq",
+      },
+    ];
+
+    topicCases.forEach((testCase) => {
+      it(`should derive DLQ topic for ${testCase.consumerName}`, () => {
+        expect(
+          deadLetterTopic("blogdb.public.posts", testCase.consumerName),
+        ).toBe(testCase.expected);
+      });
+    });
+  });
+
+  describe("publishToDeadLetter", () => {
+    it("should publish original key/value with metadata headers", async () => {
+      // Arrange
+      const { topic, partition, message } = createMockKafkaMessage({
+        topic: "blogdb.public.posts",
+        key: '{"id":1}',
+        value: "not a json",
+        partition: 2,
+        offset: "42",
+      });
+
+      // Act
+      const dlqTopic = await publishToDeadLetter(mockProducer, {
+        consumerName: "search-indexer",
+        consumerGroup: "search-indexer-group",
+        topic,
+        partition,
+        message,
+        error: new Error("Unexpected token"),
+        attempts: 3,
+      });
+
+      // Assert
+      expect(dlqTopic).toBe("blogdb.public.posts.search-indexer.dlq");
+      const [sent] = mockProducer.getSentMessages(dlqTopic);
+      expect(sent.key?.toString()).toBe('{"id":1}');
+      expect(sent.value?.toString()).toBe("not a json");
+      expect(sent.headers).toMatchObject({
+        [DLQ_HEADERS.originalTopic]: "blogdb.public.posts",
+        [DLQ_HEADERS.originalPartition]: "2",
+        [DLQ_HEADERS.originalOffset]: "42",
+        [DLQ_HEADERS.errorMessage]: "Unexpected token",
+        [DLQ_HEADERS.attempts]: "3",
+        [DLQ_HEADERS.consumerGroup]: "search-indexer-group",
+      });
+    });
+
+    it("should propagate producer errors", async () => {
+      // Arrange: DLQへの送信自体が失敗するケース
+      mockProducer.send.mockRejectedValueOnce(new Error("Broker down"));
+      const { topic, partition, message } = createMockKafkaMessage({
+        topic: "blogdb.public.posts",
+        value: "{}",
+      });
+
+      // Act & Assert
+      await expect(
+        publishToDeadLetter(mockProducer, {
+          consumerName: "cache-updater",
+          consumerGroup: "cache-updater-group",
+          topic,
+          partition,
+          message,
+          error: "boom",
+          attempts: 1,
+        }),
+      ).rejects.toThrow("Broker down");
+    });
+  });
+
+  describe("readDeadLetterMetadata", () => {
+    it("should read headers written by publishToDeadLetter", async () => {
+      // Arrange
+      const { topic, partition, message } = createMockKafkaMessage({
+        topic: "blogdb.public.posts",
+        value: "{}",
+        offset: "7",
+      });
+      const dlqTopic = await publishToDeadLetter(mockProducer, {
+        consumerName: "cache-updater",
+        consumerGroup: "cache-updater-group",
+        topic,
+        partition,
+        message,
+        error: new Error("Connection refused"),
+        attempts: 2,
+      });
+      const [sent] = mockProducer.getSentMessages(dlqTopic);
+
+      // Kafkaから受信した時と同じくBufferに変換
+      const headers = Object.fromEntries(
+        Object.entries(sent.headers!).map(([name, value]) => [
+          name,
+          Buffer.from(String(value)),
+        ]),
+      );
+
+      // Act
+      const metadata = readDeadLetterMetadata(headers);
+
+      // Assert
+      expect(metadata).toMatchObject({
+        originalTopic: "blogdb.public.posts",
+        originalPartition: 0,
+        originalOffset: "7",
+        errorMessage: "Connection refused",
+        attempts: 2,
+        consumerGroup: "cache-updater-group",
+      });
+    });
+
+    it("should fall back to defaults when headers are missing", () => {
+      const metadata = readDeadLetterMetadata(undefined);
+
+      expect(metadata.attempts).toBe(0);
+      expect(metadata.originalTopic).toBe("");
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * 配信保証（at-least-once）の単体テスト
+ *
+ * Consumer を途中で止めて（プロセスが落ちた想定で、後始末もしない）、
+ * 新しい Consumer をコミット済みオフセットから再開させ、各 sink に反映漏れが無いことを確認する。
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { EachMessagePayload } from "kafkajs";
+import {
+  createMockConsumer,
+  createMockDebeziumEvent,
+  createMockKafka,
+  createMockKafkaMessage,
+  createMockProducer,
+} from "@/test-helpers/mock-kafka";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { createMockElasticsearch } from "@/test-helpers/mock-elasticsearch";
+import {
+  ChangeEventConsumer,
+  type ChangeEventSink,
+} from "@/lib/change-event-consumer";
+import { createCacheSink } from "@/consumers/cache-updater-handlers";
+import { createSearchIndexSink } from "@/consumers/search-indexer-handlers";
+import type { RetryPolicy } from "@/lib/retry";
+import type { Post } from "@/types/index";
+
+const SOURCE_TOPIC = "blogdb.public.posts";
+const POST_IDS = [1, 2, 3, 4, 5];
+
+const NO_RETRY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  multiplier: 1,
+  jitter: 0,
+};
+
+const post = (id: number, title: string) => ({
+  id,
+  title,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+// 投稿5件の create → 同じ5件の update（offset 0〜9）
+const LOG: EachMessagePayload[] = [
+  ...POST_IDS.map((id) => ({ op: "c" as const, title: "v1", id })),
+  ...POST_IDS.map((id) => ({ op: "u" as const, title: "v2", id })),
+].map(({ op, title, id }, offset) =>
+  createMockKafkaMessage({
+    topic: SOURCE_TOPIC,
+    key: JSON.stringify({ id }),
+    value: JSON.stringify(
+      createMockDebeziumEvent({
+        op,
+        after: post(id, title),
+        source: { lsn: 100 + offset },
+      }),
+    ),
+    offset: offset.toString(),
+  }),
+);
+
+// 終わらない処理（プロセスが落ちて、それ以降何も起きない状態）
+const hang = () => new Promise<void>(() => {});
+
+/**
+ * n 回目の upsert で落ちる sink
+ * before: 書き込む前に落ちる / after: 書き込んだ後、オフセットをコミットする前に落ちる
+ */
+function crashingSink(
+  sink: ChangeEventSink,
+  crashAt: number,
+  phase: "before" | "after",
+): ChangeEventSink {
+  let calls = 0;
+  return {
+    ...sink,
+    upsert: async (after, event) => {
+      const crash = calls++ === crashAt;
+      if (crash && phase === "before") return hang();
+      await sink.upsert(after, event);
+      if (crash && phase === "after") return hang();
+    },
+  };
+}
+
+const lastCommitted = (consumer: ReturnType<typeof createMockConsumer>) =>
+  consumer.commitOffsets.mock.calls
+    .flatMap(([offsets]) => offsets)
+    .filter((offset) => offset.topic === SOURCE_TOPIC)
+    .at(-1)?.offset;
+
+describe("At-least-once delivery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // 反映先（Consumer が落ちても残る）
+  const sinkCases = [
+    {
+      name: "cache (Redis)",
+      create: () => {
+        const redis = createMockRedis();
+        return {
+          sink: createCacheSink(redis as any),
+          titles: () =>
+            POST_IDS.map((id) => {
+              const cached = redis.getAllData().get(`post:${id}`);
+              return cached ? JSON.parse(cached).title : null;
+            }),
+        };
+      },
+    },
+    {
+      name: "search index (Elasticsearch)",
+      create: () => {
+        const es = createMockElasticsearch();
+        return {
+          sink: createSearchIndexSink(es as any),
+          titles: () =>
+            POST_IDS.map(
+              (id) =>
+                es.getAllDocuments("posts").get(String(id))?.title ?? null,
+            ),
+        };
+      },
+    },
+  ];
+
+  // どこで落ちるか
+  const crashCases = [
+    { crashAt: 0, phase: "before" as const },
+    { crashAt: 4, phase: "after" as const },
+    { crashAt: 7, phase: "before" as const },
+    { crashAt: 8, phase: "after" as const },
+  ];
+
+  function createConsumer(sink: ChangeEventSink) {
+    const consumer = createMockConsumer();
+    const changeEventConsumer = new ChangeEventConsumer({
+      name: "test-consumer",
+      groupId: "test-consumer-group",
+      topic: SOURCE_TOPIC,
+      // 停止時に接続は閉じない（反映先は次の Consumer でも使う）
+      sink: { ...sink, close: async () => {} },
+      retryPolicy: NO_RETRY,
+      // 3件ごとにまとめてコミットする（コミット前に落ちた分は再配信される）
+      commitBatchSize: 3,
+      commitIntervalMs: 60_000,
+      kafka: createMockKafka(consumer, createMockProducer()),
+    });
+    return { consumer, changeEventConsumer };
+  }
+
+  sinkCases.forEach((sinkCase) => {
+    crashCases.forEach(({ crashAt, phase }) => {
+      it(`should not lose events in the ${sinkCase.name} when killed ${phase} writing offset ${crashAt}`, async () => {
+        // Arrange
+        const { sink, titles } = sinkCase.create();
+        const first = createConsumer(crashingSink(sink, crashAt, phase));
+        await first.changeEventConsumer.start();
+
+        // Act: offset crashAt の処理中に落ちる（stop() も呼ばれない）
+        for (const payload of LOG) {
+          const delivered = first.consumer.deliver(payload);
+          if (payload.message.offset === crashAt.toString()) break;
+          await delivered;
+        }
+
+        // 新しい Consumer がコミット済みオフセットから再開する
+        const resumeFrom = Number(lastCommitted(first.consumer) ?? "0");
+        const second = createConsumer(sink);
+        await second.changeEventConsumer.start();
+        for (const payload of LOG.slice(resumeFrom)) {
+          await second.consumer.deliver(payload);
+        }
+        await second.changeEventConsumer.stop();
+
+        // Assert
+        expect(resumeFrom).toBeLessThanOrEqual(crashAt);
+        expect(titles()).toEqual(POST_IDS.map(() => "v2"));
+        expect(lastCommitted(second.consumer)).toBe("10");
+      });
+    });
+  });
+
+  it("should not commit a message that could neither be written nor dead-lettered", async () => {
+    // Arrange: 投稿2の書き込みも DLQ への退避も失敗する
+    const consumer = createMockConsumer();
+    const producer = createMockProducer();
+    producer.send.mockRejectedValue(new Error("broker unavailable"));
+    const changeEventConsumer = new ChangeEventConsumer({
+      name: "test-consumer",
+      groupId: "test-consumer-group",
+      topic: SOURCE_TOPIC,
+      sink: {
+        upsert: async (after) => {
+          if ((after as Post).id === 2) throw new Error("mapping error");
+        },
+        remove: async () => {},
+      },
+      retryPolicy: NO_RETRY,
+      commitBatchSize: 1,
+      kafka: createMockKafka(consumer, producer),
+    });
+    await changeEventConsumer.start();
+    await consumer.deliver(LOG[0]);
+
+    // Act
+    await expect(consumer.deliver(LOG[1])).rejects.toThrow(
+      "broker unavailable",
+    );
+
+    // Assert: offset 1 より先はコミットされない（kafkajs が同じメッセージから再配信する）
+    expect(lastCommitted(consumer)).toBe("1");
+  });
+});
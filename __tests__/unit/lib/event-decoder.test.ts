@@ -0,0 +1,300 @@
+/**
+ * Debezium の変更イベントのデコードの単体テスト
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  EventDecodeError,
+  decodeChangeEvent,
+  validateChangeEvent,
+} from "@/lib/event-decoder";
+import { NonRetryableError } from "@/lib/retry";
+import type { DebeziumChangeEvent, Post } from "@/types/index";
+import {
+  createMockDebeziumEvent,
+  createMockTruncateEvent,
+} from "@/test-helpers/mock-kafka";
+
+const post = {
+  id: 1,
+  title: "Test Post",
+  content: "Test Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+};
+
+function problemsOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof EventDecodeError) return error.problems;
+    throw error;
+  }
+  throw new Error("Expected EventDecodeError");
+}
+
+const comment = {
+  id: 10,
+  post_id: 1,
+  author: "Bob",
+  body: "Nice post",
+  created_at: "2024-01-01T00:00:00.000Z",
+};
+
+// payload の一部を書き換えたイベント
+function withPayload(overrides: Record<string, unknown>) {
+  const event = createMockDebeziumEvent({ op: "c", after: post });
+  return { ...event, payload: { ...event.payload, ...overrides } };
+}
+
+describe("validateChangeEvent", () => {
+  /**
+   * DDT: 受け付ける形
+   */
+  const validCases = [
+    {
+      name: "schema + payload",
+      input: createMockDebeziumEvent({ op: "c", after: post }),
+    },
+    {
+      name: "payload only (schemas.enable=false)",
+      input: createMockDebeziumEvent({ op: "c", after: post }).payload,
+    },
+    {
+      name: "an update without before (REPLICA IDENTITY DEFAULT)",
+      input: createMockDebeziumEvent({ op: "u", after: post }),
+    },
+    {
+      name: "a delete with only the primary key in before",
+      input: createMockDebeziumEvent({
+        op: "d",
+        before: { id: 1, title: null, content: null },
+      }),
+    },
+    {
+      name: "a row with NULL in nullable timestamp columns",
+      input: createMockDebeziumEvent({
+        op: "c",
+        after: { ...post, created_at: null, updated_at: null },
+      }),
+    },
+    {
+      name: "a truncate without rows",
+      input: createMockTruncateEvent(),
+    },
+    {
+      name: "a row of another registered table",
+      input: createMockDebeziumEvent({
+        op: "c",
+        after: comment,
+        source: { table: "comments" },
+      }),
+    },
+  ];
+
+  validCases.forEach((testCase) => {
+    it(`should accept ${testCase.name}`, () => {
+      const event = validateChangeEvent(testCase.input);
+
+      expect(event.payload.op).toBe(
+        ("payload" in testCase.input ? testCase.input.payload : testCase.input)
+          .op,
+      );
+    });
+  });
+
+  it("should normalize both shapes to { payload }", () => {
+    const withSchema = createMockDebeziumEvent({ op: "c", after: post });
+
+    const fromEnvelope = validateChangeEvent(withSchema);
+    const fromPayload = validateChangeEvent(withSchema.payload);
+
+    expect(fromEnvelope.schema).toEqual({});
+    expect(fromPayload.schema).toBeUndefined();
+    expect(fromPayload.payload).toEqual(fromEnvelope.payload);
+  });
+
+  /**
+   * DDT: 日時を schema ブロックに従って ISO-8601 にする
+   */
+  const microTimestamp = {
+    type: "int64",
+    optional: true,
+    name: "io.debezium.time.MicroTimestamp",
+    version: 1,
+  };
+  const rowSchema = {
+    type: "struct",
+    optional: true,
+    name: "blogdb.public.posts.Value",
+    fields: [
+      { type: "int32", optional: false, field: "id" },
+      { ...microTimestamp, field: "created_at" },
+      { ...microTimestamp, field: "updated_at" },
+    ],
+  };
+  const timestampCases = [
+    {
+      name: "MicroTimestamp from the schema block",
+      input: {
+        ...createMockDebeziumEvent({
+          op: "c",
+          after: {
+            ...post,
+            created_at: 1704067200123456,
+            updated_at: 1704067200123456,
+          },
+        }),
+        schema: {
+          type: "struct",
+          name: "blogdb.public.posts.Envelope",
+          fields: [
+            { ...rowSchema, field: "before" },
+            { ...rowSchema, field: "after" },
+          ],
+        },
+      },
+      expected: "2024-01-01T00:00:00.123Z",
+    },
+    {
+      name: "connect-mode millis without a schema block",
+      input: createMockDebeziumEvent({
+        op: "c",
+        after: {
+          ...post,
+          created_at: 1704067200123,
+          updated_at: 1704067200123,
+        },
+      }).payload,
+      expected: "2024-01-01T00:00:00.123Z",
+    },
+  ];
+
+  timestampCases.forEach((testCase) => {
+    it(`should convert ${testCase.name}`, () => {
+      const { after } = validateChangeEvent(testCase.input)
+        .payload as DebeziumChangeEvent<Post>["payload"];
+
+      expect(after?.created_at).toBe(testCase.expected);
+      expect(after?.updated_at).toBe(testCase.expected);
+    });
+  });
+
+  /**
+   * DDT: 不正な形は問題をすべて並べる
+   */
+  const invalidCases = [
+    {
+      name: "a missing row id",
+      input: withPayload({ after: { ...post, id: undefined } }),
+      expected: ["missing payload.after.id"],
+    },
+    {
+      name: "a missing after on create",
+      input: withPayload({ after: null }),
+      expected: ["missing payload.after"],
+    },
+    {
+      name: "a missing before on delete",
+      input: withPayload({ op: "d", after: null }),
+      expected: ["missing payload.before"],
+    },
+    {
+      name: "an unknown op",
+      input: withPayload({ op: "x" }),
+      expected: ["unknown op 'x'"],
+    },
+    {
+      name: "an unsupported Debezium version",
+      input: withPayload({
+        source: {
+          ...withPayload({}).payload.source,
+          version: "3.0.0.Final",
+        },
+      }),
+      expected: ["unsupported source.version '3.0.0.Final'"],
+    },
+    {
+      name: "a different connector",
+      input: withPayload({
+        source: { ...withPayload({}).payload.source, connector: "mysql" },
+      }),
+      expected: ["unsupported source.connector 'mysql'"],
+    },
+    {
+      name: "wrong column types",
+      input: withPayload({ after: { ...post, id: "1", title: 42 } }),
+      expected: [
+        "payload.after.id must be an integer (got string)",
+        "payload.after.title must be a string (got number)",
+      ],
+    },
+    {
+      name: "a wrong type in a nullable column",
+      input: withPayload({ after: { ...post, created_at: true } }),
+      expected: ["payload.after.created_at must be a string (got boolean)"],
+    },
+    {
+      name: "a missing source",
+      input: withPayload({ source: undefined, ts_ms: undefined }),
+      expected: ["missing payload.source", "missing payload.ts_ms"],
+    },
+    {
+      name: "a malformed transaction block",
+      input: withPayload({ transaction: { id: 1 } }),
+      expected: [
+        "payload.transaction.id must be a string (got number)",
+        "missing payload.transaction.total_order",
+        "missing payload.transaction.data_collection_order",
+      ],
+    },
+    {
+      name: "a table that is not registered",
+      input: withPayload({
+        source: { ...withPayload({}).payload.source, table: "audit_log" },
+      }),
+      expected: ["unknown table 'public.audit_log'"],
+    },
+    {
+      name: "a row that does not match its table",
+      input: createMockDebeziumEvent({
+        op: "c",
+        after: { ...comment, post_id: undefined },
+        source: { table: "comments" },
+      }),
+      expected: ["missing payload.after.post_id"],
+    },
+    {
+      name: "a non-object payload",
+      input: { schema: {}, payload: "oops" },
+      expected: ["payload must be an object (got string)"],
+    },
+  ];
+
+  invalidCases.forEach((testCase) => {
+    it(`should reject ${testCase.name}`, () => {
+      expect(problemsOf(() => validateChangeEvent(testCase.input))).toEqual(
+        testCase.expected,
+      );
+    });
+  });
+});
+
+describe("decodeChangeEvent", () => {
+  it("should decode a message value", () => {
+    const value = Buffer.from(
+      JSON.stringify(createMockDebeziumEvent({ op: "c", after: post })),
+    );
+
+    expect(decodeChangeEvent(value).payload.after).toEqual(post);
+  });
+
+  it("should report malformed JSON as a non-retryable decode error", () => {
+    const decode = () => decodeChangeEvent("{not json");
+
+    expect(decode).toThrow(EventDecodeError);
+    expect(decode).toThrow(NonRetryableError);
+    expect(problemsOf(decode)[0]).toMatch(/^malformed JSON/);
+  });
+});
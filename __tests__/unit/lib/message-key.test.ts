@@ -0,0 +1,46 @@
+/**
+ * Debezium のメッセージキー読み取りの単体テスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { createMockDebeziumKey } from "@/test-helpers/mock-kafka";
+import { recordIdFromKey } from "@/lib/message-key";
+import { NonRetryableError } from "@/lib/retry";
+
+describe("recordIdFromKey", () => {
+  /**
+   * DDT: キーの形ごとの読み取り結果
+   */
+  const testCases = [
+    {
+      name: "key with schema",
+      key: createMockDebeziumKey(1),
+      expected: 1,
+    },
+    {
+      name: "key without schema",
+      key: createMockDebeziumKey(2, { withSchema: false }),
+      expected: 2,
+    },
+    { name: "missing key", key: null, expected: null },
+    {
+      name: "key without id",
+      key: JSON.stringify({ other: 1 }),
+      expected: null,
+    },
+  ];
+
+  testCases.forEach((testCase) => {
+    it(`should read ${testCase.name}`, () => {
+      const key = testCase.key === null ? null : Buffer.from(testCase.key);
+
+      expect(recordIdFromKey(key)).toBe(testCase.expected);
+    });
+  });
+
+  it("should reject malformed keys as non-retryable", () => {
+    expect(() => recordIdFromKey(Buffer.from("{broken"))).toThrow(
+      NonRetryableError,
+    );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Prometheus のメトリクスの単体テスト
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { MetricsRegistry } from "@/lib/metrics";
+
+describe("MetricsRegistry", () => {
+  /**
+   * DDT: テキスト形式
+   */
+  const renderCases = [
+    {
+      name: "a counter with labels",
+      record: (registry: MetricsRegistry) => {
+        const counter = registry.counter("events_total", "Events");
+        counter.inc({ op: "c" });
+        counter.inc({ op: "c" }, 2);
+        counter.inc({ op: "d" });
+      },
+      expected: [
+        "# HELP events_total Events",
+        "# TYPE events_total counter",
+        'events_total{op="c"} 3',
+        'events_total{op="d"} 1',
+      ],
+    },
+    {
+      name: "a gauge without labels",
+      record: (registry: MetricsRegistry) => {
+        registry.gauge("lag", "Lag").set({}, 42);
+      },
+      expected: ["# HELP lag Lag", "# TYPE lag gauge", "lag 42"],
+    },
+    {
+      name: "a histogram with cumulative buckets",
+      record: (registry: MetricsRegistry) => {
+        const histogram = registry.histogram("latency", "Latency", [0.1, 1]);
+        histogram.observe({ route: "/posts" }, 0.05);
+        histogram.observe({ route: "/posts" }, 0.5);
+        histogram.observe({ route: "/posts" }, 3);
+      },
+      expected: [
+        "# HELP latency Latency",
+        "# TYPE latency histogram",
+        'latency_bucket{route="/posts",le="0.1"} 1',
+        'latency_bucket{route="/posts",le="1"} 2',
+        'latency_bucket{route="/posts",le="+Inf"} 3',
+        'latency_sum{route="/posts"} 3.55',
+        'latency_count{route="/posts"} 3',
+      ],
+    },
+    {
+      name: "escaped label values",
+      record: (registry: MetricsRegistry) => {
+        registry.counter("errors_total", "Errors").inc({ message: 'a"b\\c' });
+      },
+      expected: [
+        "# HELP errors_total Errors",
+        "# TYPE errors_total counter",
+        'errors_total{message="a\\"b\\\\c"} 1',
+      ],
+    },
+  ];
+
+  renderCases.forEach((testCase) => {
+    it(`should render ${testCase.name}`, async () => {
+      // Arrange
+      const registry = new MetricsRegistry();
+      testCase.record(registry);
+
+      // Act
+      const text = await registry.render();
+
+      // Assert
+      expect(text).toBe(testCase.expected.join("\n") + "\n");
+    });
+  });
+
+  it("should return the same metric when registered twice", () => {
+    const registry = new MetricsRegistry();
+
+    registry.counter("events_total", "Events").inc({ op: "c" });
+    registry.counter("events_total", "Events").inc({ op: "c" });
+
+    expect(registry.counter("events_total", "Events").get({ op: "c" })).toBe(2);
+    expect(() => registry.gauge("events_total", "Events")).toThrow(
+      "already registered as a counter",
+    );
+  });
+
+  it("should only reset gauge series that match the labels", () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge("lag", "Lag");
+    gauge.set({ consumer: "a", partition: 0 }, 1);
+    gauge.set({ consumer: "b", partition: 0 }, 2);
+
+    gauge.reset({ consumer: "a" });
+
+    expect(gauge.get({ consumer: "a", partition: 0 })).toBeUndefined();
+    expect(gauge.get({ consumer: "b", partition: 0 })).toBe(2);
+  });
+
+  it("should render the other metrics when a collector fails", async () => {
+    // Arrange
+    const registry = new MetricsRegistry();
+    registry.counter("events_total", "Events").inc();
+    registry.onCollect(async () => {
+      throw new Error("broker unavailable");
+    });
+    const collect = vi.fn();
+    const unsubscribe = registry.onCollect(collect);
+
+    // Act
+    const text = await registry.render();
+    unsubscribe();
+    await registry.render();
+
+    // Assert
+    expect(text).toContain("events_total 1");
+    expect(collect).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * オフセットの手動コミットの単体テスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { OffsetCommitter } from "@/lib/offset-committer";
+
+const TOPIC = "blogdb.public.posts";
+
+describe("OffsetCommitter", () => {
+  const consumer = {
+    commitOffsets: vi.fn(
+      async (
+        _offsets: { topic: string; partition: number; offset: string }[],
+      ) => {},
+    ),
+  };
+  let now: number;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    now = 0;
+  });
+
+  function createCommitter(options: {
+    batchSize?: number;
+    intervalMs?: number;
+  }) {
+    return new OffsetCommitter(consumer, { ...options, now: () => now });
+  }
+
+  function process(committer: OffsetCommitter, offsets: number[]) {
+    for (const offset of offsets) {
+      committer.track(TOPIC, 0, offset.toString());
+      committer.complete(TOPIC, 0, offset.toString());
+    }
+  }
+
+  const committed = () =>
+    consumer.commitOffsets.mock.calls.map(([offsets]) => offsets[0].offset);
+
+  /**
+   * DDT: 件数・時間のしきい値
+   */
+  const thresholdCases = [
+    {
+      name: "commit every message by default",
+      options: {},
+      completed: 1,
+      elapsedMs: 0,
+      expected: ["1"],
+    },
+    {
+      name: "wait until the batch size is reached",
+      options: { batchSize: 3 },
+      completed: 2,
+      elapsedMs: 0,
+      expected: [],
+    },
+    {
+      name: "commit when the batch size is reached",
+      options: { batchSize: 3 },
+      completed: 3,
+      elapsedMs: 0,
+      expected: ["3"],
+    },
+    {
+      name: "commit when the interval has passed",
+      options: { batchSize: 100, intervalMs: 1000 },
+      completed: 1,
+      elapsedMs: 1000,
+      expected: ["1"],
+    },
+  ];
+
+  thresholdCases.forEach((testCase) => {
+    it(`should ${testCase.name}`, async () => {
+      // Arrange
+      const committer = createCommitter(testCase.options);
+      process(
+        committer,
+        Array.from({ length: testCase.completed }, (_, i) => i),
+      );
+      now += testCase.elapsedMs;
+
+      // Act
+      await committer.maybeCommit();
+
+      // Assert
+      expect(committed()).toEqual(testCase.expected);
+    });
+  });
+
+  it("should not commit past a message that has not completed", async () => {
+    // Arrange: 1 が失敗して未完了のまま
+    const committer = createCommitter({});
+    committer.track(TOPIC, 0, "0");
+    committer.track(TOPIC, 0, "1");
+    committer.track(TOPIC, 0, "2");
+    committer.complete(TOPIC, 0, "0");
+    committer.complete(TOPIC, 0, "2");
+
+    // Act
+    await committer.maybeCommit();
+
+    // Assert
+    expect(committed()).toEqual(["1"]);
+  });
+
+  it("should report the progress on every call while batching commits", async () => {
+    // Arrange
+    const onProgress = vi.fn(async () => {});
+    const committer = new OffsetCommitter(consumer, {
+      batchSize: 100,
+      onProgress,
+      now: () => now,
+    });
+    committer.track(TOPIC, 0, "0");
+    committer.track(TOPIC, 0, "1");
+    committer.complete(TOPIC, 0, "1");
+
+    // Act: 0 が未完了の間は進まない
+    await committer.maybeCommit();
+    committer.complete(TOPIC, 0, "0");
+    await committer.maybeCommit();
+    await committer.maybeCommit();
+
+    // Assert
+    expect(onProgress.mock.calls).toEqual([
+      [[{ topic: TOPIC, partition: 0, offset: "0" }]],
+      [[{ topic: TOPIC, partition: 0, offset: "2" }]],
+    ]);
+    expect(consumer.commitOffsets).not.toHaveBeenCalled();
+  });
+
+  it("should commit everything pending on drain and every completion after", async () => {
+    // Arrange
+    const committer = createCommitter({ batchSize: 100 });
+    process(committer, [0, 1]);
+
+    // Act
+    await committer.drain();
+    process(committer, [2]);
+    await committer.maybeCommit();
+
+    // Assert
+    expect(committed()).toEqual(["2", "3"]);
+  });
+
+  it("should send commits in order even when flushed concurrently", async () => {
+    // Arrange: 最初のコミットが遅い
+    let release!: () => void;
+    consumer.commitOffsets.mockImplementationOnce(
+      () => new Promise<void>((resolve) => (release = resolve)),
+    );
+    const committer = createCommitter({});
+
+    // Act
+    process(committer, [0]);
+    const first = committer.flush();
+    await vi.waitFor(() => expect(consumer.commitOffsets).toHaveBeenCalled());
+    process(committer, [1]);
+    const second = committer.flush();
+    release();
+    await Promise.all([first, second]);
+
+    // Assert
+    expect(committed()).toEqual(["1", "2"]);
+  });
+});
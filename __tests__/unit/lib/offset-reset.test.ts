@@ -0,0 +1,325 @@
+/**
+ * Consumer グループのオフセットの付け替えとリプレイの進み具合の単体テスト
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockAdmin } from "@/test-helpers/mock-kafka";
+import {
+  ConsumerGroupActiveError,
+  InvalidResetTargetError,
+  assertGroupStopped,
+  captureReplayTargets,
+  parseResetTarget,
+  readReplayProgress,
+  resetGroupOffsets,
+  resetTransactionOffsets,
+  waitForReplay,
+  type ReplayProgress,
+} from "@/lib/offset-reset";
+
+const GROUP_ID = "cache-updater-group";
+const TOPIC = "blogdb.public.posts";
+const TRANSACTION_TOPIC = "blogdb.transaction";
+
+describe("parseResetTarget", () => {
+  it.each([
+    { spec: "earliest", expected: { type: "earliest" } },
+    { spec: "latest", expected: { type: "latest" } },
+    { spec: "offset:120", expected: { type: "offset", offset: "120" } },
+    {
+      spec: "offset:0=120,2=98",
+      expected: {
+        type: "partition-offsets",
+        offsets: new Map([
+          [0, "120"],
+          [2, "98"],
+        ]),
+      },
+    },
+    {
+      spec: "timestamp:2024-01-01T00:00:00Z",
+      expected: { type: "timestamp", timestamp: 1704067200000 },
+    },
+    {
+      spec: "timestamp:1704067200000",
+      expected: { type: "timestamp", timestamp: 1704067200000 },
+    },
+  ])("should parse $spec", ({ spec, expected }) => {
+    expect(parseResetTarget(spec)).toEqual(expected);
+  });
+
+  it.each([
+    "",
+    "beginning",
+    "offset:",
+    "offset:-1",
+    "offset:0=1,",
+    "offset:0=1,0=2",
+    "timestamp:yesterday",
+  ])("should reject %j", (spec) => {
+    expect(() => parseResetTarget(spec)).toThrow(InvalidResetTargetError);
+  });
+});
+
+describe("assertGroupStopped", () => {
+  it("should pass when the group has no members", async () => {
+    // Arrange
+    const admin = new MockAdmin();
+
+    // Act & Assert
+    await expect(
+      assertGroupStopped(admin as any, GROUP_ID),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should refuse while consumers are running", async () => {
+    // Arrange
+    const admin = new MockAdmin();
+    admin.setGroupMembers(2);
+
+    // Act & Assert
+    await expect(assertGroupStopped(admin as any, GROUP_ID)).rejects.toThrow(
+      ConsumerGroupActiveError,
+    );
+  });
+});
+
+describe("resetGroupOffsets", () => {
+  let admin: MockAdmin;
+
+  beforeEach(() => {
+    admin = new MockAdmin();
+    // パーティション0は古いメッセージが保持期限で消えている
+    admin.setTopicOffsets([
+      { partition: 0, low: "100", high: "500" },
+      { partition: 1, low: "0", high: "300" },
+    ]);
+    admin.setGroupOffsets([
+      { partition: 0, offset: "450" },
+      { partition: 1, offset: "-1" },
+    ]);
+    admin.setTimestampOffsets([
+      { partition: 0, offset: "420" },
+      { partition: 1, offset: "300" },
+    ]);
+  });
+
+  /**
+   * DDT: 戻す先ごとにパーティションごとのオフセットを求める
+   */
+  it.each([
+    { spec: "earliest", expected: ["100", "0"] },
+    { spec: "latest", expected: ["500", "300"] },
+    { spec: "offset:200", expected: ["200", "200"] },
+    { spec: "timestamp:1704067200000", expected: ["420", "300"] },
+  ])("should reset every partition to $spec", async ({ spec, expected }) => {
+    // Act
+    const changes = await resetGroupOffsets(
+      admin as any,
+      GROUP_ID,
+      TOPIC,
+      parseResetTarget(spec),
+    );
+
+    // Assert
+    expect(changes).toEqual([
+      { partition: 0, from: "450", to: expected[0] },
+      { partition: 1, from: null, to: expected[1] },
+    ]);
+    expect(admin.setOffsets).toHaveBeenCalledWith({
+      groupId: GROUP_ID,
+      topic: TOPIC,
+      partitions: [
+        { partition: 0, offset: expected[0] },
+        { partition: 1, offset: expected[1] },
+      ],
+    });
+  });
+
+  it("should leave partitions that are not given unchanged", async () => {
+    // Act
+    await resetGroupOffsets(
+      admin as any,
+      GROUP_ID,
+      TOPIC,
+      parseResetTarget("offset:1=42"),
+    );
+
+    // Assert
+    expect(admin.setOffsets).toHaveBeenCalledWith(
+      expect.objectContaining({ partitions: [{ partition: 1, offset: "42" }] }),
+    );
+  });
+
+  /**
+   * DDT: 保持されていないオフセットや無いパーティションには付け替えない
+   */
+  it.each([
+    { name: "an offset before the oldest retained message", spec: "offset:50" },
+    { name: "an offset past the head", spec: "offset:1=301" },
+    { name: "a partition the topic does not have", spec: "offset:2=0" },
+  ])("should refuse $name", async ({ spec }) => {
+    // Act & Assert
+    await expect(
+      resetGroupOffsets(admin as any, GROUP_ID, TOPIC, parseResetTarget(spec)),
+    ).rejects.toThrow(InvalidResetTargetError);
+    expect(admin.setOffsets).not.toHaveBeenCalled();
+  });
+});
+
+describe("resetTransactionOffsets", () => {
+  let admin: MockAdmin;
+
+  beforeEach(() => {
+    admin = new MockAdmin();
+    admin.setTopicOffsets([{ partition: 0, low: "0", high: "800" }]);
+    admin.setGroupOffsets([{ partition: 0, offset: "800" }]);
+    admin.setTimestampOffsets([{ partition: 0, offset: "640" }]);
+  });
+
+  it("should reset the transaction topic to the same time as the data topics", async () => {
+    // Act
+    const changes = await resetTransactionOffsets(
+      admin as any,
+      GROUP_ID,
+      TRANSACTION_TOPIC,
+      parseResetTarget("timestamp:1704067200000"),
+    );
+
+    // Assert
+    expect(changes).toEqual([{ partition: 0, from: "800", to: "640" }]);
+    expect(admin.setOffsets).toHaveBeenCalledWith({
+      groupId: GROUP_ID,
+      topic: TRANSACTION_TOPIC,
+      partitions: [{ partition: 0, offset: "640" }],
+    });
+  });
+
+  /**
+   * DDT: オフセットはデータトピックの位置なので blogdb.transaction には当てはめない
+   */
+  it.each(["offset:120", "offset:0=120"])(
+    "should refuse %s without resetting anything",
+    async (spec) => {
+      // Act & Assert
+      await expect(
+        resetTransactionOffsets(
+          admin as any,
+          GROUP_ID,
+          TRANSACTION_TOPIC,
+          parseResetTarget(spec),
+        ),
+      ).rejects.toThrow(InvalidResetTargetError);
+      expect(admin.setOffsets).not.toHaveBeenCalled();
+    },
+  );
+});
+
+describe("replay progress", () => {
+  let admin: MockAdmin;
+
+  beforeEach(() => {
+    admin = new MockAdmin();
+    admin.setTopicOffsets([
+      { partition: 0, low: "100", high: "500" },
+      { partition: 1, low: "0", high: "300" },
+    ]);
+  });
+
+  it("should count the messages left until the head captured at reset", async () => {
+    // Arrange: パーティション1はまだ一度もコミットしていない
+    const targets = await captureReplayTargets(admin as any, [TOPIC]);
+    admin.setGroupOffsets([
+      { partition: 0, offset: "400" },
+      { partition: 1, offset: "-1" },
+    ]);
+    // 付け替えた後に書き込まれたメッセージは目標に含めない
+    admin.setTopicOffsets([
+      { partition: 0, low: "100", high: "900" },
+      { partition: 1, low: "0", high: "900" },
+    ]);
+
+    // Act
+    const progress = await readReplayProgress(admin as any, GROUP_ID, targets);
+
+    // Assert
+    expect(progress.remaining).toBe(100 + 300);
+    expect(progress.partitions.map(({ committed }) => committed)).toEqual([
+      "400",
+      null,
+    ]);
+  });
+
+  it("should have nothing left when a previous run committed up to the head", async () => {
+    // Arrange: 前回のリプレイ（DLQ など）が末尾までコミットしている
+    const targets = await captureReplayTargets(admin as any, [TOPIC]);
+    admin.setGroupOffsets([
+      { partition: 0, offset: "500" },
+      { partition: 1, offset: "300" },
+    ]);
+
+    // Act
+    const progress = await readReplayProgress(admin as any, GROUP_ID, targets);
+
+    // Assert
+    expect(progress.remaining).toBe(0);
+    expect(progress.partitions.every(({ remaining }) => remaining === 0)).toBe(
+      true,
+    );
+  });
+
+  it("should wait until the group reaches the head", async () => {
+    // Arrange: ポーリングのたびに Consumer がコミットを進める
+    const targets = await captureReplayTargets(admin as any, [TOPIC]);
+    const commits = [
+      [
+        { partition: 0, offset: "100" },
+        { partition: 1, offset: "0" },
+      ],
+      [
+        { partition: 0, offset: "300" },
+        { partition: 1, offset: "300" },
+      ],
+      [
+        { partition: 0, offset: "500" },
+        { partition: 1, offset: "300" },
+      ],
+    ];
+    admin.setGroupOffsets(commits.shift()!);
+    const reported: number[] = [];
+
+    // Act
+    const caughtUp = await waitForReplay(admin as any, GROUP_ID, targets, {
+      pollIntervalMs: 1000,
+      onProgress: (progress: ReplayProgress) =>
+        reported.push(progress.remaining),
+      sleep: async () => {
+        admin.setGroupOffsets(commits.shift()!);
+      },
+    });
+
+    // Assert
+    expect(caughtUp).toBe(true);
+    expect(reported).toEqual([700, 200, 0]);
+  });
+
+  it("should give up after the timeout", async () => {
+    // Arrange: Consumer が起動していない
+    const targets = await captureReplayTargets(admin as any, [TOPIC]);
+    let clock = 0;
+
+    // Act
+    const caughtUp = await waitForReplay(admin as any, GROUP_ID, targets, {
+      pollIntervalMs: 1000,
+      timeoutMs: 3000,
+      sleep: async (ms) => {
+        clock += ms;
+      },
+      now: () => clock,
+    });
+
+    // Assert
+    expect(caughtUp).toBe(false);
+    expect(admin.fetchOffsets).toHaveBeenCalledTimes(4);
+  });
+});
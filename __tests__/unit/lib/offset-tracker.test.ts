@@ -0,0 +1,52 @@
+/**
+ * コミットしてよいオフセットの管理の単体テスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { OffsetTracker } from "@/lib/offset-tracker";
+
+describe("OffsetTracker", () => {
+  /**
+   * DDT: 未完了の最小オフセットまでしかコミットしない
+   */
+  const testCases = [
+    { name: "all completed", completed: ["0", "1", "2"], expected: "3" },
+    { name: "gap in the middle", completed: ["0", "2"], expected: "1" },
+    { name: "first not completed", completed: ["1", "2"], expected: "0" },
+  ];
+
+  testCases.forEach((testCase) => {
+    it(`should commit up to the first pending offset when ${testCase.name}`, () => {
+      // Arrange
+      const tracker = new OffsetTracker();
+      ["0", "1", "2"].forEach((offset) => tracker.track("t", 0, offset));
+
+      // Act
+      testCase.completed.forEach((offset) => tracker.complete("t", 0, offset));
+
+      // Assert
+      expect(tracker.takeCommittable()).toEqual([
+        { topic: "t", partition: 0, offset: testCase.expected },
+      ]);
+    });
+  });
+
+  it("should only return partitions that moved since the last call", () => {
+    // Arrange
+    const tracker = new OffsetTracker();
+    tracker.track("t", 0, "0");
+    tracker.track("t", 1, "0");
+    tracker.complete("t", 0, "0");
+    tracker.complete("t", 1, "0");
+    tracker.takeCommittable();
+
+    // Act
+    tracker.track("t", 1, "1");
+    tracker.complete("t", 1, "1");
+
+    // Assert
+    expect(tracker.takeCommittable()).toEqual([
+      { topic: "t", partition: 1, offset: "2" },
+    ]);
+  });
+});
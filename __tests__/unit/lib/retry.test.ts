@@ -0,0 +1,168 @@
+/**
+ * リトライ（指数バックオフ + Poison Pill 検出）の単体テスト
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  NonRetryableError,
+  PoisonPillError,
+  backoffDelay,
+  isRetryableError,
+  withRetry,
+  type RetryPolicy,
+} from "@/lib/retry";
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  initialDelayMs: 100,
+  maxDelayMs: 500,
+  multiplier: 2,
+  jitter: 0,
+};
+
+// テストでは実際に待たない
+const noSleep = vi.fn(async () => {});
+
+function esError(statusCode: number) {
+  const error: any = new Error(`Response Error ${statusCode}`);
+  error.meta = { statusCode };
+  return error;
+}
+
+function connectionRefused() {
+  const error: any = new Error("connect ECONNREFUSED 127.0.0.1:6380");
+  error.code = "ECONNREFUSED";
+  return error;
+}
+
+describe("Retry", () => {
+  describe("isRetryableError", () => {
+    /**
+     * DDT: リトライ可能/不可能なエラーの分類
+     */
+    const classificationCases = [
+      {
+        name: "connection refused",
+        error: connectionRefused(),
+        retryable: true,
+      },
+      {
+        name: "ES 429 Too Many Requests",
+        error: esError(429),
+        retryable: true,
+      },
+      {
+        name: "ES 503 Service Unavailable",
+        error: esError(503),
+        retryable: true,
+      },
+      {
+        name: "ES connection error",
+        error: Object.assign(new Error("socket hang up"), {
+          name: "ConnectionError",
+        }),
+        retryable: true,
+      },
+      {
+        name: "Redis connection closed",
+        error: new Error("Connection is closed."),
+        retryable: true,
+      },
+      { name: "ES 400 mapping error", error: esError(400), retryable: false },
+      {
+        name: "malformed JSON",
+        error: (() => {
+          try {
+            JSON.parse("{broken");
+          } catch (error) {
+            return error;
+          }
+        })(),
+        retryable: false,
+      },
+      {
+        name: "explicit NonRetryableError",
+        error: new NonRetryableError("bad data"),
+        retryable: false,
+      },
+      {
+        name: "unknown error",
+        error: new TypeError("x is undefined"),
+        retryable: false,
+      },
+    ];
+
+    classificationCases.forEach((testCase) => {
+      it(`should classify ${testCase.name} as ${
+        testCase.retryable ? "retryable" : "non-retryable"
+      }`, () => {
+        expect(isRetryableError(testCase.error)).toBe(testCase.retryable);
+      });
+    });
+  });
+
+  describe("backoffDelay", () => {
+    it("should grow exponentially and be capped by maxDelayMs", () => {
+      const delays = [1, 2, 3, 4, 5].map((attempt) =>
+        backoffDelay(attempt, POLICY),
+      );
+
+      expect(delays).toEqual([100, 200, 400, 500, 500]);
+    });
+
+    it("should spread delay within the jitter range", () => {
+      const policy = { ...POLICY, jitter: 0.5 };
+
+      expect(backoffDelay(1, policy, () => 0)).toBe(50);
+      expect(backoffDelay(1, policy, () => 1)).toBe(150);
+    });
+  });
+
+  describe("withRetry", () => {
+    it("should return result after transient failures", async () => {
+      // Arrange: 2回失敗してから成功
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(connectionRefused())
+        .mockRejectedValueOnce(esError(503))
+        .mockResolvedValueOnce("ok");
+      const onRetry = vi.fn();
+
+      // Act
+      const result = await withRetry(fn, POLICY, { sleep: noSleep, onRetry });
+
+      // Assert
+      expect(result).toBe("ok");
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it("should mark message as poison pill when retries are exhausted", async () => {
+      const fn = vi.fn().mockRejectedValue(connectionRefused());
+
+      const error = (await withRetry(fn, POLICY, { sleep: noSleep }).catch(
+        (e) => e,
+      )) as PoisonPillError;
+
+      expect(error).toBeInstanceOf(PoisonPillError);
+      expect(error.reason).toBe("retries-exhausted");
+      expect(error.attempts).toBe(POLICY.maxAttempts);
+      expect(fn).toHaveBeenCalledTimes(POLICY.maxAttempts);
+    });
+
+    it("should give up immediately on non-retryable errors", async () => {
+      const cause = esError(400);
+      const fn = vi.fn().mockRejectedValue(cause);
+
+      const error = (await withRetry(fn, POLICY, { sleep: noSleep }).catch(
+        (e) => e,
+      )) as PoisonPillError;
+
+      expect(error).toBeInstanceOf(PoisonPillError);
+      expect(error.reason).toBe("non-retryable");
+      expect(error.attempts).toBe(1);
+      expect(error.cause).toBe(cause);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
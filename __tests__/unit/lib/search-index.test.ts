@@ -0,0 +1,297 @@
+/**
+ * バージョン付きインデックスとエイリアスの付け替えの単体テスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { errors } from "@elastic/elasticsearch";
+import {
+  createMockElasticsearch,
+  type MockElasticsearch,
+} from "@/test-helpers/mock-elasticsearch";
+import {
+  ReindexStateError,
+  beginReindex,
+  createPostsIndex,
+  createWriteIndexResolver,
+  finishReindex,
+  indexVersion,
+  readReindexState,
+  recreatePostsIndex,
+  responseStatusCode,
+  rollbackReindex,
+  swapReadAlias,
+} from "@/lib/search-index";
+
+const ALIASES = { readAlias: "posts", writeAlias: "posts_write" };
+
+describe("indexVersion", () => {
+  it.each([
+    { index: "posts_v1", expected: 1 },
+    { index: "posts_v12", expected: 12 },
+    { index: "posts", expected: null },
+    { index: "posts_v1_old", expected: null },
+    { index: "comments_v1", expected: null },
+  ])("should read $expected from $index", ({ index, expected }) => {
+    expect(indexVersion("posts", index)).toBe(expected);
+  });
+});
+
+describe("responseStatusCode", () => {
+  it.each([
+    {
+      name: "a response error",
+      error: new errors.ResponseError({
+        body: {},
+        statusCode: 409,
+        headers: {},
+        warnings: null,
+        meta: {} as any,
+      }),
+      expected: 409,
+    },
+    {
+      name: "an error with the status in meta",
+      error: Object.assign(new Error("not found"), {
+        meta: { statusCode: 404 },
+      }),
+      expected: 404,
+    },
+    {
+      name: "a connection error",
+      error: new errors.ConnectionError("connect ECONNREFUSED"),
+      expected: undefined,
+    },
+    { name: "a non-error", error: "409", expected: undefined },
+    { name: "null", error: null, expected: undefined },
+  ])("should read $expected from $name", ({ error, expected }) => {
+    expect(responseStatusCode(error)).toBe(expected);
+  });
+});
+
+describe("reindex lifecycle", () => {
+  let es: MockElasticsearch;
+
+  beforeEach(async () => {
+    es = createMockElasticsearch();
+    // npm run setup:elasticsearch と同じ初期状態
+    await createPostsIndex(es as any, "posts_v1", {
+      posts: {},
+      posts_write: { is_write_index: true },
+    });
+  });
+
+  it("should write to both indices while building and read from the new one after the swap", async () => {
+    // Act & Assert: 開始
+    const started = await beginReindex(es as any, ALIASES);
+    expect(started).toEqual({ from: "posts_v1", to: "posts_v2" });
+    expect(await readReindexState(es as any, ALIASES)).toEqual({
+      status: "building",
+      from: "posts_v1",
+      to: "posts_v2",
+    });
+    expect(es.getAliasIndices("posts")).toEqual(["posts_v1"]);
+    expect(es.getAliasIndices("posts_write")).toEqual(["posts_v1", "posts_v2"]);
+
+    // Act & Assert: 付け替え（古い方にも書き続ける）
+    await swapReadAlias(es as any, ALIASES);
+    expect(es.getAliasIndices("posts")).toEqual(["posts_v2"]);
+    expect(es.getAliasIndices("posts_write")).toEqual(["posts_v1", "posts_v2"]);
+
+    // Act & Assert: 終了
+    expect(await finishReindex(es as any, ALIASES)).toEqual({
+      current: "posts_v2",
+      deleted: "posts_v1",
+    });
+    expect(await readReindexState(es as any, ALIASES)).toEqual({
+      status: "idle",
+      current: "posts_v2",
+    });
+    expect(await es.indices.exists({ index: "posts_v1" })).toBe(false);
+
+    // 次の再索引は v3
+    expect((await beginReindex(es as any, ALIASES)).to).toBe("posts_v3");
+  });
+
+  /**
+   * DDT: どこまで進んでいても古いインデックスに戻せる
+   */
+  it.each([
+    { name: "while building", swap: false },
+    { name: "after the swap", swap: true },
+  ])("should roll back $name", async ({ swap }) => {
+    // Arrange
+    await beginReindex(es as any, ALIASES);
+    if (swap) await swapReadAlias(es as any, ALIASES);
+
+    // Act
+    const result = await rollbackReindex(es as any, ALIASES);
+
+    // Assert
+    expect(result).toEqual({ restored: "posts_v1", deleted: "posts_v2" });
+    expect(await readReindexState(es as any, ALIASES)).toEqual({
+      status: "idle",
+      current: "posts_v1",
+    });
+    expect(await es.indices.exists({ index: "posts_v2" })).toBe(false);
+  });
+
+  it("should keep the old index as the write index for writes through the alias until the swap", async () => {
+    // Arrange
+    await beginReindex(es as any, ALIASES);
+
+    // Act
+    await es.index({ index: "posts_write", id: "1", document: { id: 1 } });
+    await swapReadAlias(es as any, ALIASES);
+    await es.index({ index: "posts_write", id: "2", document: { id: 2 } });
+
+    // Assert
+    expect([...es.getAllDocuments("posts_v1").keys()]).toEqual(["1"]);
+    expect([...es.getAllDocuments("posts_v2").keys()]).toEqual(["2"]);
+  });
+
+  it("should recreate an empty index behind both aliases", async () => {
+    // Arrange
+    await es.index({ index: "posts_write", id: "1", document: { id: 1 } });
+
+    // Act
+    const result = await recreatePostsIndex(es as any, ALIASES);
+
+    // Assert
+    expect(result).toEqual({ created: "posts_v2", deleted: "posts_v1" });
+    expect(await readReindexState(es as any, ALIASES)).toEqual({
+      status: "idle",
+      current: "posts_v2",
+    });
+    expect(await es.indices.exists({ index: "posts_v1" })).toBe(false);
+    expect(es.getAllDocuments("posts_v2").size).toBe(0);
+    expect(es.indices.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: "posts_v2",
+        settings: expect.objectContaining({ gc_deletes: "1d" }),
+      }),
+    );
+  });
+
+  /**
+   * DDT: 順番を守らない操作は何も変えずに失敗する
+   */
+  const invalidCases = [
+    {
+      name: "start a second reindex",
+      arrange: () => beginReindex(es as any, ALIASES),
+      act: () => beginReindex(es as any, ALIASES),
+    },
+    {
+      name: "swap without a reindex",
+      arrange: async () => {},
+      act: () => swapReadAlias(es as any, ALIASES),
+    },
+    {
+      name: "finish before the swap",
+      arrange: () => beginReindex(es as any, ALIASES),
+      act: () => finishReindex(es as any, ALIASES),
+    },
+    {
+      name: "recreate the index during a reindex",
+      arrange: () => beginReindex(es as any, ALIASES),
+      act: () => recreatePostsIndex(es as any, ALIASES),
+    },
+    {
+      name: "roll back after finishing",
+      arrange: async () => {
+        await beginReindex(es as any, ALIASES);
+        await swapReadAlias(es as any, ALIASES);
+        await finishReindex(es as any, ALIASES);
+      },
+      act: () => rollbackReindex(es as any, ALIASES),
+    },
+  ];
+
+  it.each(invalidCases)("should refuse to $name", async ({ arrange, act }) => {
+    // Arrange
+    await arrange();
+    const before = await readReindexState(es as any, ALIASES);
+
+    // Act & Assert
+    await expect(act()).rejects.toThrow(ReindexStateError);
+    expect(await readReindexState(es as any, ALIASES)).toEqual(before);
+  });
+
+  it("should refuse to reindex before the aliases are set up", async () => {
+    // Arrange: エイリアスにする前の posts インデックス
+    es = createMockElasticsearch();
+
+    // Act & Assert
+    await expect(beginReindex(es as any, ALIASES)).rejects.toThrow(
+      ReindexStateError,
+    );
+  });
+});
+
+describe("createWriteIndexResolver", () => {
+  let es: MockElasticsearch;
+  let clock: number;
+
+  beforeEach(async () => {
+    es = createMockElasticsearch();
+    clock = 0;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    await createPostsIndex(es as any, "posts_v1", {
+      posts: {},
+      posts_write: { is_write_index: true },
+    });
+  });
+
+  const createResolver = () =>
+    createWriteIndexResolver(es as any, {
+      writeAlias: "posts_write",
+      fallbackIndex: "posts",
+      refreshIntervalMs: 5000,
+      now: () => clock,
+    });
+
+  it("should pick up a new write index after the refresh interval", async () => {
+    // Arrange
+    const resolver = createResolver();
+    expect(await resolver.resolve()).toEqual(["posts_v1"]);
+    await beginReindex(es as any, ALIASES);
+    es.indices.getAlias.mockClear();
+
+    // Act & Assert: 間隔内は読み直さない
+    clock = 4999;
+    expect(await resolver.resolve()).toEqual(["posts_v1"]);
+    clock = 5000;
+    expect(await resolver.resolve()).toEqual(["posts_v1", "posts_v2"]);
+    expect(es.indices.getAlias).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back to the read alias before the indices are versioned", async () => {
+    // Arrange
+    es = createMockElasticsearch();
+
+    // Act & Assert
+    expect(await createResolver().resolve()).toEqual(["posts"]);
+  });
+
+  it("should keep writing to the last known indices when the refresh fails", async () => {
+    // Arrange
+    const resolver = createResolver();
+    await resolver.resolve();
+    es.indices.getAlias.mockRejectedValueOnce(new Error("connection refused"));
+    clock = 5000;
+
+    // Act & Assert
+    expect(await resolver.resolve()).toEqual(["posts_v1"]);
+  });
+
+  it("should fail when the first lookup fails", async () => {
+    // Arrange
+    es.indices.getAlias.mockRejectedValueOnce(new Error("connection refused"));
+
+    // Act & Assert
+    await expect(createResolver().resolve()).rejects.toThrow(
+      "connection refused",
+    );
+  });
+});
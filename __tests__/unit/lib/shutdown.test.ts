@@ -0,0 +1,54 @@
+/**
+ * Graceful shutdown の共通処理の単体テスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { withDeadline } from "@/lib/shutdown";
+
+describe("withDeadline", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * DDT: 期限内に終わったかどうか
+   */
+  const testCases = [
+    {
+      name: "finishes before the deadline",
+      finishAfterMs: 100,
+      expected: true,
+    },
+    {
+      name: "finishes after the deadline",
+      finishAfterMs: 2000,
+      expected: false,
+    },
+  ];
+
+  testCases.forEach((testCase) => {
+    it(`should return ${testCase.expected} when the promise ${testCase.name}`, async () => {
+      // Arrange
+      const promise = new Promise((resolve) =>
+        setTimeout(resolve, testCase.finishAfterMs),
+      );
+
+      // Act
+      const result = withDeadline(promise, 1000);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      expect(await result).toBe(testCase.expected);
+    });
+  });
+
+  it("should propagate a rejection that happens before the deadline", async () => {
+    await expect(
+      withDeadline(Promise.reject(new Error("close failed")), 1000),
+    ).rejects.toThrow("close failed");
+  });
+});
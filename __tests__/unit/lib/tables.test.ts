@@ -0,0 +1,62 @@
+/**
+ * CDC 対象テーブルの登録の単体テスト
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  TABLE_NAMES,
+  tableForTopic,
+  tableTopic,
+  tablesTopicPattern,
+} from "@/lib/tables";
+
+describe("tableForTopic", () => {
+  /**
+   * DDT: トピック名からテーブルを引く
+   */
+  const cases = [
+    { topic: "blogdb.public.posts", expected: "public.posts" },
+    { topic: "blogdb.public.comments", expected: "public.comments" },
+    { topic: "blogdb.public.follows", expected: "public.follows" },
+    { topic: "other.public.comments", expected: "public.comments" },
+    { topic: "blogdb.public.audit_log", expected: null },
+    { topic: "blogdb.transaction", expected: null },
+  ];
+
+  cases.forEach((testCase) => {
+    it(`should resolve ${testCase.topic} to ${testCase.expected}`, () => {
+      expect(tableForTopic(testCase.topic)?.name ?? null).toBe(
+        testCase.expected,
+      );
+    });
+  });
+
+  it("should register every table under its own topic", () => {
+    for (const table of TABLE_NAMES) {
+      expect(tableForTopic(tableTopic("blogdb", table))?.name).toBe(table);
+    }
+  });
+});
+
+describe("tablesTopicPattern", () => {
+  /**
+   * DDT: 指定したテーブルのトピックにだけ一致する
+   */
+  const pattern = tablesTopicPattern("blogdb", [
+    "public.posts",
+    "public.comments",
+  ]);
+  const cases = [
+    { topic: "blogdb.public.posts", expected: true },
+    { topic: "blogdb.public.comments", expected: true },
+    { topic: "blogdb.transaction", expected: false },
+    { topic: "blogdb.public.posts.cache-updater.dlq", expected: false },
+    { topic: "blogdbXpublic.posts", expected: false },
+  ];
+
+  cases.forEach((testCase) => {
+    it(`should ${testCase.expected ? "" : "not "}match ${testCase.topic}`, () => {
+      expect(pattern.test(testCase.topic)).toBe(testCase.expected);
+    });
+  });
+});
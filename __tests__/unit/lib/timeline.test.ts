@@ -0,0 +1,92 @@
+/**
+ * ホームタイムラインの読み込み（カーソルでのページング）の単体テスト
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import {
+  CELEBRITIES_KEY,
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  readTimeline,
+} from "@/lib/timeline";
+
+describe("readTimeline", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+  });
+
+  async function readAll(user: string, limit: number) {
+    const pages: number[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await readTimeline(mockRedis as any, user, {
+        cursor,
+        limit,
+      });
+      pages.push(page.entries.map((entry) => entry.postId));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return pages;
+  }
+
+  it("should page through the timeline newest first", async () => {
+    // Arrange
+    for (const id of [1, 2, 3, 4, 5]) {
+      await mockRedis.zadd("timeline:Alice", id * 1000, String(id));
+    }
+
+    // Act
+    const pages = await readAll("Alice", 2);
+
+    // Assert
+    expect(pages).toEqual([[5, 4], [3, 2], [1]]);
+  });
+
+  it("should not skip or repeat posts with the same created_at", async () => {
+    // Arrange: 同じスコアの投稿がページをまたぐ
+    for (const id of [1, 2, 3, 10, 11]) {
+      await mockRedis.zadd("timeline:Alice", 1000, String(id));
+    }
+
+    // Act
+    const pages = await readAll("Alice", 2);
+
+    // Assert
+    expect(pages.flat()).toEqual([11, 10, 3, 2, 1]);
+  });
+
+  it("should merge posts of followed authors that are not fanned out", async () => {
+    // Arrange
+    await mockRedis.zadd("timeline:Alice", 1000, "1");
+    await mockRedis.zadd("timeline:Alice", 3000, "3");
+    await mockRedis.zadd("timeline-posts:Star", 2000, "2");
+    await mockRedis.zadd("timeline-posts:Star", 3000, "3");
+    await mockRedis.zadd("timeline-posts:Other", 4000, "4");
+    await mockRedis.sadd(CELEBRITIES_KEY, "Star", "Other");
+    await mockRedis.sadd("following:Alice", "Star");
+
+    // Act
+    const pages = await readAll("Alice", 10);
+
+    // Assert: フォローしていない Other は混ぜず、両方にある 3 は1回だけ
+    expect(pages).toEqual([[3, 2, 1]]);
+  });
+
+  it("should reject a malformed cursor", async () => {
+    await expect(
+      readTimeline(mockRedis as any, "Alice", { cursor: "abc", limit: 10 }),
+    ).rejects.toThrow(InvalidCursorError);
+  });
+});
+
+describe("cursor", () => {
+  it("should round-trip an entry", () => {
+    const entry = { score: 1704067200000, postId: 42 };
+
+    expect(decodeCursor(encodeCursor(entry))).toEqual(entry);
+  });
+});
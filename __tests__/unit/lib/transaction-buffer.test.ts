@@ -0,0 +1,214 @@
+/**
+ * トランザクション単位のイベントバッファの単体テスト
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createMockDebeziumEvent,
+  createMockKafkaMessage,
+  createMockTransactionMetadata,
+} from "@/test-helpers/mock-kafka";
+import {
+  TRANSACTION_TOPIC,
+  TransactionBuffer,
+  parseTransactionMetadata,
+} from "@/lib/transaction-buffer";
+
+const post = (id: number) => ({
+  id,
+  title: `Post ${id}`,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+function eventItem(
+  offset: number,
+  postId: number,
+  totalOrder: number,
+  table = "posts",
+) {
+  const event = createMockDebeziumEvent({
+    op: "c",
+    after: post(postId),
+    source: { lsn: 100 + offset, table },
+    transaction: { id: "tx-1", total_order: totalOrder },
+  });
+  const { topic, partition, message } = createMockKafkaMessage({
+    topic: `blogdb.public.${table}`,
+    key: JSON.stringify({ id: postId }),
+    value: JSON.stringify(event),
+    offset: offset.toString(),
+  });
+  return { topic, partition, message, event: event as any };
+}
+
+function endItem(eventCount: number, dataCollections?: Record<string, number>) {
+  const value = createMockTransactionMetadata({
+    status: "END",
+    id: "tx-1",
+    eventCount,
+    dataCollections,
+  });
+  const { topic, partition, message } = createMockKafkaMessage({
+    topic: TRANSACTION_TOPIC,
+    value,
+    offset: "0",
+  });
+  return {
+    metadata: parseTransactionMetadata(Buffer.from(value)),
+    item: { topic, partition, message },
+  };
+}
+
+describe("TransactionBuffer", () => {
+  let buffer: TransactionBuffer;
+
+  beforeEach(() => {
+    buffer = new TransactionBuffer(["public.posts"]);
+  });
+
+  /**
+   * DDT: END とイベントの届く順番によらず、揃った時点で完了する
+   */
+  const arrivalCases = [
+    { name: "END after all events", order: ["e0", "e1", "end"] },
+    { name: "END before all events", order: ["end", "e0", "e1"] },
+    { name: "END between events", order: ["e0", "end", "e1"] },
+  ];
+
+  arrivalCases.forEach((testCase) => {
+    it(`should complete when ${testCase.name}`, () => {
+      // Arrange
+      const end = endItem(2);
+      const steps: Record<string, () => ReturnType<typeof buffer.addEvent>> = {
+        // total_order は受け取り順と逆にしておく
+        e0: () => buffer.addEvent(eventItem(0, 1, 2)),
+        e1: () => buffer.addEvent(eventItem(1, 2, 1)),
+        end: () => buffer.addMetadata(end.metadata, end.item),
+      };
+
+      // Act
+      const results = testCase.order.map((step) => steps[step]());
+
+      // Assert: 最後の1件でだけ完了し、total_order 順に並ぶ
+      expect(results.slice(0, -1)).toEqual([null, null]);
+      const completed = results.at(-1)!;
+      expect(completed.id).toBe("tx-1");
+      expect(completed.events.map((e) => e.message.offset)).toEqual(["1", "0"]);
+      expect(completed.related).toEqual([end.item]);
+      expect(buffer.size).toBe(0);
+    });
+  });
+
+  it("should not count the same message twice after a re-read", () => {
+    // Arrange
+    const end = endItem(2);
+    buffer.addMetadata(end.metadata, end.item);
+
+    // Act
+    buffer.addEvent(eventItem(0, 1, 1));
+    const result = buffer.addEvent(eventItem(0, 1, 1));
+
+    // Assert
+    expect(result).toBeNull();
+    expect(buffer.size).toBe(1);
+  });
+
+  it("should complete an END that has no events for the table", () => {
+    const end = endItem(0);
+
+    const completed = buffer.addMetadata(end.metadata, end.item);
+
+    expect(completed?.events).toEqual([]);
+  });
+
+  it("should wait for the events of every table it handles", () => {
+    // Arrange: comments は対象、audit_log は対象外
+    buffer = new TransactionBuffer(["public.posts", "public.comments"]);
+    const end = endItem(0, {
+      "public.posts": 1,
+      "public.comments": 1,
+      "public.audit_log": 5,
+    });
+
+    // Act
+    const afterEnd = buffer.addMetadata(end.metadata, end.item);
+    const afterPost = buffer.addEvent(eventItem(0, 1, 1));
+    const afterComment = buffer.addEvent(eventItem(0, 1, 2, "comments"));
+
+    // Assert: 同じオフセットでもトピックが違えば別のイベント
+    expect(afterEnd).toBeNull();
+    expect(afterPost).toBeNull();
+    expect(afterComment?.events.map((e) => e.topic)).toEqual([
+      "blogdb.public.posts",
+      "blogdb.public.comments",
+    ]);
+  });
+
+  it("should attach a tombstone to a pending transaction with the same key", () => {
+    // Arrange
+    buffer.addEvent(eventItem(0, 1, 1));
+    const tombstone = createMockKafkaMessage({
+      topic: "blogdb.public.posts",
+      key: JSON.stringify({ id: 1 }),
+      value: "",
+      offset: "1",
+    });
+    const other = createMockKafkaMessage({
+      topic: "blogdb.public.posts",
+      key: JSON.stringify({ id: 2 }),
+      value: "",
+      offset: "2",
+    });
+
+    const otherTable = createMockKafkaMessage({
+      topic: "blogdb.public.comments",
+      key: JSON.stringify({ id: 1 }),
+      value: "",
+      offset: "3",
+    });
+
+    // Act & Assert
+    expect(buffer.attachToPending(tombstone)).toBe(true);
+    expect(buffer.attachToPending(other)).toBe(false);
+    expect(buffer.attachToPending(otherTable)).toBe(false);
+  });
+
+  it("should give up a transaction that does not complete within the timeout", () => {
+    // Arrange: 1件は保持期間で消えていて、END の数に届かない
+    let clock = 0;
+    buffer = new TransactionBuffer(["public.posts"], {
+      timeoutMs: 1000,
+      now: () => clock,
+    });
+    const end = endItem(3);
+    buffer.addEvent(eventItem(1, 2, 2));
+    buffer.addMetadata(end.metadata, end.item);
+    buffer.addEvent(eventItem(0, 1, 1));
+
+    // Act
+    clock = 999;
+    const beforeTimeout = buffer.takeExpired();
+    clock = 1000;
+    const afterTimeout = buffer.takeExpired();
+
+    // Assert: 届いた分だけ total_order 順に返す
+    expect(beforeTimeout).toEqual([]);
+    expect(afterTimeout).toHaveLength(1);
+    expect(afterTimeout[0].events.map((e) => e.message.offset)).toEqual([
+      "0",
+      "1",
+    ]);
+    expect(afterTimeout[0].related).toEqual([end.item]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it("should keep waiting without a timeout", () => {
+    buffer.addEvent(eventItem(0, 1, 1));
+
+    expect(buffer.takeExpired()).toEqual([]);
+    expect(buffer.size).toBe(1);
+  });
+});
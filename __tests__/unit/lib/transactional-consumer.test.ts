@@ -0,0 +1,214 @@
+/**
+ * トランザクション単位で反映する Consumer の実行ループの単体テスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  createMockConsumer,
+  createMockDebeziumEvent,
+  createMockKafkaMessage,
+  createMockTombstoneMessage,
+  createMockTransactionMetadata,
+} from "@/test-helpers/mock-kafka";
+import { runTransactionAware } from "@/lib/transactional-consumer";
+import { TRANSACTION_TOPIC } from "@/lib/transaction-buffer";
+
+const SOURCE_TOPIC = "blogdb.public.posts";
+
+const post = (id: number) => ({
+  id,
+  title: `Post ${id}`,
+  content: "Content",
+  author: "Alice",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+function dataMessage(offset: number, postId: number, transactionId?: string) {
+  return createMockKafkaMessage({
+    topic: SOURCE_TOPIC,
+    key: JSON.stringify({ id: postId }),
+    value: JSON.stringify(
+      createMockDebeziumEvent({
+        op: "c",
+        after: post(postId),
+        source: { lsn: 100 + offset },
+        transaction: transactionId
+          ? { id: transactionId, total_order: offset + 1 }
+          : undefined,
+      }),
+    ),
+    offset: offset.toString(),
+  });
+}
+
+function metadataMessage(
+  offset: number,
+  status: "BEGIN" | "END",
+  eventCount?: number,
+) {
+  return createMockKafkaMessage({
+    topic: TRANSACTION_TOPIC,
+    value: createMockTransactionMetadata({ status, id: "tx-1", eventCount }),
+    offset: offset.toString(),
+  });
+}
+
+describe("runTransactionAware", () => {
+  let consumer: ReturnType<typeof createMockConsumer>;
+  const handleMessage = vi.fn(async () => {});
+  const handleTransaction = vi.fn(async () => {});
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    consumer = createMockConsumer();
+    await runTransactionAware(consumer, {
+      sourceTopic: SOURCE_TOPIC,
+      dataCollections: ["public.posts"],
+      handleMessage,
+      handleTransaction,
+    });
+  });
+
+  const lastCommitted = (topic: string) =>
+    consumer.commitOffsets.mock.calls
+      .flatMap(([offsets]) => offsets)
+      .filter((offset) => offset.topic === topic)
+      .at(-1)?.offset;
+
+  it("should subscribe to the data and transaction topics without auto commit", () => {
+    expect(consumer.subscribe).toHaveBeenCalledWith(
+      expect.objectContaining({ topics: [SOURCE_TOPIC, TRANSACTION_TOPIC] }),
+    );
+    expect(consumer.run).toHaveBeenCalledWith(
+      expect.objectContaining({ autoCommit: false }),
+    );
+  });
+
+  it("should apply a transaction only after END and all events arrived", async () => {
+    // Act
+    await consumer.deliver(metadataMessage(0, "BEGIN"));
+    await consumer.deliver(dataMessage(0, 1, "tx-1"));
+    await consumer.deliver(dataMessage(1, 2, "tx-1"));
+
+    // Assert: END 前は反映もコミットもしない
+    expect(handleTransaction).not.toHaveBeenCalled();
+    expect(lastCommitted(SOURCE_TOPIC)).toBeUndefined();
+
+    // Act
+    await consumer.deliver(metadataMessage(1, "END", 2));
+
+    // Assert
+    expect(handleTransaction).toHaveBeenCalledTimes(1);
+    const [transaction] = handleTransaction.mock.calls[0] as any[];
+    expect(transaction.events).toHaveLength(2);
+    expect(lastCommitted(SOURCE_TOPIC)).toBe("2");
+    expect(lastCommitted(TRANSACTION_TOPIC)).toBe("2");
+  });
+
+  it("should handle events outside a transaction immediately", async () => {
+    await consumer.deliver(dataMessage(0, 1));
+
+    expect(handleMessage).toHaveBeenCalledTimes(1);
+    expect(lastCommitted(SOURCE_TOPIC)).toBe("1");
+  });
+
+  it("should hold a tombstone until its transaction is applied", async () => {
+    // Arrange
+    await consumer.deliver(dataMessage(0, 1, "tx-1"));
+
+    // Act
+    await consumer.deliver(
+      createMockTombstoneMessage({ id: 1, offset: "1", withSchema: false }),
+    );
+
+    // Assert
+    expect(handleMessage).not.toHaveBeenCalled();
+
+    // Act
+    await consumer.deliver(metadataMessage(0, "END", 1));
+
+    // Assert: トゥームストーンのオフセットもトランザクションと一緒に完了する
+    expect(handleTransaction).toHaveBeenCalledTimes(1);
+    expect(lastCommitted(SOURCE_TOPIC)).toBe("2");
+  });
+
+  it("should drop buffered state on rebalance", async () => {
+    // Arrange
+    await consumer.deliver(dataMessage(0, 1, "tx-1"));
+
+    // Act
+    consumer.emit(consumer.events.GROUP_JOIN);
+    await consumer.deliver(metadataMessage(0, "END", 1));
+
+    // Assert: 読み直しで同じイベントが届くまで揃わない
+    expect(handleTransaction).not.toHaveBeenCalled();
+  });
+
+  describe("with a timeout", () => {
+    let clock: number;
+
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      clock = 0;
+      consumer = createMockConsumer();
+      await runTransactionAware(consumer, {
+        sourceTopic: SOURCE_TOPIC,
+        dataCollections: ["public.posts"],
+        transactionTimeoutMs: 1000,
+        now: () => clock,
+        handleMessage,
+        handleTransaction,
+      });
+      // END は2件と言っているが、1件は保持期間で消えている
+      await consumer.deliver(dataMessage(0, 1, "tx-1"));
+      await consumer.deliver(metadataMessage(0, "END", 2));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const appliedOffsets = () =>
+      handleTransaction.mock.calls.map(([transaction]: any[]) =>
+        transaction.events.map((item: any) => item.message.offset),
+      );
+
+    it("should apply the events received together when the next message arrives late", async () => {
+      // Act
+      clock = 1000;
+      await consumer.deliver(dataMessage(1, 2));
+
+      // Assert: 届いた分は1つのトランザクションとして反映する
+      expect(appliedOffsets()).toEqual([["0"]]);
+      expect(
+        handleMessage.mock.calls.map(
+          ([payload]: any[]) => payload.message.offset,
+        ),
+      ).toEqual(["1"]);
+      expect(lastCommitted(SOURCE_TOPIC)).toBe("2");
+      expect(lastCommitted(TRANSACTION_TOPIC)).toBe("1");
+    });
+
+    it("should apply the events received even when no message arrives", async () => {
+      // Act
+      clock = 1000;
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      expect(appliedOffsets()).toEqual([["0"]]);
+      expect(lastCommitted(SOURCE_TOPIC)).toBe("1");
+      expect(lastCommitted(TRANSACTION_TOPIC)).toBe("1");
+    });
+
+    it("should stop checking after the consumer stops", async () => {
+      // Act
+      consumer.emit(consumer.events.STOP);
+      clock = 1000;
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      expect(handleTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
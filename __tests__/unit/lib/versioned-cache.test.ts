@@ -0,0 +1,213 @@
+/**
+ * バージョン付きキャッシュ（Compare-And-Set）の単体テスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockRedis } from "@/test-helpers/mock-redis";
+import { createMockDebeziumEvent } from "@/test-helpers/mock-kafka";
+import {
+  TOMBSTONE_TTL,
+  deleteIfNewer,
+  fillIfAbsent,
+  setIfNewer,
+  versionKey,
+} from "@/lib/versioned-cache";
+import { eventVersion, lsnToNumber } from "@/lib/event-version";
+
+describe("Versioned Cache", () => {
+  let mockRedis: ReturnType<typeof createMockRedis>;
+
+  beforeEach(() => {
+    mockRedis = createMockRedis();
+    vi.clearAllMocks();
+  });
+
+  describe("eventVersion", () => {
+    /**
+     * DDT: LSNの表現ごとの変換
+     */
+    const lsnCases = [
+      { name: "numeric LSN", lsn: 24023128, expected: 24023128 },
+      { name: "textual LSN", lsn: "0/16E8F58", expected: 0x16e8f58 },
+      { name: "textual LSN with high part", lsn: "1/0", expected: 2 ** 32 },
+    ];
+
+    lsnCases.forEach((testCase) => {
+      it(`should convert ${testCase.name}`, () => {
+        expect(lsnToNumber(testCase.lsn)).toBe(testCase.expected);
+      });
+    });
+
+    it("should use source.lsn as version", () => {
+      const event = createMockDebeziumEvent({
+        op: "c",
+        source: { lsn: 500, ts_ms: 1700000000000 },
+      });
+
+      expect(eventVersion(event as any)).toBe(500);
+    });
+
+    it("should fall back to source.ts_ms when LSN is missing", () => {
+      const event: any = createMockDebeziumEvent({
+        op: "c",
+        source: { ts_ms: 1700000000000 },
+      });
+      event.payload.source.lsn = null;
+
+      expect(eventVersion(event)).toBe(1700000000000);
+    });
+  });
+
+  describe("setIfNewer", () => {
+    /**
+     * DDT: 保存済みバージョンとの比較
+     */
+    const casCases = [
+      { name: "first write", stored: null, incoming: 100, applied: true },
+      { name: "newer version", stored: 100, incoming: 200, applied: true },
+      {
+        name: "same version (replay)",
+        stored: 100,
+        incoming: 100,
+        applied: false,
+      },
+      { name: "older version", stored: 200, incoming: 100, applied: false },
+    ];
+
+    casCases.forEach((testCase) => {
+      it(`should ${testCase.applied ? "apply" : "reject"} ${testCase.name}`, async () => {
+        // Arrange
+        if (testCase.stored !== null) {
+          await setIfNewer(
+            mockRedis,
+            "post:1",
+            testCase.stored,
+            '"stored"',
+            300,
+          );
+        }
+
+        // Act
+        const applied = await setIfNewer(
+          mockRedis,
+          "post:1",
+          testCase.incoming,
+          '"incoming"',
+          300,
+        );
+
+        // Assert
+        expect(applied).toBe(testCase.applied);
+        expect(await mockRedis.get("post:1")).toBe(
+          testCase.applied ? '"incoming"' : '"stored"',
+        );
+      });
+    });
+
+    it("should store version next to the value", async () => {
+      await setIfNewer(mockRedis, "post:1", 42, "{}", 300);
+
+      expect(await mockRedis.get(versionKey("post:1"))).toBe("42");
+    });
+  });
+
+  describe("deleteIfNewer", () => {
+    it("should delete value and leave a tombstone", async () => {
+      // Arrange
+      await setIfNewer(mockRedis, "post:1", 100, "{}", 300);
+
+      // Act
+      const applied = await deleteIfNewer(mockRedis, "post:1", 200);
+
+      // Assert
+      expect(applied).toBe(true);
+      expect(await mockRedis.get("post:1")).toBeNull();
+      expect(await mockRedis.get(versionKey("post:1"))).toBe("200");
+    });
+
+    it("should reject a late create older than the tombstone", async () => {
+      await deleteIfNewer(mockRedis, "post:1", 200);
+
+      const applied = await setIfNewer(mockRedis, "post:1", 100, "{}", 300);
+
+      expect(applied).toBe(false);
+      expect(await mockRedis.get("post:1")).toBeNull();
+    });
+
+    it("should reject a delete older than the cached value", async () => {
+      await setIfNewer(mockRedis, "post:1", 300, "{}", 300);
+
+      const applied = await deleteIfNewer(mockRedis, "post:1", 200);
+
+      expect(applied).toBe(false);
+      expect(await mockRedis.get("post:1")).toBe("{}");
+    });
+
+    it("should expire the tombstone after TOMBSTONE_TTL", async () => {
+      vi.useFakeTimers();
+      try {
+        await deleteIfNewer(mockRedis, "post:1", 200);
+
+        vi.advanceTimersByTime((TOMBSTONE_TTL + 1) * 1000);
+
+        expect(await mockRedis.get(versionKey("post:1"))).toBeNull();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("fillIfAbsent", () => {
+    it("should fill an empty cache with version 0", async () => {
+      // Act
+      const applied = await fillIfAbsent(mockRedis, "post:1", '"db"', 60);
+
+      // Assert
+      expect(applied).toBe(true);
+      expect(await mockRedis.get("post:1")).toBe('"db"');
+      expect(await mockRedis.get(versionKey("post:1"))).toBe("0");
+    });
+
+    /**
+     * DDT: Consumer の書き込みやトゥームストーンがあれば何もしない
+     */
+    const presentCases = [
+      {
+        name: "a value written by the consumer",
+        arrange: () => setIfNewer(mockRedis, "post:1", 100, '"event"', 300),
+        expected: '"event"',
+      },
+      {
+        name: "a tombstone",
+        arrange: () => deleteIfNewer(mockRedis, "post:1", 100),
+        expected: null,
+      },
+    ];
+
+    presentCases.forEach((testCase) => {
+      it(`should not overwrite ${testCase.name}`, async () => {
+        // Arrange
+        await testCase.arrange();
+
+        // Act
+        const applied = await fillIfAbsent(mockRedis, "post:1", '"db"', 60);
+
+        // Assert
+        expect(applied).toBe(false);
+        expect(await mockRedis.get("post:1")).toBe(testCase.expected);
+      });
+    });
+
+    it("should let the consumer overwrite a stale fill with any event", async () => {
+      // Arrange: スナップショットより後にコミットされた更新の前の内容で埋めた
+      await fillIfAbsent(mockRedis, "post:1", '"stale"', 60);
+
+      // Act: その更新のイベント（LSN はどれだけ小さくてもよい）
+      const applied = await setIfNewer(mockRedis, "post:1", 1, '"fresh"', 300);
+
+      // Assert
+      expect(applied).toBe(true);
+      expect(await mockRedis.get("post:1")).toBe('"fresh"');
+    });
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * ウォーターマークと一貫性トークンの単体テスト
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMockRedis, type MockRedis } from "@/test-helpers/mock-redis";
+import { createMockDebeziumEvent } from "@/test-helpers/mock-kafka";
+import {
+  InvalidConsistencyTokenError,
+  WatermarkTracker,
+  createWatermarkRecorder,
+  eventLsn,
+  formatConsistencyToken,
+  formatLsn,
+  hasCaughtUp,
+  parseConsistencyToken,
+  readWatermark,
+  waitForWatermark,
+} from "@/lib/watermark";
+
+const POSTS = "public.posts";
+const FOLLOWS = "public.follows";
+
+describe("parseConsistencyToken", () => {
+  it.each([
+    {
+      token: "0/16B3748:571",
+      expected: { lsn: 0x16b3748, txId: "571", tables: null },
+    },
+    {
+      token: "16/B374D848",
+      expected: { lsn: 0x16 * 2 ** 32 + 0xb374d848, txId: null, tables: null },
+    },
+    {
+      token: "23803208:7",
+      expected: { lsn: 23803208, txId: "7", tables: null },
+    },
+    {
+      token: "0/16B3748:571:public.posts,public.comments",
+      expected: {
+        lsn: 0x16b3748,
+        txId: "571",
+        tables: ["public.posts", "public.comments"],
+      },
+    },
+    {
+      token: "0/16B3748:571:",
+      expected: { lsn: 0x16b3748, txId: "571", tables: [] },
+    },
+  ])("should parse $token", ({ token, expected }) => {
+    expect(parseConsistencyToken(token)).toEqual(expected);
+  });
+
+  it.each([
+    "",
+    "abc",
+    "0/",
+    "/1",
+    "1.5",
+    "-1",
+    "0/1:",
+    "0/1:abc",
+    "0/1:7:posts",
+    "0/1:7:public.posts,",
+  ])("should reject %j", (token) => {
+    expect(() => parseConsistencyToken(token)).toThrow(
+      InvalidConsistencyTokenError,
+    );
+  });
+});
+
+describe("formatConsistencyToken", () => {
+  it("should round-trip through parseConsistencyToken", () => {
+    // Act
+    const token = formatConsistencyToken("0/16B3748", "571", [POSTS, FOLLOWS]);
+
+    // Assert
+    expect(token).toBe("0/16B3748:571:public.posts,public.follows");
+    expect(parseConsistencyToken(token).tables).toEqual([POSTS, FOLLOWS]);
+  });
+});
+
+describe("formatLsn", () => {
+  it("should format the LSN like pg_lsn", () => {
+    expect(formatLsn(0x16 * 2 ** 32 + 0xb374d848)).toBe("16/B374D848");
+    expect(parseConsistencyToken(formatLsn(12345)).lsn).toBe(12345);
+  });
+});
+
+describe("eventLsn", () => {
+  it("should return the LSN of the event", () => {
+    const event = createMockDebeziumEvent({ op: "c", source: { lsn: 42 } });
+
+    expect(eventLsn(event as any)).toBe(42);
+  });
+
+  it("should not fall back to ts_ms", () => {
+    const event = createMockDebeziumEvent({ op: "c" });
+    delete (event.payload.source as { lsn?: number }).lsn;
+
+    expect(eventLsn(event as any)).toBeNull();
+    expect(eventLsn(null)).toBeNull();
+  });
+});
+
+describe("WatermarkTracker", () => {
+  const event = (lsn: number, txId: number) =>
+    createMockDebeziumEvent({ op: "c", source: { lsn, txId } }) as any;
+
+  it("should not move past a message that has not completed", () => {
+    // Arrange: オフセット1（トランザクション 11）より先に 2（12）を反映した
+    const tracker = new WatermarkTracker();
+    tracker.record("blogdb.public.posts", 0, "0", event(100, 10));
+    tracker.record("blogdb.public.posts", 0, "2", event(300, 12));
+
+    // Act
+    const beforeGap = tracker.take("blogdb.public.posts", 0, "1");
+    tracker.record("blogdb.public.posts", 0, "1", event(200, 11));
+    const afterGap = tracker.take("blogdb.public.posts", 0, "3");
+
+    // Assert
+    expect(beforeGap).toEqual({ lsn: 100, txId: "10" });
+    expect(afterGap).toEqual({ lsn: 300, txId: "12" });
+    expect(tracker.take("blogdb.public.posts", 0, "3")).toBeNull();
+  });
+
+  it("should keep the highest LSN and the transaction of the last offset", () => {
+    // Arrange: 後にコミットされたトランザクションの方が LSN が小さいことがある
+    const tracker = new WatermarkTracker();
+    tracker.record("blogdb.public.posts", 0, "0", event(500, 20));
+    tracker.record("blogdb.public.posts", 0, "1", event(400, 21));
+
+    // Act & Assert
+    expect(tracker.take("blogdb.public.posts", 0, "2")).toEqual({
+      lsn: 500,
+      txId: "21",
+    });
+  });
+
+  it("should ignore events without an LSN", () => {
+    // Arrange
+    const tracker = new WatermarkTracker();
+
+    // Act
+    tracker.record("blogdb.public.posts", 0, "0", null);
+
+    // Assert
+    expect(tracker.take("blogdb.public.posts", 0, "1")).toBeNull();
+  });
+
+  it("should forget the applied events when cleared", () => {
+    // Arrange: リバランスの前に反映したが、コミットまで届かなかった
+    const tracker = new WatermarkTracker();
+    tracker.record("blogdb.public.posts", 0, "1", event(200, 11));
+
+    // Act
+    tracker.clear();
+
+    // Assert
+    expect(tracker.take("blogdb.public.posts", 0, "2")).toBeNull();
+  });
+});
+
+describe("createWatermarkRecorder", () => {
+  let redis: MockRedis;
+
+  beforeEach(() => {
+    redis = createMockRedis();
+  });
+
+  it("should only move the LSN forward for each table", async () => {
+    // Arrange
+    const recorder = createWatermarkRecorder(redis, "timeline");
+
+    // Act: 再配信で古い LSN が後から届いた
+    await recorder.advance(POSTS, { lsn: 200, txId: "2" });
+    await recorder.advance(POSTS, { lsn: 100, txId: "1" });
+
+    // Assert
+    expect(await readWatermark(redis, "timeline", POSTS)).toEqual({
+      lsn: 200,
+      txId: "1",
+    });
+    expect(await readWatermark(redis, "timeline", FOLLOWS)).toBeNull();
+    expect(await readWatermark(redis, "cache-updater", POSTS)).toBeNull();
+  });
+});
+
+describe("hasCaughtUp", () => {
+  const token = { lsn: 1000, txId: "7", tables: [POSTS] };
+  const watermarks = (
+    posts: { lsn: number; txId: string } | null,
+    follows: { lsn: number; txId: string } | null,
+  ) =>
+    new Map([
+      [POSTS, posts],
+      [FOLLOWS, follows],
+    ]);
+
+  /**
+   * DDT: 書き込んだテーブルが、書き込みのトランザクションを反映したか COMMIT の後まで進んだら反映済み
+   */
+  it.each([
+    {
+      name: "the write is the last applied transaction of the written table",
+      watermarks: watermarks({ lsn: 900, txId: "7" }, null),
+      expected: true,
+    },
+    {
+      name: "the written table has passed the commit",
+      watermarks: watermarks({ lsn: 1000, txId: "8" }, { lsn: 500, txId: "3" }),
+      expected: true,
+    },
+    {
+      name: "a concurrent transaction committed first with a higher LSN",
+      watermarks: watermarks({ lsn: 950, txId: "6" }, { lsn: 1200, txId: "9" }),
+      expected: false,
+    },
+    {
+      name: "the written table has no watermark",
+      watermarks: watermarks(null, { lsn: 1200, txId: "9" }),
+      expected: false,
+    },
+  ])("should return $expected when $name", ({ watermarks, expected }) => {
+    expect(hasCaughtUp(watermarks, token)).toBe(expected);
+  });
+
+  it("should wait for every written table", () => {
+    // Arrange
+    const both = { ...token, tables: [POSTS, FOLLOWS] };
+
+    // Act & Assert: posts は反映したが follows はまだ
+    expect(
+      hasCaughtUp(
+        watermarks({ lsn: 900, txId: "7" }, { lsn: 500, txId: "3" }),
+        both,
+      ),
+    ).toBe(false);
+    expect(
+      hasCaughtUp(
+        watermarks({ lsn: 900, txId: "7" }, { lsn: 900, txId: "7" }),
+        both,
+      ),
+    ).toBe(true);
+  });
+
+  it("should not wait for anything when the write changed no rows", () => {
+    expect(hasCaughtUp(watermarks(null, null), { ...token, tables: [] })).toBe(
+      true,
+    );
+  });
+
+  /**
+   * DDT: テーブルの無いトークンは、どれかのテーブルで書き込みを反映したか、すべてのテーブルが COMMIT の後まで進んだら反映済み
+   */
+  it.each([
+    {
+      name: "the write is the last applied transaction of a table",
+      watermarks: watermarks({ lsn: 900, txId: "7" }, null),
+      expected: true,
+    },
+    {
+      name: "every table has passed the commit",
+      watermarks: watermarks(
+        { lsn: 1000, txId: "8" },
+        { lsn: 1200, txId: "9" },
+      ),
+      expected: true,
+    },
+    {
+      name: "another table has not passed the commit",
+      watermarks: watermarks({ lsn: 1200, txId: "9" }, { lsn: 500, txId: "3" }),
+      expected: false,
+    },
+  ])(
+    "should return $expected for a token without tables when $name",
+    ({ watermarks, expected }) => {
+      expect(hasCaughtUp(watermarks, { ...token, tables: null })).toBe(
+        expected,
+      );
+    },
+  );
+
+  it("should only compare LSNs for a token without a transaction", () => {
+    expect(
+      hasCaughtUp(watermarks({ lsn: 900, txId: "7" }, null), {
+        lsn: 1000,
+        txId: null,
+        tables: [POSTS],
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("waitForWatermark", () => {
+  let redis: MockRedis;
+  let clock: number;
+  const sleep = async (ms: number) => {
+    clock += ms;
+  };
+  const token = { lsn: 100, txId: "5", tables: [POSTS] };
+
+  beforeEach(() => {
+    redis = createMockRedis();
+    clock = 0;
+  });
+
+  it("should return immediately when the watermark has passed the token", async () => {
+    // Arrange
+    await createWatermarkRecorder(redis, "timeline").advance(POSTS, {
+      lsn: 150,
+      txId: "6",
+    });
+    await createWatermarkRecorder(redis, "timeline").advance(FOLLOWS, {
+      lsn: 120,
+      txId: "4",
+    });
+
+    // Act
+    const result = await waitForWatermark(
+      redis,
+      "timeline",
+      [POSTS, FOLLOWS],
+      token,
+      { timeoutMs: 1000, pollIntervalMs: 50, sleep, now: () => clock },
+    );
+
+    // Assert: ヘッダーには遅い方のテーブルの LSN を返す
+    expect(result).toEqual({ reached: true, watermark: 120 });
+    expect(clock).toBe(0);
+  });
+
+  it("should wait until the consumer applies the write", async () => {
+    // Arrange: 120ms 後に Consumer が書き込みのトランザクションを反映する
+    const recorder = createWatermarkRecorder(redis, "timeline");
+    await recorder.advance(POSTS, { lsn: 60, txId: "4" });
+    const catchUp = async (ms: number) => {
+      await sleep(ms);
+      if (clock >= 120) await recorder.advance(POSTS, { lsn: 90, txId: "5" });
+    };
+
+    // Act
+    const result = await waitForWatermark(redis, "timeline", [POSTS], token, {
+      timeoutMs: 1000,
+      pollIntervalMs: 50,
+      sleep: catchUp,
+      now: () => clock,
+    });
+
+    // Assert
+    expect(result).toEqual({ reached: true, watermark: 90 });
+    expect(clock).toBe(150);
+  });
+
+  it("should give up after the timeout", async () => {
+    // Arrange
+    await createWatermarkRecorder(redis, "timeline").advance(POSTS, {
+      lsn: 90,
+      txId: "4",
+    });
+
+    // Act
+    const result = await waitForWatermark(redis, "timeline", [POSTS], token, {
+      timeoutMs: 120,
+      pollIntervalMs: 50,
+      sleep,
+      now: () => clock,
+    });
+
+    // Assert
+    expect(result).toEqual({ reached: false, watermark: 90 });
+    expect(clock).toBe(120);
+  });
+
+  it("should not wait for a table the write did not touch", async () => {
+    // Arrange: 投稿を書き込んだ。follows には一度も変更が無い
+    await createWatermarkRecorder(redis, "timeline").advance(POSTS, {
+      lsn: 90,
+      txId: "5",
+    });
+
+    // Act
+    const result = await waitForWatermark(
+      redis,
+      "timeline",
+      [POSTS, FOLLOWS],
+      token,
+      { timeoutMs: 1000, pollIntervalMs: 50, sleep, now: () => clock },
+    );
+
+    // Assert
+    expect(result).toEqual({ reached: true, watermark: null });
+    expect(clock).toBe(0);
+  });
+});
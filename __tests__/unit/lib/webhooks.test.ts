@@ -0,0 +1,103 @@
+/**
+ * Webhook の署名の単体テスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHmac } from "node:crypto";
+import {
+  generateSecret,
+  isWebhookEventType,
+  signPayload,
+  verifySignature,
+} from "@/lib/webhooks";
+
+describe("signPayload", () => {
+  it("should be the HMAC-SHA256 of the timestamp and the body", () => {
+    // Arrange
+    const body = '{"id":"post-1-1"}';
+    const expected = createHmac("sha256", "secret")
+      .update(`1700000000.${body}`)
+      .digest("hex");
+
+    // Act
+    const signature = signPayload("secret", 1700000000, body);
+
+    // Assert
+    expect(signature).toBe(`sha256=${expected}`);
+  });
+});
+
+describe("verifySignature", () => {
+  const body = '{"id":"post-1-1"}';
+  const signature = signPayload("secret", 1700000000, body);
+
+  it.each([
+    {
+      name: "the same request",
+      secret: "secret",
+      timestamp: 1700000000,
+      body,
+      signature,
+      expected: true,
+    },
+    {
+      name: "another secret",
+      secret: "other",
+      timestamp: 1700000000,
+      body,
+      signature,
+      expected: false,
+    },
+    {
+      name: "another timestamp",
+      secret: "secret",
+      timestamp: 1700000001,
+      body,
+      signature,
+      expected: false,
+    },
+    {
+      name: "a modified body",
+      secret: "secret",
+      timestamp: 1700000000,
+      body: '{"id":"post-1-2"}',
+      signature,
+      expected: false,
+    },
+    {
+      name: "a truncated signature",
+      secret: "secret",
+      timestamp: 1700000000,
+      body,
+      signature: signature.slice(0, 20),
+      expected: false,
+    },
+  ])("should return $expected for $name", (params) => {
+    expect(
+      verifySignature(
+        params.secret,
+        params.timestamp,
+        params.body,
+        params.signature,
+      ),
+    ).toBe(params.expected);
+  });
+});
+
+describe("generateSecret", () => {
+  it("should generate a different secret each time", () => {
+    expect(generateSecret()).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateSecret()).not.toBe(generateSecret());
+  });
+});
+
+describe("isWebhookEventType", () => {
+  it.each([
+    { value: "post.created", expected: true },
+    { value: "post.deleted", expected: true },
+    { value: "comment.created", expected: false },
+    { value: 1, expected: false },
+  ])("should return $expected for $value", ({ value, expected }) => {
+    expect(isWebhookEventType(value)).toBe(expected);
+  });
+});
@@ -8,12 +8,73 @@ CREATE TABLE posts (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- コメントテーブル（投稿の削除でまとめて消える。Debezium にはコメントごとの delete が流れる）
+CREATE TABLE comments (
+    id SERIAL PRIMARY KEY,
+    post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    author VARCHAR(100) NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- フォロー（follower が followee の投稿をホームタイムラインで読む）
+-- ユーザーは投稿の author と同じ名前で表す
+CREATE TABLE follows (
+    id SERIAL PRIMARY KEY,
+    follower VARCHAR(100) NOT NULL,
+    followee VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (follower, followee)
+);
+
+-- Webhook の購読（Webhook Dispatcher が投稿の変更を url に POST する。CDC の対象ではない）
+-- 配信に続けて disable_after 回失敗すると active を false にする
+CREATE TABLE webhook_subscriptions (
+    id SERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret VARCHAR(255) NOT NULL,
+    event_types TEXT[] NOT NULL DEFAULT ARRAY['post.created', 'post.updated', 'post.deleted'],
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    disabled_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Webhook の配信の記録（購読ごと・イベントごとの最終結果）
+CREATE TABLE webhook_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    subscription_id INTEGER NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    event_id VARCHAR(100) NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    post_id INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    attempts INTEGER NOT NULL,
+    response_status INTEGER,
+    error TEXT,
+    duration_ms INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- サンプルデータ
 INSERT INTO posts (title, content, author) VALUES
     ('Welcome to Unbundled DB', 'This is a demonstration of the unbundled database architecture from DDIA Chapter 12.', 'Admin'),
     ('Understanding Event Sourcing', 'Event sourcing is a powerful pattern for building distributed systems.', 'Alice'),
     ('Kafka vs RabbitMQ', 'Comparing different message brokers for event-driven architectures.', 'Bob');
 
+INSERT INTO comments (post_id, author, body) VALUES
+    (1, 'Alice', 'Great introduction!'),
+    (2, 'Bob', 'How does this compare to CDC?');
+
+INSERT INTO follows (follower, followee) VALUES
+    ('Alice', 'Admin'),
+    ('Alice', 'Bob'),
+    ('Bob', 'Alice');
+
 -- インデックス
 CREATE INDEX idx_posts_author ON posts(author);
-CREATE INDEX idx_posts_created_at ON posts(created_at DESC);
\ No newline at end of file
+CREATE INDEX idx_posts_created_at ON posts(created_at DESC);
+CREATE INDEX idx_comments_post_id ON comments(post_id, created_at);
+CREATE INDEX idx_follows_followee ON follows(followee);
+CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_event ON webhook_deliveries(event_id);
\ No newline at end of file
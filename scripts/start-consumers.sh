@@ -21,9 +21,30 @@ nohup npm run dev:cache-updater > logs/cache-updater.log 2>&1 &
 CACHE_PID=$!
 echo "   PID: $CACHE_PID"
 
+# Author Stats起動
+echo "📊 Author Stats を起動中..."
+nohup npm run dev:author-stats > logs/author-stats.log 2>&1 &
+STATS_PID=$!
+echo "   PID: $STATS_PID"
+
+# Timeline起動
+echo "🏠 Timeline を起動中..."
+nohup npm run dev:timeline > logs/timeline.log 2>&1 &
+TIMELINE_PID=$!
+echo "   PID: $TIMELINE_PID"
+
+# Webhook Dispatcher起動
+echo "🪝 Webhook Dispatcher を起動中..."
+nohup npm run dev:webhook-dispatcher > logs/webhook-dispatcher.log 2>&1 &
+WEBHOOK_PID=$!
+echo "   PID: $WEBHOOK_PID"
+
 # PIDをファイルに保存
 echo "$SEARCH_PID" > logs/search-indexer.pid
 echo "$CACHE_PID" > logs/cache-updater.pid
+echo "$STATS_PID" > logs/author-stats.pid
+echo "$TIMELINE_PID" > logs/timeline.pid
+echo "$WEBHOOK_PID" > logs/webhook-dispatcher.pid
 
 echo ""
 echo "✅ Consumerが起動しました"
@@ -31,6 +52,9 @@ echo ""
 echo "ログを確認:"
 echo "  tail -f logs/search-indexer.log"
 echo "  tail -f logs/cache-updater.log"
+echo "  tail -f logs/author-stats.log"
+echo "  tail -f logs/timeline.log"
+echo "  tail -f logs/webhook-dispatcher.log"
 echo ""
 echo "Consumerを停止:"
 echo "  bash scripts/stop-consumers.sh"
@@ -31,5 +31,44 @@ else
     echo "⚠️  Cache Updater のPIDファイルが見つかりません"
 fi
 
+if [ -f logs/author-stats.pid ]; then
+    STATS_PID=$(cat logs/author-stats.pid)
+    if kill -0 $STATS_PID 2>/dev/null; then
+        kill $STATS_PID
+        echo "✅ Author Stats (PID: $STATS_PID) を停止しました"
+    else
+        echo "⚠️  Author Stats (PID: $STATS_PID) は既に停止しています"
+    fi
+    rm logs/author-stats.pid
+else
+    echo "⚠️  Author Stats のPIDファイルが見つかりません"
+fi
+
+if [ -f logs/timeline.pid ]; then
+    TIMELINE_PID=$(cat logs/timeline.pid)
+    if kill -0 $TIMELINE_PID 2>/dev/null; then
+        kill $TIMELINE_PID
+        echo "✅ Timeline (PID: $TIMELINE_PID) を停止しました"
+    else
+        echo "⚠️  Timeline (PID: $TIMELINE_PID) は既に停止しています"
+    fi
+    rm logs/timeline.pid
+else
+    echo "⚠️  Timeline のPIDファイルが見つかりません"
+fi
+
+if [ -f logs/webhook-dispatcher.pid ]; then
+    WEBHOOK_PID=$(cat logs/webhook-dispatcher.pid)
+    if kill -0 $WEBHOOK_PID 2>/dev/null; then
+        kill $WEBHOOK_PID
+        echo "✅ Webhook Dispatcher (PID: $WEBHOOK_PID) を停止しました"
+    else
+        echo "⚠️  Webhook Dispatcher (PID: $WEBHOOK_PID) は既に停止しています"
+    fi
+    rm logs/webhook-dispatcher.pid
+else
+    echo "⚠️  Webhook Dispatcher のPIDファイルが見つかりません"
+fi
+
 echo ""
 echo "✅ Consumerの停止処理が完了しました"
\ No newline at end of file
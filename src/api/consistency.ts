@@ -0,0 +1,132 @@
+/**
+ * 書き込み API の一貫性トークンと、読み込み API の ?after=（read-your-writes）
+ *
+ * - 書き込みは queryWithConsistencyToken で行い、レスポンスに consistency_token を含める
+ * - 読み込みのルートに consistentRead(…, "<Consumer 名>", [読むテーブル]) を挟むと、?after=<トークン> があれば
+ *   その Consumer のテーブルのウォーターマークが届くまで待ってからハンドラーに進む。
+ *   結果は X-Consistency ヘッダー（fresh / stale）と X-Consistency-Watermark で返す
+ */
+
+import type { RequestHandler } from "express";
+import type { Pool, QueryResultRow } from "pg";
+import { defaultRegistry, type MetricsRegistry } from "../lib/metrics.js";
+import type { TableName } from "../lib/tables.js";
+import {
+  formatConsistencyToken,
+  formatLsn,
+  parseConsistencyToken,
+  waitForWatermark,
+  type ConsistencyToken,
+  type WatermarkStore,
+} from "../lib/watermark.js";
+
+export const CONSISTENCY_HEADER = "X-Consistency";
+export const WATERMARK_HEADER = "X-Consistency-Watermark";
+
+export interface ConsistentReadOptions {
+  waitTimeoutMs: number;
+  pollIntervalMs: number;
+  registry?: MetricsRegistry;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * 1つのトランザクションで書き込み、COMMIT の後に WAL の位置を読む
+ * トークンは "<COMMIT の後の LSN>:<トランザクション ID>:<書き込むテーブル>"。トランザクション ID は Debezium の source.txId と同じ
+ * 32 ビットの xid（pg_current_xact_id() はエポック付きなので下位 32 ビットにする）
+ * @param tables sql が書き込むテーブル。読み込みはこのテーブルのウォーターマークだけを待つ
+ *   （1行も変えなかった時は、変更イベントが出ないのでテーブルを入れない）
+ */
+export async function queryWithConsistencyToken<T extends QueryResultRow>(
+  pg: Pool,
+  sql: string,
+  params: unknown[],
+  tables: TableName[],
+): Promise<{ rows: T[]; consistencyToken: string }> {
+  const client = await pg.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await client.query<T>(sql, params);
+    const transaction = await client.query<{ tx_id: string }>(
+      "SELECT (pg_current_xact_id()::text::bigint % 4294967296)::text AS tx_id",
+    );
+    await client.query("COMMIT");
+    const lsn = await client.query<{ lsn: string }>(
+      "SELECT pg_current_wal_lsn()::text AS lsn",
+    );
+    return {
+      rows: result.rows,
+      consistencyToken: formatConsistencyToken(
+        lsn.rows[0].lsn,
+        transaction.rows[0].tx_id,
+        result.rowCount ? tables : [],
+      ),
+    };
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * ?after=<トークン> があれば、consumer の tables のウォーターマークがトークンに届くまで待つミドルウェア
+ * 待ちきれなければ stale としてそのままハンドラーに進む（トークンが不正なら 400）
+ */
+export function consistentRead(
+  redis: WatermarkStore,
+  consumer: string,
+  tables: string[],
+  {
+    waitTimeoutMs,
+    pollIntervalMs,
+    registry = defaultRegistry,
+    sleep,
+  }: ConsistentReadOptions,
+): RequestHandler {
+  const reads = registry.counter(
+    "consistent_reads_total",
+    "Reads with ?after=, by consumer and result (fresh or stale)",
+  );
+
+  return async (req, res, next) => {
+    const { after } = req.query;
+    if (after === undefined) return next();
+
+    let token: ConsistencyToken;
+    try {
+      token = parseConsistencyToken(String(after));
+    } catch (error) {
+      return res.status(400).json({
+        error: (error as Error).message,
+      });
+    }
+
+    try {
+      const { reached, watermark } = await waitForWatermark(
+        redis,
+        consumer,
+        tables,
+        token,
+        { timeoutMs: waitTimeoutMs, pollIntervalMs, sleep },
+      );
+      if (watermark !== null) {
+        res.set(WATERMARK_HEADER, formatLsn(watermark));
+      }
+      res.set(CONSISTENCY_HEADER, reached ? "fresh" : "stale");
+      reads.inc({ consumer, result: reached ? "fresh" : "stale" });
+      if (!reached) {
+        console.warn(
+          `⚠️  ${consumer} has not caught up with ${after} within ${waitTimeoutMs}ms`,
+        );
+      }
+    } catch (error) {
+      // ウォーターマークが読めなければ、追いついているか分からないので stale として返す
+      console.error(`❌ Error reading the watermark of ${consumer}:`, error);
+      res.set(CONSISTENCY_HEADER, "stale");
+      reads.inc({ consumer, result: "stale" });
+    }
+    next();
+  };
+}
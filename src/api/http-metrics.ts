@@ -0,0 +1,57 @@
+/**
+ * API のメトリクス
+ *
+ * - http_requests_total: ルート・メソッド・ステータスごとのリクエスト数
+ * - http_request_duration_seconds: ルート・メソッドごとのレイテンシ
+ *
+ * route ラベルには実際のパス（/posts/42）ではなくルートの定義（/posts/:id）を使う。
+ * どのルートにも一致しなかったリクエストは "unmatched" にまとめる（系列が無限に増えないように）。
+ */
+
+import type { Request, RequestHandler } from "express";
+import {
+  defaultRegistry,
+  METRICS_CONTENT_TYPE,
+  type MetricsRegistry,
+} from "../lib/metrics.js";
+
+function routeOf(req: Request): string {
+  return req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+}
+
+/**
+ * リクエスト数とレイテンシを記録するミドルウェア
+ */
+export function httpMetrics(
+  registry: MetricsRegistry = defaultRegistry,
+): RequestHandler {
+  const requests = registry.counter(
+    "http_requests_total",
+    "HTTP requests, by route, method and status",
+  );
+  const duration = registry.histogram(
+    "http_request_duration_seconds",
+    "HTTP request latency in seconds, by route and method",
+  );
+
+  return (req, res, next) => {
+    const end = duration.startTimer();
+    res.on("finish", () => {
+      const route = routeOf(req);
+      end({ route, method: req.method });
+      requests.inc({ route, method: req.method, status: res.statusCode });
+    });
+    next();
+  };
+}
+
+/**
+ * GET /metrics のハンドラー
+ */
+export function metricsHandler(
+  registry: MetricsRegistry = defaultRegistry,
+): RequestHandler {
+  return async (req, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(await registry.render());
+  };
+}
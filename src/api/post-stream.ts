@@ -0,0 +1,540 @@
+/**
+ * 投稿の変更の Server-Sent Events（GET /posts/stream）
+ *
+ * API プロセスが blogdb.public.posts のすべてのパーティションを読み、
+ * 接続しているクライアントに post.created / post.updated / post.deleted を流す。
+ *
+ * - イベントの id はそのクライアントがストリーム上で受け取った位置（パーティションごとのオフセット、"0:123,1:45"）。
+ *   再接続時の Last-Event-ID から先を、手元に残している直近のイベント（bufferSize 件）から送り直す。
+ *   残っていない範囲（古すぎる・API の再起動をまたいだ）は、その位置に seek して Kafka から読み直す。
+ *   保持期間を過ぎて Kafka にも残っていなければ resync を送り、クライアントに読み直してもらう
+ * - ?author= / ?post_id=1,2 で絞り込める（著者が分からない削除は author で絞っていても送る）
+ * - heartbeatMs ごとにコメント行を送り、プロキシに接続を切られないようにする
+ * - 同時接続数が maxConnections を超えたら 503 を返す
+ * - 送信が詰まった（write が false を返した）まま maxPendingWrites 回を超えて書いたら切断する
+ *   （遅いクライアントのためにメモリを使い続けない。再接続すれば Last-Event-ID から続きを読める）
+ */
+
+import type { RequestHandler } from "express";
+import { AssignerProtocol, type Kafka, type PartitionAssigner } from "kafkajs";
+import type { DebeziumChangeEvent, Post } from "../types/index.js";
+import { decodeChangeEvent } from "../lib/event-decoder.js";
+import {
+  defaultRegistry,
+  type Counter,
+  type Gauge,
+  type MetricsRegistry,
+} from "../lib/metrics.js";
+
+export const POST_STREAM_GROUP_ID = "post-stream";
+
+export interface PostStreamOptions {
+  maxConnections: number;
+  // 再接続に備えて残しておくイベントの数
+  bufferSize: number;
+  heartbeatMs: number;
+  // 送信が詰まったまま、この回数を超えて書いたら切断する
+  maxPendingWrites: number;
+  registry?: MetricsRegistry;
+}
+
+// Kafka から読んだ変更イベント（トゥームストーンや読めないイベントは null。位置だけ進める）
+export interface PostChange {
+  partition: number;
+  offset: string;
+  event: DebeziumChangeEvent<Post> | null;
+}
+
+export interface PostStreamFilter {
+  author?: string;
+  postIds?: Set<number>;
+}
+
+// Express の Response のうちストリームに使う部分
+export interface StreamWriter {
+  // 送信バッファがいっぱいなら false
+  write(chunk: string): unknown;
+  end(): unknown;
+  once(event: "drain", listener: () => void): unknown;
+}
+
+interface StreamClient {
+  writer: StreamWriter;
+  filter: PostStreamFilter;
+  // パーティションごとに、このクライアントが受け取った（絞り込みで送らなかった分も含む）最後のオフセット
+  position: Map<number, bigint>;
+  // write が false を返してから drain までに書いた回数（詰まっていなければ null）
+  pendingWrites: number | null;
+}
+
+interface BufferedChange {
+  partition: number;
+  offset: bigint;
+  type: string;
+  post: Partial<Post> | null;
+  data: string;
+}
+
+/**
+ * Kafka から読み直す位置を変える（partition の offset から読む）
+ */
+export type StreamSeeker = (partition: number, offset: string) => void;
+
+/**
+ * Last-Event-ID の形が不正（API では 400 にする）
+ */
+export class InvalidLastEventIdError extends Error {
+  constructor(readonly lastEventId: string) {
+    super(`Invalid Last-Event-ID: ${lastEventId}`);
+    this.name = "InvalidLastEventIdError";
+  }
+}
+
+/**
+ * ストリーム上の位置（パーティション → 最後に読んだオフセット）を id にする
+ */
+export function encodePosition(position: Map<number, bigint>): string {
+  return [...position.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([partition, offset]) => `${partition}:${offset}`)
+    .join(",");
+}
+
+export function decodePosition(id: string): Map<number, bigint> {
+  if (!/^\d+:\d+(,\d+:\d+)*$/.test(id)) {
+    throw new InvalidLastEventIdError(id);
+  }
+  return new Map(
+    id.split(",").map((pair) => {
+      const [partition, offset] = pair.split(":");
+      return [Number(partition), BigInt(offset)];
+    }),
+  );
+}
+
+/**
+ * 変更イベントを接続中のクライアントに配る
+ */
+export class PostStreamHub {
+  private clients = new Set<StreamClient>();
+  private buffer: BufferedChange[] = [];
+  // パーティションごとに、読んだ一番先のオフセット
+  private position = new Map<number, bigint>();
+  // パーティションごとに、最初に読んだオフセットの1つ前（それより前はこのプロセスでは読んでいない）
+  private start = new Map<number, bigint>();
+  // パーティションごとに、これ以前（これを含む）のイベントは手元に無い
+  private floor = new Map<number, bigint>();
+  // パーティションごとに、Kafka から次に届くオフセット（リバランスの後にここへ戻す）
+  private next = new Map<number, bigint>();
+  // seek して、まだ最初のメッセージが届いていないオフセット
+  private sought = new Map<number, bigint>();
+  private seeker: StreamSeeker | null = null;
+  private heartbeat: NodeJS.Timeout;
+  private connectionsGauge: Gauge;
+  private droppedCounter: Counter;
+
+  constructor(private options: PostStreamOptions) {
+    const registry = options.registry ?? defaultRegistry;
+    this.connectionsGauge = registry.gauge(
+      "post_stream_connections",
+      "Open GET /posts/stream connections",
+    );
+    this.connectionsGauge.set({}, 0);
+    this.droppedCounter = registry.counter(
+      "post_stream_slow_clients_dropped_total",
+      "GET /posts/stream connections closed because the client could not keep up",
+    );
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        this.write(client, ": heartbeat\n\n");
+      }
+    }, options.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  get connections(): number {
+    return this.clients.size;
+  }
+
+  get isFull(): boolean {
+    return this.clients.size >= this.options.maxConnections;
+  }
+
+  /**
+   * 手元に無い範囲を Kafka から読み直す方法（startPostStreamConsumer が設定する）
+   */
+  setSeeker(seeker: StreamSeeker) {
+    this.seeker = seeker;
+  }
+
+  /**
+   * パーティションごとに Kafka から次に読むオフセット
+   */
+  nextOffsets(): Map<number, string> {
+    return new Map(
+      [...this.next].map(([partition, offset]) => [
+        partition,
+        offset.toString(),
+      ]),
+    );
+  }
+
+  /**
+   * クライアントをつなぐ
+   * lastEventId があれば、その後のイベントを送り直してからライブのイベントを流す
+   * 接続数が上限なら null
+   */
+  connect(
+    writer: StreamWriter,
+    filter: PostStreamFilter,
+    lastEventId?: string,
+  ): StreamClient | null {
+    if (this.isFull) return null;
+
+    const client: StreamClient = {
+      writer,
+      filter,
+      position: new Map(this.position),
+      pendingWrites: null,
+    };
+    this.clients.add(client);
+    this.connectionsGauge.set({}, this.clients.size);
+
+    if (lastEventId) {
+      this.resume(client, decodePosition(lastEventId));
+    }
+    return client;
+  }
+
+  disconnect(client: StreamClient) {
+    if (this.clients.delete(client)) {
+      this.connectionsGauge.set({}, this.clients.size);
+    }
+  }
+
+  /**
+   * Kafka から読んだ変更を配る（トゥームストーンとスナップショットは配らず、位置だけ進める）
+   * 読み直し（seek）で届いた分は、まだ受け取っていないクライアントにだけ送る
+   */
+  publish({ partition, offset, event }: PostChange) {
+    const current = BigInt(offset);
+    const sought = this.sought.get(partition);
+    this.sought.delete(partition);
+    this.next.set(partition, current + 1n);
+    if (!this.start.has(partition)) {
+      // 最初に読んだイベントより前は手元に無い
+      this.start.set(partition, current - 1n);
+      this.floor.set(partition, current - 1n);
+    }
+
+    const change = toBufferedChange(partition, current, event);
+    const latest = this.position.get(partition);
+    if (latest === undefined || current > latest) {
+      this.position.set(partition, current);
+      if (change) this.remember(change);
+    }
+
+    for (const client of this.clients) {
+      const seen = client.position.get(partition);
+      if (seen !== undefined && current <= seen) continue;
+      client.position.set(partition, current);
+      // seek した位置から先が保持期間を過ぎて消えていた
+      if (sought !== undefined && seen !== undefined && seen + 1n < current) {
+        this.write(
+          client,
+          `id: ${encodePosition(client.position)}\nevent: resync\ndata: {}\n\n`,
+        );
+      }
+      if (change) this.send(client, change);
+    }
+  }
+
+  /**
+   * すべての接続を閉じる（停止時）
+   */
+  close() {
+    clearInterval(this.heartbeat);
+    for (const client of this.clients) {
+      client.writer.end();
+    }
+    this.clients.clear();
+    this.connectionsGauge.set({}, 0);
+  }
+
+  /**
+   * Last-Event-ID の位置から送り直す
+   * 手元に残っている範囲はバッファから、残っていないパーティションは Kafka を seek して読み直す
+   */
+  private resume(client: StreamClient, resumeFrom: Map<number, bigint>) {
+    // Last-Event-ID に無いパーティションからは、まだ何も受け取っていない
+    client.position = new Map(this.start);
+    for (const [partition, offset] of resumeFrom) {
+      client.position.set(partition, offset);
+    }
+
+    const buffered = new Set<number>();
+    for (const [partition, seen] of client.position) {
+      const latest = this.position.get(partition);
+      if (latest !== undefined && seen >= latest) continue;
+      if (latest !== undefined && seen >= this.floor.get(partition)!) {
+        buffered.add(partition);
+      } else {
+        // 起動してからまだ読んでいないパーティションも、Kafka から読み直す
+        this.rewind(partition, seen + 1n);
+      }
+    }
+
+    for (const change of this.buffer) {
+      if (!buffered.has(change.partition)) continue;
+      if (change.offset <= client.position.get(change.partition)!) continue;
+      client.position.set(change.partition, change.offset);
+      this.send(client, change);
+    }
+  }
+
+  // offset から Kafka を読み直す（もっと前から読み直している途中なら何もしない）
+  private rewind(partition: number, offset: bigint) {
+    const next = this.next.get(partition);
+    if (next !== undefined && next <= offset) return;
+    this.next.set(partition, offset);
+    this.sought.set(partition, offset);
+    this.seeker?.(partition, offset.toString());
+  }
+
+  private remember(change: BufferedChange) {
+    this.buffer.push(change);
+    while (this.buffer.length > this.options.bufferSize) {
+      const evicted = this.buffer.shift()!;
+      this.floor.set(evicted.partition, evicted.offset);
+    }
+  }
+
+  private send(client: StreamClient, change: BufferedChange) {
+    if (!matchesFilter(client.filter, change.post)) return;
+    this.write(
+      client,
+      `id: ${encodePosition(client.position)}\nevent: ${change.type}\ndata: ${change.data}\n\n`,
+    );
+  }
+
+  // 詰まったまま書き続けるクライアントは切断する（req の close で disconnect も呼ばれる）
+  private write(client: StreamClient, chunk: string) {
+    if (!this.clients.has(client)) return;
+    if (client.pendingWrites !== null) {
+      client.pendingWrites += 1;
+      if (client.pendingWrites > this.options.maxPendingWrites) {
+        console.warn(
+          `⚠️  Dropped a slow stream client (${client.pendingWrites - 1} write(s) waiting for drain)`,
+        );
+        this.droppedCounter.inc();
+        this.disconnect(client);
+        client.writer.end();
+        return;
+      }
+    }
+    if (client.writer.write(chunk) === false && client.pendingWrites === null) {
+      client.pendingWrites = 0;
+      client.writer.once("drain", () => {
+        client.pendingWrites = null;
+      });
+    }
+  }
+}
+
+// 配る変更（スナップショットの読み込みと、イベントの無いメッセージは配らない）
+function toBufferedChange(
+  partition: number,
+  offset: bigint,
+  event: DebeziumChangeEvent<Post> | null,
+): BufferedChange | null {
+  if (!event) return null;
+  const { op, before, after } = event.payload;
+  if (op === "r") return null;
+
+  const type =
+    op === "c"
+      ? "post.created"
+      : op === "u"
+        ? "post.updated"
+        : op === "d"
+          ? "post.deleted"
+          : "post.truncated";
+  const post = op === "d" ? before : op === "t" ? null : after;
+  return {
+    partition,
+    offset,
+    type,
+    post,
+    data: JSON.stringify({ op, post, ts_ms: event.payload.source?.ts_ms }),
+  };
+}
+
+function matchesFilter(
+  filter: PostStreamFilter,
+  post: Partial<Post> | null,
+): boolean {
+  // TRUNCATE はすべてのクライアントに送る
+  if (!post) return true;
+  if (filter.postIds && !filter.postIds.has(Number(post.id))) return false;
+  if (filter.author && post.author && post.author !== filter.author) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * クエリから絞り込みを作る（不正ならメッセージを返す）
+ */
+export function parseStreamFilter(query: {
+  author?: unknown;
+  post_id?: unknown;
+}): PostStreamFilter | { error: string } {
+  const filter: PostStreamFilter = {};
+  if (typeof query.author === "string" && query.author) {
+    filter.author = query.author;
+  }
+  if (query.post_id !== undefined) {
+    const ids = String(query.post_id).split(",");
+    if (!ids.every((id) => /^\d+$/.test(id))) {
+      return { error: "post_id must be a comma-separated list of post IDs" };
+    }
+    filter.postIds = new Set(ids.map(Number));
+  }
+  return filter;
+}
+
+/**
+ * GET /posts/stream のハンドラー
+ * EventSource は最初の接続でヘッダーを付けられないので、?last_event_id= でも再開できる
+ */
+export function postStreamHandler(hub: PostStreamHub): RequestHandler {
+  return (req, res) => {
+    const filter = parseStreamFilter(req.query);
+    if ("error" in filter) {
+      return res.status(400).json({
+        error: filter.error,
+      });
+    }
+    if (hub.isFull) {
+      return res.status(503).set("Retry-After", "5").json({
+        error: "Too many stream connections",
+      });
+    }
+
+    const lastEventId =
+      req.get("Last-Event-ID") ??
+      (typeof req.query.last_event_id === "string"
+        ? req.query.last_event_id
+        : undefined);
+    try {
+      if (lastEventId) decodePosition(lastEventId);
+    } catch (error) {
+      return res.status(400).json({
+        error: (error as Error).message,
+      });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // nginx などのバッファリングを止める
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 3000\n\n");
+
+    const client = hub.connect(res, filter, lastEventId);
+    console.log(`📡 Stream client connected (${hub.connections} open)`);
+    req.on("close", () => {
+      if (client) hub.disconnect(client);
+      console.log(`📴 Stream client disconnected (${hub.connections} open)`);
+    });
+  };
+}
+
+/**
+ * すべてのメンバーにすべてのパーティションを割り当てる
+ * kafkajs には assign（グループを使わない読み込み）が無いので、グループの割り当てを assign の代わりにする。
+ * API を何台並べても、それぞれがすべてのパーティションを読む
+ */
+const assignAllPartitions: PartitionAssigner = ({ cluster }) => ({
+  name: "PostStreamAllPartitions",
+  version: 0,
+  async assign({ members, topics }) {
+    const assignment = Object.fromEntries(
+      topics.map((topic) => [
+        topic,
+        cluster
+          .findTopicPartitionMetadata(topic)
+          .map(({ partitionId }) => partitionId),
+      ]),
+    );
+    return members.map(({ memberId }) => ({
+      memberId,
+      memberAssignment: AssignerProtocol.MemberAssignment.encode({
+        version: this.version,
+        assignment,
+        userData: Buffer.alloc(0),
+      }),
+    }));
+  },
+  protocol({ topics }) {
+    return {
+      name: this.name,
+      metadata: AssignerProtocol.MemberMetadata.encode({
+        version: this.version,
+        topics,
+        userData: Buffer.alloc(0),
+      }),
+    };
+  },
+});
+
+/**
+ * posts トピックのすべてのパーティションを読み、変更を hub に流す
+ * 位置はイベントの id としてクライアントが持つので、オフセットはコミットせず、起動時は末尾から読む。
+ * 手元に無い位置からの再開は hub が seek で読み直させる
+ * @returns 停止する関数
+ */
+export async function startPostStreamConsumer(
+  kafka: Kafka,
+  topic: string,
+  hub: PostStreamHub,
+): Promise<() => Promise<void>> {
+  const consumer = kafka.consumer({
+    groupId: POST_STREAM_GROUP_ID,
+    partitionAssigners: [assignAllPartitions],
+  });
+  await consumer.connect();
+  await consumer.subscribe({ topic, fromBeginning: false });
+
+  hub.setSeeker((partition, offset) =>
+    consumer.seek({ topic, partition, offset }),
+  );
+  // コミットしないので、リバランスの後は末尾から読み始めてしまう。読んでいた位置に戻す
+  consumer.on(consumer.events.GROUP_JOIN, () => {
+    for (const [partition, offset] of hub.nextOffsets()) {
+      consumer.seek({ topic, partition, offset });
+    }
+  });
+
+  await consumer.run({
+    autoCommit: false,
+    eachMessage: async ({ partition, message }) => {
+      let event: DebeziumChangeEvent<Post> | null = null;
+      if (message.value) {
+        try {
+          event = decodeChangeEvent(message.value) as DebeziumChangeEvent<Post>;
+        } catch (error) {
+          console.warn(
+            `⚠️  Skipped undecodable event for the stream (offset: ${message.offset}): ${(error as Error).message}`,
+          );
+        }
+      }
+      hub.publish({ partition, offset: message.offset, event });
+    },
+  });
+  console.log(`📡 Streaming post changes from ${topic}`);
+
+  return () => consumer.disconnect();
+}
@@ -2,37 +2,133 @@
  * API Server
  * エンドポイント:
  * - POST /posts - 新規投稿作成（PostgreSQLに書き込み）
+ * - GET /posts/stream - 投稿の変更の Server-Sent Events（Kafka）
  * - GET /posts/:id - 投稿取得（Redisキャッシュ → PostgreSQL）
  * - GET /search - 全文検索（Elasticsearch）
  * - GET /posts/by-author/:author - 著者別投稿一覧
+ * - POST /posts/:id/comments - コメント投稿（PostgreSQLに書き込み）
+ * - GET /posts/:id/comments - 投稿のコメント一覧（Redis → PostgreSQL）
+ * - GET /authors - 投稿数の多い順の著者の集計（Redis → PostgreSQL）
+ * - GET /authors/:author/stats - 著者の集計（Redis → PostgreSQL）
+ * - POST /users/:user/follows - フォロー（PostgreSQLに書き込み）
+ * - DELETE /users/:user/follows/:followee - フォロー解除
+ * - GET /users/:user/timeline - ホームタイムライン（Redis、カーソルでページング）
+ * - POST/GET/PUT/DELETE /webhooks - Webhook の購読の登録・一覧・更新・削除（PostgreSQL）
+ * - GET /webhooks/:id/deliveries - Webhook の配信の記録
+ * - GET /admin/consistency - PostgreSQL と派生ストアの突き合わせ（サンプリング）
+ * - GET /metrics - Prometheus のメトリクス
+ *
+ * 投稿・コメント・フォローの書き込みは consistency_token を返す。
+ * 派生ストアの読み込みに ?after=<consistency_token> を付けると、その書き込みが反映されるまで待つ
+ * （待ちきれなければ X-Consistency: stale で返す）。
  */
 
 import express from "express";
-import { Pool } from "pg";
+import { Pool, types } from "pg";
 import Redis from "ioredis";
 import { Client } from "@elastic/elasticsearch";
-import type { Post } from "../types/index.js";
+import type { AuthorStats, Comment, Follow, Post } from "../types/index.js";
+import { fillIfAbsent } from "../lib/versioned-cache.js";
+import { getConfig } from "../lib/config.js";
+import { onShutdownSignal, withDeadline } from "../lib/shutdown.js";
+import { defaultRegistry } from "../lib/metrics.js";
+import { pgTimestampToIso } from "../lib/column-types.js";
+import {
+  AUTHOR_RANKING_KEY,
+  authorStatsKey,
+  toAuthorStats,
+} from "../consumers/author-stats-scripts.js";
+import { InvalidCursorError, readTimeline } from "../lib/timeline.js";
+import {
+  WEBHOOK_EVENT_TYPES,
+  generateSecret,
+  isWebhookEventType,
+  type WebhookDelivery,
+  type WebhookEventType,
+  type WebhookSubscription,
+} from "../lib/webhooks.js";
+import { createKafkaClient } from "../lib/change-event-consumer.js";
+import {
+  checkSampledPosts,
+  createPgPostSource,
+  hasDrift,
+} from "../lib/consistency-check.js";
+import { createCacheConsistencyStore } from "../consumers/cache-updater-handlers.js";
+import { createSearchConsistencyStore } from "../consumers/search-indexer-handlers.js";
+import { httpMetrics, metricsHandler } from "./http-metrics.js";
+import { consistentRead, queryWithConsistencyToken } from "./consistency.js";
+import {
+  PostStreamHub,
+  postStreamHandler,
+  startPostStreamConsumer,
+} from "./post-stream.js";
+
+const config = getConfig();
 
 const app = express();
+app.use(httpMetrics());
 app.use(express.json());
 
+// GET /posts/:id のキャッシュヒット率
+const cacheLookups = defaultRegistry.counter(
+  "post_cache_lookups_total",
+  "Redis lookups for GET /posts/:id, by result (hit or miss)",
+);
+
 // PostgreSQL接続
-const pg = new Pool({
-  host: "localhost",
-  port: 5433,
-  database: "blog_db",
-  user: "blog_user",
-  password: "blog_pass",
-});
+// TIMESTAMP は Date ではなく、Consumer が Redis・Elasticsearch に書くのと同じ ISO-8601 の文字列で読む
+types.setTypeParser(types.builtins.TIMESTAMP, pgTimestampToIso);
+const pg = new Pool(config.postgres);
 
 // Redis接続
-const redis = new Redis({
-  host: "localhost",
-  port: 6380,
-});
+const redis = new Redis(config.redis);
 
 // Elasticsearch接続
-const es = new Client({ node: "http://localhost:9200" });
+const es = new Client({ node: config.elasticsearch.node });
+
+// ?after= で、それぞれの Consumer が読むテーブルの書き込みを反映するまで待つ
+const afterCachedPosts = consistentRead(
+  redis,
+  "cache-updater",
+  ["public.posts"],
+  config.consistency,
+);
+const afterCachedComments = consistentRead(
+  redis,
+  "cache-updater",
+  ["public.comments"],
+  config.consistency,
+);
+const afterSearchIndexer = consistentRead(
+  redis,
+  "search-indexer",
+  ["public.posts"],
+  config.consistency,
+);
+const afterAuthorStats = consistentRead(
+  redis,
+  "author-stats",
+  ["public.posts"],
+  config.consistency,
+);
+const afterTimeline = consistentRead(
+  redis,
+  "timeline",
+  ["public.posts", "public.follows"],
+  config.consistency,
+);
+
+// 投稿の変更のストリーム（Kafka → SSE）
+const postStream = new PostStreamHub(config.postStream);
+const stopPostStreamConsumer = startPostStreamConsumer(
+  createKafkaClient("api-post-stream"),
+  config.kafka.postsTopic,
+  postStream,
+).catch((error) => {
+  // Kafka に繋がらなくても API の他のエンドポイントは使える
+  console.error("❌ Failed to start the post stream consumer:", error);
+  return null;
+});
 
 // ヘルスチェック
 app.get("/health", async (req, res) => {
@@ -57,6 +153,9 @@ app.get("/health", async (req, res) => {
   }
 });
 
+// Prometheus のメトリクス
+app.get("/metrics", metricsHandler());
+
 // 新規投稿作成（PostgreSQLに書き込み）
 app.post("/posts", async (req, res) => {
   const { title, content, author } = req.body;
@@ -70,18 +169,21 @@ app.post("/posts", async (req, res) => {
   try {
     console.log(`📝 Creating post: "${title}" by ${author}`);
 
-    const result = await pg.query<Post>(
+    const { rows, consistencyToken } = await queryWithConsistencyToken<Post>(
+      pg,
       "INSERT INTO posts (title, content, author) VALUES ($1, $2, $3) RETURNING *",
       [title, content, author],
+      ["public.posts"],
     );
 
-    const post = result.rows[0];
+    const post = rows[0];
 
     console.log(`✅ Post created with ID: ${post.id}`);
     console.log(`⏳ Waiting for CDC to propagate changes to Kafka...`);
 
     res.status(201).json({
       post,
+      consistency_token: consistencyToken,
       note: "Changes will be propagated to Elasticsearch and Redis via Kafka",
     });
   } catch (error) {
@@ -93,8 +195,12 @@ app.post("/posts", async (req, res) => {
   }
 });
 
+// 投稿の変更のストリーム（Server-Sent Events、?author= / ?post_id= で絞り込み）
+// /posts/:id より先に登録する
+app.get("/posts/stream", postStreamHandler(postStream));
+
 // 投稿取得（キャッシュ優先）
-app.get("/posts/:id", async (req, res) => {
+app.get("/posts/:id", afterCachedPosts, async (req, res) => {
   const { id } = req.params;
 
   try {
@@ -104,6 +210,7 @@ app.get("/posts/:id", async (req, res) => {
 
     if (cached) {
       console.log(`🎯 Cache HIT for post ${id}`);
+      cacheLookups.inc({ result: "hit" });
       const post = JSON.parse(cached);
       return res.json({
         post,
@@ -112,6 +219,7 @@ app.get("/posts/:id", async (req, res) => {
     }
 
     console.log(`💾 Cache MISS for post ${id}, querying database...`);
+    cacheLookups.inc({ result: "miss" });
 
     // 2. PostgreSQLから取得
     const result = await pg.query<Post>("SELECT * FROM posts WHERE id = $1", [
@@ -129,8 +237,17 @@ app.get("/posts/:id", async (req, res) => {
 
     // 3. キャッシュに保存（TTL: 60秒）
     // 注意: 通常はConsumerがキャッシュを更新するが、ここでも念のため保存
-    await redis.setex(`post:${id}`, 60, JSON.stringify(post));
-    console.log(`💾 Cached post ${id}`);
+    // Consumerが書き込み済み、または削除済み（バージョンのキーがある）なら上書きしない
+    // 読んだ行のバージョンは分からないので、Consumer の次の書き込みで必ず上書きされるように書く
+    const written = await fillIfAbsent(
+      redis,
+      `post:${id}`,
+      JSON.stringify(post),
+      60,
+    );
+    if (written) {
+      console.log(`💾 Cached post ${id}`);
+    }
 
     res.json({
       post,
@@ -153,7 +270,8 @@ app.put("/posts/:id", async (req, res) => {
   try {
     console.log(`✏️  Updating post ${id}...`);
 
-    const result = await pg.query<Post>(
+    const { rows, consistencyToken } = await queryWithConsistencyToken<Post>(
+      pg,
       `UPDATE posts 
        SET title = COALESCE($1, title), 
            content = COALESCE($2, content),
@@ -161,19 +279,21 @@ app.put("/posts/:id", async (req, res) => {
        WHERE id = $3
        RETURNING *`,
       [title, content, id],
+      ["public.posts"],
     );
 
-    if (result.rows.length === 0) {
+    if (rows.length === 0) {
       return res.status(404).json({
         error: "Post not found",
       });
     }
 
-    const post = result.rows[0];
+    const post = rows[0];
     console.log(`✅ Post ${id} updated`);
 
     res.json({
       post,
+      consistency_token: consistencyToken,
       note: "Changes will be propagated via Kafka",
     });
   } catch (error) {
@@ -192,12 +312,14 @@ app.delete("/posts/:id", async (req, res) => {
   try {
     console.log(`🗑️  Deleting post ${id}...`);
 
-    const result = await pg.query(
+    const { rows, consistencyToken } = await queryWithConsistencyToken(
+      pg,
       "DELETE FROM posts WHERE id = $1 RETURNING id",
       [id],
+      ["public.posts"],
     );
 
-    if (result.rows.length === 0) {
+    if (rows.length === 0) {
       return res.status(404).json({
         error: "Post not found",
       });
@@ -207,6 +329,7 @@ app.delete("/posts/:id", async (req, res) => {
 
     res.json({
       message: `Post ${id} deleted`,
+      consistency_token: consistencyToken,
       note: "Deletion will be propagated via Kafka",
     });
   } catch (error) {
@@ -219,7 +342,7 @@ app.delete("/posts/:id", async (req, res) => {
 });
 
 // 全文検索（Elasticsearch）
-app.get("/search", async (req, res) => {
+app.get("/search", afterSearchIndexer, async (req, res) => {
   const { q } = req.query;
 
   if (!q || typeof q !== "string") {
@@ -232,7 +355,7 @@ app.get("/search", async (req, res) => {
     console.log(`🔍 Searching for: "${q}"`);
 
     const result = await es.search({
-      index: "posts",
+      index: config.elasticsearch.index,
       body: {
         query: {
           multi_match: {
@@ -273,7 +396,7 @@ app.get("/search", async (req, res) => {
 });
 
 // 著者別投稿一覧（Redis Sorted Set活用）
-app.get("/posts/by-author/:author", async (req, res) => {
+app.get("/posts/by-author/:author", afterCachedPosts, async (req, res) => {
   const { author } = req.params;
 
   try {
@@ -295,12 +418,12 @@ app.get("/posts/by-author/:author", async (req, res) => {
       });
     }
 
-    // 各投稿をキャッシュから取得
-    const posts = await Promise.all(
-      postIds.map(async (id) => {
-        const cached = await redis.get(`post:${id}`);
-        return cached ? JSON.parse(cached) : null;
-      }),
+    // 各投稿をキャッシュから取得（パイプラインで1往復にまとめる）
+    const pipeline = redis.pipeline();
+    postIds.forEach((id) => pipeline.get(`post:${id}`));
+    const results = (await pipeline.exec()) ?? [];
+    const posts = results.map(([error, cached]) =>
+      !error && typeof cached === "string" ? JSON.parse(cached) : null,
     );
 
     console.log(`✅ Found ${posts.length} posts by ${author}`);
@@ -318,24 +441,660 @@ app.get("/posts/by-author/:author", async (req, res) => {
   }
 });
 
-const PORT = 3000;
+// コメント投稿（PostgreSQLに書き込み）
+app.post("/posts/:id/comments", async (req, res) => {
+  const { id } = req.params;
+  const { author, body } = req.body;
+
+  if (!author || !body) {
+    return res.status(400).json({
+      error: "author and body are required",
+    });
+  }
+
+  try {
+    console.log(`💬 Creating comment on post ${id} by ${author}`);
+
+    const { rows, consistencyToken } = await queryWithConsistencyToken<Comment>(
+      pg,
+      "INSERT INTO comments (post_id, author, body) VALUES ($1, $2, $3) RETURNING *",
+      [id, author, body],
+      ["public.comments"],
+    );
+
+    const comment = rows[0];
+    console.log(`✅ Comment created with ID: ${comment.id}`);
+
+    res.status(201).json({
+      comment,
+      consistency_token: consistencyToken,
+      note: "Changes will be propagated to Redis via Kafka",
+    });
+  } catch (error) {
+    // 外部キー違反（投稿が無い）
+    if ((error as { code?: string }).code === "23503") {
+      return res.status(404).json({
+        error: "Post not found",
+      });
+    }
+    console.error(`❌ Error creating comment on post ${id}:`, error);
+    res.status(500).json({
+      error: "Failed to create comment",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// 投稿のコメント一覧（Redis Sorted Set活用、古い順）
+app.get("/posts/:id/comments", afterCachedComments, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    console.log(`💬 Fetching comments on post ${id}`);
+
+    const commentIds = await redis.zrange(`post:${id}:comments`, 0, -1);
+
+    if (commentIds.length === 0) {
+      // キャッシュミス → PostgreSQLにフォールバック
+      console.log(`💾 Cache miss, querying database...`);
+      const result = await pg.query<Comment>(
+        "SELECT * FROM comments WHERE post_id = $1 ORDER BY created_at, id",
+        [id],
+      );
+      return res.json({
+        comments: result.rows,
+        source: "database",
+      });
+    }
+
+    const pipeline = redis.pipeline();
+    commentIds.forEach((commentId) => pipeline.get(`comment:${commentId}`));
+    const results = (await pipeline.exec()) ?? [];
+    const comments = results.map(([error, cached]) =>
+      !error && typeof cached === "string" ? JSON.parse(cached) : null,
+    );
+
+    console.log(`✅ Found ${comments.length} comments on post ${id}`);
+
+    res.json({
+      comments: comments.filter((c) => c !== null),
+      source: "cache",
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching comments on post ${id}:`, error);
+    res.status(500).json({
+      error: "Failed to fetch comments",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// PostgreSQL で著者の集計を求める（Author Stats Consumer の集計が無い時）
+const AUTHOR_STATS_SQL = `
+  SELECT author,
+         COUNT(*)::int AS post_count,
+         MIN(created_at) AS first_post_at,
+         MAX(created_at) AS last_post_at,
+         COALESCE(SUM(length(content)), 0)::int AS total_content_length
+  FROM posts`;
+
+// GET /authors の件数の上限
+const MAX_AUTHORS = 100;
+
+// 著者の集計（Author Stats Consumer が作る Hash）
+app.get("/authors/:author/stats", afterAuthorStats, async (req, res) => {
+  const { author } = req.params;
+
+  try {
+    console.log(`📊 Fetching stats of author: ${author}`);
+
+    const stats = toAuthorStats(
+      author,
+      await redis.hgetall(authorStatsKey(author)),
+    );
+
+    if (stats) {
+      return res.json({ stats, source: "cache" });
+    }
+
+    // 集計が無い → PostgreSQLにフォールバック（Consumer が追いついていない場合など）
+    console.log(`💾 Stats miss, querying database...`);
+    const result = await pg.query<AuthorStats>(
+      `${AUTHOR_STATS_SQL} WHERE author = $1 GROUP BY author`,
+      [author],
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: "Author not found",
+      });
+    }
+
+    res.json({
+      stats: result.rows[0],
+      source: "database",
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching stats of ${author}:`, error);
+    res.status(500).json({
+      error: "Failed to fetch author stats",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// 投稿数の多い順の著者の集計（?limit= で件数、最大100）
+app.get("/authors", afterAuthorStats, async (req, res) => {
+  const limit = Math.min(Number(req.query.limit) || 20, MAX_AUTHORS);
+
+  try {
+    console.log(`📊 Fetching top ${limit} authors`);
+
+    const authors = await redis.zrevrange(AUTHOR_RANKING_KEY, 0, limit - 1);
+
+    if (authors.length === 0) {
+      console.log(`💾 Stats miss, querying database...`);
+      const result = await pg.query<AuthorStats>(
+        `${AUTHOR_STATS_SQL} GROUP BY author
+         ORDER BY post_count DESC, author
+         LIMIT $1`,
+        [limit],
+      );
+      return res.json({
+        authors: result.rows,
+        source: "database",
+      });
+    }
+
+    const pipeline = redis.pipeline();
+    authors.forEach((author) => pipeline.hgetall(authorStatsKey(author)));
+    const results = (await pipeline.exec()) ?? [];
+    const stats = results.map(([error, hash], i) =>
+      error ? null : toAuthorStats(authors[i], hash as Record<string, string>),
+    );
+
+    res.json({
+      authors: stats.filter((s) => s !== null),
+      source: "cache",
+    });
+  } catch (error) {
+    console.error("❌ Error fetching authors:", error);
+    res.status(500).json({
+      error: "Failed to fetch authors",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// フォロー（PostgreSQLに書き込み）
+app.post("/users/:user/follows", async (req, res) => {
+  const { user } = req.params;
+  const { followee } = req.body;
+
+  if (!followee || followee === user) {
+    return res.status(400).json({
+      error: "followee is required and must not be the user",
+    });
+  }
+
+  try {
+    console.log(`🤝 ${user} follows ${followee}`);
+
+    // 既にフォローしていれば何もしない（RETURNING は空になる）
+    const { rows, consistencyToken } = await queryWithConsistencyToken<Follow>(
+      pg,
+      `INSERT INTO follows (follower, followee) VALUES ($1, $2)
+       ON CONFLICT (follower, followee) DO NOTHING
+       RETURNING *`,
+      [user, followee],
+      ["public.follows"],
+    );
+
+    res.status(rows.length > 0 ? 201 : 200).json({
+      follow: rows[0] ?? { follower: user, followee },
+      consistency_token: consistencyToken,
+      note: "The timeline will be updated via Kafka",
+    });
+  } catch (error) {
+    console.error(`❌ Error following ${followee}:`, error);
+    res.status(500).json({
+      error: "Failed to follow",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// フォロー解除
+app.delete("/users/:user/follows/:followee", async (req, res) => {
+  const { user, followee } = req.params;
+
+  try {
+    console.log(`👋 ${user} unfollows ${followee}`);
+
+    const { rows, consistencyToken } = await queryWithConsistencyToken(
+      pg,
+      "DELETE FROM follows WHERE follower = $1 AND followee = $2 RETURNING id",
+      [user, followee],
+      ["public.follows"],
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({
+        error: "Follow not found",
+      });
+    }
+
+    res.json({
+      message: `${user} unfollowed ${followee}`,
+      consistency_token: consistencyToken,
+      note: "The timeline will be updated via Kafka",
+    });
+  } catch (error) {
+    console.error(`❌ Error unfollowing ${followee}:`, error);
+    res.status(500).json({
+      error: "Failed to unfollow",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// GET /users/:user/timeline の1ページの件数の上限
+const MAX_TIMELINE_PAGE = 100;
+
+// ホームタイムライン（?cursor= で続きを読む、?limit= で件数、最大100）
+app.get("/users/:user/timeline", afterTimeline, async (req, res) => {
+  const { user } = req.params;
+  const cursor = typeof req.query.cursor === "string" ? req.query.cursor : "";
+  const limit = Math.min(Number(req.query.limit) || 20, MAX_TIMELINE_PAGE);
+
+  try {
+    console.log(`🏠 Fetching timeline of ${user}`);
+
+    const page = await readTimeline(redis, user, { cursor, limit });
+    const ids = page.entries.map((entry) => entry.postId);
+
+    // 投稿の本体はキャッシュから読み、無いものだけ PostgreSQL から読む
+    const pipeline = redis.pipeline();
+    ids.forEach((id) => pipeline.get(`post:${id}`));
+    const results = (await pipeline.exec()) ?? [];
+    const posts = new Map<number, Post>();
+    results.forEach(([error, cached], i) => {
+      if (!error && typeof cached === "string") {
+        posts.set(ids[i], JSON.parse(cached));
+      }
+    });
+
+    const missing = ids.filter((id) => !posts.has(id));
+    if (missing.length > 0) {
+      const result = await pg.query<Post>(
+        "SELECT * FROM posts WHERE id = ANY($1::int[])",
+        [missing],
+      );
+      result.rows.forEach((post) => posts.set(post.id, post));
+    }
+
+    console.log(`✅ Found ${ids.length} posts in the timeline of ${user}`);
+
+    res.json({
+      // 削除が反映される前の投稿は PostgreSQL に無いので除く
+      posts: ids.flatMap((id) => posts.get(id) ?? []),
+      next_cursor: page.nextCursor,
+      source: "timeline",
+    });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    console.error(`❌ Error fetching timeline of ${user}:`, error);
+    res.status(500).json({
+      error: "Failed to fetch timeline",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// 購読を返す時の列（secret は登録時の応答でしか返さない）
+const WEBHOOK_COLUMNS =
+  "id, url, event_types, active, consecutive_failures, disabled_at, created_at, updated_at";
+
+// GET /webhooks/:id/deliveries の件数の上限
+const MAX_WEBHOOK_DELIVERIES = 200;
+
+/**
+ * 購読の url / event_types を検証する（partial なら省略を許す）
+ * 問題があればメッセージを返す
+ */
+function validateWebhookInput(
+  body: { url?: unknown; event_types?: unknown },
+  partial: boolean,
+): string | null {
+  const { url, event_types } = body;
+  if (url !== undefined || !partial) {
+    let protocol = "";
+    try {
+      protocol = new URL(String(url)).protocol;
+    } catch {
+      // 下で同じエラーにする
+    }
+    if (protocol !== "http:" && protocol !== "https:") {
+      return "url must be an http(s) URL";
+    }
+  }
+  if (
+    event_types !== undefined &&
+    (!Array.isArray(event_types) ||
+      event_types.length === 0 ||
+      !event_types.every(isWebhookEventType))
+  ) {
+    return `event_types must be a non-empty array of ${WEBHOOK_EVENT_TYPES.join(", ")}`;
+  }
+  return null;
+}
+
+// Webhook の購読の登録（secret を省略すると作る。secret を返すのはこの応答だけ）
+app.post("/webhooks", async (req, res) => {
+  const { url, secret, event_types } = req.body;
+
+  const problem = validateWebhookInput(req.body, false);
+  if (problem) {
+    return res.status(400).json({
+      error: problem,
+    });
+  }
+
+  try {
+    console.log(`🪝 Registering webhook: ${url}`);
+
+    const result = await pg.query<WebhookSubscription>(
+      `INSERT INTO webhook_subscriptions (url, secret, event_types)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [
+        url,
+        typeof secret === "string" && secret ? secret : generateSecret(),
+        (event_types as WebhookEventType[] | undefined) ?? [
+          ...WEBHOOK_EVENT_TYPES,
+        ],
+      ],
+    );
+
+    const subscription = result.rows[0];
+    console.log(`✅ Webhook registered with ID: ${subscription.id}`);
+
+    res.status(201).json({
+      subscription,
+      note: "Keep the secret to verify X-Webhook-Signature; it will not be shown again",
+    });
+  } catch (error) {
+    console.error("❌ Error registering webhook:", error);
+    res.status(500).json({
+      error: "Failed to register webhook",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Webhook の購読の一覧
+app.get("/webhooks", async (req, res) => {
+  try {
+    const result = await pg.query(
+      `SELECT ${WEBHOOK_COLUMNS} FROM webhook_subscriptions ORDER BY id`,
+    );
+
+    res.json({
+      subscriptions: result.rows,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching webhooks:", error);
+    res.status(500).json({
+      error: "Failed to fetch webhooks",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Webhook の購読の取得
+app.get("/webhooks/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const result = await pg.query(
+      `SELECT ${WEBHOOK_COLUMNS} FROM webhook_subscriptions WHERE id = $1`,
+      [id],
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: "Webhook not found",
+      });
+    }
+
+    res.json({
+      subscription: result.rows[0],
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching webhook ${id}:`, error);
+    res.status(500).json({
+      error: "Failed to fetch webhook",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Webhook の購読の更新（active: true で無効にされた購読を戻すと、失敗の数も 0 に戻す）
+app.put("/webhooks/:id", async (req, res) => {
+  const { id } = req.params;
+  const { url, event_types, active } = req.body;
+
+  const problem = validateWebhookInput(req.body, true);
+  if (problem || (active !== undefined && typeof active !== "boolean")) {
+    return res.status(400).json({
+      error: problem ?? "active must be a boolean",
+    });
+  }
+
+  try {
+    console.log(`✏️  Updating webhook ${id}...`);
+
+    const result = await pg.query(
+      `UPDATE webhook_subscriptions
+       SET url = COALESCE($1, url),
+           event_types = COALESCE($2, event_types),
+           active = COALESCE($3, active),
+           consecutive_failures = CASE WHEN $3 THEN 0 ELSE consecutive_failures END,
+           disabled_at = CASE WHEN $3 THEN NULL ELSE disabled_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      [url ?? null, event_types ?? null, active ?? null, id],
+    );
 
-app.listen(PORT, () => {
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: "Webhook not found",
+      });
+    }
+
+    console.log(`✅ Webhook ${id} updated`);
+
+    res.json({
+      subscription: result.rows[0],
+    });
+  } catch (error) {
+    console.error(`❌ Error updating webhook ${id}:`, error);
+    res.status(500).json({
+      error: "Failed to update webhook",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Webhook の購読の削除（配信の記録も消える）
+app.delete("/webhooks/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    console.log(`🗑️  Deleting webhook ${id}...`);
+
+    const result = await pg.query(
+      "DELETE FROM webhook_subscriptions WHERE id = $1 RETURNING id",
+      [id],
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        error: "Webhook not found",
+      });
+    }
+
+    res.json({
+      message: `Webhook ${id} deleted`,
+    });
+  } catch (error) {
+    console.error(`❌ Error deleting webhook ${id}:`, error);
+    res.status(500).json({
+      error: "Failed to delete webhook",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Webhook の配信の記録（新しい順、?status=succeeded|failed で絞り込み、?limit= で件数、最大200）
+app.get("/webhooks/:id/deliveries", async (req, res) => {
+  const { id } = req.params;
+  const status = req.query.status;
+  const limit = Math.min(Number(req.query.limit) || 50, MAX_WEBHOOK_DELIVERIES);
+
+  if (status !== undefined && status !== "succeeded" && status !== "failed") {
+    return res.status(400).json({
+      error: "status must be succeeded or failed",
+    });
+  }
+
+  try {
+    const subscription = await pg.query(
+      "SELECT id FROM webhook_subscriptions WHERE id = $1",
+      [id],
+    );
+    if (subscription.rows.length === 0) {
+      return res.status(404).json({
+        error: "Webhook not found",
+      });
+    }
+
+    const result = await pg.query<WebhookDelivery>(
+      `SELECT * FROM webhook_deliveries
+       WHERE subscription_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC, id DESC
+       LIMIT $3`,
+      [id, status ?? null, limit],
+    );
+
+    res.json({
+      deliveries: result.rows,
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching deliveries of webhook ${id}:`, error);
+    res.status(500).json({
+      error: "Failed to fetch webhook deliveries",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// GET /admin/consistency で調べる投稿IDの数の上限
+const MAX_CONSISTENCY_SAMPLE = 1000;
+
+// PostgreSQL と派生ストアの突き合わせ（?sample= の数の投稿IDをランダムに選ぶ、最大1000）
+// 全件の突き合わせと修復は npm run consistency:check で行う
+app.get("/admin/consistency", async (req, res) => {
+  const sample = Math.min(
+    Number(req.query.sample) || 100,
+    MAX_CONSISTENCY_SAMPLE,
+  );
+
+  try {
+    console.log(`🩺 Spot-checking ${sample} post ID(s)`);
+
+    const report = await checkSampledPosts(
+      createPgPostSource(pg),
+      [createCacheConsistencyStore(redis), createSearchConsistencyStore(es)],
+      sample,
+    );
+
+    res.json({
+      consistent: !hasDrift(report),
+      ...report,
+    });
+  } catch (error) {
+    console.error("❌ Error checking consistency:", error);
+    res.status(500).json({
+      error: "Failed to check consistency",
+      details: (error as Error).message,
+    });
+  }
+});
+
+const PORT = config.api.port;
+
+const server = app.listen(PORT, () => {
   console.log(`🚀 API Server running on http://localhost:${PORT}`);
   console.log("\n📋 Available endpoints:");
   console.log("  GET    /health");
   console.log("  POST   /posts");
+  console.log("  GET    /posts/stream?author=<author>&post_id=<ids>");
   console.log("  GET    /posts/:id");
   console.log("  PUT    /posts/:id");
   console.log("  DELETE /posts/:id");
   console.log("  GET    /search?q=<query>");
   console.log("  GET    /posts/by-author/:author");
+  console.log("  POST   /posts/:id/comments");
+  console.log("  GET    /posts/:id/comments");
+  console.log("  GET    /authors");
+  console.log("  GET    /authors/:author/stats");
+  console.log("  POST   /users/:user/follows");
+  console.log("  DELETE /users/:user/follows/:followee");
+  console.log("  GET    /users/:user/timeline?cursor=<cursor>");
+  console.log("  POST   /webhooks");
+  console.log("  GET    /webhooks");
+  console.log("  GET    /webhooks/:id");
+  console.log("  PUT    /webhooks/:id");
+  console.log("  DELETE /webhooks/:id");
+  console.log("  GET    /webhooks/:id/deliveries");
+  console.log("  GET    /admin/consistency?sample=<n>");
+  console.log("  GET    /metrics");
 });
 
 // Graceful shutdown
-process.on("SIGINT", async () => {
-  console.log("\n🛑 Shutting down server...");
+// 新しい接続の受け付けを止め、処理中のリクエストが終わってから DB・キャッシュの接続を閉じる
+onShutdownSignal(async () => {
+  // ストリームの接続は終わらないので、先に閉じる
+  postStream.close();
+  await (
+    await stopPostStreamConsumer
+  )?.();
+
+  console.log("🛑 Draining HTTP connections...");
+  const closed = new Promise<void>((resolve, reject) =>
+    server.close((error) => (error ? reject(error) : resolve())),
+  );
+  // keep-alive で待機しているだけの接続はすぐ閉じる
+  server.closeIdleConnections();
+
+  const timeoutMs = config.shutdown.timeoutMs;
+  if (!(await withDeadline(closed, timeoutMs))) {
+    console.warn(
+      `⚠️  Requests did not finish within ${timeoutMs}ms; closing remaining connections`,
+    );
+    server.closeAllConnections();
+    await closed;
+  }
+  console.log("✅ HTTP server closed");
+
   await pg.end();
   await redis.quit();
-  process.exit(0);
+  await es.close();
+  console.log("👋 API server stopped");
 });
@@ -0,0 +1,159 @@
+/**
+ * Author Stats のイベントハンドラー（public.posts → Redis の著者ごとの集計）
+ * 投稿の作成・削除・著者の変更で集計を増減し、作り直しでは PostgreSQL の投稿から集計を足す（seedPostStats）
+ *
+ * キーとスクリプトは author-stats-scripts.ts を参照。
+ */
+
+import type Redis from "ioredis";
+import type { DebeziumChangeEvent, Post } from "../types/index.js";
+import type { ChangeEventSink } from "../lib/change-event-consumer.js";
+import { eventVersion } from "../lib/event-version.js";
+import { recordIdFromKey } from "../lib/message-key.js";
+import { TOMBSTONE_TTL } from "../lib/versioned-cache.js";
+import { deleteKeysByPattern, runScript } from "./cache-updater-scripts.js";
+import {
+  postContributionKey,
+  statsDeleteCommand,
+  statsTombstoneCommand,
+  statsUpsertCommand,
+} from "./author-stats-scripts.js";
+
+// Consumer のグループ（作り直しの時にオフセットを最初に戻す）
+export const AUTHOR_STATS_GROUP_ID = "author-stats-group";
+
+// 集計のキーはすべて stats: で始まる（TRUNCATE と作り直しで消す）
+export const STATS_KEY_PATTERN = "stats:*";
+
+/**
+ * 著者ごとの集計への反映先
+ */
+export function createAuthorStatsSink(redis: Redis): ChangeEventSink<Post> {
+  return {
+    upsert: (post, event) => upsertPostStats(post, event, redis),
+    remove: (post, event) => deletePostStats(post, event, redis),
+    truncate: () => handleStatsTruncate(redis),
+    tombstone: (key) => handleStatsTombstone(key, redis),
+    close: async () => {
+      await redis.quit();
+    },
+  };
+}
+
+// PostgreSQL から作った集計のバージョン（どの変更イベントよりも古い）
+export const SEED_VERSION = 0;
+
+/**
+ * PostgreSQL から読んだ投稿を集計に足す（npm run author-stats:rebuild）
+ * バージョンは SEED_VERSION にするので、後からリプレイする変更イベントはすべて上書きできる
+ * 集計は消してから呼ぶ（同じ投稿を2回足すと、2回目は同じバージョンとして捨てられる）
+ */
+export async function seedPostStats(posts: Post[], redis: Redis) {
+  for (const post of posts) {
+    await runScript(redis, statsUpsertCommand(post, SEED_VERSION, null));
+  }
+}
+
+/**
+ * 投稿の分を著者の集計に反映する（著者が変わっていれば以前の著者から引く）
+ */
+export async function upsertPostStats(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+) {
+  const version = eventVersion(event);
+  console.log(
+    `  📊 Counting post ${post.id} for ${post.author} (version ${version})`,
+  );
+
+  // 集計に足した時の著者（before が無くても、足した分を正確に引ける）
+  const previousAuthor = await redis.hget(
+    postContributionKey(post.id),
+    "author",
+  );
+
+  const applied = await runScript(
+    redis,
+    statsUpsertCommand(post, version, previousAuthor),
+  );
+
+  if (!applied) {
+    console.log(`  ⏭️  Skipped stale event for post ${post.id}`);
+    return;
+  }
+  if (previousAuthor && previousAuthor !== post.author) {
+    console.log(
+      `  🔀 Moved post ${post.id} between authors: ${previousAuthor} → ${post.author}`,
+    );
+  }
+  console.log(`  ✅ Updated stats of ${post.author}`);
+}
+
+/**
+ * 削除された投稿の分を著者の集計から引く
+ */
+export async function deletePostStats(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+) {
+  const version = eventVersion(event);
+  console.log(`  📊 Uncounting post ${post.id} (version ${version})`);
+
+  // REPLICA IDENTITY DEFAULT では before に著者が無いので、足した時の著者を使う
+  const previousAuthor = await redis.hget(
+    postContributionKey(post.id),
+    "author",
+  );
+
+  const applied = await runScript(
+    redis,
+    statsDeleteCommand(post.id, previousAuthor, version, TOMBSTONE_TTL),
+  );
+
+  if (!applied) {
+    console.log(`  ⏭️  Skipped stale delete for post ${post.id}`);
+    return;
+  }
+  if (previousAuthor) {
+    console.log(`  ✅ Updated stats of ${previousAuthor}`);
+  }
+}
+
+/**
+ * TRUNCATE: 集計をすべて削除する
+ */
+export async function handleStatsTruncate(redis: Redis) {
+  console.log("  🧹 Truncating: deleting all author stats");
+
+  const deleted = await deleteKeysByPattern(redis, STATS_KEY_PATTERN);
+
+  console.log(`  ✅ Deleted ${deleted} key(s) of author stats`);
+}
+
+/**
+ * トゥームストーン: delete イベントがコンパクションで消えていれば、キーの id で集計から引く
+ */
+export async function handleStatsTombstone(key: Buffer | null, redis: Redis) {
+  const postId = recordIdFromKey(key);
+
+  if (postId === null) {
+    console.warn("⚠️  Received empty message without a key");
+    return;
+  }
+
+  const previousAuthor = await redis.hget(
+    postContributionKey(postId),
+    "author",
+  );
+  if (!previousAuthor) {
+    console.log(`  🪦 Tombstone for post ${postId} (not counted)`);
+    return;
+  }
+
+  await runScript(redis, statsTombstoneCommand(postId, previousAuthor));
+  console.log(
+    `  🪦 Uncounted post ${postId} left behind by a compacted delete`,
+  );
+}
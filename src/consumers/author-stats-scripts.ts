@@ -0,0 +1,215 @@
+/**
+ * Author Stats の Redis Lua スクリプト
+ *
+ * 著者ごとの集計（投稿数・最初と最後の投稿日時・本文の合計文字数）を posts の変更イベントから更新する。
+ *
+ * - stats:author:{author}: 集計（Hash）
+ * - stats:author:{author}:posts: 著者の投稿ID（Sorted Set、スコアは作成日時）。件数と最初・最後の投稿日時はここから求める
+ * - stats:authors: 投稿数のランキング（Sorted Set、スコアは投稿数）
+ * - stats:post:{id}: 投稿が集計に足している分（著者と文字数）。更新・削除の時にこれを引いてから足し直す
+ * - stats:post:{id}:version: 反映済みのバージョン（Debezium の source.lsn）
+ *
+ * 「足した分を覚えておき、引いてから足す」ので、同じイベントを何度反映しても集計は変わらない。
+ * 削除で最初・最後の投稿が消えても、Sorted Set から求め直せば正しい値になる。
+ */
+
+import type { AuthorStats, Post } from "../types/index.js";
+import { versionKey } from "../lib/versioned-cache.js";
+import type { ScriptCommand } from "./cache-updater-scripts.js";
+
+// 3つのスクリプトで共通の関数
+// refresh: 著者の Sorted Set から投稿数・最初と最後の投稿日時を求め直す（0件なら集計ごと消す）
+// subtract: 投稿が足していた分を著者の集計から引く
+const STATS_FUNCTIONS = `
+local function refresh(statsKey, postsKey, rankingKey, author)
+  local count = redis.call("ZCARD", postsKey)
+  if count == 0 then
+    redis.call("DEL", statsKey, postsKey)
+    redis.call("ZREM", rankingKey, author)
+    return
+  end
+  local first = redis.call("ZRANGE", postsKey, 0, 0, "WITHSCORES")
+  local last = redis.call("ZRANGE", postsKey, -1, -1, "WITHSCORES")
+  redis.call("HSET", statsKey, "post_count", count, "first_post_at", first[2], "last_post_at", last[2])
+  redis.call("ZADD", rankingKey, count, author)
+end
+
+local function subtract(contributionKey, statsKey, postsKey, rankingKey, postId)
+  local previous = redis.call("HMGET", contributionKey, "author", "content_length")
+  if not previous[1] then
+    return
+  end
+  redis.call("HINCRBY", statsKey, "total_content_length", -tonumber(previous[2]))
+  redis.call("ZREM", postsKey, postId)
+  refresh(statsKey, postsKey, rankingKey, previous[1])
+  redis.call("DEL", contributionKey)
+end
+`;
+
+// KEYS[1]=stats:post:{id}, KEYS[2]=stats:post:{id}:version, KEYS[3]=stats:authors,
+// KEYS[4]=stats:author:{author}, KEYS[5]=stats:author:{author}:posts,
+// KEYS[6], KEYS[7]=足していた著者の stats:author:{old}, stats:author:{old}:posts（あれば）
+// ARGV[1]=バージョン, ARGV[2]=投稿ID, ARGV[3]=著者, ARGV[4]=本文の文字数, ARGV[5]=作成日時（ミリ秒）
+export const APPLY_STATS_UPSERT_SCRIPT = `${STATS_FUNCTIONS}
+local current = tonumber(redis.call("GET", KEYS[2]))
+if current and current >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("SET", KEYS[2], ARGV[1])
+if #KEYS >= 7 then
+  subtract(KEYS[1], KEYS[6], KEYS[7], KEYS[3], ARGV[2])
+end
+redis.call("HSET", KEYS[1], "author", ARGV[3], "content_length", ARGV[4])
+redis.call("HINCRBY", KEYS[4], "total_content_length", ARGV[4])
+redis.call("ZADD", KEYS[5], ARGV[5], ARGV[2])
+refresh(KEYS[4], KEYS[5], KEYS[3], ARGV[3])
+return 1
+`;
+
+// KEYS[1]=stats:post:{id}, KEYS[2]=stats:post:{id}:version, KEYS[3]=stats:authors,
+// KEYS[4], KEYS[5]=足していた著者の stats:author:{author}, stats:author:{author}:posts（あれば）
+// ARGV[1]=バージョン, ARGV[2]=トゥームストーンのTTL, ARGV[3]=投稿ID
+export const APPLY_STATS_DELETE_SCRIPT = `${STATS_FUNCTIONS}
+local current = tonumber(redis.call("GET", KEYS[2]))
+if current and current >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("SET", KEYS[2], ARGV[1], "EX", ARGV[2])
+if #KEYS >= 5 then
+  subtract(KEYS[1], KEYS[4], KEYS[5], KEYS[3], ARGV[3])
+end
+return 1
+`;
+
+// トゥームストーン: delete イベントが反映されていなければ、足していた分を引く
+// KEYS[1]=stats:post:{id}, KEYS[2]=stats:authors,
+// KEYS[3], KEYS[4]=足していた著者の stats:author:{author}, stats:author:{author}:posts
+// ARGV[1]=投稿ID
+export const APPLY_STATS_TOMBSTONE_SCRIPT = `${STATS_FUNCTIONS}
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return 0
+end
+subtract(KEYS[1], KEYS[3], KEYS[4], KEYS[2], ARGV[1])
+return 1
+`;
+
+// 投稿数のランキング
+export const AUTHOR_RANKING_KEY = "stats:authors";
+
+export function authorStatsKey(author: string): string {
+  return `stats:author:${author}`;
+}
+
+export function authorStatsPostsKey(author: string): string {
+  return `stats:author:${author}:posts`;
+}
+
+/**
+ * 投稿が集計に足している分（著者と文字数）
+ * 引く時に必要なので TTL は付けない（削除イベントで消す）
+ */
+export function postContributionKey(postId: number | string): string {
+  return `stats:post:${postId}`;
+}
+
+/**
+ * 本文の文字数（PostgreSQL の length() と同じくコードポイントで数える）
+ */
+export function contentLength(content: string): number {
+  return [...content].length;
+}
+
+function authorKeys(author: string | null): string[] {
+  return author === null
+    ? []
+    : [authorStatsKey(author), authorStatsPostsKey(author)];
+}
+
+/**
+ * 投稿の分を著者の集計に足すコマンド
+ * @param previousAuthor 投稿が足していた著者（stats:post:{id} の author）。その分を引いてから足す
+ */
+export function statsUpsertCommand(
+  post: Pick<Post, "id" | "author" | "content" | "created_at">,
+  version: number,
+  previousAuthor: string | null,
+): ScriptCommand {
+  const key = postContributionKey(post.id);
+  return {
+    script: APPLY_STATS_UPSERT_SCRIPT,
+    keys: [
+      key,
+      versionKey(key),
+      AUTHOR_RANKING_KEY,
+      ...authorKeys(post.author),
+      ...authorKeys(previousAuthor),
+    ],
+    args: [
+      version.toString(),
+      post.id.toString(),
+      post.author,
+      contentLength(post.content),
+      Date.parse(post.created_at ?? "") || 0,
+    ],
+  };
+}
+
+/**
+ * 投稿の分を著者の集計から引くコマンド（トゥームストーンとしてバージョンを残す）
+ */
+export function statsDeleteCommand(
+  postId: number,
+  previousAuthor: string | null,
+  version: number,
+  tombstoneTtlSeconds: number,
+): ScriptCommand {
+  const key = postContributionKey(postId);
+  return {
+    script: APPLY_STATS_DELETE_SCRIPT,
+    keys: [
+      key,
+      versionKey(key),
+      AUTHOR_RANKING_KEY,
+      ...authorKeys(previousAuthor),
+    ],
+    args: [version.toString(), tombstoneTtlSeconds, postId.toString()],
+  };
+}
+
+/**
+ * トゥームストーンを反映するコマンド
+ */
+export function statsTombstoneCommand(
+  postId: number,
+  previousAuthor: string,
+): ScriptCommand {
+  return {
+    script: APPLY_STATS_TOMBSTONE_SCRIPT,
+    keys: [
+      postContributionKey(postId),
+      AUTHOR_RANKING_KEY,
+      ...authorKeys(previousAuthor),
+    ],
+    args: [postId.toString()],
+  };
+}
+
+/**
+ * stats:author:{author} の Hash を API で返す形にする（日時はミリ秒から ISO-8601 に）
+ * 集計が無ければ null
+ */
+export function toAuthorStats(
+  author: string,
+  hash: Record<string, string>,
+): AuthorStats | null {
+  const postCount = Number(hash.post_count ?? 0);
+  if (postCount === 0) return null;
+
+  return {
+    author,
+    post_count: postCount,
+    first_post_at: new Date(Number(hash.first_post_at)).toISOString(),
+    last_post_at: new Date(Number(hash.last_post_at)).toISOString(),
+    total_content_length: Number(hash.total_content_length ?? 0),
+  };
+}
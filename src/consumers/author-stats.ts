@@ -0,0 +1,34 @@
+/**
+ * Author Stats Consumer
+ * Kafka (blogdb.public.posts) → Redis（著者ごとの集計）
+ *
+ * 投稿の変更イベントから、著者ごとの投稿数・最初と最後の投稿日時・本文の合計文字数を更新する。
+ * 集計は派生ビューなので、PostgreSQL の投稿から作り直せる（npm run author-stats:rebuild）。
+ */
+
+import Redis from "ioredis";
+import {
+  AUTHOR_STATS_GROUP_ID,
+  createAuthorStatsSink,
+} from "./author-stats-handlers.js";
+import { ChangeEventConsumer } from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import { createWatermarkRecorder } from "../lib/watermark.js";
+
+const config = getConfig();
+
+const redis = new Redis({
+  ...config.redis,
+  retryStrategy: (times) => Math.min(times * 50, 2000),
+});
+
+new ChangeEventConsumer({
+  name: "author-stats",
+  groupId: AUTHOR_STATS_GROUP_ID,
+  topic: config.kafka.postsTopic,
+  sink: createAuthorStatsSink(redis),
+  retryPolicy: config.authorStats.retryPolicy,
+  // 読み込み API の ?after= 用に、反映済みの LSN を記録する
+  watermark: createWatermarkRecorder(redis, "author-stats"),
+  metricsPort: config.authorStats.metricsPort,
+}).run();
@@ -0,0 +1,237 @@
+/**
+ * Cache Updater のコメントのイベントハンドラー（public.comments → Redis）
+ *
+ * - comment:{id}: コメントのキャッシュ（バージョン付き）
+ * - post:{postId}:comments: 投稿ごとのコメント一覧（Sorted Set、スコアは作成日時）
+ *
+ * 投稿（cache-updater-handlers.ts）と同じく、1イベントの書き込みは1回の Lua スクリプトで行う。
+ */
+
+import type Redis from "ioredis";
+import type { Comment, DebeziumChangeEvent } from "../types/index.js";
+import {
+  routeChangeEvent,
+  type ChangeEventSink,
+} from "../lib/change-event-consumer.js";
+import { eventVersion } from "../lib/event-version.js";
+import { recordIdFromKey } from "../lib/message-key.js";
+import { TOMBSTONE_TTL } from "../lib/versioned-cache.js";
+import { getConfig } from "../lib/config.js";
+import {
+  commentDeleteCommand,
+  commentKey,
+  commentPostKey,
+  commentTombstoneCommand,
+  commentUpsertCommand,
+  deleteKeysByPattern,
+  runScript,
+  runScriptsAtomically,
+  type PreparedWrite,
+} from "./cache-updater-scripts.js";
+
+const CACHE_TTL = getConfig().cache.ttlSeconds;
+
+// TRUNCATE で消す、comments テーブルから作られたキー
+const TRUNCATE_KEY_PATTERNS = ["comment:*", "post:*:comments"];
+
+/**
+ * Redis キャッシュへのコメントの反映先
+ * close は持たない（接続は投稿の sink と共有する。createCacheSinks を参照）
+ */
+export function createCommentCacheSink(redis: Redis): ChangeEventSink<Comment> {
+  return {
+    upsert: (comment, event) => upsertComment(comment, event, redis),
+    remove: (comment, event) => deleteComment(comment, event, redis),
+    truncate: () => handleCommentsTruncate(redis),
+    tombstone: (key) => handleCommentTombstone(key, redis),
+    applyTransaction: (transactionId, events) =>
+      handleCommentTransaction(transactionId, events, redis),
+  };
+}
+
+export async function upsertComment(
+  comment: Comment,
+  event: DebeziumChangeEvent<Comment>,
+  redis: Redis,
+) {
+  const write = await prepareUpsert(comment, event, redis);
+  write.report(await runScript(redis, write.command));
+}
+
+export async function deleteComment(
+  comment: Comment,
+  event: DebeziumChangeEvent<Comment>,
+  redis: Redis,
+) {
+  const write = await prepareDelete(comment, event, redis);
+  write.report(await runScript(redis, write.command));
+}
+
+/**
+ * 1つの Postgres トランザクションのコメントのイベントを MULTI/EXEC でまとめて反映する
+ */
+export async function handleCommentTransaction(
+  transactionId: string,
+  events: DebeziumChangeEvent<Comment>[],
+  redis: Redis,
+) {
+  console.log(
+    `  🔗 Applying comments of transaction ${transactionId} (${events.length} event(s))`,
+  );
+
+  const writes = await prepareCommentTransaction(events, redis);
+  if (writes.length === 0) return;
+
+  const results = await runScriptsAtomically(
+    redis,
+    writes.map((write) => write.command),
+  );
+  writes.forEach((write, i) => write.report(results[i]));
+
+  console.log(`  ✅ Applied comments of transaction ${transactionId}`);
+}
+
+/**
+ * トランザクションのコメントのイベントを、MULTI でまとめて実行する書き込みに組み立てる
+ * TRUNCATE はキーのパターン削除なので MULTI に入れられない（投稿と同じく先に実行する）
+ */
+export async function prepareCommentTransaction(
+  events: DebeziumChangeEvent<Comment>[],
+  redis: Redis,
+): Promise<PreparedWrite[]> {
+  let remaining = events;
+  const lastTruncate = events.map((e) => e.payload.op).lastIndexOf("t");
+  if (lastTruncate >= 0) {
+    await handleCommentsTruncate(redis);
+    remaining = events.slice(lastTruncate + 1);
+  }
+
+  const writes: PreparedWrite[] = [];
+  const collect: ChangeEventSink<Comment> = {
+    upsert: async (comment, event) => {
+      writes.push(await prepareUpsert(comment, event, redis));
+    },
+    remove: async (comment, event) => {
+      writes.push(await prepareDelete(comment, event, redis));
+    },
+  };
+  for (const event of remaining) {
+    await routeChangeEvent(event, collect);
+  }
+  return writes;
+}
+
+/**
+ * TRUNCATE: comments テーブルから作られたキーをすべて削除する
+ */
+export async function handleCommentsTruncate(redis: Redis) {
+  console.log("  🧹 Truncating: deleting all comment keys");
+
+  let deleted = 0;
+  for (const pattern of TRUNCATE_KEY_PATTERNS) {
+    deleted += await deleteKeysByPattern(redis, pattern);
+  }
+
+  console.log(`  ✅ Deleted ${deleted} key(s) from cache`);
+}
+
+/**
+ * トゥームストーン: キーの id でコメントを削除する（delete イベントがコンパクションで消えた場合）
+ */
+export async function handleCommentTombstone(key: Buffer | null, redis: Redis) {
+  const commentId = recordIdFromKey(key);
+
+  if (commentId === null) {
+    console.warn("⚠️  Received empty message without a key");
+    return;
+  }
+
+  const lastKnownPostId = await redis.get(commentPostKey(commentId));
+  const applied = await runScript(
+    redis,
+    commentTombstoneCommand(
+      commentId,
+      lastKnownPostId ? [Number(lastKnownPostId)] : [],
+    ),
+  );
+
+  if (!applied) {
+    console.log(`  🪦 Tombstone for comment ${commentId} (already deleted)`);
+    return;
+  }
+
+  console.log(
+    `  🪦 Deleted comment ${commentId} left behind by a compacted delete`,
+  );
+}
+
+async function prepareUpsert(
+  comment: Comment,
+  event: DebeziumChangeEvent<Comment>,
+  redis: Redis,
+): Promise<PreparedWrite> {
+  const version = eventVersion(event);
+  console.log(
+    `  💬 Caching comment ${comment.id} on post ${comment.post_id} (version ${version})`,
+  );
+
+  const cacheValue = JSON.stringify({
+    id: comment.id,
+    post_id: comment.post_id,
+    author: comment.author,
+    body: comment.body,
+    created_at: comment.created_at,
+  });
+
+  // 別の投稿に付け替えられていれば、以前の投稿の一覧から外す
+  const previousPostId =
+    event.payload.before?.post_id ??
+    Number((await redis.get(commentPostKey(comment.id))) ?? NaN);
+
+  return {
+    command: commentUpsertCommand(
+      comment,
+      cacheValue,
+      version,
+      CACHE_TTL,
+      Number.isInteger(previousPostId) ? [previousPostId] : [],
+    ),
+    report: (applied) => {
+      if (!applied) {
+        console.log(`  ⏭️  Skipped stale event for comment ${comment.id}`);
+        return;
+      }
+      console.log(
+        `  ✅ Cached ${commentKey(comment.id)} and updated the comments of post ${comment.post_id} (TTL: ${CACHE_TTL}s)`,
+      );
+    },
+  };
+}
+
+async function prepareDelete(
+  comment: Comment,
+  event: DebeziumChangeEvent<Comment>,
+  redis: Redis,
+): Promise<PreparedWrite> {
+  const version = eventVersion(event);
+  console.log(
+    `  🗑️  Invalidating cache for comment ${comment.id} (version ${version})`,
+  );
+
+  // before に主キーしか無い場合（REPLICA IDENTITY DEFAULT）は、最後に分かっている投稿から外す
+  const lastKnownPostId = await redis.get(commentPostKey(comment.id));
+  const postIds = [comment.post_id, Number(lastKnownPostId ?? NaN)].filter(
+    (postId) => Number.isInteger(postId),
+  );
+
+  return {
+    command: commentDeleteCommand(comment.id, postIds, version, TOMBSTONE_TTL),
+    report: (applied) => {
+      if (!applied) {
+        console.log(`  ⏭️  Skipped stale delete for comment ${comment.id}`);
+        return;
+      }
+      console.log(`  ✅ Deleted ${commentKey(comment.id)} from cache`);
+    },
+  };
+}
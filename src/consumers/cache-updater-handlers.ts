@@ -0,0 +1,417 @@
+/**
+ * Cache Updater のイベントハンドラー（public.posts, public.comments → Redis のキャッシュ）
+ * 投稿をバージョン付きで書き込み・削除し、トランザクションモードでは投稿とコメントを1回の MULTI/EXEC で反映する。
+ * 整合性チェック用にキャッシュを読む store もここにある
+ */
+
+import type Redis from "ioredis";
+import type { Comment, DebeziumChangeEvent, Post } from "../types/index.js";
+import {
+  routeChangeEvent,
+  type ChangeEventSink,
+  type TableSinks,
+} from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import { eventVersion } from "../lib/event-version.js";
+import { recordIdFromKey } from "../lib/message-key.js";
+import { TOMBSTONE_TTL } from "../lib/versioned-cache.js";
+import type { DerivedPostStore, StoredPost } from "../lib/consistency-check.js";
+import {
+  createCommentCacheSink,
+  prepareCommentTransaction,
+} from "./cache-updater-comments.js";
+import {
+  authorPostsKey,
+  deleteKeysByPattern,
+  postAuthorKey,
+  postDeleteCommand,
+  postKey,
+  postTombstoneCommand,
+  postUpsertCommand,
+  runScript,
+  runScriptsAtomically,
+  type PreparedWrite,
+} from "./cache-updater-scripts.js";
+
+export const CACHE_TTL = getConfig().cache.ttlSeconds; // デフォルト5分
+
+export const CACHE_UPDATER_GROUP_ID = "cache-updater-group";
+
+// TRUNCATE で消す、posts テーブルから作られたキー
+const TRUNCATE_KEY_PATTERNS = ["post:*", "author:*:posts"];
+
+// post:* には comments の sink のキー（post:{id}:comments）も一致するので、
+// posts のキー（post:{id}, post:{id}:version, post:{id}:author, author:{author}:posts）だけ消す
+const POSTS_KEY = /^(post:[^:]+(:version|:author)?|author:.+:posts)$/;
+
+/**
+ * post:{id} にキャッシュする値
+ */
+export function toCacheValue(post: Post): string {
+  return JSON.stringify({
+    id: post.id,
+    title: post.title,
+    content: post.content,
+    author: post.author,
+    created_at: post.created_at,
+    updated_at: post.updated_at,
+  });
+}
+
+/**
+ * Redis キャッシュへの反映先
+ */
+export function createCacheSink(redis: Redis): ChangeEventSink<Post> {
+  return {
+    upsert: (post, event) => upsertPost(post, event, redis),
+    remove: (post, event) => deletePost(post, event, redis),
+    truncate: () => handleTruncate(redis),
+    tombstone: (key) => handleTombstone(key, redis),
+    applyTransaction: (transactionId, events) =>
+      handleTransaction(transactionId, events, redis),
+    close: async () => {
+      await redis.quit();
+    },
+  };
+}
+
+/**
+ * テーブルごとの Redis キャッシュへの反映先
+ * 同じ接続を使うので close を共有する（Consumer は1回だけ呼ぶ）。
+ * applyTransaction も共有し、1つのトランザクションの投稿とコメントを1回の MULTI で反映する
+ */
+export function createCacheSinks(redis: Redis): TableSinks {
+  const posts = createCacheSink(redis);
+  const applyTransaction = (
+    transactionId: string,
+    events: DebeziumChangeEvent<Post | Comment>[],
+  ) => handleTransaction(transactionId, events, redis);
+  return {
+    "public.posts": { ...posts, applyTransaction },
+    "public.comments": {
+      ...createCommentCacheSink(redis),
+      applyTransaction,
+      close: posts.close,
+    },
+  };
+}
+
+/**
+ * 変更イベントをopに応じて振り分ける
+ * 失敗時は例外をそのまま投げる（呼び出し側でDLQに送る）
+ */
+export async function handleChangeEvent(
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+) {
+  await routeChangeEvent(event, createCacheSink(redis));
+}
+
+export async function upsertPost(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+) {
+  const write = await prepareUpsert(post, event, redis);
+  write.report(await runScript(redis, write.command));
+}
+
+export async function deletePost(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+) {
+  const write = await prepareDelete(post, event, redis);
+  write.report(await runScript(redis, write.command));
+}
+
+/**
+ * 1つの Postgres トランザクションのイベント（投稿とコメント）を MULTI/EXEC でまとめて反映する
+ * 読み手がトランザクションの途中の状態を見ることはない（投稿とそのコメントの削除も同時に見える）
+ */
+export async function handleTransaction(
+  transactionId: string,
+  events: DebeziumChangeEvent<Post | Comment>[],
+  redis: Redis,
+) {
+  console.log(
+    `  🔗 Applying transaction ${transactionId} (${events.length} event(s))`,
+  );
+
+  const posts: DebeziumChangeEvent<Post>[] = [];
+  const comments: DebeziumChangeEvent<Comment>[] = [];
+  for (const event of events) {
+    if (isCommentEvent(event)) {
+      comments.push(event);
+    } else {
+      posts.push(event as DebeziumChangeEvent<Post>);
+    }
+  }
+
+  // 書き込みを先に組み立ててから、まとめて実行する
+  const writes = [
+    ...(await preparePostTransaction(posts, redis)),
+    ...(await prepareCommentTransaction(comments, redis)),
+  ];
+  if (writes.length === 0) return;
+
+  const results = await runScriptsAtomically(
+    redis,
+    writes.map((write) => write.command),
+  );
+  writes.forEach((write, i) => write.report(results[i]));
+
+  console.log(`  ✅ Applied transaction ${transactionId}`);
+}
+
+function isCommentEvent(
+  event: DebeziumChangeEvent<Post | Comment>,
+): event is DebeziumChangeEvent<Comment> {
+  const { schema, table } = event.payload.source;
+  return `${schema}.${table}` === "public.comments";
+}
+
+/**
+ * トランザクションの投稿のイベントを、MULTI でまとめて実行する書き込みに組み立てる
+ * TRUNCATE はキーのパターン削除なので MULTI に入れられない。
+ * 先に実行し、それより前のイベントは（どうせ消えるので）捨てる
+ */
+async function preparePostTransaction(
+  events: DebeziumChangeEvent<Post>[],
+  redis: Redis,
+): Promise<PreparedWrite[]> {
+  let remaining = events;
+  const lastTruncate = events.map((e) => e.payload.op).lastIndexOf("t");
+  if (lastTruncate >= 0) {
+    await handleTruncate(redis);
+    remaining = events.slice(lastTruncate + 1);
+  }
+
+  const writes: PreparedWrite[] = [];
+  const collect: ChangeEventSink<Post> = {
+    upsert: async (post, event) => {
+      writes.push(await prepareUpsert(post, event, redis));
+    },
+    remove: async (post, event) => {
+      writes.push(await prepareDelete(post, event, redis));
+    },
+  };
+  for (const event of remaining) {
+    await routeChangeEvent(event, collect);
+  }
+  return writes;
+}
+
+/**
+ * TRUNCATE: posts テーブルから作られたキーをすべて削除する
+ * 途中で失敗しても、やり直せば同じ結果になる（冪等）
+ */
+export async function handleTruncate(redis: Redis) {
+  console.log("  🧹 Truncating: deleting all post and author list keys");
+
+  let deleted = 0;
+  for (const pattern of TRUNCATE_KEY_PATTERNS) {
+    deleted += await deleteKeysByPattern(redis, pattern, (key) =>
+      POSTS_KEY.test(key),
+    );
+  }
+
+  console.log(`  ✅ Deleted ${deleted} key(s) from cache`);
+}
+
+/**
+ * トゥームストーン（value が null のメッセージ）: キーの id で削除する
+ *
+ * 通常は直前の delete イベントで削除済みなので何もしない。
+ * ログコンパクションで delete イベントが消えてトゥームストーンだけが残っている場合に備える。
+ */
+export async function handleTombstone(key: Buffer | null, redis: Redis) {
+  const postId = recordIdFromKey(key);
+
+  if (postId === null) {
+    console.warn("⚠️  Received empty message without a key");
+    return;
+  }
+
+  const lastKnownAuthor = await redis.get(postAuthorKey(postId));
+  const applied = await runScript(
+    redis,
+    postTombstoneCommand(postId, lastKnownAuthor ? [lastKnownAuthor] : []),
+  );
+
+  if (!applied) {
+    console.log(`  🪦 Tombstone for post ${postId} (already deleted)`);
+    return;
+  }
+
+  console.log(`  🪦 Deleted post ${postId} left behind by a compacted delete`);
+}
+
+async function prepareUpsert(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+): Promise<PreparedWrite> {
+  const version = eventVersion(event);
+  console.log(
+    `  💾 Caching post ${post.id} (version ${version}): "${post.title}"`,
+  );
+
+  const cacheValue = toCacheValue(post);
+
+  // 著者が変わっていれば、以前の著者のリストから外す
+  const previousAuthor = await resolvePreviousAuthor(
+    redis,
+    post.id,
+    event.payload.before,
+  );
+
+  return {
+    // キャッシュと著者別の投稿リスト（Sorted Set）を1回のLuaスクリプトで更新
+    // より新しいバージョンが既にあれば何も書き込まない
+    command: postUpsertCommand(
+      post,
+      cacheValue,
+      version,
+      CACHE_TTL,
+      previousAuthor ? [previousAuthor] : [],
+    ),
+    report: (applied) => {
+      if (!applied) {
+        console.log(`  ⏭️  Skipped stale event for post ${post.id}`);
+        return;
+      }
+      if (previousAuthor && previousAuthor !== post.author) {
+        console.log(
+          `  🔀 Moved post ${post.id} from author list: ${previousAuthor} → ${post.author}`,
+        );
+      }
+      console.log(
+        `  ✅ Cached post ${post.id} and updated author list: ${post.author} (TTL: ${CACHE_TTL}s)`,
+      );
+    },
+  };
+}
+
+async function prepareDelete(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+): Promise<PreparedWrite> {
+  const version = eventVersion(event);
+  console.log(
+    `  🗑️  Invalidating cache for post ${post.id} (version ${version})`,
+  );
+
+  // REPLICA IDENTITY DEFAULT の削除イベントは before に主キーしか入らないので、
+  // 最後に分かっている著者も合わせて外す
+  const lastKnownAuthor = await redis.get(postAuthorKey(post.id));
+  const authors = [post.author, lastKnownAuthor].filter(
+    (author): author is string => Boolean(author),
+  );
+  if (authors.length === 0) {
+    console.warn(`⚠️  Author of post ${post.id} is unknown`);
+  }
+
+  return {
+    // トゥームストーンを残して削除し、著者別リストからも外す（1回のLuaスクリプト）
+    // 遅れて届いた古い create で復活させない
+    command: postDeleteCommand(post.id, authors, version, TOMBSTONE_TTL),
+    report: (applied) => {
+      if (!applied) {
+        console.log(`  ⏭️  Skipped stale delete for post ${post.id}`);
+        return;
+      }
+      console.log(
+        `  ✅ Deleted ${postKey(post.id)} from cache and author list: ${authors.join(", ")}`,
+      );
+    },
+  };
+}
+
+/**
+ * 更新前の著者を求める
+ * before があればそれを使い（REPLICA IDENTITY FULL）、無ければ最後に分かっている著者を使う
+ */
+async function resolvePreviousAuthor(
+  redis: Redis,
+  postId: number,
+  before: Post | null,
+): Promise<string | null> {
+  if (before?.author) return before.author;
+  return redis.get(postAuthorKey(postId));
+}
+
+/**
+ * 突き合わせ（consistency-check）用の Redis キャッシュ
+ * post:{id} も著者別リスト（author:{author}:posts）も TTL で消えるので、無いことはずれにしない。
+ * 著者別リストがあるのに post:{id} が入っていない時だけ incomplete にする
+ */
+export function createCacheConsistencyStore(redis: Redis): DerivedPostStore {
+  return {
+    name: "redis",
+    cache: true,
+    async read(ids) {
+      const values = redis.pipeline();
+      ids.forEach((id) => values.get(postKey(id)));
+      const cached = ((await values.exec()) ?? []).map(([error, value], i) => {
+        if (error) throw error;
+        return typeof value === "string"
+          ? { id: ids[i], post: JSON.parse(value) as Post }
+          : null;
+      });
+      const entries = cached.filter((entry) => entry !== null);
+
+      const scores = redis.pipeline();
+      entries.forEach(({ id, post }) =>
+        scores
+          .zcard(authorPostsKey(post.author))
+          .zscore(authorPostsKey(post.author), id.toString()),
+      );
+      const results = (await scores.exec()) ?? [];
+      const incomplete = entries.map((_, i) => {
+        const [[cardError, size], [scoreError, score]] = results.slice(
+          i * 2,
+          i * 2 + 2,
+        );
+        return !cardError && !scoreError && Number(size) > 0 && score === null;
+      });
+
+      return new Map<number, StoredPost>(
+        entries.map(({ id, post }, i) => [
+          id,
+          { post, incomplete: incomplete[i] },
+        ]),
+      );
+    },
+    async repair({ upsert, remove }, version) {
+      let repaired = 0;
+      for (const { post, stored } of upsert) {
+        const previousAuthor = stored?.post.author;
+        const applied = await runScript(
+          redis,
+          postUpsertCommand(
+            post,
+            toCacheValue(post),
+            version,
+            CACHE_TTL,
+            previousAuthor ? [previousAuthor] : [],
+          ),
+        );
+        if (applied) repaired++;
+      }
+      for (const { id, stored } of remove) {
+        const lastKnownAuthor = await redis.get(postAuthorKey(id));
+        const authors = [stored.post.author, lastKnownAuthor].filter(
+          (author): author is string => Boolean(author),
+        );
+        const applied = await runScript(
+          redis,
+          postDeleteCommand(id, authors, version, TOMBSTONE_TTL),
+        );
+        if (applied) repaired++;
+      }
+      return repaired;
+    },
+  };
+}
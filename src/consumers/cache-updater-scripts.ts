@@ -0,0 +1,350 @@
+/**
+ * Cache Updater の Redis Lua スクリプト
+ *
+ * 1つの変更イベントが触るキー（post:{id}, post:{id}:version, post:{id}:author, author:{author}:posts）を
+ * 1回のスクリプト実行でまとめて更新する。途中でクラッシュしても中途半端な状態が残らない。
+ * 「保存済みより新しいバージョンの時だけ書き込む」という条件付きの更新は
+ * MULTI/EXEC では書けないため、Lua スクリプトを使う。
+ *
+ * コメントも「値・バージョン・一覧の Sorted Set・最後に分かっている親」という同じ形なので、
+ * 同じスクリプトを comment:{id}, comment:{id}:version, post:{postId}:comments, comment:{id}:post で使う。
+ */
+
+import type Redis from "ioredis";
+import type { Comment, Post } from "../types/index.js";
+import { versionKey, type ScriptRunner } from "../lib/versioned-cache.js";
+
+// KEYS[1]=post:{id}, KEYS[2]=post:{id}:version, KEYS[3]=author:{author}:posts,
+// KEYS[4]=post:{id}:author, KEYS[5..]=以前の著者の author:{old}:posts
+// ARGV[1]=バージョン, ARGV[2]=キャッシュする値, ARGV[3]=TTL, ARGV[4]=投稿ID, ARGV[5]=スコア,
+// ARGV[6]=著者
+export const APPLY_POST_UPSERT_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[2]))
+if current and current >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+redis.call("SET", KEYS[2], ARGV[1], "EX", ARGV[3])
+redis.call("ZADD", KEYS[3], ARGV[5], ARGV[4])
+redis.call("EXPIRE", KEYS[3], ARGV[3])
+redis.call("SET", KEYS[4], ARGV[6])
+for i = 5, #KEYS do
+  redis.call("ZREM", KEYS[i], ARGV[4])
+end
+return 1
+`;
+
+// KEYS[1]=post:{id}, KEYS[2]=post:{id}:version, KEYS[3]=post:{id}:author,
+// KEYS[4..]=著者の author:{author}:posts
+// ARGV[1]=バージョン, ARGV[2]=トゥームストーンのTTL, ARGV[3]=投稿ID
+export const APPLY_POST_DELETE_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[2]))
+if current and current >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("DEL", KEYS[1])
+redis.call("SET", KEYS[2], ARGV[1], "EX", ARGV[2])
+redis.call("DEL", KEYS[3])
+for i = 4, #KEYS do
+  redis.call("ZREM", KEYS[i], ARGV[3])
+end
+return 1
+`;
+
+// トゥームストーン: delete イベントが反映されていなければ、キーの id で削除する
+// KEYS[1]=post:{id}, KEYS[2]=post:{id}:author, KEYS[3..]=著者の author:{author}:posts
+// ARGV[1]=投稿ID
+export const APPLY_POST_TOMBSTONE_SCRIPT = `
+if redis.call("EXISTS", KEYS[1], KEYS[2]) == 0 then
+  return 0
+end
+redis.call("DEL", KEYS[1], KEYS[2])
+for i = 3, #KEYS do
+  redis.call("ZREM", KEYS[i], ARGV[1])
+end
+return 1
+`;
+
+export function postKey(postId: number | string): string {
+  return `post:${postId}`;
+}
+
+export function authorPostsKey(author: string): string {
+  return `author:${author}:posts`;
+}
+
+/**
+ * 投稿の最後に分かっている著者
+ * before が無いイベント（REPLICA IDENTITY DEFAULT）でも著者の変更を検知するために保存する。
+ * 著者リストから確実に外すために必要な情報なので TTL は付けない（削除イベントで消す）
+ */
+export function postAuthorKey(postId: number | string): string {
+  return `post:${postId}:author`;
+}
+
+export function commentKey(commentId: number | string): string {
+  return `comment:${commentId}`;
+}
+
+export function postCommentsKey(postId: number | string): string {
+  return `post:${postId}:comments`;
+}
+
+/**
+ * コメントの最後に分かっている投稿ID（postAuthorKey と同じ理由で TTL は付けない）
+ */
+export function commentPostKey(commentId: number | string): string {
+  return `comment:${commentId}:post`;
+}
+
+/**
+ * 実行するスクリプトと、その KEYS / ARGV
+ * 1件ずつ実行することも、MULTI でまとめて実行することもできる
+ */
+export interface ScriptCommand {
+  script: string;
+  keys: string[];
+  args: (string | number)[];
+}
+
+/**
+ * 1イベント分の書き込み
+ * 先に読み取り（最後に分かっている著者など）を済ませておき、スクリプトだけを後で実行する
+ */
+export interface PreparedWrite {
+  command: ScriptCommand;
+  // スクリプトの結果（反映したか、古いイベントとして拒否されたか）をログに出す
+  report: (applied: boolean) => void;
+}
+
+/**
+ * 投稿のキャッシュと著者別リストを更新するコマンド
+ * previousAuthors に渡した著者のリストからは投稿を外す（著者の変更）
+ */
+export function postUpsertCommand(
+  post: Pick<Post, "id" | "author">,
+  value: string,
+  version: number,
+  ttlSeconds: number,
+  previousAuthors: string[] = [],
+  score: number = Date.now(),
+): ScriptCommand {
+  const key = postKey(post.id);
+  const previousKeys = previousAuthors
+    .filter((author) => author !== post.author)
+    .map(authorPostsKey);
+  return {
+    script: APPLY_POST_UPSERT_SCRIPT,
+    keys: [
+      key,
+      versionKey(key),
+      authorPostsKey(post.author),
+      postAuthorKey(post.id),
+      ...previousKeys,
+    ],
+    args: [
+      version.toString(),
+      value,
+      ttlSeconds,
+      post.id.toString(),
+      score,
+      post.author,
+    ],
+  };
+}
+
+/**
+ * 投稿のキャッシュを削除し（トゥームストーンを残す）、著者別リストからも外すコマンド
+ * @param authors 投稿を外す著者（before と最後に分かっている著者）
+ */
+export function postDeleteCommand(
+  postId: number,
+  authors: string[],
+  version: number,
+  tombstoneTtlSeconds: number,
+): ScriptCommand {
+  const key = postKey(postId);
+  return {
+    script: APPLY_POST_DELETE_SCRIPT,
+    keys: [
+      key,
+      versionKey(key),
+      postAuthorKey(postId),
+      ...[...new Set(authors)].map(authorPostsKey),
+    ],
+    args: [version.toString(), tombstoneTtlSeconds, postId.toString()],
+  };
+}
+
+/**
+ * トゥームストーンを反映するコマンド
+ * バージョンが分からないので version キーには触らない（残っていれば古いイベントは引き続き拒否される）
+ */
+export function postTombstoneCommand(
+  postId: number,
+  authors: string[],
+): ScriptCommand {
+  return {
+    script: APPLY_POST_TOMBSTONE_SCRIPT,
+    keys: [
+      postKey(postId),
+      postAuthorKey(postId),
+      ...[...new Set(authors)].map(authorPostsKey),
+    ],
+    args: [postId.toString()],
+  };
+}
+
+/**
+ * コメントのキャッシュと投稿ごとのコメント一覧を更新するコマンド
+ * previousPostIds に渡した投稿の一覧からはコメントを外す（post_id の変更）
+ * 一覧は古い順に読むので、スコアは作成日時にする
+ */
+export function commentUpsertCommand(
+  comment: Pick<Comment, "id" | "post_id" | "created_at">,
+  value: string,
+  version: number,
+  ttlSeconds: number,
+  previousPostIds: number[] = [],
+): ScriptCommand {
+  const key = commentKey(comment.id);
+  const previousKeys = previousPostIds
+    .filter((postId) => postId !== comment.post_id)
+    .map(postCommentsKey);
+  return {
+    script: APPLY_POST_UPSERT_SCRIPT,
+    keys: [
+      key,
+      versionKey(key),
+      postCommentsKey(comment.post_id),
+      commentPostKey(comment.id),
+      ...previousKeys,
+    ],
+    args: [
+      version.toString(),
+      value,
+      ttlSeconds,
+      comment.id.toString(),
+      Date.parse(comment.created_at ?? "") || 0,
+      comment.post_id.toString(),
+    ],
+  };
+}
+
+/**
+ * コメントのキャッシュを削除し（トゥームストーンを残す）、投稿のコメント一覧からも外すコマンド
+ * @param postIds コメントを外す投稿（before と最後に分かっている投稿）
+ */
+export function commentDeleteCommand(
+  commentId: number,
+  postIds: number[],
+  version: number,
+  tombstoneTtlSeconds: number,
+): ScriptCommand {
+  const key = commentKey(commentId);
+  return {
+    script: APPLY_POST_DELETE_SCRIPT,
+    keys: [
+      key,
+      versionKey(key),
+      commentPostKey(commentId),
+      ...[...new Set(postIds)].map(postCommentsKey),
+    ],
+    args: [version.toString(), tombstoneTtlSeconds, commentId.toString()],
+  };
+}
+
+/**
+ * コメントのトゥームストーンを反映するコマンド
+ */
+export function commentTombstoneCommand(
+  commentId: number,
+  postIds: number[],
+): ScriptCommand {
+  return {
+    script: APPLY_POST_TOMBSTONE_SCRIPT,
+    keys: [
+      commentKey(commentId),
+      commentPostKey(commentId),
+      ...[...new Set(postIds)].map(postCommentsKey),
+    ],
+    args: [commentId.toString()],
+  };
+}
+
+/**
+ * コマンドを1件実行する
+ * @returns 反映したら true、古いイベントなどで何もしなかったら false
+ */
+export async function runScript(
+  redis: ScriptRunner,
+  command: ScriptCommand,
+): Promise<boolean> {
+  const result = await redis.eval(
+    command.script,
+    command.keys.length,
+    ...command.keys,
+    ...command.args,
+  );
+  return result === 1;
+}
+
+/**
+ * 複数のコマンドを MULTI/EXEC で実行する（途中に他のクライアントの読み書きが入らない）
+ * 各スクリプトのバージョン比較はそれぞれのスクリプトの中で行われる
+ * @returns コマンドごとの結果（runScript と同じ意味）
+ */
+export async function runScriptsAtomically(
+  redis: Redis,
+  commands: ScriptCommand[],
+): Promise<boolean[]> {
+  const multi = redis.multi();
+  for (const command of commands) {
+    multi.eval(
+      command.script,
+      command.keys.length,
+      ...command.keys,
+      ...command.args,
+    );
+  }
+
+  const results = await multi.exec();
+  if (!results) {
+    throw new Error("Redis transaction was aborted");
+  }
+
+  return results.map(([error, result]) => {
+    if (error) throw error;
+    return result === 1;
+  });
+}
+
+/**
+ * パターンに一致するキーを SCAN しながら削除する（KEYS はブロックするので使わない）
+ * glob で他の sink のキーを除けない時は filter で削除するキーを絞る
+ */
+export async function deleteKeysByPattern(
+  redis: Redis,
+  pattern: string,
+  filter: (key: string) => boolean = () => true,
+): Promise<number> {
+  let cursor = "0";
+  let deleted = 0;
+
+  do {
+    const [next, keys] = await redis.scan(
+      cursor,
+      "MATCH",
+      pattern,
+      "COUNT",
+      500,
+    );
+    const targets = keys.filter(filter);
+    if (targets.length > 0) {
+      deleted += await redis.del(...targets);
+    }
+    cursor = next;
+  } while (cursor !== "0");
+
+  return deleted;
+}
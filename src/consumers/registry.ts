@@ -0,0 +1,155 @@
+/**
+ * Consumer の一覧
+ * 運用コマンド（DLQ リプレイ、オフセットの巻き戻し）が Consumer 名からグループ・購読テーブル・sink を引く
+ * sink は各 Consumer の *-handlers.ts にあり、Consumer 本体と DLQ リプレイが同じ sink で反映する
+ *
+ * Consumer を増やす時は CONSUMERS と createConsumerSinks に1つずつ足す。
+ */
+
+import { Client } from "@elastic/elasticsearch";
+import Redis from "ioredis";
+import { Pool } from "pg";
+import {
+  SEARCH_INDEXER_GROUP_ID,
+  createSearchIndexSink,
+} from "./search-indexer-handlers.js";
+import {
+  CACHE_UPDATER_GROUP_ID,
+  createCacheSinks,
+} from "./cache-updater-handlers.js";
+import {
+  AUTHOR_STATS_GROUP_ID,
+  createAuthorStatsSink,
+} from "./author-stats-handlers.js";
+import { TIMELINE_GROUP_ID, createTimelineSinks } from "./timeline-handlers.js";
+import {
+  WEBHOOK_DISPATCHER_GROUP_ID,
+  createWebhookSink,
+} from "./webhook-dispatcher-handlers.js";
+import type { TableSinks } from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import { createWriteIndexResolver } from "../lib/search-index.js";
+import type { TableName } from "../lib/tables.js";
+import { PgWebhookStore } from "../lib/webhooks.js";
+
+export interface ConsumerDefinition {
+  groupId: string;
+  // 購読しているテーブル（トピック）
+  tables: TableName[];
+  // 派生ストアを持つか（false なら TRUNCATE で消すものが無い）
+  hasStore: boolean;
+}
+
+export type ConsumerName =
+  | "search-indexer"
+  | "cache-updater"
+  | "author-stats"
+  | "timeline"
+  | "webhook-dispatcher";
+
+export const CONSUMERS: { [K in ConsumerName]: ConsumerDefinition } = {
+  "search-indexer": {
+    groupId: SEARCH_INDEXER_GROUP_ID,
+    tables: ["public.posts"],
+    hasStore: true,
+  },
+  "cache-updater": {
+    groupId: CACHE_UPDATER_GROUP_ID,
+    tables: ["public.posts", "public.comments"],
+    hasStore: true,
+  },
+  "author-stats": {
+    groupId: AUTHOR_STATS_GROUP_ID,
+    tables: ["public.posts"],
+    hasStore: true,
+  },
+  timeline: {
+    groupId: TIMELINE_GROUP_ID,
+    tables: ["public.posts", "public.follows"],
+    hasStore: true,
+  },
+  // 配信済みの POST は取り消せない
+  "webhook-dispatcher": {
+    groupId: WEBHOOK_DISPATCHER_GROUP_ID,
+    tables: ["public.posts"],
+    hasStore: false,
+  },
+};
+
+export const CONSUMER_NAMES = Object.keys(CONSUMERS) as ConsumerName[];
+
+export function isConsumerName(name: string): name is ConsumerName {
+  return (CONSUMER_NAMES as string[]).includes(name);
+}
+
+/**
+ * Consumer 名を検証して定義を返す
+ */
+export function consumerDefinition(name: string): ConsumerDefinition {
+  if (!isConsumerName(name)) {
+    throw new Error(
+      `Unknown consumer: ${name} (expected ${CONSUMER_NAMES.join(", ")})`,
+    );
+  }
+  return CONSUMERS[name];
+}
+
+/**
+ * トランザクションモードで動いている（blogdb.transaction も購読している）か
+ */
+export function consumesTransactionTopic(name: ConsumerName): boolean {
+  const config = getConfig();
+
+  switch (name) {
+    case "search-indexer":
+      return config.searchIndexer.transactionMode;
+    case "cache-updater":
+      return config.cacheUpdater.transactionMode;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Consumer 本体と同じテーブルごとの sink
+ */
+export function createConsumerSinks(name: ConsumerName): TableSinks {
+  const config = getConfig();
+
+  switch (name) {
+    case "search-indexer": {
+      const es = new Client({ node: config.elasticsearch.node });
+      return {
+        // 再索引中なら新旧両方のインデックスに書く
+        "public.posts": createSearchIndexSink(
+          es,
+          createWriteIndexResolver(es, {
+            writeAlias: config.elasticsearch.writeAlias,
+            fallbackIndex: config.elasticsearch.index,
+            refreshIntervalMs: config.searchIndexer.aliasRefreshMs,
+          }),
+        ),
+      };
+    }
+    case "cache-updater":
+      return createCacheSinks(new Redis(config.redis));
+    case "author-stats":
+      return {
+        "public.posts": createAuthorStatsSink(new Redis(config.redis)),
+      };
+    case "timeline":
+      return createTimelineSinks(new Redis(config.redis), config.timeline);
+    case "webhook-dispatcher":
+      return {
+        "public.posts": createWebhookSink(
+          new PgWebhookStore(new Pool(config.postgres)),
+          {
+            retryPolicy: config.webhooks.deliveryRetryPolicy,
+            timeoutMs: config.webhooks.timeoutMs,
+            disableAfterFailures: config.webhooks.disableAfterFailures,
+            deadlineMs: config.webhooks.deliveryDeadlineMs,
+          },
+        ),
+      };
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Search Indexer のバッチ処理（Elasticsearch Bulk API）
+ *
+ * eachBatch で受け取ったメッセージを投稿IDごとにまとめ（最後のイベントだけ残す）、
+ * 1回の _bulk リクエストで書き込む。TRUNCATE はそれより前のイベントを打ち消す。
+ * アイテム単位の失敗は、一時的なものだけをリトライし、残りは Poison Pill として返す。
+ * 再索引中は1つのエントリを新旧両方のインデックスに書く（どちらかが失敗したらエントリごとリトライ）。
+ */
+
+import type { Client } from "@elastic/elasticsearch";
+import type { KafkaMessage } from "kafkajs";
+import type { DebeziumChangeEvent, Post } from "../types/index.js";
+import { decodeChangeEvent } from "../lib/event-decoder.js";
+import { eventVersion } from "../lib/event-version.js";
+import { recordIdFromKey } from "../lib/message-key.js";
+import type {
+  BatchWriteOptions,
+  BatchWriteResult,
+  PoisonedMessage,
+} from "../lib/change-event-consumer.js";
+import {
+  PoisonPillError,
+  backoffDelay,
+  isRetryableError,
+  withRetry,
+  type PoisonPillReason,
+  type RetryPolicy,
+} from "../lib/retry.js";
+import {
+  INDEX_NAME,
+  handleTruncate,
+  toSearchDocument,
+} from "./search-indexer-handlers.js";
+
+/**
+ * 1つの投稿IDに対する書き込み
+ * messages には、まとめられた（上書きされた）メッセージもすべて含む
+ */
+export interface BulkEntry {
+  postId: number;
+  // null はトゥームストーン（キーの id でバージョン無しに削除する）
+  event: DebeziumChangeEvent<Post> | null;
+  messages: KafkaMessage[];
+}
+
+export interface CollapseResult {
+  entries: BulkEntry[];
+  // 書き込み不要なメッセージ（空メッセージ、IDの無いイベントなど）
+  skipped: KafkaMessage[];
+  // JSONとして読めないメッセージ
+  poisoned: PoisonedMessage[];
+  // TRUNCATE イベント（entries より先にインデックスを空にする必要がある）
+  truncated: KafkaMessage[];
+}
+
+/**
+ * メッセージを投稿IDごとにまとめる
+ * 同じIDの後のイベントが前のイベントを上書きする（Kafkaのパーティション内の順序を前提）
+ */
+export function collapseByPostId(messages: KafkaMessage[]): CollapseResult {
+  const entries = new Map<number, BulkEntry>();
+  const skipped: KafkaMessage[] = [];
+  const poisoned: PoisonedMessage[] = [];
+  const truncated: KafkaMessage[] = [];
+
+  for (const message of messages) {
+    if (!message.value) {
+      collapseTombstone(message, entries, skipped, poisoned);
+      continue;
+    }
+
+    let event: DebeziumChangeEvent<Post>;
+    try {
+      event = decodeChangeEvent(message.value) as DebeziumChangeEvent<Post>;
+    } catch (error) {
+      poisoned.push({ message, error, attempts: 1, reason: "non-retryable" });
+      continue;
+    }
+
+    const { op, before, after } = event.payload;
+
+    if (op === "t") {
+      // TRUNCATE より前の書き込みはどうせ消えるので捨てる
+      // （TRUNCATE が DLQ に送られても、リプレイすれば同じ状態になる）
+      for (const entry of entries.values()) {
+        skipped.push(...entry.messages);
+      }
+      entries.clear();
+      truncated.push(message);
+      continue;
+    }
+
+    const post = op === "d" ? before : after;
+    if (!post) {
+      console.warn(
+        `⚠️  No post data in "${op}" event (offset: ${message.offset})`,
+      );
+      skipped.push(message);
+      continue;
+    }
+
+    const existing = entries.get(post.id);
+    entries.set(post.id, {
+      postId: post.id,
+      event,
+      messages: [...(existing?.messages ?? []), message],
+    });
+  }
+
+  return { entries: [...entries.values()], skipped, poisoned, truncated };
+}
+
+/**
+ * トゥームストーンをまとめる
+ * 同じバッチに同じIDのイベントがあれば（直前の delete）それに含めるだけにする
+ */
+function collapseTombstone(
+  message: KafkaMessage,
+  entries: Map<number, BulkEntry>,
+  skipped: KafkaMessage[],
+  poisoned: PoisonedMessage[],
+): void {
+  let postId: number | null;
+  try {
+    postId = recordIdFromKey(message.key);
+  } catch (error) {
+    poisoned.push({ message, error, attempts: 1, reason: "non-retryable" });
+    return;
+  }
+
+  if (postId === null) {
+    skipped.push(message);
+    return;
+  }
+
+  const existing = entries.get(postId);
+  if (existing) {
+    existing.messages.push(message);
+    return;
+  }
+  entries.set(postId, { postId, event: null, messages: [message] });
+}
+
+/**
+ * _bulk リクエストの operations を組み立てる（外部バージョン付き）
+ * エントリごとに indices の順で並べる（レスポンスのアイテムも同じ順になる）
+ */
+export function toBulkOperations(
+  entries: BulkEntry[],
+  indices: string[] = [INDEX_NAME],
+): object[] {
+  return entries.flatMap((entry) =>
+    indices.flatMap((index): object[] => {
+      if (!entry.event) {
+        return [{ delete: { _index: index, _id: entry.postId.toString() } }];
+      }
+
+      const target = {
+        _index: index,
+        _id: entry.postId.toString(),
+        version: eventVersion(entry.event),
+        version_type: "external" as const,
+      };
+
+      if (entry.event.payload.op === "d") {
+        return [{ delete: target }];
+      }
+      return [{ index: target }, toSearchDocument(entry.event.payload.after!)];
+    }),
+  );
+}
+
+type ItemOutcome =
+  | { status: "ok" }
+  | { status: "skipped" } // バージョン競合（古いイベント）
+  | { status: "failed"; error: unknown; retryable: boolean };
+
+/**
+ * _bulk レスポンスのアイテムを判定する
+ */
+export function classifyBulkItem(item: {
+  status: number;
+  error?: unknown;
+  op: "index" | "delete";
+}): ItemOutcome {
+  if (item.status >= 200 && item.status < 300) return { status: "ok" };
+  if (item.status === 409) return { status: "skipped" };
+  // 削除済みドキュメントの削除は成功扱い
+  if (item.op === "delete" && item.status === 404) return { status: "ok" };
+
+  const error = Object.assign(
+    new Error(
+      `Bulk item failed with status ${item.status}: ${JSON.stringify(item.error)}`,
+    ),
+    { meta: { statusCode: item.status } },
+  );
+  return { status: "failed", error, retryable: isRetryableError(error) };
+}
+
+/**
+ * 1つのエントリを複数のインデックスに書いた結果をまとめる
+ * 失敗があれば失敗（1つでもリトライできなければ Poison Pill）、すべて競合ならスキップ
+ */
+export function combineItemOutcomes(outcomes: ItemOutcome[]): ItemOutcome {
+  const failed = outcomes.filter(
+    (outcome): outcome is Extract<ItemOutcome, { status: "failed" }> =>
+      outcome.status === "failed",
+  );
+  if (failed.length > 0) {
+    return (
+      failed.find((outcome) => !outcome.retryable) ?? failed[failed.length - 1]
+    );
+  }
+  if (outcomes.every((outcome) => outcome.status === "skipped")) {
+    return { status: "skipped" };
+  }
+  return { status: "ok" };
+}
+
+export interface BulkIndexResult {
+  indexed: BulkEntry[];
+  skipped: BulkEntry[];
+  poisoned: {
+    entry: BulkEntry;
+    error: unknown;
+    attempts: number;
+    reason: PoisonPillReason;
+  }[];
+  // 停止要求などで処理しきれなかったもの（オフセットを進めてはいけない）
+  pending: BulkEntry[];
+}
+
+export interface BulkIndexOptions extends BatchWriteOptions {
+  sleep?: (ms: number) => Promise<void>;
+  // 書き込み先（再索引中は新旧両方のインデックス）
+  indices?: string[];
+}
+
+/**
+ * エントリを _bulk で書き込み、一時的に失敗したアイテムだけをリトライする
+ */
+export async function bulkIndex(
+  es: Client,
+  entries: BulkEntry[],
+  policy: RetryPolicy,
+  options: BulkIndexOptions = {},
+): Promise<BulkIndexResult> {
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const indices = options.indices ?? [INDEX_NAME];
+  const result: BulkIndexResult = {
+    indexed: [],
+    skipped: [],
+    poisoned: [],
+    pending: [],
+  };
+
+  let remaining = entries;
+
+  for (let attempt = 1; remaining.length > 0; attempt++) {
+    const retry: { entry: BulkEntry; error: unknown }[] = [];
+
+    try {
+      const response = await es.bulk({
+        operations: toBulkOperations(remaining, indices),
+      });
+
+      remaining.forEach((entry, i) => {
+        const items = response.items.slice(
+          i * indices.length,
+          (i + 1) * indices.length,
+        );
+        const outcome = combineItemOutcomes(
+          items.map((item) => {
+            const op = item.delete ? "delete" : "index";
+            const { status, error } = item[op]!;
+            return classifyBulkItem({ status, error, op });
+          }),
+        );
+
+        if (outcome.status === "ok") result.indexed.push(entry);
+        else if (outcome.status === "skipped") result.skipped.push(entry);
+        else if (outcome.retryable) retry.push({ entry, error: outcome.error });
+        else {
+          result.poisoned.push({
+            entry,
+            error: outcome.error,
+            attempts: attempt,
+            reason: "non-retryable",
+          });
+        }
+      });
+    } catch (error) {
+      // リクエスト自体の失敗は全アイテムに適用
+      if (!isRetryableError(error)) {
+        for (const entry of remaining) {
+          result.poisoned.push({
+            entry,
+            error,
+            attempts: attempt,
+            reason: "non-retryable",
+          });
+        }
+        break;
+      }
+      retry.push(...remaining.map((entry) => ({ entry, error })));
+    }
+
+    if (retry.length === 0) break;
+
+    if (attempt >= policy.maxAttempts) {
+      for (const { entry, error } of retry) {
+        result.poisoned.push({
+          entry,
+          error,
+          attempts: attempt,
+          reason: "retries-exhausted",
+        });
+      }
+      break;
+    }
+
+    if (options.shouldContinue && !options.shouldContinue()) {
+      result.pending.push(...retry.map(({ entry }) => entry));
+      break;
+    }
+
+    const delayMs = backoffDelay(attempt, policy);
+    console.warn(
+      `  🔁 Retrying ${retry.length} bulk item(s) (${attempt + 1}/${policy.maxAttempts}) in ${delayMs}ms`,
+    );
+    await options.onRetry?.(attempt, delayMs);
+    await sleep(delayMs);
+
+    remaining = retry.map(({ entry }) => entry);
+  }
+
+  return result;
+}
+
+/**
+ * メッセージを投稿IDごとにまとめて _bulk で書き込む（ChangeEventSink.writeBatch）
+ * 諦めたメッセージは poisoned として返す（DLQ には呼び出し側が送る）
+ */
+export async function writeBulk(
+  es: Client,
+  messages: KafkaMessage[],
+  policy: RetryPolicy,
+  options: BulkIndexOptions = {},
+): Promise<BatchWriteResult> {
+  const { entries, skipped, poisoned, truncated } = collapseByPostId(messages);
+
+  // TRUNCATE は残りのエントリを書き込む前に反映する
+  if (truncated.length > 0) {
+    try {
+      await withRetry(() => handleTruncate(es, options.indices), policy, {
+        onRetry: (_error, attempt, delayMs) =>
+          options.onRetry?.(attempt, delayMs),
+      });
+      skipped.push(...truncated);
+    } catch (error) {
+      if (!(error instanceof PoisonPillError)) throw error;
+      // 複数あっても1回の削除で済むので、最後の TRUNCATE だけをDLQに送る
+      skipped.push(...truncated.slice(0, -1));
+      poisoned.push({
+        message: truncated.at(-1)!,
+        error: error.cause,
+        attempts: error.attempts,
+        reason: error.reason,
+      });
+    }
+  }
+
+  const result = await bulkIndex(es, entries, policy, options);
+
+  // まとめたメッセージはどれも反映されていないので、すべてをDLQに送る
+  // （リプレイでは1件ずつ書き直し、古いものはバージョン競合で捨てられる）
+  for (const { entry, error, attempts, reason } of result.poisoned) {
+    for (const message of entry.messages) {
+      poisoned.push({ message, error, attempts, reason });
+    }
+  }
+
+  console.log(
+    `  ✅ Bulk indexed ${result.indexed.length} post(s), skipped ${result.skipped.length} stale, dead-lettered ${poisoned.length} (${messages.length} message(s))`,
+  );
+
+  return {
+    completed: [
+      ...skipped,
+      ...result.indexed.flatMap((entry) => entry.messages),
+      ...result.skipped.flatMap((entry) => entry.messages),
+    ],
+    poisoned,
+    pending: result.pending.length,
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Search Indexer のイベントハンドラー（public.posts → Elasticsearch）
+ * 投稿を外部バージョン（LSN）付きで書き込み用のエイリアスの先のインデックスに書き、より新しいバージョンとの競合はスキップにする。
+ * バッチモードの _bulk は search-indexer-bulk.ts
+ */
+
+import type { Client } from "@elastic/elasticsearch";
+import type { DebeziumChangeEvent, Post } from "../types/index.js";
+import {
+  routeChangeEvent,
+  type ChangeEventSink,
+} from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import { eventVersion } from "../lib/event-version.js";
+import { recordIdFromKey } from "../lib/message-key.js";
+import type { DerivedPostStore, StoredPost } from "../lib/consistency-check.js";
+import {
+  fixedWriteIndices,
+  isNotFound,
+  responseStatusCode,
+  type WriteIndexResolver,
+} from "../lib/search-index.js";
+
+// 読み込み用のエイリアス（バージョン付きインデックスにする前はインデックスそのもの）
+export const INDEX_NAME = getConfig().elasticsearch.index;
+
+export const SEARCH_INDEXER_GROUP_ID = "search-indexer-group";
+
+/**
+ * Elasticsearch に保存するドキュメントの形
+ */
+export function toSearchDocument(post: Post) {
+  return {
+    id: post.id,
+    title: post.title,
+    content: post.content,
+    author: post.author,
+    created_at: post.created_at,
+    updated_at: post.updated_at,
+  };
+}
+
+/**
+ * 外部バージョンの競合（より新しいバージョンが既に書き込まれている）
+ * リプレイや順序の入れ替わりで起きるので、失敗ではなくスキップとして扱う
+ */
+export function isVersionConflict(error: unknown): boolean {
+  return responseStatusCode(error) === 409;
+}
+
+/**
+ * Elasticsearch インデックスへの反映先
+ * バッチ書き込み（writeBatch）は Consumer 本体で search-indexer-bulk から足す
+ * @param writeIndices 書き込み先（再索引中は新旧両方のインデックスに書く）
+ */
+export function createSearchIndexSink(
+  es: Client,
+  writeIndices: WriteIndexResolver = fixedWriteIndices(INDEX_NAME),
+): ChangeEventSink<Post> {
+  return {
+    upsert: async (post, event) =>
+      indexPost(post, event, es, await writeIndices.resolve()),
+    remove: async (post, event) =>
+      deletePost(post, event, es, await writeIndices.resolve()),
+    truncate: async () => handleTruncate(es, await writeIndices.resolve()),
+    tombstone: async (key) =>
+      handleTombstone(key, es, await writeIndices.resolve()),
+    close: () => es.close(),
+  };
+}
+
+/**
+ * 変更イベントをopに応じて振り分ける
+ * 失敗時は例外をそのまま投げる（呼び出し側でDLQに送る）
+ */
+export async function handleChangeEvent(
+  event: DebeziumChangeEvent<Post>,
+  es: Client,
+) {
+  await routeChangeEvent(event, createSearchIndexSink(es));
+}
+
+export async function indexPost(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  es: Client,
+  indices: string[] = [INDEX_NAME],
+) {
+  const version = eventVersion(event);
+  console.log(
+    `  📝 Indexing post ${post.id} (version ${version}): "${post.title}"`,
+  );
+
+  // インデックスごとにバージョンを持つので、片方だけ古くても残りには書く
+  for (const index of indices) {
+    try {
+      await es.index({
+        index,
+        id: post.id.toString(),
+        // LSNを外部バージョンとして使い、古いイベントで上書きしない
+        version,
+        version_type: "external",
+        document: toSearchDocument(post),
+      });
+    } catch (error) {
+      if (isVersionConflict(error)) {
+        console.log(`  ⏭️  Skipped stale event for post ${post.id} (${index})`);
+        continue;
+      }
+      throw error;
+    }
+
+    console.log(`  ✅ Indexed post ${post.id} to Elasticsearch (${index})`);
+  }
+}
+
+export async function deletePost(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  es: Client,
+  indices: string[] = [INDEX_NAME],
+) {
+  const version = eventVersion(event);
+  console.log(`  🗑️  Deleting post ${post.id} from index (version ${version})`);
+
+  for (const index of indices) {
+    try {
+      // 削除もバージョン付きにして、後から届いた古い create で復活させない
+      await es.delete({
+        index,
+        id: post.id.toString(),
+        version,
+        version_type: "external",
+      });
+
+      console.log(`  ✅ Deleted post ${post.id} from Elasticsearch (${index})`);
+    } catch (error) {
+      if (isVersionConflict(error)) {
+        console.log(
+          `  ⏭️  Skipped stale delete for post ${post.id} (${index})`,
+        );
+        continue;
+      }
+      // 404エラーは無視（既に削除済み）
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * TRUNCATE: インデックスの全ドキュメントを削除する
+ */
+export async function handleTruncate(
+  es: Client,
+  indices: string[] = [INDEX_NAME],
+) {
+  for (const index of indices) {
+    console.log(`  🧹 Truncating: deleting all documents from "${index}"`);
+
+    const result = await es.deleteByQuery({
+      index,
+      query: { match_all: {} },
+      // 削除中に書き込まれたドキュメントとの競合で止めない
+      conflicts: "proceed",
+      refresh: true,
+    });
+
+    console.log(
+      `  ✅ Deleted ${result.deleted ?? 0} document(s) from Elasticsearch (${index})`,
+    );
+  }
+}
+
+/**
+ * トゥームストーン（value が null のメッセージ）: キーの id で削除する
+ *
+ * 通常は直前の delete イベントで削除済みなので 404 になる。
+ * ログコンパクションで delete イベントが消えてトゥームストーンだけが残っている場合に備える。
+ * バージョンが分からないので、バージョン無しで削除する。
+ */
+export async function handleTombstone(
+  key: Buffer | null,
+  es: Client,
+  indices: string[] = [INDEX_NAME],
+) {
+  const postId = recordIdFromKey(key);
+
+  if (postId === null) {
+    console.warn("⚠️  Received empty message without a key");
+    return;
+  }
+
+  for (const index of indices) {
+    try {
+      await es.delete({ index, id: postId.toString() });
+      console.log(
+        `  🪦 Deleted post ${postId} left behind by a compacted delete`,
+      );
+    } catch (error) {
+      // 404エラーは無視（delete イベントで削除済み）
+      if (!isNotFound(error)) {
+        throw error;
+      }
+      console.log(`  🪦 Tombstone for post ${postId} (already deleted)`);
+    }
+  }
+}
+
+/**
+ * 突き合わせ（consistency-check）用の Elasticsearch インデックス
+ * 直す時も LSN を外部バージョンにして書く（より新しいバージョンがあれば 409 でスキップ）
+ * @param index 突き合わせるインデックス（再索引では新しいインデックスを空から「直す」）
+ */
+export function createSearchConsistencyStore(
+  es: Client,
+  index: string = INDEX_NAME,
+): DerivedPostStore {
+  return {
+    name: "elasticsearch",
+    async read(ids) {
+      const { docs } = await es.mget<Post>({
+        index,
+        ids: ids.map(String),
+      });
+      const stored = new Map<number, StoredPost>();
+      for (const doc of docs) {
+        if ("found" in doc && doc.found && doc._source) {
+          stored.set(Number(doc._id), { post: doc._source });
+        }
+      }
+      return stored;
+    },
+    async repair({ upsert, remove }, version) {
+      let repaired = 0;
+      for (const { post } of upsert) {
+        try {
+          await es.index({
+            index,
+            id: post.id.toString(),
+            version,
+            version_type: "external",
+            document: toSearchDocument(post),
+          });
+          repaired++;
+        } catch (error) {
+          if (!isVersionConflict(error)) throw error;
+        }
+      }
+      for (const { id } of remove) {
+        try {
+          await es.delete({
+            index,
+            id: id.toString(),
+            version,
+            version_type: "external",
+          });
+          repaired++;
+        } catch (error) {
+          if (!isVersionConflict(error) && !isNotFound(error)) {
+            throw error;
+          }
+        }
+      }
+      return repaired;
+    },
+  };
+}
@@ -3,146 +3,80 @@
  * Kafka (blogdb.public.posts) → Elasticsearch
  *
  * PostgreSQLの変更をリアルタイムでElasticsearchに反映
+ *
+ * SEARCH_INDEXER_BATCH_MODE=true でバッチモード（eachBatch + _bulk）になる。
+ * 初回スナップショットのように大量のイベントが流れる場合に使う。
+ *
+ * SEARCH_INDEXER_TRANSACTION_MODE=true でトランザクションモードになる。
+ * blogdb.transaction の BEGIN/END を見て、1つの Postgres トランザクションの
+ * イベントが揃ってから1回の _bulk で書き込む。
+ *
+ * 書き込み先は書き込み用のエイリアス（posts_write）が指すインデックス。
+ * 再索引（npm run search:reindex）中は新旧両方のインデックスに書く。
  */
 
-import { Kafka } from "kafkajs";
 import { Client } from "@elastic/elasticsearch";
-import type { DebeziumChangeEvent } from "../types/index.js";
-
-const kafka = new Kafka({
-  clientId: "search-indexer",
-  brokers: ["localhost:9092"],
-  retry: {
-    initialRetryTime: 100,
-    retries: 8,
-  },
-});
-
-const es = new Client({ node: "http://localhost:9200" });
-
-async function main() {
-  const consumer = kafka.consumer({ groupId: "search-indexer-group" });
-
-  console.log("🚀 Starting Search Indexer Consumer...");
-
-  try {
-    await consumer.connect();
-    console.log("✅ Connected to Kafka");
-
-    await consumer.subscribe({
-      topic: "blogdb.public.posts",
-      fromBeginning: true, // 初回は最初から読む
-    });
-    console.log("📡 Subscribed to topic: blogdb.public.posts");
-
-    await consumer.run({
-      eachMessage: async ({ topic, partition, message }) => {
-        if (!message.value) {
-          console.warn("⚠️  Received empty message");
-          return;
-        }
-
-        try {
-          const changeEvent: DebeziumChangeEvent = JSON.parse(
-            message.value.toString(),
-          );
-
-          const operation = changeEvent.payload.op;
-          console.log(
-            `\n📨 Received event: ${operation} (offset: ${message.offset})`,
-          );
-
-          switch (operation) {
-            case "c": // Create
-            case "r": // Read (snapshot)
-            case "u": // Update
-              await handleCreateOrUpdate(changeEvent);
-              break;
-
-            case "d": // Delete
-              await handleDelete(changeEvent);
-              break;
-
-            default:
-              console.warn(`⚠️  Unknown operation: ${operation}`);
-          }
-        } catch (error) {
-          console.error("❌ Error processing message:", error);
-          // エラーでも続行（プロダクションではDLQに送る等の対応が必要）
-        }
-      },
-    });
-  } catch (error) {
-    console.error("❌ Fatal error in consumer:", error);
-    process.exit(1);
-  }
-}
-
-async function handleCreateOrUpdate(event: DebeziumChangeEvent) {
-  const post = event.payload.after;
-
-  if (!post) {
-    console.warn('⚠️  No "after" data in event');
-    return;
-  }
-
-  console.log(`  📝 Indexing post ${post.id}: "${post.title}"`);
-
-  try {
-    await es.index({
-      index: "posts",
-      id: post.id.toString(),
-      document: {
-        id: post.id,
-        title: post.title,
-        content: post.content,
-        author: post.author,
-        created_at: post.created_at,
-        updated_at: post.updated_at,
-      },
-    });
-
-    console.log(`  ✅ Indexed post ${post.id} to Elasticsearch`);
-  } catch (error) {
-    console.error(`  ❌ Failed to index post ${post.id}:`, error);
-  }
-}
-
-async function handleDelete(event: DebeziumChangeEvent) {
-  const post = event.payload.before;
-
-  if (!post) {
-    console.warn('⚠️  No "before" data in delete event');
-    return;
-  }
-
-  console.log(`  🗑️  Deleting post ${post.id} from index`);
-
-  try {
-    await es.delete({
-      index: "posts",
-      id: post.id.toString(),
-    });
-
-    console.log(`  ✅ Deleted post ${post.id} from Elasticsearch`);
-  } catch (error) {
-    // 404エラーは無視（既に削除済み）
-    if ((error as any).meta?.statusCode !== 404) {
-      console.error(`  ❌ Failed to delete post ${post.id}:`, error);
-    }
-  }
-}
-
-// シグナルハンドリング（graceful shutdown）
-process.on("SIGINT", async () => {
-  console.log("\n🛑 Shutting down consumer...");
-  process.exit(0);
+import Redis from "ioredis";
+import {
+  SEARCH_INDEXER_GROUP_ID,
+  createSearchIndexSink,
+} from "./search-indexer-handlers.js";
+import { writeBulk } from "./search-indexer-bulk.js";
+import { ChangeEventConsumer } from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import { createWriteIndexResolver } from "../lib/search-index.js";
+import { createWatermarkRecorder } from "../lib/watermark.js";
+
+const config = getConfig();
+
+// トランザクションモード: 1つの Postgres トランザクションを1回の _bulk で書き込む
+const TRANSACTION_MODE = config.searchIndexer.transactionMode;
+
+// バッチモード（トランザクションモードと同時には使えない）
+const BATCH_MODE = !TRANSACTION_MODE && config.searchIndexer.batchMode;
+
+const es = new Client({ node: config.elasticsearch.node });
+
+// 書き込み用のエイリアスが指すインデックス（再索引の開始・終了を読み直して追う）
+const writeIndices = createWriteIndexResolver(es, {
+  writeAlias: config.elasticsearch.writeAlias,
+  fallbackIndex: config.elasticsearch.index,
+  refreshIntervalMs: config.searchIndexer.aliasRefreshMs,
 });
 
-process.on("SIGTERM", async () => {
-  console.log("\n🛑 Shutting down consumer...");
-  process.exit(0);
+// ウォーターマーク（反映済みの LSN）の記録先
+const redis = new Redis({
+  ...config.redis,
+  retryStrategy: (times) => Math.min(times * 50, 2000),
 });
 
-// メイン実行
-main();
+new ChangeEventConsumer({
+  name: "search-indexer",
+  groupId: SEARCH_INDEXER_GROUP_ID,
+  topic: config.kafka.postsTopic,
+  sink: {
+    ...createSearchIndexSink(es, writeIndices),
+    // バッチ・トランザクションモードでは _bulk でまとめて書き込む
+    writeBatch: async (messages, options) =>
+      writeBulk(es, messages, config.searchIndexer.retryPolicy, {
+        ...options,
+        indices: await writeIndices.resolve(),
+      }),
+  },
+  retryPolicy: config.searchIndexer.retryPolicy,
+  // 読み込み API の ?after= 用に、反映済みの LSN を記録する
+  watermark: {
+    ...createWatermarkRecorder(redis, "search-indexer"),
+    close: async () => {
+      await redis.quit();
+    },
+  },
+  mode: TRANSACTION_MODE ? "transaction" : BATCH_MODE ? "batch" : "message",
+  // 1回の _bulk リクエストに含める最大メッセージ数
+  batchSize: config.searchIndexer.bulkSize,
+  // ブローカーがバッチを貯める最大待ち時間
+  consumerConfig: BATCH_MODE
+    ? { maxWaitTimeInMs: config.searchIndexer.flushIntervalMs }
+    : {},
+  metricsPort: config.searchIndexer.metricsPort,
+}).run();
@@ -0,0 +1,403 @@
+/**
+ * Timeline のイベントハンドラー（public.posts, public.follows → Redis のホームタイムライン）
+ *
+ * - 投稿の作成: 著者のフォロワー全員の timeline:{user} に投稿IDを配る（fan-out on write）
+ * - 投稿の削除: 配ったタイムラインから外す
+ * - フォロー: followee の最近の投稿を follower のタイムラインに取り込む
+ * - フォロー解除: followee の投稿を follower のタイムラインから外す
+ *
+ * フォロワーの多い著者の投稿は配らず、API が読み込み時に混ぜる（src/lib/timeline.ts）。
+ * posts と follows は別のトピックなので届く順番は決まらないが、
+ * フォロー時の取り込みとフォロー解除時の取り消しがあるので、どちらが先でも同じ状態になる。
+ */
+
+import type Redis from "ioredis";
+import type { DebeziumChangeEvent, Follow, Post } from "../types/index.js";
+import type {
+  ChangeEventSink,
+  TableSinks,
+} from "../lib/change-event-consumer.js";
+import { eventVersion } from "../lib/event-version.js";
+import { recordIdFromKey } from "../lib/message-key.js";
+import { TOMBSTONE_TTL } from "../lib/versioned-cache.js";
+import {
+  CELEBRITIES_KEY,
+  authorTimelinePostsKey,
+  followKey,
+  followersKey,
+  followingKey,
+  parseEntries,
+  timelineKey,
+  timelinePostKey,
+  type TimelineEntry,
+} from "../lib/timeline.js";
+import { deleteKeysByPattern } from "./cache-updater-scripts.js";
+
+export const TIMELINE_GROUP_ID = "timeline-group";
+
+export interface TimelineOptions {
+  // フォロワーがこの数を超えた著者の投稿は配らない
+  fanoutMaxFollowers: number;
+  // タイムラインに残す投稿の数（古いものから消す）
+  maxLength: number;
+}
+
+// 1回のパイプラインで書くタイムラインの数
+const PIPELINE_CHUNK = 500;
+
+// TRUNCATE で消すキー
+const POSTS_KEY_PATTERNS = [
+  "timeline:*",
+  "timeline-posts:*",
+  "timeline-post:*",
+];
+const FOLLOWS_KEY_PATTERNS = [
+  "followers:*",
+  "following:*",
+  "follow:*",
+  "timeline:*",
+];
+
+/**
+ * テーブルごとのタイムラインへの反映先
+ * 同じ接続を使うので close を共有する
+ */
+export function createTimelineSinks(
+  redis: Redis,
+  options: TimelineOptions,
+): TableSinks {
+  const close = async () => {
+    await redis.quit();
+  };
+  const posts: ChangeEventSink<Post> = {
+    upsert: (post, event) => fanOutPost(post, event, redis, options),
+    remove: (post, event) => withdrawDeletedPost(post, event, redis),
+    truncate: () => deleteKeys(redis, POSTS_KEY_PATTERNS),
+    tombstone: (key) => handlePostTombstone(key, redis),
+    close,
+  };
+  const follows: ChangeEventSink<Follow> = {
+    upsert: (follow, event) => applyFollow(follow, event, redis, options),
+    remove: (follow, event) => applyUnfollow(follow, event, redis),
+    truncate: () => deleteKeys(redis, FOLLOWS_KEY_PATTERNS),
+    tombstone: (key) => handleFollowTombstone(key, redis),
+    close,
+  };
+  return { "public.posts": posts, "public.follows": follows };
+}
+
+/**
+ * 投稿をフォロワーのタイムラインに配る
+ * 作成だけでなく更新でも配り直す（ZADD なので何度配っても同じ）
+ */
+export async function fanOutPost(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+  options: TimelineOptions,
+) {
+  const version = eventVersion(event);
+  const record = await redis.hgetall(timelinePostKey(post.id));
+  if (isStale(record, version)) {
+    console.log(`  ⏭️  Skipped stale event for post ${post.id}`);
+    return;
+  }
+
+  // 著者が変わっていれば、以前の著者の投稿として配った分を取り消す
+  if (record.author && !record.deleted && record.author !== post.author) {
+    await withdrawPost(redis, post.id, record.author);
+  }
+
+  const entry = {
+    postId: post.id,
+    score: Date.parse(post.created_at ?? "") || 0,
+  };
+  const authorPosts = authorTimelinePostsKey(post.author);
+  await redis.zadd(authorPosts, entry.score, String(entry.postId));
+  // フォロワーのタイムラインと同じ長さに切り詰める（取り込み・読み込み時に混ぜるのも最新 maxLength 件まで）
+  await redis.zremrangebyrank(authorPosts, 0, -(options.maxLength + 1));
+
+  if (await isFannedOutOnRead(redis, post.author, options)) {
+    console.log(
+      `  🌟 Post ${post.id} by ${post.author} will be merged on read (not fanned out)`,
+    );
+  } else {
+    const followers = await redis.smembers(followersKey(post.author));
+    await addToTimelines(redis, followers, [entry], options.maxLength);
+    console.log(
+      `  📮 Fanned out post ${post.id} by ${post.author} to ${followers.length} follower(s)`,
+    );
+  }
+
+  await saveRecord(redis, timelinePostKey(post.id), {
+    author: post.author,
+    version,
+  });
+}
+
+/**
+ * 削除された投稿をタイムラインから外す
+ */
+export async function withdrawDeletedPost(
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  redis: Redis,
+) {
+  const version = eventVersion(event);
+  const key = timelinePostKey(post.id);
+  const record = await redis.hgetall(key);
+  if (isStale(record, version)) {
+    console.log(`  ⏭️  Skipped stale delete for post ${post.id}`);
+    return;
+  }
+
+  // REPLICA IDENTITY DEFAULT では before に著者が無いので、配った時の著者を使う
+  const author = record.deleted ? null : (record.author ?? post.author);
+  if (author) {
+    await withdrawPost(redis, post.id, author);
+    console.log(`  🗑️  Withdrew post ${post.id} from timelines`);
+  }
+
+  // 遅れて届いた古いイベントで配り直さないよう、バージョンだけ短時間残す
+  await saveRecord(redis, key, { version, deleted: 1 }, TOMBSTONE_TTL);
+}
+
+/**
+ * follower のフォローを反映し、followee の最近の投稿をタイムラインに取り込む
+ */
+export async function applyFollow(
+  follow: Follow,
+  event: DebeziumChangeEvent<Follow>,
+  redis: Redis,
+  options: TimelineOptions,
+) {
+  const version = eventVersion(event);
+  const key = followKey(follow.id);
+  const record = await redis.hgetall(key);
+  if (isStale(record, version)) {
+    console.log(`  ⏭️  Skipped stale event for follow ${follow.id}`);
+    return;
+  }
+
+  // 行の follower / followee が書き換えられていれば、以前のフォローを外す
+  if (
+    record.follower &&
+    !record.deleted &&
+    (record.follower !== follow.follower || record.followee !== follow.followee)
+  ) {
+    await unfollow(redis, record.follower, record.followee);
+  }
+
+  await redis.sadd(followersKey(follow.followee), follow.follower);
+  await redis.sadd(followingKey(follow.follower), follow.followee);
+  console.log(`  🤝 ${follow.follower} follows ${follow.followee}`);
+
+  // 配らない著者の投稿は読み込み時に混ぜるので取り込まない
+  if (!(await isFannedOutOnRead(redis, follow.followee, options))) {
+    const recent = await redis.zrevrange(
+      authorTimelinePostsKey(follow.followee),
+      0,
+      options.maxLength - 1,
+      "WITHSCORES",
+    );
+    const entries = parseEntries(recent);
+    await addToTimelines(redis, [follow.follower], entries, options.maxLength);
+    console.log(
+      `  📥 Backfilled ${entries.length} post(s) of ${follow.followee} into the timeline of ${follow.follower}`,
+    );
+  }
+
+  await saveRecord(redis, key, {
+    follower: follow.follower,
+    followee: follow.followee,
+    version,
+  });
+}
+
+/**
+ * フォロー解除を反映し、followee の投稿を follower のタイムラインから外す
+ */
+export async function applyUnfollow(
+  follow: Follow,
+  event: DebeziumChangeEvent<Follow>,
+  redis: Redis,
+) {
+  const version = eventVersion(event);
+  const key = followKey(follow.id);
+  const record = await redis.hgetall(key);
+  if (isStale(record, version)) {
+    console.log(`  ⏭️  Skipped stale delete for follow ${follow.id}`);
+    return;
+  }
+
+  // before に主キーしか無い場合は、フォローした時の記録を使う
+  const follower = record.deleted ? null : (record.follower ?? follow.follower);
+  const followee = record.deleted ? null : (record.followee ?? follow.followee);
+  if (follower && followee) {
+    await unfollow(redis, follower, followee);
+  }
+
+  await saveRecord(redis, key, { version, deleted: 1 }, TOMBSTONE_TTL);
+}
+
+/**
+ * トゥームストーン: delete イベントがコンパクションで消えていれば、キーの id で投稿を外す
+ */
+export async function handlePostTombstone(key: Buffer | null, redis: Redis) {
+  const postId = recordIdFromKey(key);
+  if (postId === null) {
+    console.warn("⚠️  Received empty message without a key");
+    return;
+  }
+
+  const record = await redis.hgetall(timelinePostKey(postId));
+  if (!record.author || record.deleted) {
+    console.log(`  🪦 Tombstone for post ${postId} (already withdrawn)`);
+    return;
+  }
+
+  await withdrawPost(redis, postId, record.author);
+  await redis.del(timelinePostKey(postId));
+  console.log(`  🪦 Withdrew post ${postId} left behind by a compacted delete`);
+}
+
+/**
+ * トゥームストーン: delete イベントがコンパクションで消えていれば、キーの id でフォローを外す
+ */
+export async function handleFollowTombstone(key: Buffer | null, redis: Redis) {
+  const followId = recordIdFromKey(key);
+  if (followId === null) {
+    console.warn("⚠️  Received empty message without a key");
+    return;
+  }
+
+  const record = await redis.hgetall(followKey(followId));
+  if (!record.follower || record.deleted) {
+    console.log(`  🪦 Tombstone for follow ${followId} (already removed)`);
+    return;
+  }
+
+  await unfollow(redis, record.follower, record.followee);
+  await redis.del(followKey(followId));
+  console.log(
+    `  🪦 Removed follow ${followId} left behind by a compacted delete`,
+  );
+}
+
+/**
+ * 著者の投稿を配らない（読み込み時に混ぜる）か
+ * フォロワーが上限を超えたら timeline-celebrities に入れる。一度入れたら外さない
+ * （外すと、配らなかった投稿がどこからも読めなくなる）
+ */
+async function isFannedOutOnRead(
+  redis: Redis,
+  author: string,
+  options: TimelineOptions,
+): Promise<boolean> {
+  if (await redis.sismember(CELEBRITIES_KEY, author)) return true;
+
+  const followers = await redis.scard(followersKey(author));
+  if (followers <= options.fanoutMaxFollowers) return false;
+
+  await redis.sadd(CELEBRITIES_KEY, author);
+  console.log(
+    `  🌟 ${author} has ${followers} followers; posts will be merged on read from now on`,
+  );
+  return true;
+}
+
+/**
+ * 投稿を著者の投稿とフォロワーのタイムラインから外す
+ */
+async function withdrawPost(redis: Redis, postId: number, author: string) {
+  await redis.zrem(authorTimelinePostsKey(author), String(postId));
+  const followers = await redis.smembers(followersKey(author));
+  await runInChunks(redis, followers, (pipeline, follower) =>
+    pipeline.zrem(timelineKey(follower), String(postId)),
+  );
+}
+
+/**
+ * フォローを外し、followee の投稿を follower のタイムラインから外す
+ */
+async function unfollow(redis: Redis, follower: string, followee: string) {
+  await redis.srem(followersKey(followee), follower);
+  await redis.srem(followingKey(follower), followee);
+
+  const postIds = await redis.zrange(authorTimelinePostsKey(followee), 0, -1);
+  await runInChunks(redis, postIds, (pipeline, postId) =>
+    pipeline.zrem(timelineKey(follower), postId),
+  );
+  console.log(`  👋 ${follower} unfollowed ${followee}`);
+}
+
+/**
+ * タイムラインに投稿を足し、長さを maxLength に切り詰める
+ */
+async function addToTimelines(
+  redis: Redis,
+  users: string[],
+  entries: TimelineEntry[],
+  maxLength: number,
+) {
+  if (entries.length === 0) return;
+  await runInChunks(redis, users, (pipeline, user) => {
+    for (const entry of entries) {
+      pipeline.zadd(timelineKey(user), entry.score, String(entry.postId));
+    }
+    // スコアの低い（古い）ものから消す
+    pipeline.zremrangebyrank(timelineKey(user), 0, -(maxLength + 1));
+  });
+}
+
+/**
+ * items を PIPELINE_CHUNK 件ずつパイプラインにまとめて実行する
+ */
+async function runInChunks<T>(
+  redis: Redis,
+  items: T[],
+  enqueue: (pipeline: ReturnType<Redis["pipeline"]>, item: T) => void,
+) {
+  for (let i = 0; i < items.length; i += PIPELINE_CHUNK) {
+    const pipeline = redis.pipeline();
+    for (const item of items.slice(i, i + PIPELINE_CHUNK)) {
+      enqueue(pipeline, item);
+    }
+    for (const [error] of (await pipeline.exec()) ?? []) {
+      if (error) throw error;
+    }
+  }
+}
+
+// 反映済みのバージョン以下のイベントは古い
+function isStale(record: Record<string, string>, version: number): boolean {
+  return record.version !== undefined && Number(record.version) >= version;
+}
+
+/**
+ * 投稿・フォローの記録を書き換える（ttlSeconds を渡すとトゥームストーンとして期限を付ける）
+ */
+async function saveRecord(
+  redis: Redis,
+  key: string,
+  fields: Record<string, string | number>,
+  ttlSeconds?: number,
+) {
+  const multi = redis.multi().del(key).hset(key, fields);
+  if (ttlSeconds !== undefined) multi.expire(key, ttlSeconds);
+  const results = await multi.exec();
+  if (!results) {
+    throw new Error("Redis transaction was aborted");
+  }
+}
+
+async function deleteKeys(redis: Redis, patterns: string[]) {
+  console.log(`  🧹 Truncating: deleting ${patterns.join(", ")}`);
+
+  let deleted = 0;
+  for (const pattern of patterns) {
+    deleted += await deleteKeysByPattern(redis, pattern);
+  }
+
+  console.log(`  ✅ Deleted ${deleted} key(s) of timelines`);
+}
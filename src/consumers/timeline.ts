@@ -0,0 +1,39 @@
+/**
+ * Timeline Consumer
+ * Kafka (blogdb.public.posts, blogdb.public.follows) → Redis（ホームタイムライン）
+ *
+ * 投稿をフォロワーのタイムラインに配り（fan-out on write）、
+ * フォロー・フォロー解除でタイムラインを取り込み・取り消す。
+ * フォロワーの多い著者の投稿は配らず、API が読み込み時に混ぜる（fan-out on read）。
+ */
+
+import Redis from "ioredis";
+import { TIMELINE_GROUP_ID, createTimelineSinks } from "./timeline-handlers.js";
+import { ChangeEventConsumer } from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import { tablesTopicPattern } from "../lib/tables.js";
+import { createWatermarkRecorder } from "../lib/watermark.js";
+
+const config = getConfig();
+
+const redis = new Redis({
+  ...config.redis,
+  retryStrategy: (times) => Math.min(times * 50, 2000),
+});
+
+new ChangeEventConsumer({
+  name: "timeline",
+  groupId: TIMELINE_GROUP_ID,
+  topic: tablesTopicPattern(config.kafka.topicPrefix, [
+    "public.posts",
+    "public.follows",
+  ]),
+  sinks: createTimelineSinks(redis, {
+    fanoutMaxFollowers: config.timeline.fanoutMaxFollowers,
+    maxLength: config.timeline.maxLength,
+  }),
+  retryPolicy: config.timeline.retryPolicy,
+  // 読み込み API の ?after= 用に、反映済みの LSN を記録する
+  watermark: createWatermarkRecorder(redis, "timeline"),
+  metricsPort: config.timeline.metricsPort,
+}).run();
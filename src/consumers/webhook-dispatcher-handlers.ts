@@ -0,0 +1,315 @@
+/**
+ * Webhook Dispatcher のイベントハンドラー（public.posts → 購読先への HTTP POST）
+ *
+ * 投稿の作成・更新・削除を、そのイベントを購読している webhook_subscriptions の url に POST する。
+ * - 購読先ごとに指数バックオフでリトライし、諦めたら失敗として記録する（他の購読先やパーティションは止めない）
+ * - 失敗が disableAfterFailures 回続いた購読は無効にする
+ * - 配信の結果は webhook_deliveries に記録し、成功済みの購読には同じイベントを送り直さない
+ * - 1件のイベントの配信は deadlineMs で打ち切る（ハートビートを送れないので、セッションが切れる前に返す）。
+ *   打ち切った購読先は記録せずにメッセージごと DLQ に送り、リプレイで配り直す
+ *
+ * 記録の前に落ちると同じイベントを再配信するので（at-least-once）、受け取る側は X-Webhook-Id で重複を除く。
+ */
+
+import type { DebeziumChangeEvent, Post } from "../types/index.js";
+import type { ChangeEventSink } from "../lib/change-event-consumer.js";
+import { eventVersion } from "../lib/event-version.js";
+import { defaultRegistry } from "../lib/metrics.js";
+import {
+  NonRetryableError,
+  PoisonPillError,
+  isRetryableError,
+  withRetry,
+  type RetryPolicy,
+} from "../lib/retry.js";
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signPayload,
+  type WebhookEvent,
+  type WebhookEventType,
+  type WebhookStore,
+  type WebhookSubscription,
+} from "../lib/webhooks.js";
+
+export const WEBHOOK_DISPATCHER_GROUP_ID = "webhook-dispatcher-group";
+
+export interface WebhookDispatchOptions {
+  // 購読先ごとのリトライ設定
+  retryPolicy: RetryPolicy;
+  // 1回の POST の待ち時間
+  timeoutMs: number;
+  // 続けてこの回数失敗した購読を無効にする
+  disableAfterFailures: number;
+  // 1件のイベントの配信にかける最大時間（次の試行が収まらなければ DLQ に回す）
+  deadlineMs: number;
+  // テスト用に差し替えられる待ち時間と時計
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+/**
+ * 購読先が 2xx 以外を返した
+ */
+export class WebhookResponseError extends Error {
+  constructor(readonly status: number) {
+    super(`Webhook endpoint responded with ${status}`);
+    this.name = "WebhookResponseError";
+  }
+}
+
+/**
+ * 打ち切りまでに次の試行が収まらない（deliverToSubscription の中だけで使う）
+ */
+class DeliveryDeadlineError extends Error {
+  constructor() {
+    super("Delivery deadline exceeded");
+    this.name = "DeliveryDeadlineError";
+  }
+}
+
+const deliveriesTotal = defaultRegistry.counter(
+  "webhook_deliveries_total",
+  "Webhook deliveries, by final result (succeeded or failed)",
+);
+
+/**
+ * 購読先への配信
+ * TRUNCATE とトゥームストーンは購読先に伝えるイベントが無いので、ログだけ出す
+ */
+export function createWebhookSink(
+  store: WebhookStore,
+  options: WebhookDispatchOptions,
+): ChangeEventSink<Post> {
+  return {
+    upsert: (post, event) => {
+      // スナップショット（r）は既存の投稿の読み込みなので配らない
+      if (event.payload.op === "r") {
+        console.log(`  ⏭️  Skipped snapshot read of post ${post.id}`);
+        return Promise.resolve();
+      }
+      const type = event.payload.op === "c" ? "post.created" : "post.updated";
+      return dispatchPostEvent(type, post, event, store, options);
+    },
+    remove: (post, event) =>
+      dispatchPostEvent("post.deleted", post, event, store, options),
+    truncate: async () => {
+      console.warn("  ⚠️  TRUNCATE is not delivered to webhooks");
+    },
+    tombstone: async () => {
+      // delete イベントの方で配信済み
+    },
+    close: () => store.close(),
+  };
+}
+
+/**
+ * 変更イベントから購読先に POST するボディを作る
+ * id は投稿とバージョン（LSN）から決まるので、再配信しても同じ
+ */
+export function toWebhookEvent(
+  type: WebhookEventType,
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+): WebhookEvent {
+  const occurredAt = event.payload.source?.ts_ms ?? event.payload.ts_ms;
+  return {
+    id: `post-${post.id}-${eventVersion(event)}`,
+    type,
+    occurred_at: new Date(occurredAt).toISOString(),
+    data: { post },
+  };
+}
+
+/**
+ * イベントを購読しているすべての購読先に配る
+ * 購読先ごとに並行に配り、すべての結果を記録してから返す
+ * 打ち切った購読先があれば NonRetryableError を投げてメッセージを DLQ に送る
+ */
+export async function dispatchPostEvent(
+  type: WebhookEventType,
+  post: Post,
+  event: DebeziumChangeEvent<Post>,
+  store: WebhookStore,
+  options: WebhookDispatchOptions,
+) {
+  const webhookEvent = toWebhookEvent(type, post, event);
+  const subscriptions = (await store.listActiveSubscriptions()).filter(
+    (subscription) => subscription.event_types.includes(type),
+  );
+  if (subscriptions.length === 0) return;
+
+  const delivered = await store.deliveredSubscriptionIds(webhookEvent.id);
+  const targets = subscriptions.filter(
+    (subscription) => !delivered.has(subscription.id),
+  );
+  if (targets.length < subscriptions.length) {
+    console.log(
+      `  ⏭️  ${webhookEvent.id} was already delivered to ${subscriptions.length - targets.length} subscription(s)`,
+    );
+  }
+
+  const deadline = (options.now ?? Date.now)() + options.deadlineMs;
+  const deferred = (
+    await Promise.all(
+      targets.map((subscription) =>
+        deliverToSubscription(
+          subscription,
+          webhookEvent,
+          store,
+          options,
+          deadline,
+        ),
+      ),
+    )
+  ).filter((completed) => !completed).length;
+
+  if (deferred > 0) {
+    throw new NonRetryableError(
+      `Deferred ${webhookEvent.id} to the DLQ: ${deferred} subscription(s) did not finish within ${options.deadlineMs}ms`,
+    );
+  }
+}
+
+/**
+ * 1つの購読先にリトライしながら配り、結果を記録する
+ * @returns 打ち切った（記録していない）なら false
+ */
+async function deliverToSubscription(
+  subscription: WebhookSubscription,
+  webhookEvent: WebhookEvent,
+  store: WebhookStore,
+  options: WebhookDispatchOptions,
+  deadline: number,
+): Promise<boolean> {
+  const now = options.now ?? Date.now;
+  const body = JSON.stringify(webhookEvent);
+  const startedAt = Date.now();
+  let attempts = 0;
+  let responseStatus: number | null = null;
+  let failure: unknown = null;
+
+  try {
+    await withRetry(
+      async (attempt) => {
+        attempts = attempt;
+        responseStatus = await postWebhook(
+          subscription,
+          webhookEvent,
+          body,
+          options.timeoutMs,
+        );
+      },
+      options.retryPolicy,
+      {
+        isRetryable: isRetryableDeliveryError,
+        onRetry: (_error, _attempt, delayMs) => {
+          if (now() + delayMs + options.timeoutMs > deadline) {
+            throw new DeliveryDeadlineError();
+          }
+        },
+        sleep: options.sleep,
+      },
+    );
+  } catch (error) {
+    if (error instanceof DeliveryDeadlineError) {
+      console.warn(
+        `  ⏳ Deferred ${webhookEvent.id} to subscription ${subscription.id} after ${attempts} attempt(s): the next attempt would pass the deadline`,
+      );
+      return false;
+    }
+    failure = error instanceof PoisonPillError ? error.cause : error;
+    if (failure instanceof WebhookResponseError) {
+      responseStatus = failure.status;
+    }
+  }
+
+  const status = failure === null ? "succeeded" : "failed";
+  deliveriesTotal.inc({ result: status });
+
+  const { disabled } = await store.recordDelivery(
+    {
+      subscription_id: subscription.id,
+      event_id: webhookEvent.id,
+      event_type: webhookEvent.type,
+      post_id: webhookEvent.data.post.id,
+      status,
+      attempts,
+      response_status: responseStatus,
+      error: failure === null ? null : errorMessage(failure),
+      duration_ms: Date.now() - startedAt,
+    },
+    options.disableAfterFailures,
+  );
+
+  if (failure === null) {
+    console.log(
+      `  📨 Delivered ${webhookEvent.id} (${webhookEvent.type}) to subscription ${subscription.id}`,
+    );
+  } else {
+    console.warn(
+      `  ❌ Failed to deliver ${webhookEvent.id} to subscription ${subscription.id} after ${attempts} attempt(s): ${errorMessage(failure)}`,
+    );
+  }
+  if (disabled) {
+    console.warn(
+      `  🚫 Disabled subscription ${subscription.id} after ${options.disableAfterFailures} consecutive failures`,
+    );
+  }
+  return true;
+}
+
+/**
+ * 署名を付けて POST し、HTTP ステータスを返す（2xx 以外は WebhookResponseError）
+ */
+export async function postWebhook(
+  subscription: WebhookSubscription,
+  webhookEvent: WebhookEvent,
+  body: string,
+  timeoutMs: number,
+): Promise<number> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const response = await fetch(subscription.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "unbundled-db-playground-webhooks",
+      "X-Webhook-Id": webhookEvent.id,
+      "X-Webhook-Event": webhookEvent.type,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signPayload(subscription.secret, timestamp, body),
+    },
+    body,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  // 接続を使い回せるよう、応答のボディは読み捨てる
+  await response.arrayBuffer().catch(() => undefined);
+
+  if (!response.ok) {
+    throw new WebhookResponseError(response.status);
+  }
+  return response.status;
+}
+
+/**
+ * 購読先の一時的な障害（5xx・408・429・タイムアウト・接続エラー）はリトライする
+ * それ以外の 4xx は何度送っても同じなので諦める
+ */
+export function isRetryableDeliveryError(error: unknown): boolean {
+  if (error instanceof WebhookResponseError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  // AbortSignal.timeout で打ち切った
+  if ((error as Error)?.name === "TimeoutError") return true;
+  // fetch は接続エラーを TypeError("fetch failed") で包む
+  if (error instanceof TypeError && error.cause) {
+    return isRetryableError(error.cause);
+  }
+  return isRetryableError(error);
+}
+
+function errorMessage(error: unknown): string {
+  const cause = (error as { cause?: { code?: string } })?.cause;
+  const message = error instanceof Error ? error.message : String(error);
+  return cause?.code ? `${message} (${cause.code})` : message;
+}
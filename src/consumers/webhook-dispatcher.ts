@@ -0,0 +1,32 @@
+/**
+ * Webhook Dispatcher
+ * Kafka (blogdb.public.posts) → 購読先への HTTP POST（webhook_subscriptions）
+ *
+ * Kafka を直接読めない外部のサービスに、投稿の作成・更新・削除を HMAC-SHA256 で署名して届ける。
+ * 配信の結果は webhook_deliveries に記録する（GET /webhooks/:id/deliveries）。
+ */
+
+import { Pool } from "pg";
+import {
+  WEBHOOK_DISPATCHER_GROUP_ID,
+  createWebhookSink,
+} from "./webhook-dispatcher-handlers.js";
+import { ChangeEventConsumer } from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import { PgWebhookStore } from "../lib/webhooks.js";
+
+const config = getConfig();
+
+new ChangeEventConsumer({
+  name: "webhook-dispatcher",
+  groupId: WEBHOOK_DISPATCHER_GROUP_ID,
+  topic: config.kafka.postsTopic,
+  sink: createWebhookSink(new PgWebhookStore(new Pool(config.postgres)), {
+    retryPolicy: config.webhooks.deliveryRetryPolicy,
+    timeoutMs: config.webhooks.timeoutMs,
+    disableAfterFailures: config.webhooks.disableAfterFailures,
+    deadlineMs: config.webhooks.deliveryDeadlineMs,
+  }),
+  retryPolicy: config.webhooks.retryPolicy,
+  metricsPort: config.webhooks.metricsPort,
+}).run();
@@ -0,0 +1,840 @@
+/**
+ * 変更イベント Consumer の共通フレームワーク
+ *
+ * Kafka の接続、JSON のパース、op による振り分け、リトライと DLQ、
+ * オフセットの手動コミット、メトリクス、シグナルでの停止（処理中のメッセージを待ってから閉じる）をここにまとめる。
+ * オフセットは反映し終わった（または DLQ に退避した）メッセージの分だけコミットする（at-least-once）。
+ * 派生ビューを増やす時は ChangeEventSink を1つ書けばよい。
+ * 複数のテーブルを購読する時は、topic を正規表現にして sinks にテーブルごとの sink を渡す
+ * （メッセージのトピックからテーブルを引いて振り分ける。sink の無いテーブルは読み飛ばす）。
+ *
+ * モード:
+ * - message:     1件ずつ反映する（デフォルト）
+ * - batch:       eachBatch で受け取り、sink.writeBatch でまとめて書き込む
+ * - transaction: Postgres トランザクションが揃ってからまとめて反映する
+ */
+
+import type { Server } from "node:http";
+import {
+  Kafka,
+  type Admin,
+  type Consumer,
+  type ConsumerConfig,
+  type EachBatchPayload,
+  type EachMessagePayload,
+  type KafkaMessage,
+  type Producer,
+} from "kafkajs";
+import type { DebeziumChangeEvent } from "../types/index.js";
+import { getConfig } from "./config.js";
+import { decodeChangeEvent } from "./event-decoder.js";
+import { publishToDeadLetter } from "./dead-letter.js";
+import {
+  PoisonPillError,
+  withRetry,
+  type PoisonPillReason,
+  type RetryPolicy,
+} from "./retry.js";
+import type {
+  BufferedEvent,
+  CompletedTransaction,
+} from "./transaction-buffer.js";
+import { OffsetCommitter } from "./offset-committer.js";
+import { ConsumerMetrics } from "./consumer-metrics.js";
+import {
+  defaultRegistry,
+  startMetricsServer,
+  type MetricsRegistry,
+} from "./metrics.js";
+import { onShutdownSignal, withDeadline } from "./shutdown.js";
+import { runTransactionAware } from "./transactional-consumer.js";
+import { tableNameOfTopic, type TableName, type TableRows } from "./tables.js";
+import type { CommittableOffset } from "./offset-tracker.js";
+import { WatermarkTracker, type WatermarkRecorder } from "./watermark.js";
+
+/**
+ * 変更イベントの反映先
+ * T はテーブルの行の型
+ */
+export interface ChangeEventSink<T = unknown> {
+  // 作成・更新・スナップショット（c / u / r）
+  upsert(after: T, event: DebeziumChangeEvent<T>): Promise<void>;
+  // 削除（d）
+  remove(before: T, event: DebeziumChangeEvent<T>): Promise<void>;
+  // TRUNCATE（t）。無ければ警告だけ出す
+  truncate?(): Promise<void>;
+  // トゥームストーン（value が null のメッセージ）。無ければ何もしない
+  tombstone?(key: Buffer | null): Promise<void>;
+  // トランザクションのイベントをまとめてアトミックに反映する（transaction モード）
+  // 同じ接続を使う sink どうしで同じ関数を共有すれば、それらのテーブルのイベントをまとめて1回で渡す
+  applyTransaction?(
+    transactionId: string,
+    events: DebeziumChangeEvent<T>[],
+  ): Promise<void>;
+  // メッセージをまとめて書き込み、メッセージごとの結果を返す（batch モード）
+  writeBatch?(
+    messages: KafkaMessage[],
+    options: BatchWriteOptions,
+  ): Promise<BatchWriteResult>;
+  // 停止時の後始末（接続を閉じるなど）
+  // 同じ接続を使う sink どうしで同じ関数を共有すれば、1回だけ呼ばれる
+  close?(): Promise<void>;
+}
+
+/**
+ * テーブル名 → そのテーブルの反映先
+ */
+export type TableSinks = {
+  [K in TableName]?: ChangeEventSink<TableRows[K]>;
+};
+
+export interface PoisonedMessage {
+  message: KafkaMessage;
+  error: unknown;
+  attempts: number;
+  reason: PoisonPillReason;
+}
+
+export interface BatchWriteOptions {
+  onRetry?: (attempt: number, delayMs: number) => unknown;
+  shouldContinue?: () => boolean;
+}
+
+export interface BatchWriteResult {
+  // 書き込み済み・スキップしたメッセージ
+  completed: KafkaMessage[];
+  // 諦めたメッセージ（フレームワークがDLQに送る）
+  poisoned: PoisonedMessage[];
+  // 停止要求などで処理しきれなかったメッセージの数（オフセットを進めてはいけない）
+  pending: number;
+}
+
+export type ConsumerMode = "message" | "batch" | "transaction";
+
+export interface ChangeEventConsumerOptions {
+  // DLQ トピック名・ログに使う名前（例: "search-indexer"）
+  name: string;
+  groupId: string;
+  // 購読するトピック。正規表現なら一致するすべてのトピック（tables.ts の tablesTopicPattern）
+  topic: string | RegExp;
+  // すべてのメッセージの反映先
+  sink?: ChangeEventSink;
+  // テーブルごとの反映先（sink の代わりに使う）
+  sinks?: TableSinks;
+  retryPolicy: RetryPolicy;
+  mode?: ConsumerMode;
+  // batch モードで1回の writeBatch に渡す最大メッセージ数
+  batchSize?: number;
+  consumerConfig?: Partial<ConsumerConfig>;
+  // 停止時に処理中のメッセージを待つ最大時間（デフォルト: 設定の shutdown.timeoutMs）
+  shutdownTimeoutMs?: number;
+  // この件数・時間ごとにまとめてオフセットをコミットする（デフォルト: 設定の kafka.commit*）
+  commitBatchSize?: number;
+  commitIntervalMs?: number;
+  // メトリクスの登録先（デフォルト: プロセスで共有するレジストリ）
+  metrics?: MetricsRegistry;
+  // 指定すると、このポートで GET /metrics を公開する
+  metricsPort?: number;
+  // 反映し終えたところをテーブルごとに記録する先（read-your-writes の ?after= 用）
+  watermark?: WatermarkRecorder;
+  kafka?: Kafka;
+}
+
+export function createKafkaClient(
+  clientId: string,
+  brokers: string[] = getConfig().kafka.brokers,
+): Kafka {
+  return new Kafka({
+    clientId,
+    brokers,
+    retry: {
+      initialRetryTime: 100,
+      retries: 8,
+    },
+  });
+}
+
+/**
+ * 変更イベントを op に応じて sink に振り分ける
+ */
+export async function routeChangeEvent<T>(
+  event: DebeziumChangeEvent<T>,
+  sink: ChangeEventSink<T>,
+) {
+  const { op, before, after } = event.payload;
+
+  switch (op) {
+    case "c": // Create
+    case "r": // Read (snapshot)
+    case "u": // Update
+      if (!after) {
+        console.warn('⚠️  No "after" data in event');
+        return;
+      }
+      await sink.upsert(after, event);
+      break;
+
+    case "d": // Delete
+      if (!before) {
+        console.warn('⚠️  No "before" data in delete event');
+        return;
+      }
+      await sink.remove(before, event);
+      break;
+
+    case "t": // Truncate
+      if (!sink.truncate) {
+        console.warn("⚠️  Truncate is not supported by this sink");
+        return;
+      }
+      await sink.truncate();
+      break;
+
+    default:
+      console.warn(`⚠️  Unknown operation: ${op}`);
+  }
+}
+
+/**
+ * Kafka メッセージ1件をパースして sink に反映する
+ * 失敗時は例外をそのまま投げる（呼び出し側でリトライ・DLQ）
+ * @returns 反映した変更イベント（トゥームストーンなら null）
+ */
+export async function applyMessage(
+  message: Pick<KafkaMessage, "key" | "value" | "offset">,
+  sink: ChangeEventSink,
+): Promise<DebeziumChangeEvent | null> {
+  if (!message.value) {
+    // Debezium は delete の後にキーだけのトゥームストーンを送る（ログコンパクション用）
+    console.log(`\n🪦 Received tombstone (offset: ${message.offset})`);
+    await sink.tombstone?.(message.key);
+    return null;
+  }
+
+  const event = decodeChangeEvent(message.value);
+  console.log(
+    `\n📨 Received event: ${event.payload.op} (offset: ${message.offset})`,
+  );
+
+  await routeChangeEvent(event, sink);
+  return event;
+}
+
+// writeBatch が完了にしたメッセージの変更イベント（トゥームストーン・読めないものは null）
+function decodeOrNull(message: KafkaMessage): DebeziumChangeEvent | null {
+  if (!message.value) return null;
+  try {
+    return decodeChangeEvent(message.value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 完了したメッセージのうち、先頭から連続している最後のオフセットを返す
+ * 途中に未完了のメッセージがあれば、そこから先は解決しない
+ */
+export function lastContiguousOffset(
+  messages: KafkaMessage[],
+  completed: Set<string>,
+): string | null {
+  let last: string | null = null;
+  for (const message of messages) {
+    if (!completed.has(message.offset)) break;
+    last = message.offset;
+  }
+  return last;
+}
+
+export class ChangeEventConsumer {
+  private kafka: Kafka;
+  private consumer: Consumer;
+  private producer: Producer;
+  private mode: ConsumerMode;
+  private committer: OffsetCommitter;
+  private watermarks = new WatermarkTracker();
+  private registry: MetricsRegistry;
+  private metrics: ConsumerMetrics;
+  private metricsServer: Server | null = null;
+  private stopCollecting: (() => void) | null = null;
+  // ラグの取得用（最初のスクレイプで接続する）
+  private admin: Promise<Admin> | null = null;
+  private stopping: Promise<void> | null = null;
+
+  constructor(private options: ChangeEventConsumerOptions) {
+    this.kafka = options.kafka ?? createKafkaClient(options.name);
+    this.mode = options.mode ?? "message";
+    this.consumer = this.kafka.consumer({
+      groupId: options.groupId,
+      ...options.consumerConfig,
+    });
+    this.producer = this.kafka.producer();
+    this.committer = new OffsetCommitter(this.consumer, {
+      batchSize: options.commitBatchSize ?? getConfig().kafka.commitBatchSize,
+      intervalMs:
+        options.commitIntervalMs ?? getConfig().kafka.commitIntervalMs,
+      onProgress: (offsets) => this.advanceWatermarks(offsets),
+    });
+    this.registry = options.metrics ?? defaultRegistry;
+    this.metrics = new ConsumerMetrics(options.name, this.registry);
+
+    if (!options.sink === !options.sinks) {
+      throw new Error(`${options.name}: pass either sink or sinks`);
+    }
+    if (
+      this.mode === "batch" &&
+      this.allSinks().some((sink) => !sink.writeBatch)
+    ) {
+      throw new Error(`${options.name}: batch mode requires sink.writeBatch`);
+    }
+    if (
+      this.mode === "transaction" &&
+      typeof options.topic !== "string" &&
+      !options.sinks
+    ) {
+      throw new Error(
+        `${options.name}: transaction mode with a topic pattern requires sinks`,
+      );
+    }
+  }
+
+  async start() {
+    console.log(
+      `🚀 Starting ${this.options.name} consumer (${this.mode} mode)...`,
+    );
+
+    this.stopCollecting = this.registry.onCollect(() => this.collectLag());
+    if (this.options.metricsPort !== undefined) {
+      this.metricsServer = startMetricsServer(
+        this.options.metricsPort,
+        this.registry,
+      );
+    }
+
+    await this.consumer.connect();
+    await this.producer.connect();
+    console.log("✅ Connected to Kafka");
+
+    // 割り当てが変わったら、反映済みの位置も捨てる（持っていないパーティションのウォーターマークを進めない）
+    this.consumer.on(this.consumer.events.GROUP_JOIN, () =>
+      this.watermarks.clear(),
+    );
+
+    if (this.mode === "transaction") {
+      const { topic, sinks } = this.options;
+      await runTransactionAware(this.consumer, {
+        sourceTopic: topic,
+        // blogdb.public.posts → blogdb.transaction
+        transactionTopic:
+          typeof topic === "string"
+            ? `${topic.split(".")[0]}.transaction`
+            : getConfig().kafka.transactionTopic,
+        // blogdb.public.posts → public.posts
+        dataCollections: sinks
+          ? Object.keys(sinks)
+          : [tableNameOfTopic(topic as string)],
+        committer: this.committer,
+        transactionTimeoutMs: getConfig().kafka.transactionTimeoutMs,
+        handleMessage: ({ topic, partition, message, heartbeat }) =>
+          this.processMessage(topic, partition, message, heartbeat),
+        handleTransaction: (transaction, heartbeat) =>
+          this.handleTransaction(transaction, heartbeat),
+      });
+      this.committer.startTimer();
+      return;
+    }
+
+    // リバランス後はコミット済みオフセットから読み直すので、途中の状態を捨てる
+    this.consumer.on(this.consumer.events.GROUP_JOIN, () =>
+      this.committer.clear(),
+    );
+
+    await this.consumer.subscribe({
+      topic: this.options.topic,
+      fromBeginning: true, // 初回は最初から読む
+    });
+    console.log(`📡 Subscribed to topic: ${this.options.topic}`);
+
+    if (this.mode === "batch") {
+      await this.consumer.run({
+        autoCommit: false,
+        // 成功したメッセージのオフセットだけを自分で解決する
+        eachBatchAutoResolve: false,
+        eachBatch: (payload) => this.handleBatch(payload),
+      });
+    } else {
+      await this.consumer.run({
+        autoCommit: false,
+        eachMessage: (payload) => this.handleMessage(payload),
+      });
+    }
+    this.committer.startTimer();
+  }
+
+  /**
+   * 取得を止め、処理中のハンドラーを待ってから接続を閉じる
+   * 何度呼んでも後始末は1回だけ行う
+   */
+  stop(): Promise<void> {
+    this.stopping ??= this.shutdown();
+    return this.stopping;
+  }
+
+  /**
+   * start() して、SIGINT / SIGTERM で stop() する
+   * 起動に失敗したら後始末をしてプロセスを終了する
+   */
+  run() {
+    onShutdownSignal(() => this.stop());
+
+    this.start().catch(async (error) => {
+      console.error("❌ Fatal error in consumer:", error);
+      await this.stop().catch(() => {});
+      process.exit(1);
+    });
+  }
+
+  private async shutdown() {
+    const timeoutMs =
+      this.options.shutdownTimeoutMs ?? getConfig().shutdown.timeoutMs;
+    console.log(
+      `🛑 Stopping ${this.options.name} consumer (waiting up to ${timeoutMs}ms for in-flight messages)...`,
+    );
+
+    // 溜まっているオフセットをコミットし、以降は完了のたびにコミットする
+    await this.committer.drain();
+
+    // kafkajs の stop() は取得を止め、処理中のハンドラーが終わるのを待ってからグループを抜ける
+    // （処理中のハンドラーは終わった時点で自分のオフセットをコミットする）
+    const drained = await withDeadline(this.consumer.stop(), timeoutMs);
+
+    if (drained) {
+      await this.consumer.disconnect();
+      console.log("✅ Drained in-flight messages and committed offsets");
+    } else {
+      // disconnect() は同じ stop() を待ってしまうので呼ばない。
+      // コミットされていないメッセージは次に起動した Consumer に再配信される（処理は冪等）
+      console.warn(
+        `⚠️  In-flight messages did not finish within ${timeoutMs}ms; they will be redelivered`,
+      );
+    }
+
+    await this.producer.disconnect();
+    // 接続を共有している sink は close も共有しているので、1回だけ閉じる
+    const closers = new Set(this.allSinks().map((sink) => sink.close));
+    for (const close of closers) {
+      await close?.();
+    }
+    await this.options.watermark?.close?.();
+
+    this.stopCollecting?.();
+    if (this.admin) {
+      await (await this.admin).disconnect();
+    }
+    if (this.metricsServer) {
+      const server = this.metricsServer;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    console.log(`👋 ${this.options.name} consumer stopped`);
+  }
+
+  private async handleMessage({
+    topic,
+    partition,
+    message,
+    heartbeat,
+  }: EachMessagePayload) {
+    this.committer.track(topic, partition, message.offset);
+    await this.processMessage(topic, partition, message, heartbeat);
+    // 反映できた（または DLQ に退避できた）ものだけを完了にする
+    // 例外が出た場合は完了にしないので、そのオフセットより先はコミットされない
+    this.committer.complete(topic, partition, message.offset);
+    await this.committer.maybeCommit();
+  }
+
+  /**
+   * トピックのテーブルの反映先（sinks にそのテーブルが無ければ null）
+   */
+  private sinkFor(topic: string): ChangeEventSink | null {
+    const { sink, sinks } = this.options;
+    if (!sinks) return sink!;
+    return (
+      (sinks[tableNameOfTopic(topic) as TableName] as ChangeEventSink) ?? null
+    );
+  }
+
+  private allSinks(): ChangeEventSink[] {
+    const { sink, sinks } = this.options;
+    return sinks ? (Object.values(sinks) as ChangeEventSink[]) : [sink!];
+  }
+
+  /**
+   * 1件をリトライ付きで反映し、諦めたらDLQに送る
+   */
+  private async processMessage(
+    topic: string,
+    partition: number,
+    message: KafkaMessage,
+    heartbeat: () => Promise<void>,
+  ) {
+    const sink = this.sinkFor(topic);
+    if (!sink) {
+      // パターンに一致しただけの、反映先の無いテーブル
+      console.log(`  ⏭️  No sink for ${topic} (offset: ${message.offset})`);
+      return;
+    }
+
+    try {
+      const event = await withRetry(
+        () => applyMessage(message, sink),
+        this.options.retryPolicy,
+        {
+          onRetry: () => {
+            this.metrics.recordFailure("retried");
+            // バックオフ中にセッションが切れないようにハートビートを送る
+            return heartbeat();
+          },
+        },
+      );
+      this.metrics.recordEvent(event);
+      this.recordApplied(topic, partition, message.offset, event);
+    } catch (error) {
+      if (!(error instanceof PoisonPillError)) throw error;
+
+      console.error("❌ Error processing message:", error.cause);
+      this.metrics.recordFailure("dead_lettered");
+      // Poison Pill はDLQへ退避してパーティションを先に進める
+      await this.deadLetter(topic, partition, {
+        message,
+        error: error.cause,
+        attempts: error.attempts,
+        reason: error.reason,
+      });
+    }
+  }
+
+  private async handleBatch({
+    batch,
+    resolveOffset,
+    heartbeat,
+    isRunning,
+    isStale,
+  }: EachBatchPayload) {
+    console.log(
+      `\n📦 Received batch: ${batch.messages.length} message(s) (partition: ${batch.partition})`,
+    );
+
+    const sink = this.sinkFor(batch.topic);
+    if (!sink) {
+      console.log(`  ⏭️  No sink for ${batch.topic}`);
+      for (const message of batch.messages) {
+        this.committer.track(batch.topic, batch.partition, message.offset);
+        this.committer.complete(batch.topic, batch.partition, message.offset);
+      }
+      const last = batch.messages.at(-1);
+      if (last) resolveOffset(last.offset);
+      await this.committer.maybeCommit();
+      return;
+    }
+
+    const shouldContinue = () => isRunning() && !isStale();
+    const batchSize = this.options.batchSize ?? batch.messages.length;
+
+    for (let i = 0; i < batch.messages.length; i += batchSize) {
+      if (!shouldContinue()) break;
+
+      const chunk = batch.messages.slice(i, i + batchSize);
+      for (const message of chunk) {
+        this.committer.track(batch.topic, batch.partition, message.offset);
+      }
+
+      const { completed, pending } = await this.writeBatch(
+        sink,
+        chunk,
+        batch.topic,
+        () => batch.partition,
+        { onRetry: () => heartbeat(), shouldContinue },
+      );
+
+      // 書き込み済み・スキップ・DLQ退避済みのメッセージだけを完了とみなす
+      for (const message of completed) {
+        this.committer.complete(batch.topic, batch.partition, message.offset);
+      }
+      const lastOffset = lastContiguousOffset(
+        chunk,
+        new Set(completed.map((message) => message.offset)),
+      );
+      if (lastOffset !== null) {
+        resolveOffset(lastOffset);
+      }
+
+      await heartbeat();
+      await this.committer.maybeCommit();
+
+      // 未完了のメッセージがあればここで止め、次回そのオフセットから読み直す
+      if (pending > 0) break;
+    }
+  }
+
+  /**
+   * 揃ったトランザクションを反映する
+   * テーブルごとにまとめて、それぞれの sink に渡す。
+   * applyTransaction を共有する sink のテーブルは1つにまとめて1回で渡す（同じ接続ならテーブルをまたいでアトミック）
+   */
+  private async handleTransaction(
+    transaction: CompletedTransaction,
+    heartbeat: () => Promise<void>,
+  ) {
+    // トランザクション内で最初に出てきた順にまとまりを並べる（まとまりの中はトランザクションの順）
+    const groups = new Map<
+      unknown,
+      { sink: ChangeEventSink | null; items: BufferedEvent[] }
+    >();
+    for (const item of transaction.events) {
+      const sink = this.sinkFor(item.topic);
+      const key =
+        sink && !sink.writeBatch && sink.applyTransaction
+          ? sink.applyTransaction
+          : item.topic;
+      let group = groups.get(key);
+      if (!group) {
+        group = { sink, items: [] };
+        groups.set(key, group);
+      }
+      group.items.push(item);
+    }
+
+    for (const { sink, items } of groups.values()) {
+      if (!sink) {
+        console.log(
+          `  ⏭️  No sink for ${items[0].topic} (${items.length} event(s))`,
+        );
+        continue;
+      }
+      await this.applyTransactionEvents(transaction.id, items, sink, heartbeat);
+    }
+  }
+
+  /**
+   * トランザクションのイベントを1つの sink に反映する
+   * sink.applyTransaction があれば丸ごと（諦めたら全メッセージをDLQへ）、
+   * sink.writeBatch があればまとめて書き込み、どちらも無ければ1件ずつ反映する
+   * （複数のテーブルのイベントが来るのは applyTransaction を共有している時だけ）
+   */
+  private async applyTransactionEvents(
+    transactionId: string,
+    items: BufferedEvent[],
+    sink: ChangeEventSink,
+    heartbeat: () => Promise<void>,
+  ) {
+    const { retryPolicy } = this.options;
+
+    if (sink.writeBatch) {
+      const partitions = new Map(
+        items.map(({ message, partition }) => [message, partition]),
+      );
+      await this.writeBatch(
+        sink,
+        items.map(({ message }) => message),
+        items[0].topic,
+        (message) => partitions.get(message)!,
+        { onRetry: () => heartbeat() },
+      );
+      return;
+    }
+
+    if (!sink.applyTransaction) {
+      for (const { topic, partition, message } of items) {
+        await this.processMessage(topic, partition, message, heartbeat);
+      }
+      return;
+    }
+
+    const events = items.map(({ event }) => event);
+    try {
+      await withRetry(
+        () => sink.applyTransaction!(transactionId, events),
+        retryPolicy,
+        {
+          onRetry: () => {
+            this.metrics.recordFailure("retried");
+            return heartbeat();
+          },
+        },
+      );
+      events.forEach((event) => this.metrics.recordEvent(event));
+      for (const { topic, partition, message, event } of items) {
+        this.recordApplied(topic, partition, message.offset, event);
+      }
+    } catch (error) {
+      if (!(error instanceof PoisonPillError)) throw error;
+
+      console.error(
+        `❌ Error applying transaction ${transactionId}:`,
+        error.cause,
+      );
+      this.metrics.recordFailure("dead_lettered", events.length);
+      for (const { topic, partition, message } of items) {
+        await this.deadLetter(topic, partition, {
+          message,
+          error: error.cause,
+          attempts: error.attempts,
+          reason: error.reason,
+        });
+      }
+    }
+  }
+
+  /**
+   * sink.writeBatch で書き込み、諦めたメッセージをDLQに送る
+   * @returns 完了した（書き込み済み・スキップ・DLQ退避済みの）メッセージと、未完了の数
+   */
+  private async writeBatch(
+    sink: ChangeEventSink,
+    messages: KafkaMessage[],
+    topic: string,
+    partitionOf: (message: KafkaMessage) => number,
+    options: BatchWriteOptions,
+  ): Promise<{ completed: KafkaMessage[]; pending: number }> {
+    const result = await sink.writeBatch!(messages, {
+      ...options,
+      onRetry: (attempt, delayMs) => {
+        this.metrics.recordFailure("retried");
+        return options.onRetry?.(attempt, delayMs);
+      },
+    });
+    result.completed.forEach((message) => this.metrics.recordMessage(message));
+    if (this.options.watermark) {
+      for (const message of result.completed) {
+        this.recordApplied(
+          topic,
+          partitionOf(message),
+          message.offset,
+          decodeOrNull(message),
+        );
+      }
+    }
+
+    for (const poisoned of result.poisoned) {
+      console.error(
+        `❌ Error processing offset ${poisoned.message.offset}:`,
+        poisoned.error,
+      );
+      this.metrics.recordFailure("dead_lettered");
+      await this.deadLetter(topic, partitionOf(poisoned.message), poisoned);
+    }
+
+    return {
+      completed: [
+        ...result.completed,
+        ...result.poisoned.map(({ message }) => message),
+      ],
+      pending: result.pending,
+    };
+  }
+
+  /**
+   * パーティションごとの最新オフセットとグループのコミット済みオフセットからラグを求める
+   */
+  private async collectLag() {
+    this.admin ??= (async () => {
+      const admin = this.kafka.admin();
+      await admin.connect();
+      return admin;
+    })().catch((error) => {
+      // 次のスクレイプで接続し直す
+      this.admin = null;
+      throw error;
+    });
+    const admin = await this.admin;
+
+    const { topic: subscription, groupId } = this.options;
+    const topics =
+      typeof subscription === "string"
+        ? [subscription]
+        : (await admin.listTopics()).filter((topic) =>
+            subscription.test(topic),
+          );
+    if (topics.length === 0) {
+      this.metrics.setLag([]);
+      return;
+    }
+
+    const [topicOffsets, groupOffsets] = await Promise.all([
+      Promise.all(topics.map((topic) => admin.fetchTopicOffsets(topic))),
+      admin.fetchOffsets({ groupId, topics }),
+    ]);
+    // 未コミットのパーティションは "-1" が返る
+    const committed = new Map(
+      groupOffsets.flatMap(({ topic, partitions }) =>
+        partitions
+          .filter(({ offset }) => offset !== "-1")
+          .map(({ partition, offset }) => [`${topic}:${partition}`, offset]),
+      ),
+    );
+
+    this.metrics.setLag(
+      topics.flatMap((topic, i) =>
+        topicOffsets[i].map(({ partition, high, low }) => ({
+          topic,
+          partition,
+          high,
+          low,
+          committed: committed.get(`${topic}:${partition}`) ?? null,
+        })),
+      ),
+    );
+  }
+
+  /**
+   * 反映し終えたイベントを覚える（ウォーターマークはオフセットの完了が途切れずに進んだ時に進める）
+   */
+  private recordApplied(
+    topic: string,
+    partition: number,
+    offset: string,
+    event: DebeziumChangeEvent | null,
+  ) {
+    if (this.options.watermark) {
+      this.watermarks.record(topic, partition, offset, event);
+    }
+  }
+
+  /**
+   * 完了が途切れずに進んだところまでに反映したイベントで、テーブルのウォーターマークを進める
+   * 記録に失敗しても反映は済んでいるので、警告だけ出す（次のイベントで進む）
+   */
+  private async advanceWatermarks(offsets: CommittableOffset[]) {
+    const { watermark } = this.options;
+    if (!watermark) return;
+
+    for (const { topic, partition, offset } of offsets) {
+      const position = this.watermarks.take(topic, partition, offset);
+      if (!position) continue;
+      try {
+        await watermark.advance(tableNameOfTopic(topic), position);
+      } catch (error) {
+        console.warn(
+          `⚠️  Failed to record the watermark: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  private async deadLetter(
+    topic: string,
+    partition: number,
+    { message, error, attempts, reason }: PoisonedMessage,
+  ) {
+    await publishToDeadLetter(this.producer, {
+      consumerName: this.options.name,
+      consumerGroup: this.options.groupId,
+      topic,
+      partition,
+      message,
+      error,
+      attempts,
+      reason,
+    });
+  }
+}
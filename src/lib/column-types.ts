@@ -0,0 +1,175 @@
+/**
+ * Debezium の列の値の変換
+ *
+ * Debezium は日時や DECIMAL を Kafka Connect の論理型（エポックからの数値、base64 のバイト列など）で送ってくる。
+ * イベントの schema ブロックを見て、行の値を正規の形にそろえる。
+ *
+ * - 日時（Timestamp / MicroTimestamp / NanoTimestamp / ZonedTimestamp）→ ISO-8601（UTC、ミリ秒まで）
+ * - 日付（Date）→ "YYYY-MM-DD"
+ * - 時刻（Time / MicroTime / NanoTime）→ "HH:MM:SS.fff"（元の精度の桁数）
+ * - DECIMAL（Decimal / VariableScaleDecimal）→ 10進数の文字列（浮動小数点にすると桁が落ちるため）
+ *
+ * API も PostgreSQL から読んだ TIMESTAMP を同じ形にするので、どこから読んでも同じ値になる。
+ */
+
+import type { ConnectField, ConnectSchema } from "../types/index.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * エポックからの時間（単位は unitsPerMs 分の1ミリ秒）を ISO-8601 にする
+ */
+function epochToIso(value: number, unitsPerMs: number): string {
+  return new Date(Math.floor(value / unitsPerMs)).toISOString();
+}
+
+/**
+ * 0時からの時間（単位は unitsPerSecond 分の1秒）を "HH:MM:SS.fff" にする
+ */
+function timeOfDay(value: number, unitsPerSecond: number): string {
+  const totalSeconds = Math.floor(value / unitsPerSecond);
+  const fraction = value - totalSeconds * unitsPerSecond;
+  const digits = String(unitsPerSecond).length - 1;
+
+  const hh = String(Math.floor(totalSeconds / 3600)).padStart(2, "0");
+  const mm = String(Math.floor(totalSeconds / 60) % 60).padStart(2, "0");
+  const ss = String(totalSeconds % 60).padStart(2, "0");
+  return `${hh}:${mm}:${ss}.${String(fraction).padStart(digits, "0")}`;
+}
+
+/**
+ * 2の補数のビッグエンディアン（Kafka Connect の Decimal）と scale から10進数の文字列を作る
+ */
+export function decimalToString(bytes: Buffer, scale: number): string {
+  let unscaled = 0n;
+  for (const byte of bytes) {
+    unscaled = (unscaled << 8n) | BigInt(byte);
+  }
+  // 先頭ビットが立っていれば負の数
+  if (bytes.length > 0 && bytes[0] & 0x80) {
+    unscaled -= 1n << BigInt(bytes.length * 8);
+  }
+
+  const negative = unscaled < 0n;
+  const digits = (negative ? -unscaled : unscaled).toString();
+  if (scale <= 0) {
+    return `${negative ? "-" : ""}${digits}${"0".repeat(-scale)}`;
+  }
+
+  const padded = digits.padStart(scale + 1, "0");
+  const integer = padded.slice(0, -scale);
+  const fraction = padded.slice(-scale);
+  return `${negative ? "-" : ""}${integer}.${fraction}`;
+}
+
+type Converter = (value: unknown, schema: ConnectSchema) => unknown;
+
+const whenNumber =
+  (convert: (value: number) => unknown): Converter =>
+  (value) =>
+    typeof value === "number" ? convert(value) : value;
+
+// 論理型の名前 → 変換
+const CONVERTERS: Record<string, Converter> = {
+  // time.precision.mode=connect（TIMESTAMP / DATE / TIME）
+  "org.apache.kafka.connect.data.Timestamp": whenNumber((v) =>
+    epochToIso(v, 1),
+  ),
+  "org.apache.kafka.connect.data.Date": whenNumber((v) =>
+    new Date(v * MS_PER_DAY).toISOString().slice(0, 10),
+  ),
+  "org.apache.kafka.connect.data.Time": whenNumber((v) => timeOfDay(v, 1000)),
+  "org.apache.kafka.connect.data.Decimal": (value, schema) =>
+    typeof value === "string"
+      ? decimalToString(
+          Buffer.from(value, "base64"),
+          Number(schema.parameters?.scale ?? 0),
+        )
+      : value,
+
+  // time.precision.mode=adaptive（デフォルト）
+  "io.debezium.time.Timestamp": whenNumber((v) => epochToIso(v, 1)),
+  "io.debezium.time.MicroTimestamp": whenNumber((v) => epochToIso(v, 1000)),
+  "io.debezium.time.NanoTimestamp": whenNumber((v) => epochToIso(v, 1e6)),
+  "io.debezium.time.Date": whenNumber((v) =>
+    new Date(v * MS_PER_DAY).toISOString().slice(0, 10),
+  ),
+  "io.debezium.time.Time": whenNumber((v) => timeOfDay(v, 1000)),
+  "io.debezium.time.MicroTime": whenNumber((v) => timeOfDay(v, 1e6)),
+  "io.debezium.time.NanoTime": whenNumber((v) => timeOfDay(v, 1e9)),
+  // TIMESTAMPTZ はタイムゾーン付きの文字列で届くので UTC にそろえる
+  "io.debezium.time.ZonedTimestamp": (value) => {
+    const date = typeof value === "string" ? new Date(value) : null;
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString() : value;
+  },
+
+  // NUMERIC（精度の指定なし）
+  "io.debezium.data.VariableScaleDecimal": (value) => {
+    const { scale, value: bytes } = (value ?? {}) as {
+      scale?: unknown;
+      value?: unknown;
+    };
+    return typeof scale === "number" && typeof bytes === "string"
+      ? decimalToString(Buffer.from(bytes, "base64"), scale)
+      : value;
+  },
+};
+
+/**
+ * 値を論理型に従って変換する
+ * 論理型が無い・知らない場合、値の型が想定と違う場合はそのまま返す（検証は event-decoder で行う）
+ */
+export function convertValue(value: unknown, schema: ConnectSchema): unknown {
+  if (value === null || value === undefined) return value;
+
+  const converter = schema.name ? CONVERTERS[schema.name] : undefined;
+  if (converter) return converter(value, schema);
+
+  if (schema.type === "struct" && schema.fields) {
+    return convertRow(value as Record<string, unknown>, schema.fields);
+  }
+  return value;
+}
+
+/**
+ * 行（struct）の各列を変換する
+ * スキーマに無い列はそのまま残す
+ */
+export function convertRow<T extends Record<string, unknown>>(
+  row: T,
+  fields: ConnectField[],
+): T {
+  if (typeof row !== "object" || row === null || Array.isArray(row)) {
+    return row;
+  }
+
+  const converted: Record<string, unknown> = { ...row };
+  for (const field of fields) {
+    if (field.field in converted) {
+      converted[field.field] = convertValue(converted[field.field], field);
+    }
+  }
+  return converted as T;
+}
+
+/**
+ * エンベロープのスキーマから before / after の行のスキーマ（列の一覧）を取り出す
+ */
+export function rowFieldsOf(
+  envelope: ConnectSchema | undefined,
+): ConnectField[] | null {
+  const row = envelope?.fields?.find(
+    (field) => field.field === "after" || field.field === "before",
+  );
+  return row?.fields ?? null;
+}
+
+/**
+ * PostgreSQL の TIMESTAMP（タイムゾーンなし）のテキストを ISO-8601 にする（API の pg 用）
+ * Debezium は TIMESTAMP を UTC として送ってくるので、こちらも UTC として読む
+ */
+export function pgTimestampToIso(text: string): string {
+  const date = new Date(`${text.replace(" ", "T")}Z`);
+  // infinity など Date にできない値はそのまま返す
+  return Number.isNaN(date.getTime()) ? text : date.toISOString();
+}
@@ -0,0 +1,669 @@
+/**
+ * 設定の読み込み
+ *
+ * すべてのエントリポイント（API、Consumer、セットアップ、スクリプト）が使う設定を1か所にまとめる。
+ * 優先順位: 環境変数 > 設定ファイル（APP_CONFIG_FILE の JSON） > デフォルト値
+ *
+ * シークレット（DB のパスワードなど）は `<環境変数名>_FILE` にファイルのパスを渡すと、
+ * ファイルの中身を値として読む（Docker / Kubernetes の secrets 向け）。
+ * デフォルト値は docker-compose.yml のローカル環境に合わせてある。
+ *
+ * 起動時にすべての値を検証し、問題があればまとめて ConfigError にする。
+ */
+
+import { readFileSync } from "node:fs";
+import type { RetryPolicy } from "./retry.js";
+
+/**
+ * Consumer ごとの一時的な障害のリトライ設定
+ * 倍率とジッターは固定（RETRY_MULTIPLIER / RETRY_JITTER）
+ */
+export interface ConsumerRetrySettings {
+  retryMaxAttempts: number;
+  retryInitialDelayMs: number;
+  retryMaxDelayMs: number;
+  // 上の3つから組み立てたリトライ設定（Consumer はこれを使う）
+  retryPolicy: RetryPolicy;
+}
+
+export interface AppConfig {
+  kafka: {
+    brokers: string[];
+    // Debezium の topic.prefix（トピック名は <prefix>.<schema>.<table>）
+    topicPrefix: string;
+    postsTopic: string;
+    transactionTopic: string;
+    // Consumer のオフセットをまとめてコミットする件数・間隔
+    commitBatchSize: number;
+    commitIntervalMs: number;
+    // トランザクションモードで、揃わないトランザクションを待つ最大時間
+    transactionTimeoutMs: number;
+  };
+  postgres: {
+    host: string;
+    port: number;
+    database: string;
+    user: string;
+    password: string;
+  };
+  redis: {
+    host: string;
+    port: number;
+  };
+  elasticsearch: {
+    node: string;
+    // 読み込み用のエイリアス（検索・API が読む）
+    index: string;
+    // 書き込み用のエイリアス（再索引中は新旧両方のインデックスを指す）
+    writeAlias: string;
+  };
+  debezium: {
+    api: string;
+    // Kafka Connect のコンテナから見た PostgreSQL のアドレス
+    databaseHostname: string;
+    databasePort: number;
+  };
+  api: {
+    port: number;
+  };
+  postStream: {
+    // GET /posts/stream の同時接続数の上限
+    maxConnections: number;
+    // 再接続（Last-Event-ID）に備えて残しておくイベントの数
+    bufferSize: number;
+    heartbeatMs: number;
+    // 送信が詰まった（write が false を返した）まま、この回数を超えて書いたら切断する
+    maxPendingWrites: number;
+  };
+  consistency: {
+    // ?after= のトークンに派生ストアが追いつくのを待つ最大時間
+    waitTimeoutMs: number;
+    // ウォーターマークを読み直す間隔
+    pollIntervalMs: number;
+  };
+  cache: {
+    ttlSeconds: number;
+  };
+  searchIndexer: ConsumerRetrySettings & {
+    transactionMode: boolean;
+    batchMode: boolean;
+    bulkSize: number;
+    flushIntervalMs: number;
+    // 書き込み用のエイリアスが指すインデックスを読み直す間隔
+    aliasRefreshMs: number;
+    // /metrics を公開するポート
+    metricsPort: number;
+  };
+  cacheUpdater: ConsumerRetrySettings & {
+    transactionMode: boolean;
+    metricsPort: number;
+  };
+  authorStats: ConsumerRetrySettings & {
+    metricsPort: number;
+  };
+  timeline: ConsumerRetrySettings & {
+    // フォロワーがこの数を超える著者の投稿は書き込み時に配らず、読み込み時に混ぜる
+    fanoutMaxFollowers: number;
+    // ユーザーごとのタイムラインに残す投稿の数
+    maxLength: number;
+    metricsPort: number;
+  };
+  // retry* は PostgreSQL（購読・配信の記録）の読み書きのリトライ
+  webhooks: ConsumerRetrySettings & {
+    // 1回の POST の待ち時間
+    timeoutMs: number;
+    // 購読先ごとの最大試行回数（初回を含む）
+    maxAttempts: number;
+    // 購読先ごとのリトライ設定（maxAttempts から組み立てる）
+    // 待っている間はパーティションが止まるので、Consumer 全体のリトライより短く打ち切る
+    deliveryRetryPolicy: RetryPolicy;
+    // 続けてこの回数失敗した購読を無効にする
+    disableAfterFailures: number;
+    // 1件のイベントの配信にかける最大時間（Kafka のセッションタイムアウトより短くする）
+    deliveryDeadlineMs: number;
+    metricsPort: number;
+  };
+  shutdown: {
+    // 停止時に処理中のメッセージ・リクエストを待つ最大時間
+    timeoutMs: number;
+  };
+}
+
+/**
+ * 設定の値が不正（起動を続けられない）
+ * problems に問題をすべて入れる
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+    );
+    this.name = "ConfigError";
+  }
+}
+
+type SettingType =
+  "string" | "url" | "port" | "positive-int" | "boolean" | "list";
+
+interface Setting {
+  // AppConfig 上のパス（設定ファイルのキーと同じ）
+  path: string;
+  env: string;
+  type: SettingType;
+  default: string | number | boolean | string[];
+  // true なら <env>_FILE からも読める
+  secret?: boolean;
+}
+
+const RETRY_MULTIPLIER = 2;
+const RETRY_JITTER = 0.2;
+
+// Consumer のリトライ設定を持つセクション（設定の接頭辞、デフォルト）
+const RETRY_SECTIONS = [
+  {
+    section: "searchIndexer",
+    env: "SEARCH_INDEXER",
+    // Elasticsearch の 429/503 を考慮して長めに待つ
+    defaults: [5, 500, 10000],
+  },
+  { section: "cacheUpdater", env: "CACHE_UPDATER", defaults: [5, 200, 5000] },
+  { section: "authorStats", env: "AUTHOR_STATS", defaults: [5, 200, 5000] },
+  { section: "timeline", env: "TIMELINE", defaults: [5, 200, 5000] },
+  {
+    section: "webhooks",
+    env: "WEBHOOK_DISPATCHER",
+    defaults: [5, 200, 5000],
+  },
+] as const;
+
+const SETTINGS: Setting[] = [
+  {
+    path: "kafka.brokers",
+    env: "KAFKA_BROKERS",
+    type: "list",
+    default: ["localhost:9092"],
+  },
+  {
+    path: "kafka.topicPrefix",
+    env: "KAFKA_TOPIC_PREFIX",
+    type: "string",
+    default: "blogdb",
+  },
+  {
+    path: "kafka.commitBatchSize",
+    env: "KAFKA_COMMIT_BATCH_SIZE",
+    type: "positive-int",
+    default: 100,
+  },
+  {
+    path: "kafka.commitIntervalMs",
+    env: "KAFKA_COMMIT_INTERVAL_MS",
+    type: "positive-int",
+    default: 5000,
+  },
+  {
+    path: "kafka.transactionTimeoutMs",
+    env: "KAFKA_TRANSACTION_TIMEOUT_MS",
+    type: "positive-int",
+    default: 60000,
+  },
+  {
+    path: "postgres.host",
+    env: "POSTGRES_HOST",
+    type: "string",
+    default: "localhost",
+  },
+  { path: "postgres.port", env: "POSTGRES_PORT", type: "port", default: 5433 },
+  {
+    path: "postgres.database",
+    env: "POSTGRES_DB",
+    type: "string",
+    default: "blog_db",
+  },
+  {
+    path: "postgres.user",
+    env: "POSTGRES_USER",
+    type: "string",
+    default: "blog_user",
+  },
+  {
+    path: "postgres.password",
+    env: "POSTGRES_PASSWORD",
+    type: "string",
+    default: "blog_pass",
+    secret: true,
+  },
+  {
+    path: "redis.host",
+    env: "REDIS_HOST",
+    type: "string",
+    default: "localhost",
+  },
+  { path: "redis.port", env: "REDIS_PORT", type: "port", default: 6380 },
+  {
+    path: "elasticsearch.node",
+    env: "ELASTICSEARCH_NODE",
+    type: "url",
+    default: "http://localhost:9200",
+  },
+  {
+    path: "elasticsearch.index",
+    env: "ELASTICSEARCH_INDEX",
+    type: "string",
+    default: "posts",
+  },
+  {
+    path: "elasticsearch.writeAlias",
+    env: "ELASTICSEARCH_WRITE_ALIAS",
+    type: "string",
+    default: "posts_write",
+  },
+  {
+    path: "debezium.api",
+    env: "DEBEZIUM_API",
+    type: "url",
+    default: "http://localhost:8083",
+  },
+  {
+    path: "debezium.databaseHostname",
+    env: "DEBEZIUM_DATABASE_HOSTNAME",
+    type: "string",
+    default: "postgres",
+  },
+  {
+    path: "debezium.databasePort",
+    env: "DEBEZIUM_DATABASE_PORT",
+    type: "port",
+    default: 5432,
+  },
+  { path: "api.port", env: "PORT", type: "port", default: 3000 },
+  {
+    path: "postStream.maxConnections",
+    env: "POST_STREAM_MAX_CONNECTIONS",
+    type: "positive-int",
+    default: 100,
+  },
+  {
+    path: "postStream.bufferSize",
+    env: "POST_STREAM_BUFFER_SIZE",
+    type: "positive-int",
+    default: 1000,
+  },
+  {
+    path: "postStream.heartbeatMs",
+    env: "POST_STREAM_HEARTBEAT_MS",
+    type: "positive-int",
+    default: 15000,
+  },
+  {
+    path: "postStream.maxPendingWrites",
+    env: "POST_STREAM_MAX_PENDING_WRITES",
+    type: "positive-int",
+    default: 100,
+  },
+  {
+    path: "consistency.waitTimeoutMs",
+    env: "CONSISTENCY_WAIT_TIMEOUT_MS",
+    type: "positive-int",
+    default: 2000,
+  },
+  {
+    path: "consistency.pollIntervalMs",
+    env: "CONSISTENCY_POLL_INTERVAL_MS",
+    type: "positive-int",
+    default: 50,
+  },
+  {
+    path: "cache.ttlSeconds",
+    env: "CACHE_TTL",
+    type: "positive-int",
+    default: 300,
+  },
+  {
+    path: "searchIndexer.transactionMode",
+    env: "SEARCH_INDEXER_TRANSACTION_MODE",
+    type: "boolean",
+    default: false,
+  },
+  {
+    path: "searchIndexer.batchMode",
+    env: "SEARCH_INDEXER_BATCH_MODE",
+    type: "boolean",
+    default: false,
+  },
+  {
+    path: "searchIndexer.bulkSize",
+    env: "SEARCH_INDEXER_BULK_SIZE",
+    type: "positive-int",
+    default: 500,
+  },
+  {
+    path: "searchIndexer.flushIntervalMs",
+    env: "SEARCH_INDEXER_FLUSH_INTERVAL_MS",
+    type: "positive-int",
+    default: 1000,
+  },
+  {
+    path: "searchIndexer.aliasRefreshMs",
+    env: "SEARCH_INDEXER_ALIAS_REFRESH_MS",
+    type: "positive-int",
+    default: 5000,
+  },
+  {
+    path: "searchIndexer.metricsPort",
+    env: "SEARCH_INDEXER_METRICS_PORT",
+    type: "port",
+    default: 9464,
+  },
+  {
+    path: "cacheUpdater.transactionMode",
+    env: "CACHE_UPDATER_TRANSACTION_MODE",
+    type: "boolean",
+    default: false,
+  },
+  {
+    path: "cacheUpdater.metricsPort",
+    env: "CACHE_UPDATER_METRICS_PORT",
+    type: "port",
+    default: 9465,
+  },
+  {
+    path: "authorStats.metricsPort",
+    env: "AUTHOR_STATS_METRICS_PORT",
+    type: "port",
+    default: 9466,
+  },
+  {
+    path: "timeline.fanoutMaxFollowers",
+    env: "TIMELINE_FANOUT_MAX_FOLLOWERS",
+    type: "positive-int",
+    default: 1000,
+  },
+  {
+    path: "timeline.maxLength",
+    env: "TIMELINE_MAX_LENGTH",
+    type: "positive-int",
+    default: 800,
+  },
+  {
+    path: "timeline.metricsPort",
+    env: "TIMELINE_METRICS_PORT",
+    type: "port",
+    default: 9467,
+  },
+  {
+    path: "webhooks.timeoutMs",
+    env: "WEBHOOK_TIMEOUT_MS",
+    type: "positive-int",
+    default: 5000,
+  },
+  {
+    path: "webhooks.maxAttempts",
+    env: "WEBHOOK_MAX_ATTEMPTS",
+    type: "positive-int",
+    default: 4,
+  },
+  {
+    path: "webhooks.disableAfterFailures",
+    env: "WEBHOOK_DISABLE_AFTER_FAILURES",
+    type: "positive-int",
+    default: 5,
+  },
+  {
+    path: "webhooks.deliveryDeadlineMs",
+    env: "WEBHOOK_DELIVERY_DEADLINE_MS",
+    type: "positive-int",
+    default: 20000,
+  },
+  {
+    path: "webhooks.metricsPort",
+    env: "WEBHOOK_DISPATCHER_METRICS_PORT",
+    type: "port",
+    default: 9468,
+  },
+  {
+    path: "shutdown.timeoutMs",
+    env: "SHUTDOWN_TIMEOUT_MS",
+    type: "positive-int",
+    default: 10000,
+  },
+  ...RETRY_SECTIONS.flatMap(
+    ({
+      section,
+      env,
+      defaults: [maxAttempts, initialDelayMs, maxDelayMs],
+    }): Setting[] => [
+      {
+        path: `${section}.retryMaxAttempts`,
+        env: `${env}_RETRY_MAX_ATTEMPTS`,
+        type: "positive-int",
+        default: maxAttempts,
+      },
+      {
+        path: `${section}.retryInitialDelayMs`,
+        env: `${env}_RETRY_INITIAL_DELAY_MS`,
+        type: "positive-int",
+        default: initialDelayMs,
+      },
+      {
+        path: `${section}.retryMaxDelayMs`,
+        env: `${env}_RETRY_MAX_DELAY_MS`,
+        type: "positive-int",
+        default: maxDelayMs,
+      },
+    ],
+  ),
+];
+
+export interface LoadConfigOptions {
+  // テスト用に差し替えられるファイル読み込み
+  readFile?: (path: string) => string;
+}
+
+/**
+ * 環境変数と設定ファイルから設定を組み立てて検証する
+ * 問題があれば、すべての問題を入れた ConfigError を投げる
+ */
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  { readFile = (path) => readFileSync(path, "utf8") }: LoadConfigOptions = {},
+): AppConfig {
+  const problems: string[] = [];
+
+  let file: Record<string, unknown> = {};
+  const filePath = env.APP_CONFIG_FILE;
+  if (filePath) {
+    try {
+      file = JSON.parse(readFile(filePath));
+    } catch (error) {
+      throw new ConfigError([
+        `APP_CONFIG_FILE: cannot read ${filePath} (${(error as Error).message})`,
+      ]);
+    }
+    problems.push(...unknownKeys(file, filePath));
+  }
+
+  const config: Record<string, any> = {};
+
+  for (const setting of SETTINGS) {
+    let raw: unknown = setting.default;
+    let source = "default";
+
+    const fileValue = getPath(file, setting.path);
+    if (fileValue !== undefined) {
+      raw = fileValue;
+      source = `${filePath}: ${setting.path}`;
+    }
+
+    const secretFile = setting.secret ? env[`${setting.env}_FILE`] : undefined;
+    if (env[setting.env] !== undefined) {
+      raw = env[setting.env];
+      source = setting.env;
+    } else if (secretFile) {
+      try {
+        // 末尾の改行はファイルの作り方で入りがちなので落とす
+        raw = readFile(secretFile).replace(/\r?\n$/, "");
+        source = `${setting.env}_FILE`;
+      } catch (error) {
+        problems.push(
+          `${setting.env}_FILE: cannot read ${secretFile} (${(error as Error).message})`,
+        );
+        continue;
+      }
+    }
+
+    const parsed = parseValue(setting.type, raw);
+    if ("error" in parsed) {
+      // シークレットの値はログに出さない
+      const got = setting.secret ? "" : ` (got ${JSON.stringify(raw)})`;
+      problems.push(`${source}: ${parsed.error}${got}`);
+      continue;
+    }
+    setPath(config, setting.path, parsed.value);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  const prefix = config.kafka.topicPrefix;
+  config.kafka.postsTopic = `${prefix}.public.posts`;
+  config.kafka.transactionTopic = `${prefix}.transaction`;
+
+  for (const { section } of RETRY_SECTIONS) {
+    const values = config[section];
+    const retryPolicy: RetryPolicy = {
+      maxAttempts: values.retryMaxAttempts,
+      initialDelayMs: values.retryInitialDelayMs,
+      maxDelayMs: values.retryMaxDelayMs,
+      multiplier: RETRY_MULTIPLIER,
+      jitter: RETRY_JITTER,
+    };
+    values.retryPolicy = retryPolicy;
+  }
+  const deliveryRetryPolicy: RetryPolicy = {
+    maxAttempts: config.webhooks.maxAttempts,
+    initialDelayMs: 500,
+    maxDelayMs: 10000,
+    multiplier: RETRY_MULTIPLIER,
+    jitter: RETRY_JITTER,
+  };
+  config.webhooks.deliveryRetryPolicy = deliveryRetryPolicy;
+
+  return config as AppConfig;
+}
+
+let current: AppConfig | null = null;
+
+/**
+ * プロセスの設定（最初の呼び出しで process.env から読み込む）
+ * 設定が不正なら問題を表示してプロセスを終了する
+ */
+export function getConfig(): AppConfig {
+  if (!current) {
+    try {
+      current = loadConfig();
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+  return current;
+}
+
+function parseValue(
+  type: SettingType,
+  raw: unknown,
+): { value: unknown } | { error: string } {
+  switch (type) {
+    case "string": {
+      const value = String(raw);
+      return value.trim() ? { value } : { error: "must not be empty" };
+    }
+
+    case "url": {
+      try {
+        const url = new URL(String(raw));
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          return { error: "must be an http(s) URL" };
+        }
+        // 末尾のスラッシュは `${api}/connectors` のような連結で邪魔になる
+        return { value: String(raw).replace(/\/+$/, "") };
+      } catch {
+        return { error: "must be an http(s) URL" };
+      }
+    }
+
+    case "port":
+    case "positive-int": {
+      const value = typeof raw === "number" ? raw : Number(String(raw).trim());
+      const max = type === "port" ? 65535 : Number.MAX_SAFE_INTEGER;
+      if (!Number.isInteger(value) || value < 1 || value > max) {
+        return {
+          error:
+            type === "port"
+              ? "must be a port number (1-65535)"
+              : "must be a positive integer",
+        };
+      }
+      return { value };
+    }
+
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const value = String(raw).trim().toLowerCase();
+      if (value === "true") return { value: true };
+      if (value === "false" || value === "") return { value: false };
+      return { error: 'must be "true" or "false"' };
+    }
+
+    case "list": {
+      const items = (Array.isArray(raw) ? raw : String(raw).split(","))
+        .map((item) => String(item).trim())
+        .filter(Boolean);
+      return items.length > 0
+        ? { value: items }
+        : { error: "must contain at least one entry" };
+    }
+  }
+}
+
+/**
+ * 設定ファイルの、どの設定にも当てはまらないキー（タイプミスの検出）
+ */
+function unknownKeys(file: Record<string, unknown>, filePath: string) {
+  const known = new Set(SETTINGS.map((setting) => setting.path));
+  const problems: string[] = [];
+
+  for (const [section, values] of Object.entries(file)) {
+    if (
+      typeof values !== "object" ||
+      values === null ||
+      Array.isArray(values)
+    ) {
+      problems.push(`${filePath}: "${section}" must be an object`);
+      continue;
+    }
+    for (const key of Object.keys(values)) {
+      if (!known.has(`${section}.${key}`)) {
+        problems.push(`${filePath}: unknown setting "${section}.${key}"`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+function getPath(object: Record<string, unknown>, path: string): unknown {
+  const [section, key] = path.split(".");
+  const values = object[section];
+  if (typeof values !== "object" || values === null) return undefined;
+  return (values as Record<string, unknown>)[key];
+}
+
+function setPath(object: Record<string, any>, path: string, value: unknown) {
+  const [section, key] = path.split(".");
+  object[section] ??= {};
+  object[section][key] = value;
+}
@@ -0,0 +1,325 @@
+/**
+ * PostgreSQL と派生ストア（Redis・Elasticsearch）の突き合わせ
+ *
+ * posts を id の範囲ごとに読み、各ストアにある投稿と列のチェックサムを比べる。
+ *
+ * - missing: PostgreSQL にあるのにストアに無い（TTL で消えるキャッシュでは数えない）
+ * - extra:   PostgreSQL に無いのにストアに残っている
+ * - stale:   ストアの内容が PostgreSQL と違う（ストアごとの付随データが欠けている場合も含む）
+ *
+ * repair を指定すると、読んだ時点の PostgreSQL の内容でストアを直す。
+ * 書き込みはスナップショットを取った後の LSN をバージョンにしたバージョン付きの書き込みなので、
+ * 突き合わせの途中で Consumer が反映したより新しいイベントを古い内容で上書きすることはない。
+ *
+ * ただし、スナップショットの時点で COMMIT していないトランザクションの変更イベントは、LSN が
+ * バージョンより小さいことがある（変更を書いたのは LSN を読む前）。その行を直すと、COMMIT の後に
+ * 届いたイベントが古いとして捨てられ、ストアにスナップショットの内容が残ってしまう。
+ * そのため、スナップショットの外のトランザクションが変えている行（xmax）は突き合わせない。
+ * 同じ理由で、ストアを先に読んでから PostgreSQL を読む（読んだ後に COMMIT された INSERT を、
+ * Consumer が反映した後のストアと比べて extra として消さないように）。
+ *
+ * ストアの読み書きは、そのストアの Consumer のハンドラー（cache-updater-handlers など）が実装する。
+ */
+
+import { createHash } from "node:crypto";
+import type { Pool } from "pg";
+import type { Post } from "../types/index.js";
+
+// チェックサムに含める列（Consumer がストアに書く列）
+const CHECKED_COLUMNS = [
+  "id",
+  "title",
+  "content",
+  "author",
+  "created_at",
+  "updated_at",
+] as const;
+
+/**
+ * ストアにある投稿
+ */
+export interface StoredPost {
+  post: Partial<Post>;
+  // 本体はあるが、ストアの付随データ（Redis の著者別リストなど）が欠けている
+  incomplete?: boolean;
+}
+
+export interface StoreRepair {
+  // missing / stale: PostgreSQL の内容を書く（stored は今ストアにあるもの）
+  upsert: { post: Post; stored?: StoredPost }[];
+  // extra: ストアから消す
+  remove: { id: number; stored: StoredPost }[];
+}
+
+/**
+ * 突き合わせる派生ストア
+ */
+export interface DerivedPostStore {
+  name: string;
+  // TTL で消えるキャッシュ（Redis）なら true。無いのはずれではないので missing にせず、修復でも入れない
+  cache?: boolean;
+  read(ids: number[]): Promise<Map<number, StoredPost>>;
+  // version は PostgreSQL のスナップショットを取った後の LSN。直した件数を返す（より新しい内容があれば直さない）
+  repair(repair: StoreRepair, version: number): Promise<number>;
+}
+
+/**
+ * 突き合わせの元（PostgreSQL の posts）
+ */
+export interface PostSource {
+  // これまでに振られた最大の投稿ID（削除された投稿も含む）
+  maxId(): Promise<number>;
+  // ids の投稿と、スナップショットを取った後の LSN。
+  // changing はスナップショットの外のトランザクションが変えている投稿ID（突き合わせない）
+  read(
+    ids: number[],
+  ): Promise<{ posts: Post[]; lsn: number; changing: number[] }>;
+}
+
+export interface StoreDrift {
+  missing: number[];
+  extra: number[];
+  stale: number[];
+  repaired: number;
+}
+
+export interface ConsistencyReport {
+  // 調べた投稿IDの数（PostgreSQL に無い ID も含む）
+  checked: number;
+  // PostgreSQL にあった投稿の数
+  rows: number;
+  // 読んでいる間に変わっていたので突き合わせなかった投稿ID（次の突き合わせで見る）
+  changing: number[];
+  stores: Record<string, StoreDrift>;
+}
+
+export interface CheckOptions {
+  repair?: boolean;
+}
+
+/**
+ * 列のチェックサム（ストアごとの余分なフィールドは見ない）
+ */
+export function postChecksum(post: Partial<Post>): string {
+  const values = CHECKED_COLUMNS.map((column) => post[column] ?? null);
+  return createHash("sha256").update(JSON.stringify(values)).digest("hex");
+}
+
+// missing / extra / stale の合計
+export function differenceCount({ missing, extra, stale }: StoreDrift): number {
+  return missing.length + extra.length + stale.length;
+}
+
+export function hasDrift(report: ConsistencyReport): boolean {
+  return Object.values(report.stores).some(
+    (drift) => differenceCount(drift) > 0,
+  );
+}
+
+function emptyReport(stores: DerivedPostStore[]): ConsistencyReport {
+  return {
+    checked: 0,
+    rows: 0,
+    changing: [],
+    stores: Object.fromEntries(
+      stores.map((store) => [
+        store.name,
+        { missing: [], extra: [], stale: [], repaired: 0 },
+      ]),
+    ),
+  };
+}
+
+function mergeReport(into: ConsistencyReport, report: ConsistencyReport) {
+  into.checked += report.checked;
+  into.rows += report.rows;
+  into.changing.push(...report.changing);
+  for (const [name, drift] of Object.entries(report.stores)) {
+    const total = into.stores[name];
+    total.missing.push(...drift.missing);
+    total.extra.push(...drift.extra);
+    total.stale.push(...drift.stale);
+    total.repaired += drift.repaired;
+  }
+}
+
+/**
+ * 指定した投稿IDを突き合わせる
+ */
+export async function checkPosts(
+  source: PostSource,
+  stores: DerivedPostStore[],
+  ids: number[],
+  { repair = false }: CheckOptions = {},
+): Promise<ConsistencyReport> {
+  const report = emptyReport(stores);
+  if (ids.length === 0) return report;
+
+  // ストアを先に読む（PostgreSQL のスナップショットより前の状態と比べる）
+  const storedByStore = new Map<DerivedPostStore, Map<number, StoredPost>>();
+  for (const store of stores) {
+    storedByStore.set(store, await store.read(ids));
+  }
+
+  const { posts, lsn, changing } = await source.read(ids);
+  const rows = new Map(posts.map((post) => [post.id, post]));
+  const unsettled = new Set(changing);
+  report.checked = ids.length;
+  report.rows = rows.size;
+  report.changing = changing;
+
+  for (const store of stores) {
+    const stored = storedByStore.get(store)!;
+    const drift = report.stores[store.name];
+    const fix: StoreRepair = { upsert: [], remove: [] };
+
+    for (const id of ids) {
+      if (unsettled.has(id)) continue;
+      const row = rows.get(id);
+      const entry = stored.get(id);
+      if (row && !entry) {
+        if (store.cache) continue;
+        drift.missing.push(id);
+        fix.upsert.push({ post: row });
+      } else if (!row && entry) {
+        drift.extra.push(id);
+        fix.remove.push({ id, stored: entry });
+      } else if (
+        row &&
+        entry &&
+        (entry.incomplete || postChecksum(entry.post) !== postChecksum(row))
+      ) {
+        drift.stale.push(id);
+        fix.upsert.push({ post: row, stored: entry });
+      }
+    }
+
+    if (repair && fix.upsert.length + fix.remove.length > 0) {
+      drift.repaired = await store.repair(fix, lsn);
+    }
+  }
+  return report;
+}
+
+/**
+ * すべての投稿を id の範囲ごとに突き合わせる
+ * @param onRange 範囲ごとの結果（進み具合の表示用）
+ */
+export async function checkAllPosts(
+  source: PostSource,
+  stores: DerivedPostStore[],
+  {
+    rangeSize,
+    onRange,
+    ...options
+  }: CheckOptions & {
+    rangeSize: number;
+    onRange?: (from: number, to: number, report: ConsistencyReport) => void;
+  },
+): Promise<ConsistencyReport> {
+  const total = emptyReport(stores);
+  const maxId = await source.maxId();
+
+  for (let from = 1; from <= maxId; from += rangeSize) {
+    const to = Math.min(from + rangeSize - 1, maxId);
+    const ids = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    const report = await checkPosts(source, stores, ids, options);
+    onRange?.(from, to, report);
+    mergeReport(total, report);
+  }
+  return total;
+}
+
+/**
+ * ランダムに選んだ投稿IDだけを突き合わせる（スポットチェック）
+ * 削除された ID も選ぶので、extra も見つかる
+ */
+export async function checkSampledPosts(
+  source: PostSource,
+  stores: DerivedPostStore[],
+  sampleSize: number,
+  random: () => number = Math.random,
+): Promise<ConsistencyReport> {
+  const maxId = await source.maxId();
+  const ids = new Set<number>();
+  if (maxId <= sampleSize) {
+    for (let id = 1; id <= maxId; id++) ids.add(id);
+  } else {
+    while (ids.size < sampleSize) {
+      ids.add(1 + Math.floor(random() * maxId));
+    }
+  }
+  return checkPosts(
+    source,
+    stores,
+    [...ids].sort((a, b) => a - b),
+  );
+}
+
+/**
+ * pg_current_snapshot() の "xmin:xmax:xip,..." から、スナップショットの外（実行中か、後から始まった）の
+ * トランザクションかを判定する関数を作る
+ * 行の xmax は 32 ビットの xid なので、スナップショットの 64 ビットの値の下位 32 ビットと比べる
+ */
+export function outsideSnapshot(snapshot: string): (xid: number) => boolean {
+  const [, xmax, xip] = snapshot.split(":");
+  const toXid = (xid8: string) => Number(BigInt(xid8) & 0xffffffffn);
+  const running = new Set(xip ? xip.split(",").map(toXid) : []);
+  const next = toXid(xmax);
+  // xmax 以上（周回を考えて 32 ビットの差で比べる）はスナップショットの後に始まった
+  return (xid) =>
+    xid !== 0 && (running.has(xid) || (xid - next) >>> 0 < 2 ** 31);
+}
+
+/**
+ * PostgreSQL の posts
+ * TIMESTAMP を Consumer と同じ ISO-8601 で読むよう、pgTimestampToIso を設定した Pool を渡す
+ *
+ * REPEATABLE READ の1つのスナップショットで読み、スナップショットを取った後の LSN をバージョンにする。
+ * 見えている行の xmax がスナップショットの外のトランザクションなら、その行は更新・削除されている途中
+ * （か読んだ後に変わった）ので changing に入れる。
+ * 複数のトランザクションが行をロックしている時の xmax は MultiXact ID で xid と比べられないため、見分けられない。
+ */
+export function createPgPostSource(pg: Pool): PostSource {
+  return {
+    async maxId() {
+      const result = await pg.query<{ max_id: string | null }>(
+        "SELECT pg_sequence_last_value(pg_get_serial_sequence('posts', 'id')) AS max_id",
+      );
+      return Number(result.rows[0]?.max_id ?? 0);
+    },
+    async read(ids) {
+      const client = await pg.connect();
+      try {
+        await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+        // 最初のクエリでスナップショットが決まる。LSN はその後に読む
+        // （スナップショットに入ったトランザクションの変更イベントは、どれもこの LSN より前）
+        const snapshot = await client.query<{ snapshot: string }>(
+          "SELECT pg_current_snapshot()::text AS snapshot",
+        );
+        const lsn = await client.query<{ wal_lsn: string }>(
+          "SELECT (pg_current_wal_lsn() - '0/0')::text AS wal_lsn",
+        );
+        const result = await client.query<Post & { row_xmax: string }>(
+          "SELECT *, xmax::text AS row_xmax FROM posts WHERE id = ANY($1::int[]) ORDER BY id",
+          [ids],
+        );
+        await client.query("COMMIT");
+
+        const changingXid = outsideSnapshot(snapshot.rows[0].snapshot);
+        return {
+          posts: result.rows.map(({ row_xmax: _xmax, ...post }) => post),
+          lsn: Number(lsn.rows[0].wal_lsn),
+          changing: result.rows
+            .filter(({ row_xmax }) => changingXid(Number(row_xmax)))
+            .map(({ id }) => id),
+        };
+      } catch (error) {
+        await client.query("ROLLBACK").catch(() => {});
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * 変更イベント Consumer のメトリクス
+ *
+ * - cdc_events_processed_total: 反映した変更イベントの数（op ごと）
+ * - cdc_handler_failures_total: 反映の失敗（リトライした / DLQ に退避した）
+ * - cdc_consumer_lag: パーティションごとの未コミットのメッセージ数
+ * - cdc_propagation_delay_seconds: PostgreSQL でコミットされてから反映するまでの時間
+ */
+
+import type { KafkaMessage } from "kafkajs";
+import type { DebeziumChangeEvent } from "../types/index.js";
+import { decodeChangeEvent } from "./event-decoder.js";
+import { defaultRegistry, type MetricsRegistry } from "./metrics.js";
+
+export type FailureOutcome = "retried" | "dead_lettered";
+
+export interface PartitionLag {
+  topic: string;
+  partition: number;
+  // 次に書き込まれるオフセット（high watermark）
+  high: string;
+  // コミット済みのオフセット（未コミットなら null、low は保持されている一番古いオフセット）
+  committed: string | null;
+  low: string;
+}
+
+const PROPAGATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export class ConsumerMetrics {
+  private eventsProcessed;
+  private handlerFailures;
+  private lag;
+  private propagationDelay;
+
+  constructor(
+    private consumerName: string,
+    registry: MetricsRegistry = defaultRegistry,
+    private now: () => number = Date.now,
+  ) {
+    this.eventsProcessed = registry.counter(
+      "cdc_events_processed_total",
+      "Change events applied to the sink, by op (tombstone for null values)",
+    );
+    this.handlerFailures = registry.counter(
+      "cdc_handler_failures_total",
+      "Failed attempts to apply a change event, by outcome",
+    );
+    this.lag = registry.gauge(
+      "cdc_consumer_lag",
+      "Messages not yet committed by the consumer group, per partition",
+    );
+    this.propagationDelay = registry.histogram(
+      "cdc_propagation_delay_seconds",
+      "Time from the Postgres commit (payload.source.ts_ms) to applying the event",
+      PROPAGATION_BUCKETS,
+    );
+  }
+
+  /**
+   * 反映し終わった変更イベントを記録する（null はトゥームストーン）
+   */
+  recordEvent(event: DebeziumChangeEvent | null): void {
+    const consumer = this.consumerName;
+    if (!event) {
+      this.eventsProcessed.inc({ consumer, op: "tombstone" });
+      return;
+    }
+
+    const { op, source } = event.payload;
+    this.eventsProcessed.inc({ consumer, op });
+    if (typeof source?.ts_ms === "number") {
+      const delaySeconds = Math.max(0, this.now() - source.ts_ms) / 1000;
+      this.propagationDelay.observe({ consumer }, delaySeconds);
+    }
+  }
+
+  /**
+   * 反映し終わったメッセージを記録する（バッチで書き込んだ時など、イベントを持っていない場合）
+   */
+  recordMessage(message: Pick<KafkaMessage, "value">): void {
+    if (!message.value) {
+      this.recordEvent(null);
+      return;
+    }
+    try {
+      this.recordEvent(decodeChangeEvent(message.value));
+    } catch {
+      // 読めないメッセージは DLQ に送られているので数えない
+    }
+  }
+
+  recordFailure(outcome: FailureOutcome, count = 1): void {
+    this.handlerFailures.inc({ consumer: this.consumerName, outcome }, count);
+  }
+
+  /**
+   * パーティションごとのラグを置き換える
+   */
+  setLag(partitions: PartitionLag[]): void {
+    this.lag.reset({ consumer: this.consumerName });
+    for (const { topic, partition, high, committed, low } of partitions) {
+      const lag = Number(BigInt(high) - BigInt(committed ?? low));
+      this.lag.set(
+        { consumer: this.consumerName, topic, partition },
+        Math.max(0, lag),
+      );
+    }
+  }
+}
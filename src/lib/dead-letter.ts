@@ -0,0 +1,115 @@
+/**
+ * Dead Letter Queue (DLQ)
+ * 処理できなかったイベントをConsumerごとのDLQトピックに退避する
+ *
+ * 例: blogdb.public.posts → blogdb.public.posts.search-indexer.dlq
+ */
+
+import type { IHeaders, KafkaMessage, Producer } from "kafkajs";
+
+// DLQメッセージに付与するヘッダー名
+export const DLQ_HEADERS = {
+  originalTopic: "x-dlq-original-topic",
+  originalPartition: "x-dlq-original-partition",
+  originalOffset: "x-dlq-original-offset",
+  errorMessage: "x-dlq-error-message",
+  attempts: "x-dlq-attempts",
+  consumerGroup: "x-dlq-consumer-group",
+  failedAt: "x-dlq-failed-at",
+  reason: "x-dlq-reason",
+} as const;
+
+export interface DeadLetterParams {
+  consumerName: string;
+  consumerGroup: string;
+  topic: string;
+  partition: number;
+  message: Pick<KafkaMessage, "key" | "value" | "offset">;
+  error: unknown;
+  attempts: number;
+  reason?: string; // 例: retries-exhausted, non-retryable
+}
+
+// DLQヘッダーを読み取った結果
+export interface DeadLetterMetadata {
+  originalTopic: string;
+  originalPartition: number;
+  originalOffset: string;
+  errorMessage: string;
+  attempts: number;
+  consumerGroup: string;
+  failedAt: string;
+  reason: string;
+}
+
+/**
+ * Consumer名からDLQトピック名を決める
+ */
+export function deadLetterTopic(topic: string, consumerName: string): string {
+  return `${topic}.${consumerName}.dlq`;
+}
+
+/**
+ * 失敗したメッセージを元の key/value のままDLQへ送る
+ * （JSONとして壊れているメッセージもそのまま退避できるように）
+ */
+export async function publishToDeadLetter(
+  producer: Producer,
+  params: DeadLetterParams,
+): Promise<string> {
+  const dlqTopic = deadLetterTopic(params.topic, params.consumerName);
+
+  await producer.send({
+    topic: dlqTopic,
+    messages: [
+      {
+        key: params.message.key,
+        value: params.message.value,
+        headers: {
+          [DLQ_HEADERS.originalTopic]: params.topic,
+          [DLQ_HEADERS.originalPartition]: params.partition.toString(),
+          [DLQ_HEADERS.originalOffset]: params.message.offset,
+          [DLQ_HEADERS.errorMessage]: errorMessage(params.error),
+          [DLQ_HEADERS.attempts]: params.attempts.toString(),
+          [DLQ_HEADERS.consumerGroup]: params.consumerGroup,
+          [DLQ_HEADERS.failedAt]: new Date().toISOString(),
+          [DLQ_HEADERS.reason]: params.reason ?? "unknown",
+        },
+      },
+    ],
+  });
+
+  console.warn(
+    `  📮 Sent offset ${params.message.offset} to DLQ: ${dlqTopic} (attempts: ${params.attempts})`,
+  );
+
+  return dlqTopic;
+}
+
+/**
+ * DLQメッセージのヘッダーを読み取る（リプレイ用）
+ */
+export function readDeadLetterMetadata(
+  headers: IHeaders | undefined,
+): DeadLetterMetadata {
+  const get = (name: string) => {
+    const value = headers?.[name];
+    if (value === undefined) return "";
+    return (Array.isArray(value) ? value[0] : value).toString();
+  };
+
+  return {
+    originalTopic: get(DLQ_HEADERS.originalTopic),
+    originalPartition: Number(get(DLQ_HEADERS.originalPartition) || 0),
+    originalOffset: get(DLQ_HEADERS.originalOffset),
+    errorMessage: get(DLQ_HEADERS.errorMessage),
+    attempts: Number(get(DLQ_HEADERS.attempts) || 0),
+    consumerGroup: get(DLQ_HEADERS.consumerGroup),
+    failedAt: get(DLQ_HEADERS.failedAt),
+    reason: get(DLQ_HEADERS.reason),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,278 @@
+/**
+ * Debezium の変更イベントのデコード
+ *
+ * Kafka メッセージの value を読み、エンベロープと行の形を検証して DebeziumChangeEvent にする。
+ * 行の列の型は source.schema / source.table で引いたテーブルの登録（tables.ts）に従う。
+ * JsonConverter の schemas.enable によって { schema, payload } と payload だけの2つの形があるので、
+ * どちらも { schema?, payload } にそろえて返す。
+ *
+ * 日時などの論理型は schema ブロックを見て正規の形に変換する（column-types.ts）。
+ *
+ * 形が合わないイベントは、ハンドラーの奥で undefined のエラーになる前にここで止め、
+ * 何が足りないかを並べた EventDecodeError にする（リトライしても直らないので DLQ 行き）。
+ */
+
+import type { ConnectSchema, DebeziumChangeEvent } from "../types/index.js";
+import { convertRow, rowFieldsOf } from "./column-types.js";
+import { NonRetryableError } from "./retry.js";
+import {
+  lookupTable,
+  type ColumnType,
+  type TableDefinition,
+} from "./tables.js";
+
+type Op = DebeziumChangeEvent["payload"]["op"];
+
+const OPS = new Set<string>(["c", "u", "d", "r", "t"]);
+
+// 動作を確認している Debezium のバージョン（docker-compose は 2.4）
+const SUPPORTED_SOURCE_VERSIONS = [/^2\./];
+
+/**
+ * イベントの形が不正
+ * problems に問題をすべて入れる
+ */
+export class EventDecodeError extends NonRetryableError {
+  constructor(readonly problems: string[]) {
+    super(`Invalid change event: ${problems.join(", ")}`);
+    this.name = "EventDecodeError";
+  }
+}
+
+type FieldType = ColumnType | "string-or-number" | "object";
+
+const DESCRIPTIONS: Record<FieldType, string> = {
+  string: "a string",
+  number: "a number",
+  integer: "an integer",
+  "string-or-number": "a string or a number",
+  object: "an object",
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === "object";
+}
+
+function matches(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "string-or-number":
+      return typeof value === "string" || typeof value === "number";
+    case "object":
+      return isObject(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * 値の型を確認し、問題があれば problems に追加する
+ * 値が無い（null / undefined）場合、optional なら問題にしない
+ */
+function check(
+  value: unknown,
+  path: string,
+  type: FieldType,
+  problems: string[],
+  optional = false,
+): boolean {
+  if (value === undefined || value === null) {
+    if (!optional) problems.push(`missing ${path}`);
+    return false;
+  }
+  if (!matches(value, type)) {
+    problems.push(
+      `${path} must be ${DESCRIPTIONS[type]} (got ${typeOf(value)})`,
+    );
+    return false;
+  }
+  return true;
+}
+
+/**
+ * テーブルの行を確認する
+ * keyOnly: REPLICA IDENTITY DEFAULT の before のように主キーしか無くてもよい
+ */
+function checkRow(
+  table: TableDefinition,
+  row: unknown,
+  path: string,
+  problems: string[],
+  keyOnly = false,
+) {
+  if (!check(row, path, "object", problems)) return;
+
+  const fields = row as Record<string, unknown>;
+  const columns = Object.entries(table.columns) as [string, ColumnType][];
+  for (const [column, type] of columns) {
+    const optional =
+      (keyOnly && column !== table.primaryKey) ||
+      (table.nullable as string[]).includes(column);
+    check(fields[column], `${path}.${column}`, type, problems, optional);
+  }
+}
+
+/**
+ * source.schema / source.table からテーブルの登録を引く
+ * source が無い・形が違う場合は checkSource が問題にするので、ここでは null を返すだけ
+ */
+function tableOf(source: unknown): TableDefinition | null | undefined {
+  if (!isObject(source)) return undefined;
+  const { schema, table } = source;
+  if (typeof schema !== "string" || typeof table !== "string") {
+    return undefined;
+  }
+  return lookupTable(`${schema}.${table}`);
+}
+
+function checkSource(source: unknown, problems: string[]) {
+  if (!check(source, "payload.source", "object", problems)) return;
+
+  const { version, connector, ts_ms, lsn, schema, table } = source as Record<
+    string,
+    unknown
+  >;
+  if (check(version, "payload.source.version", "string", problems)) {
+    if (
+      !SUPPORTED_SOURCE_VERSIONS.some((pattern) =>
+        pattern.test(version as string),
+      )
+    ) {
+      problems.push(`unsupported source.version '${version}'`);
+    }
+  }
+  if (
+    check(connector, "payload.source.connector", "string", problems) &&
+    connector !== "postgresql"
+  ) {
+    problems.push(`unsupported source.connector '${connector}'`);
+  }
+  check(ts_ms, "payload.source.ts_ms", "number", problems);
+  check(schema, "payload.source.schema", "string", problems);
+  check(table, "payload.source.table", "string", problems);
+  // LSN が無ければ ts_ms をバージョンに使う（event-version.ts）
+  check(lsn, "payload.source.lsn", "string-or-number", problems, true);
+}
+
+function checkTransaction(transaction: unknown, problems: string[]) {
+  if (!check(transaction, "payload.transaction", "object", problems, true)) {
+    return;
+  }
+
+  const { id, total_order, data_collection_order } = transaction as Record<
+    string,
+    unknown
+  >;
+  check(id, "payload.transaction.id", "string", problems);
+  check(total_order, "payload.transaction.total_order", "integer", problems);
+  check(
+    data_collection_order,
+    "payload.transaction.data_collection_order",
+    "integer",
+    problems,
+  );
+}
+
+/**
+ * JSON としてパースした値を検証して DebeziumChangeEvent にする
+ * @throws EventDecodeError 問題をすべて並べる
+ */
+export function validateChangeEvent(parsed: unknown): DebeziumChangeEvent {
+  if (!isObject(parsed)) {
+    throw new EventDecodeError([
+      `change event must be an object (got ${typeOf(parsed)})`,
+    ]);
+  }
+
+  // schemas.enable=true なら { schema, payload }、false ならイベントそのもの
+  const hasEnvelope = "payload" in parsed;
+  const payload = hasEnvelope ? parsed.payload : parsed;
+  if (!isObject(payload)) {
+    throw new EventDecodeError([
+      `payload must be an object (got ${typeOf(payload)})`,
+    ]);
+  }
+
+  const schema =
+    hasEnvelope && isObject(parsed.schema)
+      ? (parsed.schema as unknown as ConnectSchema)
+      : undefined;
+  const table = tableOf(payload.source);
+  const rowFields = rowFieldsOf(schema) ?? table?.logicalTypes ?? [];
+  const converted: Record<string, unknown> = {
+    ...payload,
+    before: convertRow(payload.before as Record<string, unknown>, rowFields),
+    after: convertRow(payload.after as Record<string, unknown>, rowFields),
+  };
+
+  const problems: string[] = [];
+  const { op, before, after, source, ts_ms, transaction } = converted;
+
+  if (check(op, "payload.op", "string", problems) && !OPS.has(op as string)) {
+    problems.push(`unknown op '${op}'`);
+  }
+  checkSource(source, problems);
+  check(ts_ms, "payload.ts_ms", "number", problems);
+  checkTransaction(transaction, problems);
+
+  if (table === null) {
+    const { schema: tableSchema, table: tableName } = source as Record<
+      string,
+      unknown
+    >;
+    problems.push(`unknown table '${tableSchema}.${tableName}'`);
+  }
+
+  // テーブルが分からなければ行は確かめられない（問題は上で追加済み）
+  if (table) {
+    switch (op as Op) {
+      case "c":
+      case "r":
+        checkRow(table, after, "payload.after", problems);
+        break;
+      case "u":
+        checkRow(table, after, "payload.after", problems);
+        // REPLICA IDENTITY DEFAULT なら before は null
+        if (before !== null && before !== undefined) {
+          checkRow(table, before, "payload.before", problems, true);
+        }
+        break;
+      case "d":
+        checkRow(table, before, "payload.before", problems, true);
+        break;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new EventDecodeError(problems);
+  }
+
+  const event = { payload: converted } as unknown as DebeziumChangeEvent;
+  if (schema) {
+    event.schema = schema;
+  }
+  return event;
+}
+
+/**
+ * Kafka メッセージの value を読んで検証する
+ * @throws EventDecodeError JSON として読めない場合も含む
+ */
+export function decodeChangeEvent(value: Buffer | string): DebeziumChangeEvent {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value.toString());
+  } catch (error) {
+    throw new EventDecodeError([
+      `malformed JSON (${(error as Error).message})`,
+    ]);
+  }
+  return validateChangeEvent(parsed);
+}
@@ -0,0 +1,36 @@
+/**
+ * 変更イベントのバージョン
+ *
+ * PostgreSQLのLSN（WAL上の位置）は単調増加するので、
+ * 派生ストアへの書き込みの新旧比較に使える。
+ */
+
+import type { DebeziumChangeEvent } from "../types/index.js";
+
+/**
+ * LSNを数値に変換する
+ * Debeziumは数値で送ってくるが、"16/B374D848" 形式の文字列も受け付ける
+ */
+export function lsnToNumber(lsn: string | number): number {
+  if (typeof lsn === "number") return lsn;
+
+  const match = /^([0-9A-Fa-f]+)\/([0-9A-Fa-f]+)$/.exec(lsn);
+  if (match) {
+    return parseInt(match[1], 16) * 2 ** 32 + parseInt(match[2], 16);
+  }
+  return Number(lsn);
+}
+
+/**
+ * イベントのバージョンを返す
+ * LSNが無い場合のみ source.ts_ms で代用する（LSNとは混在させない前提）
+ */
+export function eventVersion(event: DebeziumChangeEvent): number {
+  const { lsn, ts_ms } = event.payload.source ?? {};
+
+  if (lsn !== undefined && lsn !== null && lsn !== "") {
+    const version = lsnToNumber(lsn);
+    if (Number.isFinite(version)) return version;
+  }
+  return ts_ms ?? event.payload.ts_ms;
+}
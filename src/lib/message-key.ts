@@ -0,0 +1,27 @@
+/**
+ * Debezium のメッセージキーの読み取り
+ *
+ * キーは主キーの JSON。JsonConverter の schemas.enable によって
+ * { schema, payload: { id } } と { id } の2つの形がある。
+ * トゥームストーン（value が null）はキーでしか対象のレコードが分からない。
+ */
+
+import { NonRetryableError } from "./retry.js";
+
+/**
+ * メッセージキーから主キー id を取り出す
+ * キーが無い・id が無い場合は null、JSONとして読めない場合は NonRetryableError
+ */
+export function recordIdFromKey(key: Buffer | null | undefined): number | null {
+  if (!key) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(key.toString());
+  } catch {
+    throw new NonRetryableError(`Malformed message key: ${key.toString()}`);
+  }
+
+  const id = (parsed?.payload ?? parsed)?.id;
+  return typeof id === "number" ? id : null;
+}
@@ -0,0 +1,288 @@
+/**
+ * Prometheus のメトリクス
+ *
+ * Counter / Gauge / Histogram を登録しておき、/metrics で Prometheus のテキスト形式にして返す。
+ * スクレイプの時点でしか取れない値（Consumer のラグなど）は onCollect で集める。
+ */
+
+import { createServer, type Server } from "node:http";
+
+export type Labels = Record<string, string | number>;
+
+// Prometheus のテキスト形式（exposition format 0.0.4）
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// 秒単位のレイテンシ向けのデフォルトのバケット
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+// ラベルの順序が違っても同じ系列になるように、名前順に並べて文字列にする
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(String(labels[name]))}"`)
+    .join(",");
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+abstract class Metric {
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ];
+  }
+
+  protected abstract samples(): string[];
+}
+
+/**
+ * 増えるだけの値（処理件数など）
+ */
+export class Counter extends Metric {
+  readonly type = "counter";
+  private values = new Map<string, number>();
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) throw new Error(`${this.name}: counter cannot decrease`);
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(([key, value]) =>
+      series(this.name, key, value),
+    );
+  }
+}
+
+/**
+ * 増減する値（ラグなど）
+ */
+export class Gauge extends Metric {
+  readonly type = "gauge";
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(labelKey(labels))?.value;
+  }
+
+  /**
+   * match のラベルをすべて持つ系列を消す（省略時はすべて）
+   * 無くなった系列（外れたパーティションなど）を残さないように、集め直す前に呼ぶ
+   */
+  reset(match: Labels = {}): void {
+    for (const [key, { labels }] of this.values) {
+      if (Object.entries(match).every(([name, v]) => labels[name] === v)) {
+        this.values.delete(key);
+      }
+    }
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(([key, { value }]) =>
+      series(this.name, key, value),
+    );
+  }
+}
+
+interface HistogramState {
+  // buckets[i] は le=this.buckets[i] 以下の観測数（累積ではない）
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * 分布（レイテンシなど）
+ */
+export class Histogram extends Metric {
+  readonly type = "histogram";
+  private values = new Map<string, HistogramState>();
+
+  constructor(
+    name: string,
+    help: string,
+    readonly buckets: number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let state = this.values.get(key);
+    if (!state) {
+      state = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, state);
+    }
+
+    const index = this.buckets.findIndex((le) => value <= le);
+    if (index >= 0) state.buckets[index]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  /**
+   * 呼び出してから終わるまでの秒数を観測する関数を返す
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.count ?? 0;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, state] of this.values) {
+      const prefix = key ? `${key},` : "";
+      let cumulative = 0;
+      this.buckets.forEach((le, i) => {
+        cumulative += state.buckets[i];
+        lines.push(`${this.name}_bucket{${prefix}le="${le}"} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${state.count}`);
+      lines.push(series(`${this.name}_sum`, key, state.sum));
+      lines.push(series(`${this.name}_count`, key, state.count));
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectors = new Set<() => Promise<void> | void>();
+
+  /**
+   * 同じ名前で2回登録したら同じメトリクスを返す（Consumer を複数作っても系列がまとまる）
+   */
+  counter(name: string, help: string): Counter {
+    return this.register(name, Counter, () => new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, Gauge, () => new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(
+      name,
+      Histogram,
+      () => new Histogram(name, help, buckets),
+    );
+  }
+
+  /**
+   * スクレイプのたびに呼ぶ関数を登録する
+   * @returns 登録を解除する関数
+   */
+  onCollect(collector: () => Promise<void> | void): () => void {
+    this.collectors.add(collector);
+    return () => this.collectors.delete(collector);
+  }
+
+  /**
+   * Prometheus のテキスト形式にする
+   * 集められなかった値があっても、残りのメトリクスは返す
+   */
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      try {
+        await collector();
+      } catch (error) {
+        console.error("❌ Failed to collect metrics:", error);
+      }
+    }
+
+    return (
+      [...this.metrics.values()]
+        .flatMap((metric) => metric.render())
+        .join("\n") + "\n"
+    );
+  }
+
+  private register<T extends Metric>(
+    name: string,
+    type: abstract new (...args: any[]) => T,
+    create: () => T,
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(
+          `Metric ${name} is already registered as a ${existing.type}`,
+        );
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+// プロセス全体で共有するレジストリ
+export const defaultRegistry = new MetricsRegistry();
+
+/**
+ * GET /metrics だけを返す HTTP サーバーを起動する（Consumer 用）
+ */
+export function startMetricsServer(
+  port: number,
+  registry: MetricsRegistry = defaultRegistry,
+): Server {
+  const server = createServer((req, res) => {
+    if (req.method !== "GET" || req.url !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+
+    registry.render().then(
+      (body) => {
+        res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE }).end(body);
+      },
+      (error) => {
+        res.writeHead(500).end((error as Error).message);
+      },
+    );
+  });
+
+  server.listen(port, () => {
+    console.log(`📈 Metrics available on http://localhost:${port}/metrics`);
+  });
+  return server;
+}
@@ -0,0 +1,130 @@
+/**
+ * オフセットの手動コミット
+ *
+ * autoCommit: false で使う。反映し終わった（書き込みが成功した、または DLQ に退避した）
+ * メッセージのオフセットだけをコミットするので、失敗した書き込みの先にオフセットが進むことはない。
+ * 1件ごとにコミットするとブローカーへの往復が増えるので、件数か時間が溜まったらまとめてコミットする。
+ * コミット前に落ちた分は再配信される（at-least-once）。
+ */
+
+import type { Consumer } from "kafkajs";
+import { OffsetTracker, type CommittableOffset } from "./offset-tracker.js";
+
+export interface OffsetCommitterOptions {
+  // この件数を完了したらコミットする（デフォルト: 1件ごと）
+  batchSize?: number;
+  // 前回のコミットからこの時間が経ったら、件数に達していなくてもコミットする
+  intervalMs?: number;
+  // 完了が途切れずに進んだパーティションを受け取る（コミットするかどうかに関わらず maybeCommit のたびに呼ぶ）
+  onProgress?: (offsets: CommittableOffset[]) => Promise<void>;
+  now?: () => number;
+}
+
+export class OffsetCommitter {
+  private tracker = new OffsetTracker();
+  private completedSinceCommit = 0;
+  private lastCommitAt: number;
+  private draining = false;
+  // コミットが前後して古いオフセットで上書きしないように直列に実行する
+  private committing: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private consumer: Pick<Consumer, "commitOffsets">,
+    private options: OffsetCommitterOptions = {},
+  ) {
+    this.lastCommitAt = this.now();
+  }
+
+  /**
+   * 受け取ったメッセージを未完了として登録する
+   */
+  track(topic: string, partition: number, offset: string): void {
+    this.tracker.track(topic, partition, offset);
+  }
+
+  /**
+   * 反映し終わったメッセージを完了にする（コミットは maybeCommit / flush で行う）
+   */
+  complete(topic: string, partition: number, offset: string): void {
+    this.tracker.complete(topic, partition, offset);
+    this.completedSinceCommit++;
+  }
+
+  /**
+   * 件数・時間のしきい値を超えていればコミットする
+   * 停止中（drain 後）は毎回コミットする
+   * onProgress があれば、その前に完了が進んだところを渡す
+   */
+  async maybeCommit(): Promise<void> {
+    const { batchSize = 1, intervalMs = Infinity, onProgress } = this.options;
+    if (onProgress) {
+      const progress = this.tracker.takeProgress();
+      if (progress.length > 0) await onProgress(progress);
+    }
+    if (
+      this.draining ||
+      this.completedSinceCommit >= batchSize ||
+      this.now() - this.lastCommitAt >= intervalMs
+    ) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * 完了したところまでをすぐにコミットする
+   */
+  flush(): Promise<void> {
+    const run = this.committing.then(async () => {
+      this.completedSinceCommit = 0;
+      this.lastCommitAt = this.now();
+
+      const offsets = this.tracker.takeCommittable();
+      if (offsets.length > 0) {
+        await this.consumer.commitOffsets(offsets);
+      }
+    });
+    this.committing = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * メッセージが来ない間も intervalMs ごとにコミットする
+   */
+  startTimer(): void {
+    const { intervalMs } = this.options;
+    if (this.timer || !intervalMs || !Number.isFinite(intervalMs)) return;
+
+    this.timer = setInterval(() => {
+      this.maybeCommit().catch((error) => {
+        console.error("❌ Failed to commit offsets:", error);
+      });
+    }, intervalMs);
+    // タイマーだけでプロセスを生かし続けない
+    this.timer.unref();
+  }
+
+  /**
+   * 停止前に呼ぶ。溜まっている分をコミットし、以降は完了のたびにコミットする
+   */
+  async drain(): Promise<void> {
+    this.draining = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * リバランスなどでコミット済みオフセットから読み直す時に捨てる
+   */
+  clear(): void {
+    this.tracker.clear();
+    this.completedSinceCommit = 0;
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
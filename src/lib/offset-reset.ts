@@ -0,0 +1,343 @@
+/**
+ * Consumer グループのオフセットの付け替え（巻き戻し・早送り）とリプレイの進み具合
+ *
+ * npm run consumer:reset が使う。
+ * Kafka には外からグループのメンバーを止める API が無いので、Consumer を止めて
+ * グループが空になっている（一時停止している）ことを確かめてからオフセットを変える。
+ * メンバーが動いていると、変えたオフセットは次のコミットで上書きされてしまう。
+ */
+
+import type { Admin } from "kafkajs";
+
+/**
+ * オフセットをどこに付け替えるか
+ * - earliest / latest: 保持されている一番古いオフセット / 末尾（high watermark）
+ * - offset: すべてのパーティションを同じオフセットに
+ * - partition-offsets: パーティションごとのオフセット（指定しなかったパーティションはそのまま）
+ * - timestamp: その時刻以降の最初のメッセージ（無ければ末尾）
+ */
+export type ResetTarget =
+  | { type: "earliest" }
+  | { type: "latest" }
+  | { type: "offset"; offset: string }
+  | { type: "partition-offsets"; offsets: Map<number, string> }
+  | { type: "timestamp"; timestamp: number };
+
+/**
+ * --to= の値が読めない、またはトピックに無いパーティション・オフセットを指している
+ */
+export class InvalidResetTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidResetTargetError";
+  }
+}
+
+/**
+ * グループにメンバーがいる（Consumer が動いている）
+ */
+export class ConsumerGroupActiveError extends Error {
+  constructor(
+    readonly groupId: string,
+    readonly members: number,
+  ) {
+    super(
+      `${groupId} has ${members} running member(s); stop the consumer first`,
+    );
+    this.name = "ConsumerGroupActiveError";
+  }
+}
+
+/**
+ * earliest / latest / offset:<n> / offset:<partition>=<n>,… / timestamp:<ISO-8601 またはミリ秒>
+ */
+export function parseResetTarget(spec: string): ResetTarget {
+  if (spec === "earliest" || spec === "latest") {
+    return { type: spec };
+  }
+
+  const offset = /^offset:(\d+)$/.exec(spec);
+  if (offset) {
+    return { type: "offset", offset: offset[1] };
+  }
+
+  if (/^offset:\d+=\d+(,\d+=\d+)*$/.test(spec)) {
+    const offsets = new Map<number, string>();
+    for (const pair of spec.slice("offset:".length).split(",")) {
+      const [partition, value] = pair.split("=");
+      if (offsets.has(Number(partition))) {
+        throw new InvalidResetTargetError(
+          `Partition ${partition} is given twice: ${spec}`,
+        );
+      }
+      offsets.set(Number(partition), value);
+    }
+    return { type: "partition-offsets", offsets };
+  }
+
+  if (spec.startsWith("timestamp:")) {
+    const value = spec.slice("timestamp:".length);
+    const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (!Number.isNaN(timestamp)) {
+      return { type: "timestamp", timestamp };
+    }
+  }
+
+  throw new InvalidResetTargetError(
+    `Invalid reset target: ${spec} (expected earliest, latest, offset:<n>, offset:<partition>=<n>,… or timestamp:<ISO-8601|ms>)`,
+  );
+}
+
+export function describeResetTarget(target: ResetTarget): string {
+  switch (target.type) {
+    case "earliest":
+    case "latest":
+      return target.type;
+    case "offset":
+      return `offset ${target.offset}`;
+    case "partition-offsets":
+      return `offsets ${[...target.offsets].map(([partition, offset]) => `${partition}=${offset}`).join(",")}`;
+    case "timestamp":
+      return new Date(target.timestamp).toISOString();
+  }
+}
+
+/**
+ * グループにメンバーがいないことを確かめる（いれば ConsumerGroupActiveError）
+ */
+export async function assertGroupStopped(
+  admin: Admin,
+  groupId: string,
+): Promise<void> {
+  const {
+    groups: [group],
+  } = await admin.describeGroups([groupId]);
+  if (group && group.members.length > 0) {
+    throw new ConsumerGroupActiveError(groupId, group.members.length);
+  }
+}
+
+/**
+ * 付け替え先のオフセットをパーティションごとに求める
+ * 指定されたオフセットは保持されている範囲（low 〜 high）に無ければエラーにする
+ */
+export async function resolveResetOffsets(
+  admin: Admin,
+  topic: string,
+  target: ResetTarget,
+): Promise<{ partition: number; offset: string }[]> {
+  const partitions = await admin.fetchTopicOffsets(topic);
+
+  let requested: Map<number, string>;
+  switch (target.type) {
+    case "earliest":
+      requested = new Map(partitions.map((p) => [p.partition, p.low]));
+      break;
+    case "latest":
+      requested = new Map(partitions.map((p) => [p.partition, p.high]));
+      break;
+    case "timestamp":
+      // その時刻より後のメッセージが無いパーティションは末尾が返る
+      requested = new Map(
+        (await admin.fetchTopicOffsetsByTimestamp(topic, target.timestamp)).map(
+          (p) => [p.partition, p.offset],
+        ),
+      );
+      break;
+    case "offset":
+      requested = new Map(partitions.map((p) => [p.partition, target.offset]));
+      break;
+    case "partition-offsets":
+      requested = target.offsets;
+      break;
+  }
+
+  const resolved: { partition: number; offset: string }[] = [];
+  for (const [partition, offset] of requested) {
+    const range = partitions.find((p) => p.partition === partition);
+    if (!range) {
+      throw new InvalidResetTargetError(
+        `${topic} has no partition ${partition}`,
+      );
+    }
+    if (
+      BigInt(offset) < BigInt(range.low) ||
+      BigInt(offset) > BigInt(range.high)
+    ) {
+      throw new InvalidResetTargetError(
+        `Offset ${offset} is out of range for ${topic}[${partition}] (${range.low}-${range.high})`,
+      );
+    }
+    resolved.push({ partition, offset });
+  }
+  return resolved.sort((a, b) => a.partition - b.partition);
+}
+
+export interface OffsetChange {
+  partition: number;
+  // 付け替える前のコミット済みオフセット（未コミットなら null）
+  from: string | null;
+  to: string;
+}
+
+/**
+ * グループのオフセットを付け替える（グループは止めておく）
+ */
+export async function resetGroupOffsets(
+  admin: Admin,
+  groupId: string,
+  topic: string,
+  target: ResetTarget,
+): Promise<OffsetChange[]> {
+  const partitions = await resolveResetOffsets(admin, topic, target);
+  const committed = await fetchCommittedOffsets(admin, groupId, [topic]);
+
+  if (partitions.length > 0) {
+    await admin.setOffsets({ groupId, topic, partitions });
+  }
+  return partitions.map(({ partition, offset }) => ({
+    partition,
+    from: committed.get(`${topic}:${partition}`) ?? null,
+    to: offset,
+  }));
+}
+
+/**
+ * トランザクションモードのグループの blogdb.transaction をデータトピックと同じ戻す先に付け替える
+ * トランザクションモードでは END が来るまでイベントを反映しないので、blogdb.transaction が
+ * 末尾のままだと読み直したイベントがいつまでも揃わず、コミットも止まる。
+ * 時刻（earliest / latest を含む）はトピックをまたいで同じ位置を指せるが、オフセットは
+ * トピックごとの位置なので当てはめられない。その場合は何も付け替えずにエラーにする
+ */
+export async function resetTransactionOffsets(
+  admin: Admin,
+  groupId: string,
+  transactionTopic: string,
+  target: ResetTarget,
+): Promise<OffsetChange[]> {
+  if (target.type === "offset" || target.type === "partition-offsets") {
+    throw new InvalidResetTargetError(
+      `${groupId} also consumes ${transactionTopic} in transaction mode; an offset cannot be applied to it, reset to earliest, latest or timestamp:<…> instead`,
+    );
+  }
+  return resetGroupOffsets(admin, groupId, transactionTopic, target);
+}
+
+/**
+ * コミット済みオフセット（キーは "topic:partition"、未コミットのパーティションは入らない）
+ */
+async function fetchCommittedOffsets(
+  admin: Admin,
+  groupId: string,
+  topics: string[],
+): Promise<Map<string, string>> {
+  const committed = new Map<string, string>();
+  for (const { topic, partitions } of await admin.fetchOffsets({
+    groupId,
+    topics,
+  })) {
+    for (const { partition, offset } of partitions) {
+      // 未コミットのパーティションは "-1" が返る
+      if (offset !== "-1") committed.set(`${topic}:${partition}`, offset);
+    }
+  }
+  return committed;
+}
+
+/**
+ * リプレイがどこまで読めば追いついたことになるか（付け替えた時点の各パーティションの末尾）
+ */
+export interface ReplayTarget {
+  topic: string;
+  partition: number;
+  low: string;
+  high: string;
+}
+
+export async function captureReplayTargets(
+  admin: Admin,
+  topics: string[],
+): Promise<ReplayTarget[]> {
+  const targets: ReplayTarget[] = [];
+  for (const topic of topics) {
+    for (const { partition, low, high } of await admin.fetchTopicOffsets(
+      topic,
+    )) {
+      targets.push({ topic, partition, low, high });
+    }
+  }
+  return targets;
+}
+
+export interface PartitionProgress extends ReplayTarget {
+  committed: string | null;
+  // 目標までに残っているメッセージ数
+  remaining: number;
+}
+
+export interface ReplayProgress {
+  partitions: PartitionProgress[];
+  remaining: number;
+}
+
+/**
+ * グループのコミット済みオフセットと目標の差
+ */
+export async function readReplayProgress(
+  admin: Admin,
+  groupId: string,
+  targets: ReplayTarget[],
+): Promise<ReplayProgress> {
+  const committed = await fetchCommittedOffsets(admin, groupId, [
+    ...new Set(targets.map(({ topic }) => topic)),
+  ]);
+
+  const partitions = targets.map((target) => {
+    const offset = committed.get(`${target.topic}:${target.partition}`) ?? null;
+    const remaining = Number(
+      BigInt(target.high) - BigInt(offset ?? target.low),
+    );
+    return { ...target, committed: offset, remaining: Math.max(0, remaining) };
+  });
+  return {
+    partitions,
+    remaining: partitions.reduce((sum, p) => sum + p.remaining, 0),
+  };
+}
+
+export interface WaitForReplayOptions {
+  pollIntervalMs: number;
+  // 省略すると追いつくまで待つ
+  timeoutMs?: number;
+  onProgress?: (progress: ReplayProgress) => void;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+/**
+ * グループのコミット済みオフセットがすべての目標に届くまで待つ
+ * timeoutMs を過ぎたら false を返す
+ */
+export async function waitForReplay(
+  admin: Admin,
+  groupId: string,
+  targets: ReplayTarget[],
+  {
+    pollIntervalMs,
+    timeoutMs = Infinity,
+    onProgress,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    now = Date.now,
+  }: WaitForReplayOptions,
+): Promise<boolean> {
+  const deadline = now() + timeoutMs;
+  for (;;) {
+    const progress = await readReplayProgress(admin, groupId, targets);
+    onProgress?.(progress);
+    if (progress.remaining === 0) return true;
+
+    const remaining = deadline - now();
+    if (remaining <= 0) return false;
+    await sleep(Math.min(pollIntervalMs, remaining));
+  }
+}
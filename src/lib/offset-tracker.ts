@@ -0,0 +1,108 @@
+/**
+ * コミットしてよいオフセットの管理
+ *
+ * メッセージを受け取った順ではなく、反映し終わった順に完了していく場合
+ * （トランザクションの完了待ちなど）に、未完了のメッセージを飛ばしてコミットしないようにする。
+ * パーティションごとに「未完了の最小オフセット」までしかコミットしない。
+ */
+
+export interface CommittableOffset {
+  topic: string;
+  partition: number;
+  // Kafka の慣例どおり「次に読むオフセット」
+  offset: string;
+}
+
+interface PartitionState {
+  topic: string;
+  partition: number;
+  // 受け取ったが完了していないオフセット
+  pending: Set<bigint>;
+  // 受け取った最大のオフセット
+  highest: bigint;
+  // 最後にコミット対象として返したオフセット
+  committed: bigint | null;
+  // 最後に takeProgress で返したオフセット
+  reported: bigint | null;
+}
+
+export class OffsetTracker {
+  private partitions = new Map<string, PartitionState>();
+
+  /**
+   * 受け取ったメッセージを未完了として登録する
+   */
+  track(topic: string, partition: number, offset: string): void {
+    const state = this.getOrCreate(topic, partition);
+    const value = BigInt(offset);
+    state.pending.add(value);
+    if (value > state.highest) state.highest = value;
+  }
+
+  /**
+   * 反映し終わったメッセージを完了にする
+   */
+  complete(topic: string, partition: number, offset: string): void {
+    this.partitions
+      .get(`${topic}:${partition}`)
+      ?.pending.delete(BigInt(offset));
+  }
+
+  /**
+   * 前回から進んだパーティションのコミット対象オフセットを返す
+   */
+  takeCommittable(): CommittableOffset[] {
+    return this.takeAdvanced("committed");
+  }
+
+  /**
+   * 前回から完了が途切れずに進んだパーティションの「次に読むオフセット」を返す
+   * takeCommittable とは別に覚えているので、コミットをまとめていても完了のたびに進む
+   */
+  takeProgress(): CommittableOffset[] {
+    return this.takeAdvanced("reported");
+  }
+
+  private takeAdvanced(marker: "committed" | "reported"): CommittableOffset[] {
+    const result: CommittableOffset[] = [];
+
+    for (const state of this.partitions.values()) {
+      const next =
+        state.pending.size > 0
+          ? [...state.pending].reduce((min, o) => (o < min ? o : min))
+          : state.highest + 1n;
+
+      const previous = state[marker];
+      if (previous !== null && next <= previous) continue;
+      state[marker] = next;
+      result.push({
+        topic: state.topic,
+        partition: state.partition,
+        offset: next.toString(),
+      });
+    }
+
+    return result;
+  }
+
+  clear(): void {
+    this.partitions.clear();
+  }
+
+  private getOrCreate(topic: string, partition: number): PartitionState {
+    const key = `${topic}:${partition}`;
+    let state = this.partitions.get(key);
+    if (!state) {
+      state = {
+        topic,
+        partition,
+        pending: new Set(),
+        highest: -1n,
+        committed: null,
+        reported: null,
+      };
+      this.partitions.set(key, state);
+    }
+    return state;
+  }
+}
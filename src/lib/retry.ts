@@ -0,0 +1,165 @@
+/**
+ * リトライ（指数バックオフ + ジッター）
+ *
+ * 一時的な障害（接続拒否、ES 429/503など）はリトライし、
+ * 何度やっても成功しないエラー（マッピングエラー、壊れたJSONなど）は即座に諦める。
+ * 諦めたメッセージは PoisonPillError として呼び出し側に返し、DLQに送ってパーティションを進める。
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number; // 初回を含む最大試行回数
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: number; // 0〜1: 遅延をどれだけランダムに揺らすか
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 200,
+  maxDelayMs: 5000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+export type PoisonPillReason = "retries-exhausted" | "non-retryable";
+
+/**
+ * リトライしても無駄なことが分かっているエラー
+ */
+export class NonRetryableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "NonRetryableError";
+  }
+}
+
+/**
+ * 処理を諦めたメッセージ（Poison Pill）
+ * cause に最後のエラーを保持する
+ */
+export class PoisonPillError extends Error {
+  constructor(
+    readonly reason: PoisonPillReason,
+    readonly attempts: number,
+    readonly cause: unknown,
+  ) {
+    super(
+      `Poison pill after ${attempts} attempt(s) (${reason}): ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = "PoisonPillError";
+  }
+}
+
+// 一時的なネットワーク障害のエラーコード
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+]);
+
+// Elasticsearch / HTTP の一時的なステータス
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 502, 503, 504]);
+
+// クライアントライブラリが投げる接続系エラー
+const RETRYABLE_ERROR_NAMES = new Set([
+  "ConnectionError",
+  "TimeoutError",
+  "NoLivingConnectionsError",
+  "MaxRetriesPerRequestError",
+]);
+
+/**
+ * エラーがリトライで回復しうるかを判定する
+ * 判定できないエラーはリトライしない（パーティションを詰まらせないため）
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NonRetryableError) return false;
+  // JSON.parse の失敗など
+  if (error instanceof SyntaxError) return false;
+
+  const err = error as {
+    code?: string;
+    name?: string;
+    message?: string;
+    meta?: { statusCode?: number };
+  } | null;
+  if (!err) return false;
+
+  if (err.code && RETRYABLE_ERROR_CODES.has(err.code)) return true;
+  if (err.name && RETRYABLE_ERROR_NAMES.has(err.name)) return true;
+
+  const statusCode = err.meta?.statusCode;
+  if (statusCode !== undefined) {
+    return RETRYABLE_STATUS_CODES.has(statusCode);
+  }
+
+  // ioredis の切断中エラー
+  if (err.message === "Connection is closed.") return true;
+
+  return false;
+}
+
+/**
+ * attempt 回目の失敗後に待つ時間（ms）
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(
+    policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1),
+    policy.maxDelayMs,
+  );
+  // ±jitter の範囲で揺らす
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+}
+
+export interface RetryOptions {
+  isRetryable?: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => unknown;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * fn をポリシーに従ってリトライ実行する
+ * 諦めた場合は必ず PoisonPillError を投げる
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {},
+): Promise<T> {
+  const isRetryable = options.isRetryable ?? isRetryableError;
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (!isRetryable(error)) {
+        throw new PoisonPillError("non-retryable", attempt, error);
+      }
+      if (attempt >= policy.maxAttempts) {
+        throw new PoisonPillError("retries-exhausted", attempt, error);
+      }
+
+      const delayMs = backoffDelay(attempt, policy);
+      console.warn(
+        `  🔁 Retry ${attempt + 1}/${policy.maxAttempts} in ${delayMs}ms: ${
+          (error as Error)?.message ?? error
+        }`,
+      );
+      await options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * Elasticsearch のバージョン付きインデックスとエイリアス
+ *
+ * 実体は posts_v1, posts_v2, … で、API は読み込み用のエイリアス（posts）、
+ * Search Indexer は書き込み用のエイリアス（posts_write）の先に書く。
+ *
+ * 再索引（npm run search:reindex）:
+ *   1. 新しいインデックスを作り、書き込み用のエイリアスに足す（以降の変更は新旧両方に書かれる）
+ *   2. PostgreSQL またはトピックのリプレイで新しいインデックスを埋める
+ *   3. 追いついたら読み込み用のエイリアスを1回の _aliases で付け替える
+ *   4. 古いインデックスにも書き続けるので、finish するまでは rollback で戻せる
+ *
+ * オフセットを戻して作り直す（npm run consumer:reset -- search-indexer --clear）時は、
+ * 空の新しいインデックスに両方のエイリアスを付け替える（recreatePostsIndex）。
+ */
+
+import type { Client, estypes } from "@elastic/elasticsearch";
+
+/**
+ * 投稿のインデックスの設定
+ */
+export const POSTS_INDEX_SETTINGS: estypes.IndicesIndexSettings = {
+  number_of_shards: 1,
+  number_of_replicas: 0,
+  // 外部バージョンでの削除の記録（トゥームストーン）を保持する期間
+  // この間は古い create がリプレイされても削除済みドキュメントが復活しない
+  // デフォルトの60秒ではリプレイに対して短すぎるので延ばす
+  gc_deletes: "1d",
+  // analysis:テキストをどのように分解して、検索しやすくするかというルール
+  // analysisの設定で分かち書きや正規化をする
+  // 分かち書き: 文を「ElasticSearch」「を」「学ぶ」のように分解
+  // 正規化: 大文字を
+  analysis: {
+    analyzer: {
+      // 日本語対応のアナライザー（将来的に）
+      default: {
+        type: "standard",
+      },
+    },
+  },
+};
+
+/**
+ * 投稿のインデックスのマッピング（RDBでいうテーブル定義書(スキーマ)）
+ */
+export const POSTS_INDEX_MAPPINGS: estypes.MappingTypeMapping = {
+  properties: {
+    id: {
+      type: "integer",
+    },
+    title: {
+      type: "text",
+      fields: {
+        keyword: {
+          type: "keyword",
+          ignore_above: 256,
+        },
+      },
+    },
+    content: {
+      type: "text",
+    },
+    author: {
+      type: "keyword",
+    },
+    created_at: {
+      type: "date",
+    },
+    updated_at: {
+      type: "date",
+    },
+  },
+};
+
+/**
+ * 読み込み用と書き込み用のエイリアス
+ */
+export interface IndexAliases {
+  readAlias: string;
+  writeAlias: string;
+}
+
+/**
+ * 再索引できない状態（別の再索引の途中、再索引していないのに finish した、など）
+ */
+export class ReindexStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReindexStateError";
+  }
+}
+
+export function versionedIndexName(alias: string, version: number): string {
+  return `${alias}_v${version}`;
+}
+
+/**
+ * posts_v3 → 3（バージョン付きインデックスでなければ null）
+ */
+export function indexVersion(alias: string, index: string): number | null {
+  const prefix = `${alias}_v`;
+  if (!index.startsWith(prefix)) return null;
+  const version = index.slice(prefix.length);
+  return /^\d+$/.test(version) ? Number(version) : null;
+}
+
+/**
+ * Elasticsearch が返したエラーの HTTP ステータス（接続できないなど、応答の無いエラーは undefined）
+ * errors.ResponseError も、_bulk のアイテムの失敗（classifyBulkItem）も meta.statusCode に持つ
+ */
+export function responseStatusCode(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null || !("meta" in error)) {
+    return undefined;
+  }
+  const { meta } = error as { meta?: { statusCode?: unknown } };
+  return typeof meta?.statusCode === "number" ? meta.statusCode : undefined;
+}
+
+export function isNotFound(error: unknown): boolean {
+  return responseStatusCode(error) === 404;
+}
+
+/**
+ * エイリアスが指すインデックス（エイリアスが無ければ空）
+ */
+export async function aliasIndices(
+  es: Client,
+  alias: string,
+): Promise<string[]> {
+  try {
+    const response = await es.indices.getAlias({ name: alias });
+    return Object.keys(response).sort(
+      (a, b) => (indexVersion(alias, a) ?? 0) - (indexVersion(alias, b) ?? 0),
+    );
+  } catch (error) {
+    if (isNotFound(error)) return [];
+    throw error;
+  }
+}
+
+/**
+ * 次のバージョンのインデックス名（既存の posts_v* の最大 + 1）
+ */
+export async function nextIndexName(
+  es: Client,
+  alias: string,
+): Promise<string> {
+  const existing = await es.indices.get({ index: `${alias}_v*` });
+  const latest = Math.max(
+    0,
+    ...Object.keys(existing).map((index) => indexVersion(alias, index) ?? 0),
+  );
+  return versionedIndexName(alias, latest + 1);
+}
+
+/**
+ * 投稿のインデックスを作る
+ * @param aliases 作ると同時に付けるエイリアス（初回のセットアップ用）
+ */
+export async function createPostsIndex(
+  es: Client,
+  index: string,
+  aliases?: Record<string, estypes.IndicesAlias>,
+): Promise<void> {
+  await es.indices.create({
+    index,
+    settings: POSTS_INDEX_SETTINGS,
+    mappings: POSTS_INDEX_MAPPINGS,
+    aliases,
+  });
+}
+
+/**
+ * 再索引の状態
+ * - idle: 書き込み先は読み込み先の1つだけ
+ * - building: 新しいインデックスを作っている（読み込みは古い方）
+ * - swapped: 読み込みを新しい方に付け替えた（古い方にも書き続けている）
+ */
+export type ReindexState =
+  | { status: "idle"; current: string }
+  | { status: "building" | "swapped"; from: string; to: string };
+
+export async function readReindexState(
+  es: Client,
+  { readAlias, writeAlias }: IndexAliases,
+): Promise<ReindexState> {
+  const [current, ...others] = await aliasIndices(es, readAlias);
+  if (!current || others.length > 0) {
+    throw new ReindexStateError(
+      `${readAlias} must point to exactly one index (run npm run setup:elasticsearch)`,
+    );
+  }
+
+  const writeIndices = await aliasIndices(es, writeAlias);
+  if (writeIndices.length === 1 && writeIndices[0] === current) {
+    return { status: "idle", current };
+  }
+  if (writeIndices.length === 2 && writeIndices.includes(current)) {
+    // aliasIndices はバージョン順なので、後ろが新しいインデックス
+    const [from, to] = writeIndices;
+    return { status: current === from ? "building" : "swapped", from, to };
+  }
+  throw new ReindexStateError(
+    `Unexpected aliases: ${readAlias} → ${current}, ${writeAlias} → ${writeIndices.join(", ") || "(none)"}`,
+  );
+}
+
+/**
+ * 新しいインデックスを作り、書き込み用のエイリアスに足す（新旧両方への書き込みが始まる）
+ */
+export async function beginReindex(
+  es: Client,
+  aliases: IndexAliases,
+): Promise<{ from: string; to: string }> {
+  const state = await readReindexState(es, aliases);
+  if (state.status !== "idle") {
+    throw new ReindexStateError(
+      `A reindex from ${state.from} to ${state.to} is in progress; finish or roll it back first`,
+    );
+  }
+
+  const to = await nextIndexName(es, aliases.readAlias);
+  await createPostsIndex(es, to);
+  await es.indices.updateAliases({
+    actions: [
+      { add: { index: to, alias: aliases.writeAlias, is_write_index: false } },
+    ],
+  });
+  return { from: state.current, to };
+}
+
+/**
+ * 読み込み用のエイリアスを新しいインデックスに付け替える
+ * 1回の _aliases なので、検索が空のインデックスや両方のインデックスを見ることはない
+ */
+export async function swapReadAlias(
+  es: Client,
+  aliases: IndexAliases,
+): Promise<{ from: string; to: string }> {
+  const state = await readReindexState(es, aliases);
+  if (state.status !== "building") {
+    throw new ReindexStateError(
+      state.status === "idle"
+        ? "No reindex in progress"
+        : `${aliases.readAlias} already points to ${state.to}`,
+    );
+  }
+
+  await es.indices.updateAliases({
+    actions: [
+      { remove: { index: state.from, alias: aliases.readAlias } },
+      { add: { index: state.to, alias: aliases.readAlias } },
+      {
+        add: {
+          index: state.from,
+          alias: aliases.writeAlias,
+          is_write_index: false,
+        },
+      },
+      {
+        add: {
+          index: state.to,
+          alias: aliases.writeAlias,
+          is_write_index: true,
+        },
+      },
+    ],
+  });
+  return { from: state.from, to: state.to };
+}
+
+/**
+ * 再索引を取り消す: 読み込みを古いインデックスに戻し、新しいインデックスを消す
+ */
+export async function rollbackReindex(
+  es: Client,
+  aliases: IndexAliases,
+): Promise<{ restored: string; deleted: string }> {
+  const state = await readReindexState(es, aliases);
+  if (state.status === "idle") {
+    throw new ReindexStateError(
+      `No reindex to roll back (${state.current} is the only index; an index removed by finish cannot be restored)`,
+    );
+  }
+
+  const actions: estypes.IndicesUpdateAliasesAction[] = [
+    { remove: { index: state.to, alias: aliases.writeAlias } },
+    {
+      add: {
+        index: state.from,
+        alias: aliases.writeAlias,
+        is_write_index: true,
+      },
+    },
+  ];
+  // building では読み込み用のエイリアスは元から古い方にある
+  if (state.status === "swapped") {
+    actions.push(
+      { remove: { index: state.to, alias: aliases.readAlias } },
+      { add: { index: state.from, alias: aliases.readAlias } },
+    );
+  }
+  await es.indices.updateAliases({ actions });
+  await es.indices.delete({ index: state.to });
+  return { restored: state.from, deleted: state.to };
+}
+
+/**
+ * 再索引を終える: 古いインデックスへの書き込みをやめて消す（以降は rollback できない）
+ */
+export async function finishReindex(
+  es: Client,
+  aliases: IndexAliases,
+): Promise<{ current: string; deleted: string }> {
+  const state = await readReindexState(es, aliases);
+  if (state.status !== "swapped") {
+    throw new ReindexStateError(
+      state.status === "idle"
+        ? "No reindex in progress"
+        : `${aliases.readAlias} still points to ${state.from}; swap the alias first`,
+    );
+  }
+
+  await es.indices.updateAliases({
+    actions: [{ remove: { index: state.from, alias: aliases.writeAlias } }],
+  });
+  await es.indices.delete({ index: state.from });
+  return { current: state.to, deleted: state.from };
+}
+
+/**
+ * 読み込み用・書き込み用のエイリアスを空の新しいインデックスに付け替え、古いインデックスを消す
+ * （npm run consumer:reset -- search-indexer --clear 用。Search Indexer は止めておく）
+ *
+ * delete_by_query で消すと内部バージョンの削除の記録が gc_deletes の間残り、
+ * 外部バージョン（LSN）で書き直すリプレイがすべて 409 で捨てられるので、インデックスごと作り直す。
+ */
+export async function recreatePostsIndex(
+  es: Client,
+  aliases: IndexAliases,
+): Promise<{ created: string; deleted: string }> {
+  const state = await readReindexState(es, aliases);
+  if (state.status !== "idle") {
+    throw new ReindexStateError(
+      `A reindex from ${state.from} to ${state.to} is in progress; finish or roll it back first`,
+    );
+  }
+
+  const created = await nextIndexName(es, aliases.readAlias);
+  await createPostsIndex(es, created);
+  await es.indices.updateAliases({
+    actions: [
+      { remove: { index: state.current, alias: aliases.readAlias } },
+      { remove: { index: state.current, alias: aliases.writeAlias } },
+      { add: { index: created, alias: aliases.readAlias } },
+      {
+        add: {
+          index: created,
+          alias: aliases.writeAlias,
+          is_write_index: true,
+        },
+      },
+    ],
+  });
+  await es.indices.delete({ index: state.current });
+  return { created, deleted: state.current };
+}
+
+/**
+ * Search Indexer の書き込み先のインデックス
+ */
+export interface WriteIndexResolver {
+  resolve(): Promise<string[]>;
+}
+
+/**
+ * 決まったインデックスに書く（テスト・再索引のリプレイ用）
+ */
+export function fixedWriteIndices(...indices: string[]): WriteIndexResolver {
+  return { resolve: async () => indices };
+}
+
+export interface WriteIndexResolverOptions {
+  writeAlias: string;
+  // 書き込み用のエイリアスが無い（バージョン付きインデックスにする前の）場合の書き込み先
+  fallbackIndex: string;
+  refreshIntervalMs: number;
+  now?: () => number;
+}
+
+/**
+ * 書き込み用のエイリアスが指すインデックス
+ *
+ * 再索引が始まると2つになるので、エイリアス越しには書かず（ES は1つにしか書かない）、
+ * refreshIntervalMs ごとに読み直したインデックスのそれぞれに書く。
+ * 読み直しに失敗したら、前に読めたインデックスに書き続ける。
+ */
+export function createWriteIndexResolver(
+  es: Client,
+  {
+    writeAlias,
+    fallbackIndex,
+    refreshIntervalMs,
+    now = Date.now,
+  }: WriteIndexResolverOptions,
+): WriteIndexResolver {
+  let cached: string[] | null = null;
+  let fetchedAt = 0;
+
+  return {
+    async resolve() {
+      if (cached && now() - fetchedAt < refreshIntervalMs) return cached;
+
+      let indices: string[];
+      try {
+        indices = await aliasIndices(es, writeAlias);
+      } catch (error) {
+        if (!cached) throw error;
+        console.warn(
+          `⚠️  Failed to refresh ${writeAlias}, still writing to ${cached.join(", ")}:`,
+          (error as Error).message,
+        );
+        fetchedAt = now();
+        return cached;
+      }
+
+      if (indices.length === 0) indices = [fallbackIndex];
+      if (cached?.join() !== indices.join()) {
+        console.log(`🔀 Writing to ${indices.join(", ")}`);
+      }
+      cached = indices;
+      fetchedAt = now();
+      return indices;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Graceful shutdown の共通処理
+ *
+ * SIGINT / SIGTERM を受けたら後始末を1回だけ実行し、終わったらプロセスを終了する。
+ * 後始末の途中でもう一度シグナルを受けたら、待たずに終了する（Ctrl+C 2回で強制終了）。
+ */
+
+/**
+ * promise が ms 以内に終われば true、間に合わなければ false を返す
+ * 間に合わなくても promise 自体は止まらない
+ */
+export async function withDeadline(
+  promise: Promise<unknown>,
+  ms: number,
+): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+
+  try {
+    return await Promise.race([promise.then(() => true as const), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * SIGINT / SIGTERM で shutdown を実行してプロセスを終了する
+ */
+export function onShutdownSignal(shutdown: () => Promise<void>) {
+  let shuttingDown = false;
+
+  const handle = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      console.warn(`⚠️  Received ${signal} again, exiting immediately`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`\n🛑 Received ${signal}, shutting down...`);
+
+    try {
+      await shutdown();
+      process.exit(0);
+    } catch (error) {
+      console.error("❌ Error during shutdown:", error);
+      process.exit(1);
+    }
+  };
+
+  process.on("SIGINT", handle);
+  process.on("SIGTERM", handle);
+}
@@ -0,0 +1,133 @@
+/**
+ * CDC 対象テーブルの登録
+ *
+ * テーブルごとに、行の型・主キー・列の型をまとめる。
+ * コネクタの table.include.list、デコーダーの行の検証、Consumer のテーブルごとの振り分けがここを見る。
+ * Debezium のトピック名は <topic.prefix>.<schema>.<table> なので、トピックからテーブルを引ける。
+ *
+ * テーブルを増やす時は TableRows と TABLES に1つずつ足す。
+ */
+
+import type { Comment, ConnectField, Follow, Post } from "../types/index.js";
+
+/**
+ * テーブル名（<schema>.<table>）→ 行の型
+ */
+export interface TableRows {
+  "public.posts": Post;
+  "public.comments": Comment;
+  "public.follows": Follow;
+}
+
+export type TableName = keyof TableRows;
+
+// 変換後（column-types.ts）の値の型。日時は ISO-8601 の文字列になる
+export type ColumnType = "string" | "integer" | "number";
+
+export interface TableDefinition<T = unknown> {
+  name: TableName;
+  // 主キーの列（REPLICA IDENTITY DEFAULT の delete でも before に入る）
+  primaryKey: keyof T & string;
+  // 列の型（行の検証に使う）
+  columns: { [K in keyof T]: ColumnType };
+  // NULL を許す列（init-db の NOT NULL が付いていない列。値があれば型だけ確かめる）
+  nullable: (keyof T & string)[];
+  // schemas.enable=false で schema ブロックが無い時の論理型
+  // （setup-debezium の time.precision.mode=connect に合わせる）
+  logicalTypes: ConnectField[];
+}
+
+const connectTimestamp = (field: string): ConnectField => ({
+  field,
+  type: "int64",
+  name: "org.apache.kafka.connect.data.Timestamp",
+});
+
+export const TABLES: { [K in TableName]: TableDefinition<TableRows[K]> } = {
+  "public.posts": {
+    name: "public.posts",
+    primaryKey: "id",
+    columns: {
+      id: "integer",
+      title: "string",
+      content: "string",
+      author: "string",
+      created_at: "string",
+      updated_at: "string",
+    },
+    nullable: ["created_at", "updated_at"],
+    logicalTypes: [
+      connectTimestamp("created_at"),
+      connectTimestamp("updated_at"),
+    ],
+  },
+  "public.comments": {
+    name: "public.comments",
+    primaryKey: "id",
+    columns: {
+      id: "integer",
+      post_id: "integer",
+      author: "string",
+      body: "string",
+      created_at: "string",
+    },
+    nullable: ["created_at"],
+    logicalTypes: [connectTimestamp("created_at")],
+  },
+  "public.follows": {
+    name: "public.follows",
+    primaryKey: "id",
+    columns: {
+      id: "integer",
+      follower: "string",
+      followee: "string",
+      created_at: "string",
+    },
+    nullable: ["created_at"],
+    logicalTypes: [connectTimestamp("created_at")],
+  },
+};
+
+export const TABLE_NAMES = Object.keys(TABLES) as TableName[];
+
+/**
+ * テーブル名から登録を引く（登録されていなければ null）
+ */
+export function lookupTable(name: string): TableDefinition | null {
+  return (TABLES as Record<string, TableDefinition>)[name] ?? null;
+}
+
+/**
+ * トピック名（blogdb.public.posts）からテーブル名（public.posts）を取り出す
+ * 登録されているかどうかは見ない
+ */
+export function tableNameOfTopic(topic: string): string {
+  const [, ...name] = topic.split(".");
+  return name.join(".");
+}
+
+/**
+ * トピック名から登録を引く（登録されていなければ null）
+ */
+export function tableForTopic(topic: string): TableDefinition | null {
+  return lookupTable(tableNameOfTopic(topic));
+}
+
+/**
+ * テーブルのトピック名
+ */
+export function tableTopic(prefix: string, table: TableName): string {
+  return `${prefix}.${table}`;
+}
+
+/**
+ * 複数のテーブルのトピックに一致する正規表現（Consumer の購読用）
+ */
+export function tablesTopicPattern(
+  prefix: string,
+  tables: TableName[],
+): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const alternatives = tables.map((table) => escape(table)).join("|");
+  return new RegExp(`^${escape(prefix)}\\.(?:${alternatives})$`);
+}
@@ -0,0 +1,177 @@
+/**
+ * ホームタイムライン（Redis）
+ *
+ * Timeline Consumer が書き、API が読む。
+ *
+ * - timeline:{user}: ユーザーのタイムライン（Sorted Set、メンバーは投稿ID、スコアは作成日時のミリ秒）
+ * - timeline-posts:{author}: 著者の最新の投稿（同じ形・同じ長さ。フォロー時の取り込みと、読み込み時に混ぜる投稿に使う）
+ * - timeline-post:{id}: 投稿を配った時の著者と反映済みのバージョン（Hash）
+ * - followers:{user} / following:{user}: フォローグラフ（Set）
+ * - follow:{id}: follows の行の follower / followee（Hash。before が無い削除・トゥームストーン用）
+ * - timeline-celebrities: 書き込み時に配らない著者（Set）
+ *
+ * フォロワーの多い著者の投稿は全フォロワーに書くと書き込みが膨らむので、
+ * 一度でもフォロワーが上限（TIMELINE_FANOUT_MAX_FOLLOWERS）を超えた著者は timeline-celebrities に入れ、
+ * 以後の投稿は配らずに、読み込み時に timeline-posts:{author} から混ぜる。
+ */
+
+import type Redis from "ioredis";
+
+export const CELEBRITIES_KEY = "timeline-celebrities";
+
+export function timelineKey(user: string): string {
+  return `timeline:${user}`;
+}
+
+export function authorTimelinePostsKey(author: string): string {
+  return `timeline-posts:${author}`;
+}
+
+export function timelinePostKey(postId: number | string): string {
+  return `timeline-post:${postId}`;
+}
+
+export function followersKey(user: string): string {
+  return `followers:${user}`;
+}
+
+export function followingKey(user: string): string {
+  return `following:${user}`;
+}
+
+export function followKey(followId: number | string): string {
+  return `follow:${followId}`;
+}
+
+/**
+ * カーソルの形が不正（API では 400 にする）
+ */
+export class InvalidCursorError extends Error {
+  constructor(readonly cursor: string) {
+    super(`Invalid timeline cursor: ${cursor}`);
+    this.name = "InvalidCursorError";
+  }
+}
+
+export interface TimelineEntry {
+  postId: number;
+  // 投稿の作成日時（エポックからのミリ秒）
+  score: number;
+}
+
+export interface TimelinePage {
+  entries: TimelineEntry[];
+  // 次のページのカーソル（最後のページなら null）
+  nextCursor: string | null;
+}
+
+/**
+ * カーソルはページの最後のエントリ（"<スコア>:<投稿ID>"）
+ * 同じスコアの投稿があっても、投稿IDで続きから読める
+ */
+export function encodeCursor(entry: TimelineEntry): string {
+  return `${entry.score}:${entry.postId}`;
+}
+
+export function decodeCursor(cursor: string): TimelineEntry {
+  const match = /^(-?\d+):(\d+)$/.exec(cursor);
+  if (!match) {
+    throw new InvalidCursorError(cursor);
+  }
+  return { score: Number(match[1]), postId: Number(match[2]) };
+}
+
+/**
+ * WITHSCORES の応答（[メンバー, スコア, ...]）をエントリにする
+ */
+export function parseEntries(withScores: string[]): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  for (let i = 0; i < withScores.length; i += 2) {
+    entries.push({
+      postId: Number(withScores[i]),
+      score: Number(withScores[i + 1]),
+    });
+  }
+  return entries;
+}
+
+// 新しい順（スコアの降順、同じスコアなら投稿IDの降順）
+function compareEntries(a: TimelineEntry, b: TimelineEntry): number {
+  return b.score - a.score || b.postId - a.postId;
+}
+
+/**
+ * ユーザーのタイムラインを新しい順に1ページ読む
+ * 自分のタイムラインと、フォローしている配らない著者の投稿を混ぜる
+ */
+export async function readTimeline(
+  redis: Redis,
+  user: string,
+  options: { cursor?: string; limit: number },
+): Promise<TimelinePage> {
+  const after = options.cursor ? decodeCursor(options.cursor) : null;
+
+  const celebrities = await redis.sinter(followingKey(user), CELEBRITIES_KEY);
+  const sources = [
+    timelineKey(user),
+    ...celebrities.map(authorTimelinePostsKey),
+  ];
+
+  // 配る著者から外れる前に配られた投稿は両方に入っているので、投稿IDでまとめる
+  const candidates = new Map<number, TimelineEntry>();
+  for (const key of sources) {
+    for (const entry of await readBefore(redis, key, after, options.limit)) {
+      candidates.set(entry.postId, entry);
+    }
+  }
+
+  const entries = [...candidates.values()]
+    .sort(compareEntries)
+    .slice(0, options.limit);
+
+  return {
+    entries,
+    nextCursor:
+      entries.length === options.limit
+        ? encodeCursor(entries[entries.length - 1])
+        : null,
+  };
+}
+
+/**
+ * Sorted Set からカーソルより古いエントリを少なくとも limit 件（あれば）読む
+ */
+async function readBefore(
+  redis: Redis,
+  key: string,
+  after: TimelineEntry | null,
+  limit: number,
+): Promise<TimelineEntry[]> {
+  // カーソルと同じスコアのエントリは読み飛ばす分だけ多めに読む
+  const ties = after ? await redis.zcount(key, after.score, after.score) : 0;
+  const count = limit + ties;
+  const entries = parseEntries(
+    await redis.zrevrangebyscore(
+      key,
+      after ? after.score : "+inf",
+      "-inf",
+      "WITHSCORES",
+      "LIMIT",
+      0,
+      count,
+    ),
+  );
+
+  // 同じスコアのメンバーは投稿IDの数値順ではなく文字列順に並ぶので、
+  // 境目のスコアのエントリは全部読んでから並べ直す
+  if (entries.length === count && count > 0) {
+    const edge = entries[entries.length - 1].score;
+    entries.push(
+      ...parseEntries(
+        await redis.zrevrangebyscore(key, edge, edge, "WITHSCORES"),
+      ),
+    );
+  }
+
+  return entries.filter((entry) => !after || compareEntries(after, entry) < 0);
+}
@@ -0,0 +1,236 @@
+/**
+ * Postgres トランザクション単位のイベントバッファ
+ *
+ * Debezium は provide.transaction.metadata=true の時、データイベントの
+ * payload.transaction にトランザクションIDを入れ、別トピック（blogdb.transaction）に
+ * BEGIN / END を送る。END にはテーブルごとのイベント数が入っているので、
+ * 対象テーブルの分のイベントが揃ったらトランザクションが完了したとみなす。
+ *
+ * データトピックとトランザクショントピックの間に順序の保証は無いので、
+ * END がイベントより先に届いても後に届いても完了を判定できるようにする。
+ *
+ * 保持期間の境目やオフセットを付け替えた位置をまたぐトランザクションは、END の数だけイベントが
+ * 揃わない・END が届かないことがある。timeoutMs を過ぎても揃わないものは takeExpired で取り出し、
+ * 届いた分だけをまとめて反映させる（届かないイベントはもう読めないので、待ち続けても揃わない）。
+ */
+
+import type { KafkaMessage } from "kafkajs";
+import type { DebeziumChangeEvent } from "../types/index.js";
+
+export const TRANSACTION_TOPIC = "blogdb.transaction";
+
+/**
+ * blogdb.transaction トピックの value
+ */
+export interface TransactionMetadata {
+  status: "BEGIN" | "END";
+  id: string;
+  event_count: number | null;
+  data_collections:
+    | {
+        data_collection: string;
+        event_count: number;
+      }[]
+    | null;
+  ts_ms: number;
+}
+
+/**
+ * 受け取ったメッセージ（コミット対象のオフセットを後で特定するため topic/partition も持つ）
+ */
+export interface ReceivedMessage {
+  topic: string;
+  partition: number;
+  message: KafkaMessage;
+}
+
+export interface BufferedEvent extends ReceivedMessage {
+  event: DebeziumChangeEvent;
+}
+
+export interface CompletedTransaction {
+  id: string;
+  // total_order（トランザクション内の順序）で並べたイベント
+  events: BufferedEvent[];
+  // 反映後にオフセットを完了扱いにするメッセージ（END と、後から届いたトゥームストーン）
+  related: ReceivedMessage[];
+}
+
+interface PendingTransaction {
+  // "topic:partition:offset" → イベント（再読み込みで同じメッセージが届いても重複させない）
+  events: Map<string, BufferedEvent>;
+  // END で分かる、対象テーブルのイベント数（END がまだなら null）
+  expected: number | null;
+  related: ReceivedMessage[];
+  // 最初のメッセージが届いた時刻（timeoutMs を数え始める）
+  startedAt: number;
+}
+
+export interface TransactionBufferOptions {
+  // 揃うのを待つ最大時間（デフォルト: いつまでも待つ）
+  timeoutMs?: number;
+  now?: () => number;
+}
+
+/**
+ * transaction メタデータの value を読む（schema + payload の形と payload だけの形の両方）
+ */
+export function parseTransactionMetadata(value: Buffer): TransactionMetadata {
+  const parsed = JSON.parse(value.toString());
+  return parsed.payload ?? parsed;
+}
+
+export class TransactionBuffer {
+  private pending = new Map<string, PendingTransaction>();
+
+  private dataCollections: Set<string>;
+
+  private timeoutMs: number;
+
+  private now: () => number;
+
+  /**
+   * @param dataCollections 対象テーブル（例: ["public.posts", "public.comments"]）
+   */
+  constructor(
+    dataCollections: string[],
+    { timeoutMs = Infinity, now = Date.now }: TransactionBufferOptions = {},
+  ) {
+    this.dataCollections = new Set(dataCollections);
+    this.timeoutMs = timeoutMs;
+    this.now = now;
+  }
+
+  /**
+   * トランザクションに属するデータイベントを追加する
+   * @returns このイベントでトランザクションが揃ったら、そのトランザクション
+   */
+  addEvent(item: BufferedEvent): CompletedTransaction | null {
+    const id = item.event.payload.transaction?.id;
+    if (!id) {
+      throw new Error("Event does not belong to a transaction");
+    }
+
+    const transaction = this.getOrCreate(id);
+    transaction.events.set(
+      `${item.topic}:${item.partition}:${item.message.offset}`,
+      item,
+    );
+    return this.takeIfComplete(id);
+  }
+
+  /**
+   * BEGIN / END を追加する
+   * END は反映するまでオフセットを進めてはいけないので related に入れる
+   * @returns END でトランザクションが揃ったら、そのトランザクション
+   */
+  addMetadata(
+    metadata: TransactionMetadata,
+    item: ReceivedMessage,
+  ): CompletedTransaction | null {
+    if (metadata.status !== "END") return null;
+
+    // 対象テーブルのイベント数の合計（対象外のテーブルのイベントは届かない）
+    const expected = (metadata.data_collections ?? [])
+      .filter((collection) =>
+        this.dataCollections.has(collection.data_collection),
+      )
+      .reduce((sum, collection) => sum + collection.event_count, 0);
+
+    const transaction = this.getOrCreate(metadata.id);
+    transaction.expected = expected;
+    transaction.related.push(item);
+    return this.takeIfComplete(metadata.id);
+  }
+
+  /**
+   * まだ揃っていないトランザクションに同じキーのイベントがあれば、そこに紐付ける
+   * （delete の後のトゥームストーンは、delete より先に反映してはいけない）
+   * @returns 紐付けたら true
+   */
+  attachToPending(item: ReceivedMessage): boolean {
+    if (!item.message.key) return false;
+
+    for (const transaction of this.pending.values()) {
+      const sameKey = [...transaction.events.values()].some(
+        (buffered) =>
+          buffered.topic === item.topic &&
+          buffered.partition === item.partition &&
+          buffered.message.key?.equals(item.message.key!),
+      );
+      if (sameKey) {
+        transaction.related.push(item);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * timeoutMs を過ぎても揃わないトランザクションを取り出す
+   * イベントは届いた分だけ（END の数に足りないこともある）total_order 順に並べる
+   */
+  takeExpired(): CompletedTransaction[] {
+    const deadline = this.now() - this.timeoutMs;
+    const expired: CompletedTransaction[] = [];
+    for (const [id, transaction] of this.pending) {
+      if (transaction.startedAt > deadline) continue;
+      this.pending.delete(id);
+      expired.push(toCompleted(id, transaction));
+    }
+    return expired;
+  }
+
+  /**
+   * 揃っていないトランザクションの数
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * リバランスなどでコミット済みオフセットから読み直す時に捨てる
+   */
+  clear(): void {
+    this.pending.clear();
+  }
+
+  private getOrCreate(id: string): PendingTransaction {
+    let transaction = this.pending.get(id);
+    if (!transaction) {
+      transaction = {
+        events: new Map(),
+        expected: null,
+        related: [],
+        startedAt: this.now(),
+      };
+      this.pending.set(id, transaction);
+    }
+    return transaction;
+  }
+
+  private takeIfComplete(id: string): CompletedTransaction | null {
+    const transaction = this.pending.get(id)!;
+    if (
+      transaction.expected === null ||
+      transaction.events.size < transaction.expected
+    ) {
+      return null;
+    }
+
+    this.pending.delete(id);
+    return toCompleted(id, transaction);
+  }
+}
+
+function toCompleted(
+  id: string,
+  transaction: PendingTransaction,
+): CompletedTransaction {
+  const events = [...transaction.events.values()].sort(
+    (a, b) =>
+      (a.event.payload.transaction?.total_order ?? 0) -
+      (b.event.payload.transaction?.total_order ?? 0),
+  );
+  return { id, events, related: transaction.related };
+}
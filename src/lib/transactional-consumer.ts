@@ -0,0 +1,199 @@
+/**
+ * トランザクション単位で変更イベントを反映する Consumer の実行ループ
+ *
+ * データトピックと blogdb.transaction を同時に購読し、
+ * 1つの Postgres トランザクションのイベントが揃ってからまとめて反映する。
+ * 揃うまでのメッセージはオフセットをコミットしない（autoCommit: false）ので、
+ * 途中で落ちても再起動後にトランザクションの最初から読み直される。
+ * transactionTimeoutMs を過ぎても揃わないトランザクション（保持期間やオフセットの付け替えで
+ * イベントか END が読めない）は、届いたイベントだけを handleTransaction でまとめて反映して先に進む。
+ * 期限はメッセージを受け取るたびと、transactionTimeoutMs ごとのタイマーで確かめる（メッセージが来なくても進む）。
+ *
+ * 前提: 1つのトランザクションのイベントがすべて同じ Consumer に届くこと
+ * （パーティションが1つ、または Consumer が1台）
+ */
+
+import type { Consumer, EachMessagePayload } from "kafkajs";
+import type { DebeziumChangeEvent } from "../types/index.js";
+import { decodeChangeEvent } from "./event-decoder.js";
+import { OffsetCommitter } from "./offset-committer.js";
+import {
+  TRANSACTION_TOPIC,
+  TransactionBuffer,
+  parseTransactionMetadata,
+  type CompletedTransaction,
+  type ReceivedMessage,
+  type TransactionMetadata,
+} from "./transaction-buffer.js";
+
+export interface TransactionAwareOptions {
+  // データトピック（正規表現なら一致するすべてのトピック）
+  sourceTopic: string | RegExp;
+  // Debezium の transaction メタデータのトピック（デフォルト: blogdb.transaction）
+  transactionTopic?: string;
+  // コミットのまとめ方（デフォルト: 完了のたびにコミット）
+  committer?: OffsetCommitter;
+  // 対象テーブル。transaction メタデータの data_collection（例: ["public.posts"]）
+  dataCollections: string[];
+  // 揃うのを待つ最大時間（デフォルト: いつまでも待つ）
+  transactionTimeoutMs?: number;
+  now?: () => number;
+  // トランザクションに属さないメッセージ（スナップショット、トゥームストーンなど）を1件処理する
+  handleMessage: (payload: EachMessagePayload) => Promise<void>;
+  // 揃ったトランザクションをまとめて反映する
+  handleTransaction: (
+    transaction: CompletedTransaction,
+    heartbeat: () => Promise<void>,
+  ) => Promise<void>;
+}
+
+export async function runTransactionAware(
+  consumer: Consumer,
+  options: TransactionAwareOptions,
+) {
+  const transactionTopic = options.transactionTopic ?? TRANSACTION_TOPIC;
+  const buffer = new TransactionBuffer(options.dataCollections, {
+    timeoutMs: options.transactionTimeoutMs,
+    now: options.now,
+  });
+  const offsets = options.committer ?? new OffsetCommitter(consumer);
+
+  // リバランス後はコミット済みオフセットから読み直すので、途中の状態を捨てる
+  consumer.on(consumer.events.GROUP_JOIN, () => {
+    buffer.clear();
+    offsets.clear();
+  });
+
+  await consumer.subscribe({
+    topics: [options.sourceTopic, transactionTopic],
+    fromBeginning: true,
+  });
+  console.log(
+    `📡 Subscribed to topics: ${options.sourceTopic}, ${transactionTopic} (transaction mode)`,
+  );
+
+  const complete = (...items: ReceivedMessage[]) => {
+    for (const { topic, partition, message } of items) {
+      offsets.complete(topic, partition, message.offset);
+    }
+  };
+
+  const apply = async (
+    transaction: CompletedTransaction,
+    heartbeat: () => Promise<void>,
+  ) => {
+    if (transaction.events.length > 0) {
+      await options.handleTransaction(transaction, heartbeat);
+    }
+    complete(...transaction.events, ...transaction.related);
+  };
+
+  const applyExpired = async (heartbeat: () => Promise<void>) => {
+    for (const transaction of buffer.takeExpired()) {
+      console.warn(
+        `\n⚠️  Transaction ${transaction.id} did not complete in time; applying the ${transaction.events.length} event(s) received`,
+      );
+      await apply(transaction, heartbeat);
+    }
+  };
+
+  // タイマーからの反映と eachMessage を同時に動かさない
+  let running: Promise<void> = Promise.resolve();
+  const serially = (task: () => Promise<void>): Promise<void> => {
+    const run = running.then(task);
+    running = run.catch(() => {});
+    return run;
+  };
+
+  const { transactionTimeoutMs } = options;
+  if (transactionTimeoutMs && Number.isFinite(transactionTimeoutMs)) {
+    const timer = setInterval(() => {
+      serially(async () => {
+        await applyExpired(async () => {});
+        await offsets.maybeCommit();
+      }).catch((error) => {
+        // 反映できなかったトランザクションはコミットされず、再起動かリバランスの後に読み直される
+        console.error("❌ Failed to apply expired transactions:", error);
+      });
+    }, transactionTimeoutMs);
+    // タイマーだけでプロセスを生かし続けない
+    timer.unref();
+    consumer.on(consumer.events.STOP, () => clearInterval(timer));
+  }
+
+  await consumer.run({
+    autoCommit: false,
+    eachMessage: (payload) => serially(() => receive(payload)),
+  });
+
+  async function receive(payload: EachMessagePayload) {
+    const { topic, partition, message, heartbeat } = payload;
+    const received: ReceivedMessage = { topic, partition, message };
+    offsets.track(topic, partition, message.offset);
+
+    let transaction: CompletedTransaction | null = null;
+
+    if (topic === transactionTopic) {
+      const metadata = parseMetadata(received);
+      if (metadata?.status === "END") {
+        // END は反映するまで完了にしない（読み直した時に完了を判定できるように）
+        transaction = buffer.addMetadata(metadata, received);
+      } else {
+        complete(received);
+      }
+    } else {
+      const event = parseEvent(received);
+
+      if (!event?.payload.transaction) {
+        // トゥームストーンは、同じキーのイベントを含むトランザクションの反映まで待たせる
+        if (!message.value && buffer.attachToPending(received)) return;
+
+        await options.handleMessage(payload);
+        complete(received);
+      } else {
+        transaction = buffer.addEvent({ ...received, event });
+        if (!transaction) {
+          console.log(
+            `  ⏳ Buffered event for transaction ${event.payload.transaction.id} (offset: ${message.offset})`,
+          );
+        }
+      }
+    }
+
+    if (transaction) {
+      console.log(
+        `\n🔗 Transaction ${transaction.id} complete (${transaction.events.length} event(s))`,
+      );
+      await apply(transaction, heartbeat);
+    }
+    await applyExpired(heartbeat);
+
+    await offsets.maybeCommit();
+  }
+}
+
+function parseMetadata({
+  message,
+}: ReceivedMessage): TransactionMetadata | null {
+  if (!message.value) return null;
+  try {
+    return parseTransactionMetadata(message.value);
+  } catch (error) {
+    // メタデータが読めない場合は諦める（そのトランザクションは揃わない）
+    console.error(
+      `❌ Malformed transaction metadata (offset: ${message.offset}):`,
+      error,
+    );
+    return null;
+  }
+}
+
+function parseEvent({ message }: ReceivedMessage): DebeziumChangeEvent | null {
+  if (!message.value) return null;
+  try {
+    return decodeChangeEvent(message.value);
+  } catch {
+    // 読めない・形が合わないメッセージは handleMessage 側で DLQ に送る
+    return null;
+  }
+}
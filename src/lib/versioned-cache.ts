@@ -0,0 +1,131 @@
+/**
+ * バージョン付きキャッシュ書き込み（Compare-And-Set）
+ *
+ * `post:{id}` の隣に `post:{id}:version` を置き、
+ * 保存済みより新しいバージョンの書き込みだけをLuaスクリプトでアトミックに反映する。
+ * 削除時は短命のトゥームストーン（バージョンだけ残す）を置き、
+ * 遅れて届いた古い create で削除済みの投稿が復活しないようにする。
+ *
+ * API の cache-aside はその行のバージョン（LSN）を知らないので、バージョンのキーが無い時だけ
+ * バージョン 0 で書く（fillIfAbsent）。Consumer の書き込みは必ずこれより新しいとみなされる。
+ */
+
+export const TOMBSTONE_TTL = 60; // 秒
+
+// KEYS[1]=値のキー, KEYS[2]=バージョンのキー
+// ARGV[1]=バージョン, ARGV[2]=値, ARGV[3]=TTL
+export const VERSIONED_SET_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[2]))
+if current and current >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+redis.call("SET", KEYS[2], ARGV[1], "EX", ARGV[3])
+return 1
+`;
+
+// KEYS[1]=値のキー, KEYS[2]=バージョンのキー
+// ARGV[1]=バージョン, ARGV[2]=トゥームストーンのTTL
+export const VERSIONED_DELETE_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[2]))
+if current and current >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("DEL", KEYS[1])
+redis.call("SET", KEYS[2], ARGV[1], "EX", ARGV[2])
+return 1
+`;
+
+// KEYS[1]=値のキー, KEYS[2]=バージョンのキー
+// ARGV[1]=値, ARGV[2]=TTL
+// バージョンのキーがあれば（Consumer の書き込み・トゥームストーンがあれば）何もしない
+export const FILL_IF_ABSENT_SCRIPT = `
+if redis.call("EXISTS", KEYS[2]) == 1 then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2])
+redis.call("SET", KEYS[2], "0", "EX", ARGV[2])
+return 1
+`;
+
+// ioredis の Redis / テスト用の MockRedis の両方を受け付ける最小インターフェース
+export interface ScriptRunner {
+  eval(
+    script: string,
+    numKeys: number,
+    ...args: (string | number)[]
+  ): Promise<unknown>;
+}
+
+export function versionKey(key: string): string {
+  return `${key}:version`;
+}
+
+/**
+ * 保存済みより新しい場合だけ値を書き込む
+ * @returns 書き込んだら true、古いバージョンとして拒否したら false
+ */
+export async function setIfNewer(
+  redis: ScriptRunner,
+  key: string,
+  version: number,
+  value: string,
+  ttlSeconds: number,
+): Promise<boolean> {
+  const result = await redis.eval(
+    VERSIONED_SET_SCRIPT,
+    2,
+    key,
+    versionKey(key),
+    version.toString(),
+    value,
+    ttlSeconds,
+  );
+  return result === 1;
+}
+
+/**
+ * 保存済みより新しい場合だけ値を削除し、トゥームストーンを残す
+ * @returns 削除したら true、古いバージョンとして拒否したら false
+ */
+export async function deleteIfNewer(
+  redis: ScriptRunner,
+  key: string,
+  version: number,
+  tombstoneTtlSeconds: number = TOMBSTONE_TTL,
+): Promise<boolean> {
+  const result = await redis.eval(
+    VERSIONED_DELETE_SCRIPT,
+    2,
+    key,
+    versionKey(key),
+    version.toString(),
+    tombstoneTtlSeconds,
+  );
+  return result === 1;
+}
+
+/**
+ * バージョンのキーが無い場合だけ、バージョン 0 で値を書き込む（API の cache-aside 用）
+ *
+ * 読んだ行のバージョンは分からない。読んだ後の pg_current_wal_lsn() を使うと、
+ * スナップショットより後にコミットされた更新の LSN より大きくなることがあり、
+ * その更新のイベントを古いとして捨ててしまう。バージョン 0 なら Consumer の書き込みが必ず勝つ。
+ * @returns 書き込んだら true、既にバージョンがあって何もしなかったら false
+ */
+export async function fillIfAbsent(
+  redis: ScriptRunner,
+  key: string,
+  value: string,
+  ttlSeconds: number,
+): Promise<boolean> {
+  const result = await redis.eval(
+    FILL_IF_ABSENT_SCRIPT,
+    2,
+    key,
+    versionKey(key),
+    value,
+    ttlSeconds,
+  );
+  return result === 1;
+}
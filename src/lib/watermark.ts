@@ -0,0 +1,321 @@
+/**
+ * 派生ストアのウォーターマークと一貫性トークン（read-your-writes）
+ *
+ * - 書き込み API は、COMMIT した後に読んだ pg_current_wal_lsn() と、書き込んだトランザクションの ID、
+ *   書き込んだテーブルを一貫性トークン（"16/B374D848:571:public.posts"）として返す
+ * - 各 Consumer はテーブルごとに、オフセットが途切れずに反映し終えたところまでの変更イベントの
+ *   最大の LSN と、最後のトランザクション ID を watermark:{consumer}:{table} に記録する
+ * - 読み込み API は ?after=<トークン> を受け取り、読むテーブルのうち書き込んだテーブルのウォーターマークが
+ *   届くまで待つ（届かなければ stale として返す）。書き込んでいないテーブルは変わらないので待たない
+ *
+ * テーブルのトピックにはコミット順にイベントが並ぶ。途切れずに反映したイベントの中に
+ * トークン（COMMIT の後の位置）以上の LSN があれば、それは書き込みより後にコミットされたトランザクションなので、
+ * 書き込みとそれより前にコミットされたものはすべて反映済み。
+ * 書き込み自身のイベントの LSN は COMMIT より前なので、書き込みだけを反映した時点ではトランザクション ID で判定する。
+ */
+
+import type { DebeziumChangeEvent } from "../types/index.js";
+import { lsnToNumber } from "./event-version.js";
+import type { ScriptRunner } from "./versioned-cache.js";
+
+// KEYS[1]=ウォーターマークのキー, ARGV[1]=LSN, ARGV[2]=トランザクション ID（無ければ空文字）
+// LSN は今より大きい場合だけ書き込む（再配信・リバランスで巻き戻らない）
+export const ADVANCE_WATERMARK_SCRIPT = `
+local current = tonumber(redis.call("HGET", KEYS[1], "lsn"))
+if not current or current < tonumber(ARGV[1]) then
+  redis.call("HSET", KEYS[1], "lsn", ARGV[1])
+end
+if ARGV[2] ~= "" then
+  redis.call("HSET", KEYS[1], "txId", ARGV[2])
+end
+return 1
+`;
+
+// ioredis の Redis / テスト用の MockRedis の両方を受け付ける最小インターフェース
+export interface WatermarkStore extends ScriptRunner {
+  hgetall(key: string): Promise<Record<string, string>>;
+}
+
+/**
+ * テーブルのどこまでを反映し終えたか
+ */
+export interface Watermark {
+  // 反映し終えた変更イベントの最大の LSN
+  lsn: number;
+  // 最後に反映したイベントのトランザクション ID（Debezium の source.txId）
+  txId: string | null;
+}
+
+/**
+ * 一貫性トークン（書き込みの COMMIT の後の LSN と、そのトランザクション ID、書き込んだテーブル）
+ */
+export interface ConsistencyToken {
+  lsn: number;
+  // LSN だけのトークンなら null
+  txId: string | null;
+  // テーブルの無いトークンなら null（読むテーブルをすべて待つ）。何も書き込まなかったなら空
+  tables: string[] | null;
+}
+
+/**
+ * ChangeEventConsumer が反映し終えたところをテーブルごとに渡す先
+ */
+export interface WatermarkRecorder {
+  advance(table: string, watermark: Watermark): Promise<void>;
+  // 停止時の後始末（sink と接続を共有していなければ指定する）
+  close?(): Promise<void>;
+}
+
+/**
+ * ?after= の値が LSN として読めない（API では 400 にする）
+ */
+export class InvalidConsistencyTokenError extends Error {
+  constructor(readonly token: string) {
+    super(`Invalid consistency token: ${token}`);
+    this.name = "InvalidConsistencyTokenError";
+  }
+}
+
+export function watermarkKey(consumer: string, table: string): string {
+  return `watermark:${consumer}:${table}`;
+}
+
+/**
+ * 一貫性トークンを作る（"16/B374D848:571:public.posts,public.comments"）
+ */
+export function formatConsistencyToken(
+  lsn: string,
+  txId: string,
+  tables: string[],
+): string {
+  return `${lsn}:${txId}:${tables.join(",")}`;
+}
+
+/**
+ * 一貫性トークン（"16/B374D848:571:public.posts" のように LSN とトランザクション ID とテーブル。LSN は数値でもよい）を読む
+ * テーブルの無いトークン、トランザクション ID も無い LSN だけのトークンも受け付ける
+ */
+export function parseConsistencyToken(token: string): ConsistencyToken {
+  const match =
+    /^([0-9A-Fa-f]+\/[0-9A-Fa-f]+|\d+)(?::(\d+)(?::((?:\w+\.\w+(?:,\w+\.\w+)*)?))?)?$/.exec(
+      token,
+    );
+  if (!match) {
+    throw new InvalidConsistencyTokenError(token);
+  }
+  return {
+    lsn: lsnToNumber(match[1]),
+    txId: match[2] ?? null,
+    // 何も書き込まなかった書き込みは空（待つテーブルが無い）
+    tables: match[3] === undefined ? null : match[3].split(",").filter(Boolean),
+  };
+}
+
+/**
+ * LSN の数値を pg_lsn の形（"16/B374D848"）にする
+ */
+export function formatLsn(lsn: number): string {
+  const high = Math.floor(lsn / 2 ** 32);
+  const low = lsn % 2 ** 32;
+  return `${high.toString(16).toUpperCase()}/${low.toString(16).toUpperCase()}`;
+}
+
+/**
+ * 変更イベントの LSN（無ければ null）
+ * eventVersion と違い ts_ms では代用しない（トークンと比べられないため）
+ */
+export function eventLsn(event: DebeziumChangeEvent | null): number | null {
+  const lsn = event?.payload.source?.lsn;
+  if (lsn === undefined || lsn === null || lsn === "") return null;
+  const value = lsnToNumber(lsn);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * 反映し終えたイベントの位置をオフセットと一緒に覚えておき、
+ * 完了が途切れずに進んだところまでを1つのウォーターマークにまとめる
+ *
+ * トランザクションモードでは揃った順に反映するので、反映した順とオフセットの順（コミット順）が違うことがある。
+ * 手前に未完了のメッセージがあるうちはウォーターマークを進めない。
+ */
+export class WatermarkTracker {
+  // "topic:partition" → 反映し終えたイベント（反映した順）
+  private applied = new Map<string, AppliedPosition[]>();
+
+  /**
+   * 反映し終えたイベントを覚える（LSN の無いトゥームストーンなどは覚えない）
+   */
+  record(
+    topic: string,
+    partition: number,
+    offset: string,
+    event: DebeziumChangeEvent | null,
+  ): void {
+    const lsn = eventLsn(event);
+    if (lsn === null) return;
+
+    const key = `${topic}:${partition}`;
+    let entries = this.applied.get(key);
+    if (!entries) {
+      entries = [];
+      this.applied.set(key, entries);
+    }
+    const txId = event?.payload.source?.txId;
+    entries.push({
+      offset: BigInt(offset),
+      lsn,
+      txId: txId === undefined || txId === null ? null : String(txId),
+    });
+  }
+
+  /**
+   * until（完了が途切れずに続いているところの次のオフセット）より前に反映したイベントを取り出し、
+   * 1つのウォーターマークにする（無ければ null）
+   */
+  take(topic: string, partition: number, until: string): Watermark | null {
+    const key = `${topic}:${partition}`;
+    const end = BigInt(until);
+    let lsn = 0;
+    let last: AppliedPosition | null = null;
+    const rest: AppliedPosition[] = [];
+    for (const entry of this.applied.get(key) ?? []) {
+      if (entry.offset >= end) {
+        rest.push(entry);
+        continue;
+      }
+      lsn = Math.max(lsn, entry.lsn);
+      if (!last || entry.offset > last.offset) last = entry;
+    }
+    if (!last) return null;
+
+    if (rest.length > 0) {
+      this.applied.set(key, rest);
+    } else {
+      this.applied.delete(key);
+    }
+    return { lsn, txId: last.txId };
+  }
+
+  /**
+   * リバランスで割り当てが変わった時に捨てる（コミット済みオフセットから読み直した分をまた覚える）
+   */
+  clear(): void {
+    this.applied.clear();
+  }
+}
+
+interface AppliedPosition {
+  offset: bigint;
+  lsn: number;
+  txId: string | null;
+}
+
+/**
+ * Consumer のウォーターマークをテーブルごとに Redis に記録する
+ */
+export function createWatermarkRecorder(
+  redis: ScriptRunner,
+  consumer: string,
+): WatermarkRecorder {
+  return {
+    async advance(table, { lsn, txId }) {
+      await redis.eval(
+        ADVANCE_WATERMARK_SCRIPT,
+        1,
+        watermarkKey(consumer, table),
+        lsn.toString(),
+        txId ?? "",
+      );
+    },
+  };
+}
+
+export async function readWatermark(
+  redis: WatermarkStore,
+  consumer: string,
+  table: string,
+): Promise<Watermark | null> {
+  const { lsn, txId } = await redis.hgetall(watermarkKey(consumer, table));
+  return lsn === undefined ? null : { lsn: Number(lsn), txId: txId ?? null };
+}
+
+/**
+ * 読むテーブルのウォーターマークから、トークンの書き込みが反映済みかを判定する
+ * 読むテーブルのうち書き込んだテーブルのそれぞれが、次のどちらかなら反映済み
+ * - 書き込んだトランザクションを最後に反映した
+ * - ウォーターマークがトークン（COMMIT の後の位置）以上（書き込みより後にコミットされたものまで反映している）
+ * テーブルの無いトークンは、どれかのテーブルで書き込んだトランザクションを最後に反映したか、
+ * すべてのテーブルがトークン以上なら反映済み
+ */
+export function hasCaughtUp(
+  watermarks: Map<string, Watermark | null>,
+  token: ConsistencyToken,
+): boolean {
+  const matches = (watermark: Watermark | null) =>
+    token.txId !== null && watermark?.txId === token.txId;
+  const passed = (watermark: Watermark | null) =>
+    watermark !== null && watermark.lsn >= token.lsn;
+
+  if (token.tables === null) {
+    const all = [...watermarks.values()];
+    return all.some(matches) || all.every(passed);
+  }
+  return [...watermarks]
+    .filter(([table]) => token.tables!.includes(table))
+    .every(([, watermark]) => matches(watermark) || passed(watermark));
+}
+
+export interface WaitForWatermarkOptions {
+  timeoutMs: number;
+  pollIntervalMs: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface WatermarkWaitResult {
+  // 書き込みが反映済みになった
+  reached: boolean;
+  // 読むテーブルのウォーターマークの LSN の最小値（記録の無いテーブルがあれば null）
+  watermark: number | null;
+}
+
+/**
+ * Consumer の読むテーブルのウォーターマークがトークンに届くまで待つ（hasCaughtUp）
+ * timeoutMs を過ぎたら reached: false で返す
+ */
+export async function waitForWatermark(
+  redis: WatermarkStore,
+  consumer: string,
+  tables: string[],
+  token: ConsistencyToken,
+  {
+    timeoutMs,
+    pollIntervalMs,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    now = Date.now,
+  }: WaitForWatermarkOptions,
+): Promise<WatermarkWaitResult> {
+  const deadline = now() + timeoutMs;
+  for (;;) {
+    const watermarks = new Map(
+      await Promise.all(
+        tables.map(
+          async (table) =>
+            [table, await readWatermark(redis, consumer, table)] as const,
+        ),
+      ),
+    );
+    const positions = [...watermarks.values()];
+    const watermark = positions.every((w) => w !== null)
+      ? Math.min(...positions.map((w) => w!.lsn))
+      : null;
+    if (hasCaughtUp(watermarks, token)) {
+      return { reached: true, watermark };
+    }
+    const remaining = deadline - now();
+    if (remaining <= 0) {
+      return { reached: false, watermark };
+    }
+    await sleep(Math.min(pollIntervalMs, remaining));
+  }
+}
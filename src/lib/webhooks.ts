@@ -0,0 +1,202 @@
+/**
+ * Webhook（購読・署名・配信の記録）
+ *
+ * 購読は PostgreSQL の webhook_subscriptions、配信の記録は webhook_deliveries に置く。
+ * API が購読を登録し、Webhook Dispatcher が投稿の変更を購読先に POST する。
+ *
+ * 署名: X-Webhook-Signature: sha256=<HMAC-SHA256(secret, "<X-Webhook-Timestamp>.<ボディ>") の hex>
+ * 受け取る側は生のボディで同じ値を計算して比べる（verifySignature）。
+ * タイムスタンプも署名に含めるので、古いリクエストの再送は受け取る側で弾ける。
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { Pool } from "pg";
+import type { Post } from "../types/index.js";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "post.created",
+  "post.updated",
+  "post.deleted",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface WebhookSubscription {
+  id: number;
+  url: string;
+  secret: string;
+  event_types: WebhookEventType[];
+  active: boolean;
+  // 続けて失敗した配信の数（成功すると 0 に戻る）
+  consecutive_failures: number;
+  disabled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 購読先に POST するボディ
+ * id はイベントごとに一意（再配信でも同じ）なので、受け取る側の重複排除に使える
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  occurred_at: string;
+  // 削除では before（REPLICA IDENTITY DEFAULT では id だけ）
+  data: { post: Partial<Post> & Pick<Post, "id"> };
+}
+
+export type WebhookDeliveryStatus = "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: number;
+  subscription_id: number;
+  event_id: string;
+  event_type: WebhookEventType;
+  post_id: number;
+  status: WebhookDeliveryStatus;
+  // リトライを含めた試行回数
+  attempts: number;
+  // 最後の試行の HTTP ステータス（応答が無ければ null）
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+export type NewWebhookDelivery = Omit<WebhookDelivery, "id" | "created_at">;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/**
+ * 購読ごとの署名の鍵（登録時に指定されなければ作る）
+ */
+export function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * X-Webhook-Signature の値を作る
+ * timestamp はエポックからの秒
+ */
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * 受け取ったリクエストの署名を確かめる（比較は一定時間で行う）
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType);
+}
+
+/**
+ * 購読と配信の記録の読み書き（Consumer から使う）
+ * テストではメモリ上の実装（src/test-helpers/mock-webhook-store.ts）に差し替える
+ */
+export interface WebhookStore {
+  // 有効な購読（無効にされたものは配らない）
+  listActiveSubscriptions(): Promise<WebhookSubscription[]>;
+  // イベントの配信に成功済みの購読（再配信されたイベントを二重に送らない）
+  deliveredSubscriptionIds(eventId: string): Promise<Set<number>>;
+  // 配信の結果を記録し、続けて失敗した数を更新する
+  // 失敗が disableAfterFailures 回続いたら購読を無効にし、true を返す
+  recordDelivery(
+    delivery: NewWebhookDelivery,
+    disableAfterFailures: number,
+  ): Promise<{ disabled: boolean }>;
+  close(): Promise<void>;
+}
+
+export class PgWebhookStore implements WebhookStore {
+  constructor(private pg: Pool) {}
+
+  async listActiveSubscriptions(): Promise<WebhookSubscription[]> {
+    const result = await this.pg.query<WebhookSubscription>(
+      "SELECT * FROM webhook_subscriptions WHERE active ORDER BY id",
+    );
+    return result.rows;
+  }
+
+  async deliveredSubscriptionIds(eventId: string): Promise<Set<number>> {
+    const result = await this.pg.query<{ subscription_id: number }>(
+      `SELECT DISTINCT subscription_id FROM webhook_deliveries
+       WHERE event_id = $1 AND status = 'succeeded'`,
+      [eventId],
+    );
+    return new Set(result.rows.map((row) => row.subscription_id));
+  }
+
+  async recordDelivery(
+    delivery: NewWebhookDelivery,
+    disableAfterFailures: number,
+  ): Promise<{ disabled: boolean }> {
+    const client = await this.pg.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `INSERT INTO webhook_deliveries
+           (subscription_id, event_id, event_type, post_id, status, attempts, response_status, error, duration_ms)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          delivery.subscription_id,
+          delivery.event_id,
+          delivery.event_type,
+          delivery.post_id,
+          delivery.status,
+          delivery.attempts,
+          delivery.response_status,
+          delivery.error,
+          delivery.duration_ms,
+        ],
+      );
+
+      // SET の右辺は更新前の値を見る
+      const succeeded = delivery.status === "succeeded";
+      const result = await client.query<{ disabled: boolean }>(
+        `UPDATE webhook_subscriptions
+         SET consecutive_failures = CASE WHEN $2 THEN 0 ELSE consecutive_failures + 1 END,
+             active = active AND ($2 OR consecutive_failures + 1 < $3),
+             disabled_at = CASE
+               WHEN active AND NOT $2 AND consecutive_failures + 1 >= $3 THEN CURRENT_TIMESTAMP
+               ELSE disabled_at
+             END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING NOT $2 AND consecutive_failures = $3 AS disabled`,
+        [delivery.subscription_id, succeeded, disableAfterFailures],
+      );
+      await client.query("COMMIT");
+
+      return { disabled: result.rows[0]?.disabled ?? false };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pg.end();
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * PostgreSQL と派生ストア（Redis・Elasticsearch）の突き合わせ
+ *
+ * 使い方:
+ *   npm run consistency:check
+ *   npm run consistency:check -- --repair
+ *   npm run consistency:check -- --range-size=500
+ *
+ * posts を id の範囲ごとに読み、post:{id} のキャッシュと posts インデックスのドキュメントを比べて、
+ * ストアごとに missing / extra / stale を報告する。--repair で差分を直す。
+ * ずれが残っていれば終了コード 1 で終わる（定期実行の監視用）。
+ *
+ * Consumer が追いついていない間の書き込みも stale / missing に見えるので、ラグが小さい時に実行する。
+ * post:{id} は TTL（CACHE_TTL）で消えるので、Redis の missing には期限切れも含まれる。
+ */
+
+import { Client } from "@elastic/elasticsearch";
+import Redis from "ioredis";
+import { Pool, types } from "pg";
+import { createCacheConsistencyStore } from "../consumers/cache-updater-handlers.js";
+import { createSearchConsistencyStore } from "../consumers/search-indexer-handlers.js";
+import { pgTimestampToIso } from "../lib/column-types.js";
+import { getConfig } from "../lib/config.js";
+import {
+  checkAllPosts,
+  createPgPostSource,
+  differenceCount,
+  hasDrift,
+  type ConsistencyReport,
+} from "../lib/consistency-check.js";
+
+const config = getConfig();
+
+// 1回に読む投稿IDの範囲
+const DEFAULT_RANGE_SIZE = 1000;
+
+// 報告に並べる ID の数（種類ごと）
+const MAX_LISTED_IDS = 20;
+
+function parseArgs(args: string[]) {
+  let repair = false;
+  let rangeSize = DEFAULT_RANGE_SIZE;
+  for (const arg of args) {
+    if (arg === "--repair") {
+      repair = true;
+    } else if (/^--range-size=\d+$/.test(arg)) {
+      rangeSize = Number(arg.split("=")[1]);
+    } else {
+      throw new Error(
+        `Unknown argument: ${arg} (expected --repair or --range-size=<n>)`,
+      );
+    }
+  }
+  if (rangeSize < 1) {
+    throw new Error("--range-size must be a positive integer");
+  }
+  return { repair, rangeSize };
+}
+
+function listIds(ids: number[]): string {
+  const listed = ids.slice(0, MAX_LISTED_IDS).join(", ");
+  return ids.length > MAX_LISTED_IDS
+    ? `${listed}, ... (${ids.length - MAX_LISTED_IDS} more)`
+    : listed;
+}
+
+function printReport(report: ConsistencyReport, repair: boolean) {
+  console.log(
+    `\n📋 Checked ${report.checked} post ID(s), ${report.rows} row(s) in PostgreSQL`,
+  );
+  if (report.changing.length > 0) {
+    console.log(
+      `  ⏳ Skipped ${report.changing.length} post(s) changed while reading: ${listIds(report.changing)}`,
+    );
+  }
+  for (const [name, drift] of Object.entries(report.stores)) {
+    const total = differenceCount(drift);
+    if (total === 0) {
+      console.log(`  ✅ ${name}: consistent`);
+      continue;
+    }
+    console.log(`  ⚠️  ${name}: ${total} difference(s)`);
+    for (const kind of ["missing", "extra", "stale"] as const) {
+      if (drift[kind].length > 0) {
+        console.log(
+          `     ${kind} (${drift[kind].length}): ${listIds(drift[kind])}`,
+        );
+      }
+    }
+    if (repair) {
+      console.log(`     🔧 repaired ${drift.repaired} of ${total}`);
+    }
+  }
+}
+
+async function checkConsistency() {
+  const { repair, rangeSize } = parseArgs(process.argv.slice(2));
+
+  // API と同じく、TIMESTAMP を Consumer が書くのと同じ ISO-8601 の文字列で読む
+  types.setTypeParser(types.builtins.TIMESTAMP, pgTimestampToIso);
+  const pg = new Pool(config.postgres);
+  const redis = new Redis(config.redis);
+  const es = new Client({ node: config.elasticsearch.node });
+
+  try {
+    console.log(
+      `🔍 Checking posts against Redis and Elasticsearch (range size: ${rangeSize}${repair ? ", repair" : ""})...`,
+    );
+    const report = await checkAllPosts(
+      createPgPostSource(pg),
+      [createCacheConsistencyStore(redis), createSearchConsistencyStore(es)],
+      {
+        rangeSize,
+        repair,
+        onRange: (from, to, range) => {
+          const differences = Object.values(range.stores).reduce(
+            (sum, drift) => sum + differenceCount(drift),
+            0,
+          );
+          console.log(
+            `  📄 ids ${from}-${to}: ${range.rows} row(s), ${differences} difference(s)`,
+          );
+        },
+      },
+    );
+
+    printReport(report, repair);
+
+    const unrepaired = Object.values(report.stores).some(
+      (drift) => differenceCount(drift) > (repair ? drift.repaired : 0),
+    );
+    if (!hasDrift(report)) {
+      console.log("\n🎉 All derived stores are consistent with PostgreSQL");
+    } else if (unrepaired) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await pg.end();
+    await redis.quit();
+    await es.close();
+  }
+}
+
+checkConsistency().catch((error) => {
+  console.error("❌ Consistency check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+/**
+ * 著者ごとの集計の作り直し
+ *
+ * 使い方（Author Stats Consumer を止めてから実行する）:
+ *   npm run author-stats:rebuild
+ *   npm run dev:author-stats
+ *
+ * posts トピックは保持期間で古いイベントが消えるので、最初から読み直しても集計は作れない。
+ * PostgreSQL の今の投稿から集計を作り（スナップショット）、読み始める前のトピックの末尾から続きを読ませる。
+ *   1. Consumer グループのオフセットを posts トピックの今の末尾に付け替える
+ *   2. Redis の集計（stats:*）を消し、PostgreSQL の投稿をすべて足す（バージョンは 0）
+ *   3. Consumer を起動すると、1 より後の変更イベントが集計を上書きする
+ * 読んでいる間の変更は、スナップショットに入っていても Consumer がもう一度反映する（バージョン 0 より新しい）。
+ */
+
+import Redis from "ioredis";
+import { Pool, types } from "pg";
+import {
+  AUTHOR_STATS_GROUP_ID,
+  STATS_KEY_PATTERN,
+  seedPostStats,
+} from "../consumers/author-stats-handlers.js";
+import { deleteKeysByPattern } from "../consumers/cache-updater-scripts.js";
+import { createKafkaClient } from "../lib/change-event-consumer.js";
+import { pgTimestampToIso } from "../lib/column-types.js";
+import { getConfig } from "../lib/config.js";
+import { assertGroupStopped } from "../lib/offset-reset.js";
+import type { Post } from "../types/index.js";
+
+const config = getConfig();
+
+// 1回に読む投稿の数
+const PAGE_SIZE = 1000;
+
+async function seedFromPostgres(redis: Redis): Promise<number> {
+  // Consumer が書くのと同じ ISO-8601 の文字列で読む
+  types.setTypeParser(types.builtins.TIMESTAMP, pgTimestampToIso);
+  const pg = new Pool(config.postgres);
+
+  try {
+    let seeded = 0;
+    let lastId = 0;
+    for (;;) {
+      const { rows } = await pg.query<Post>(
+        "SELECT * FROM posts WHERE id > $1 ORDER BY id LIMIT $2",
+        [lastId, PAGE_SIZE],
+      );
+      if (rows.length === 0) return seeded;
+
+      await seedPostStats(rows, redis);
+      seeded += rows.length;
+      lastId = rows[rows.length - 1].id;
+      console.log(`  📄 Counted ${seeded} post(s)`);
+    }
+  } finally {
+    await pg.end();
+  }
+}
+
+async function rebuildAuthorStats() {
+  const kafka = createKafkaClient("author-stats-rebuild");
+  const admin = kafka.admin();
+  const redis = new Redis(config.redis);
+  const topic = config.kafka.postsTopic;
+
+  await admin.connect();
+
+  try {
+    // 動いている Consumer があるとオフセットを変えられない（変えても上書きされる）
+    await assertGroupStopped(admin, AUTHOR_STATS_GROUP_ID);
+
+    // 先に末尾へ付け替える（PostgreSQL を読んでいる間の変更を読み飛ばさないように）
+    const partitions = (await admin.fetchTopicOffsets(topic)).map(
+      ({ partition, high }) => ({ partition, offset: high }),
+    );
+    await admin.setOffsets({
+      groupId: AUTHOR_STATS_GROUP_ID,
+      topic,
+      partitions,
+    });
+    console.log(
+      `⏩ Reset ${AUTHOR_STATS_GROUP_ID} to the head of ${topic} (${partitions.map(({ partition, offset }) => `${partition}=${offset}`).join(", ")})`,
+    );
+
+    const deleted = await deleteKeysByPattern(redis, STATS_KEY_PATTERN);
+    console.log(`🧹 Deleted ${deleted} key(s) of author stats`);
+
+    const seeded = await seedFromPostgres(redis);
+    console.log(`✅ Counted ${seeded} post(s) from PostgreSQL`);
+
+    console.log(
+      "\n🎉 Rebuilt: start the consumer with npm run dev:author-stats to apply the changes since",
+    );
+  } finally {
+    await admin.disconnect();
+    await redis.quit();
+  }
+}
+
+rebuildAuthorStats().catch((error) => {
+  console.error("❌ Rebuild failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,349 @@
+/**
+ * Elasticsearch の再索引（検索を止めずに作り直す）
+ *
+ * 使い方（Search Indexer は動かしたままでよい）:
+ *   npm run search:reindex -- start                    # PostgreSQL から作る
+ *   npm run search:reindex -- start --source=topic     # posts トピックを最初からリプレイして作る
+ *   npm run search:reindex -- status
+ *   npm run search:reindex -- swap                     # start が追いつくのを待ちきれなかった時
+ *   npm run search:reindex -- rollback                 # 読み込みを古いインデックスに戻す
+ *   npm run search:reindex -- finish                   # 古いインデックスを消す
+ *
+ * start は次の順に進む。
+ *   1. posts_v{n+1} を作り、書き込み用のエイリアス（posts_write）に足す
+ *   2. Search Indexer が読み直すのを待つ（以降の変更は新旧両方のインデックスに書かれる）
+ *   3. PostgreSQL（スナップショットの後の LSN をバージョンにする）かトピックのリプレイで新しいインデックスを埋める
+ *   4. Search Indexer がその時点のトピックの末尾まで反映したら、読み込み用のエイリアス（posts）を付け替える
+ *
+ * どちらの書き込みも外部バージョン付きなので、リプレイと両方への書き込みの順序が入れ替わっても古い内容で上書きしない。
+ * 付け替えた後も古いインデックスに書き続けるので、finish するまでは rollback で戻せる。
+ */
+
+import { Client } from "@elastic/elasticsearch";
+import type { Admin, Kafka } from "kafkajs";
+import { Pool, types } from "pg";
+import {
+  SEARCH_INDEXER_GROUP_ID,
+  createSearchConsistencyStore,
+  createSearchIndexSink,
+} from "../consumers/search-indexer-handlers.js";
+import {
+  applyMessage,
+  createKafkaClient,
+} from "../lib/change-event-consumer.js";
+import { pgTimestampToIso } from "../lib/column-types.js";
+import { getConfig } from "../lib/config.js";
+import { checkAllPosts, createPgPostSource } from "../lib/consistency-check.js";
+import {
+  beginReindex,
+  finishReindex,
+  fixedWriteIndices,
+  readReindexState,
+  rollbackReindex,
+  swapReadAlias,
+  type IndexAliases,
+} from "../lib/search-index.js";
+
+const config = getConfig();
+
+const ALIASES: IndexAliases = {
+  readAlias: config.elasticsearch.index,
+  writeAlias: config.elasticsearch.writeAlias,
+};
+
+// Search Indexer が書き込み用のエイリアスを読み直すまでの余裕
+const ALIAS_REFRESH_MARGIN_MS = 1000;
+
+// 1回に読む投稿IDの範囲（PostgreSQL から作る時）
+const DEFAULT_RANGE_SIZE = 1000;
+
+// Search Indexer が追いつくのを待つ最大時間
+const DEFAULT_CATCH_UP_TIMEOUT_MS = 60_000;
+const CATCH_UP_POLL_INTERVAL_MS = 1000;
+
+type Source = "postgres" | "topic";
+
+function parseOptions(args: string[]) {
+  let source: Source = "postgres";
+  let rangeSize = DEFAULT_RANGE_SIZE;
+  let catchUpTimeoutMs = DEFAULT_CATCH_UP_TIMEOUT_MS;
+  for (const arg of args) {
+    if (arg === "--source=postgres" || arg === "--source=topic") {
+      source = arg.split("=")[1] as Source;
+    } else if (/^--range-size=[1-9]\d*$/.test(arg)) {
+      rangeSize = Number(arg.split("=")[1]);
+    } else if (/^--catch-up-timeout=\d+$/.test(arg)) {
+      catchUpTimeoutMs = Number(arg.split("=")[1]);
+    } else {
+      throw new Error(
+        `Unknown option: ${arg} (expected --source=postgres|topic, --range-size=<n> or --catch-up-timeout=<ms>)`,
+      );
+    }
+  }
+  return { source, rangeSize, catchUpTimeoutMs };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * PostgreSQL から作る: 空のインデックスを突き合わせで「直す」（すべて missing として書かれる）
+ */
+async function buildFromPostgres(es: Client, index: string, rangeSize: number) {
+  // API と同じく、TIMESTAMP を Consumer が書くのと同じ ISO-8601 の文字列で読む
+  types.setTypeParser(types.builtins.TIMESTAMP, pgTimestampToIso);
+  const pg = new Pool(config.postgres);
+
+  try {
+    const report = await checkAllPosts(
+      createPgPostSource(pg),
+      [createSearchConsistencyStore(es, index)],
+      {
+        rangeSize,
+        repair: true,
+        onRange: (from, to, range) => {
+          console.log(
+            `  📄 ids ${from}-${to}: ${range.rows} row(s), indexed ${range.stores.elasticsearch.repaired}`,
+          );
+        },
+      },
+    );
+    console.log(
+      `✅ Indexed ${report.stores.elasticsearch.repaired} of ${report.rows} post(s) into ${index} (the rest were already written by the search indexer)`,
+    );
+    // 変更中だった投稿は、COMMIT の後に Search Indexer が新しいインデックスにも書く
+    if (report.changing.length > 0) {
+      console.log(
+        `  ⏳ Left ${report.changing.length} post(s) changed while reading to the search indexer (${report.changing.join(", ")})`,
+      );
+    }
+  } finally {
+    await pg.end();
+  }
+}
+
+/**
+ * トピックのリプレイで作る: posts トピックを最初から、開始時点の末尾まで読んで新しいインデックスだけに書く
+ * それより後のメッセージは Search Indexer が新旧両方に書く
+ */
+async function buildFromTopic(kafka: Kafka, es: Client, index: string) {
+  const topic = config.kafka.postsTopic;
+  const groupId = `search-indexer-reindex-${index}`;
+  const admin = kafka.admin();
+  const consumer = kafka.consumer({ groupId });
+  // close は呼ばない（es は付け替えにも使う）
+  const sink = createSearchIndexSink(es, fixedWriteIndices(index));
+
+  await admin.connect();
+  await consumer.connect();
+
+  try {
+    const endOffsets = new Map(
+      (await admin.fetchTopicOffsets(topic)).map(({ partition, high }) => [
+        partition,
+        high,
+      ]),
+    );
+    const pending = new Set(
+      [...endOffsets.entries()]
+        .filter(([, high]) => high !== "0")
+        .map(([partition]) => partition),
+    );
+    if (pending.size === 0) {
+      console.log(`✅ ${topic} is empty, nothing to replay`);
+      return;
+    }
+
+    let replayed = 0;
+    let failed = 0;
+
+    await consumer.subscribe({ topics: [topic], fromBeginning: true });
+
+    await new Promise<void>((resolve, reject) => {
+      consumer
+        .run({
+          eachMessage: async ({ partition, message }) => {
+            if (!pending.has(partition)) return;
+
+            try {
+              await applyMessage(message, sink);
+              if (++replayed % 1000 === 0) {
+                console.log(`  📄 Replayed ${replayed} message(s)`);
+              }
+            } catch (error) {
+              // Search Indexer でも DLQ に送られているはずのイベント（dlq:replay で両方に書かれる）
+              failed++;
+              console.error(
+                `  ❌ Failed to replay ${topic}[${partition}]@${message.offset}:`,
+                error,
+              );
+            }
+
+            const next = BigInt(message.offset) + 1n;
+            if (next >= BigInt(endOffsets.get(partition)!)) {
+              pending.delete(partition);
+            }
+            if (pending.size === 0) {
+              resolve();
+            }
+          },
+        })
+        .catch(reject);
+    });
+
+    console.log(
+      `✅ Replayed ${replayed} message(s) into ${index}, ${failed} failed`,
+    );
+  } finally {
+    await consumer.disconnect();
+    // 使い捨てのグループなので消しておく
+    await admin.deleteGroups([groupId]).catch(() => {});
+    await admin.disconnect();
+  }
+}
+
+/**
+ * Search Indexer のコミット済みオフセットが、今のトピックの末尾に届くまで待つ
+ * 届けば、それまでの変更は古いインデックスにも新しいインデックスにも反映されている
+ */
+async function waitForSearchIndexer(
+  admin: Admin,
+  timeoutMs: number,
+): Promise<boolean> {
+  const topic = config.kafka.postsTopic;
+  const endOffsets = await admin.fetchTopicOffsets(topic);
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const [committed] = await admin.fetchOffsets({
+      groupId: SEARCH_INDEXER_GROUP_ID,
+      topics: [topic],
+    });
+    const behind = endOffsets.filter(({ partition, high }) => {
+      const offset =
+        committed?.partitions.find((p) => p.partition === partition)?.offset ??
+        "-1";
+      return BigInt(offset) < BigInt(high);
+    });
+    if (behind.length === 0) return true;
+    if (Date.now() >= deadline) {
+      console.log(
+        `⚠️  ${SEARCH_INDEXER_GROUP_ID} is still behind on partition(s) ${behind.map(({ partition }) => partition).join(", ")}`,
+      );
+      return false;
+    }
+    await sleep(CATCH_UP_POLL_INTERVAL_MS);
+  }
+}
+
+async function countDocuments(es: Client, index: string): Promise<number> {
+  await es.indices.refresh({ index });
+  return (await es.count({ index })).count;
+}
+
+async function start(es: Client, args: string[]) {
+  const { source, rangeSize, catchUpTimeoutMs } = parseOptions(args);
+  const kafka = createKafkaClient("search-indexer-reindex");
+  const admin = kafka.admin();
+  await admin.connect();
+
+  try {
+    const { from, to } = await beginReindex(es, ALIASES);
+    console.log(
+      `📝 Created ${to} and added it to ${ALIASES.writeAlias} (reading from ${from})`,
+    );
+
+    const waitMs =
+      config.searchIndexer.aliasRefreshMs + ALIAS_REFRESH_MARGIN_MS;
+    console.log(
+      `⏳ Waiting ${waitMs}ms for running search indexers to write to both indices...`,
+    );
+    await sleep(waitMs);
+
+    console.log(`🔨 Building ${to} from ${source}...`);
+    if (source === "postgres") {
+      await buildFromPostgres(es, to, rangeSize);
+    } else {
+      await buildFromTopic(kafka, es, to);
+    }
+
+    console.log(`⏳ Waiting for ${SEARCH_INDEXER_GROUP_ID} to catch up...`);
+    if (!(await waitForSearchIndexer(admin, catchUpTimeoutMs))) {
+      console.log(
+        `\n${to} keeps receiving changes; run "npm run search:reindex -- swap" once the search indexer has caught up, or "rollback" to abandon it`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(
+      `📊 ${from}: ${await countDocuments(es, from)} document(s), ${to}: ${await countDocuments(es, to)} document(s)`,
+    );
+    await swap(es);
+  } finally {
+    await admin.disconnect();
+  }
+}
+
+async function swap(es: Client) {
+  const { from, to } = await swapReadAlias(es, ALIASES);
+  console.log(`🔀 ${ALIASES.readAlias} now points to ${to}`);
+  console.log(
+    `\n🎉 Reindexed. ${from} is still written to: run "npm run search:reindex -- finish" to delete it, or "rollback" to switch back`,
+  );
+}
+
+async function status(es: Client) {
+  const state = await readReindexState(es, ALIASES);
+  if (state.status === "idle") {
+    console.log(
+      `✅ ${ALIASES.readAlias} / ${ALIASES.writeAlias} → ${state.current} (${await countDocuments(es, state.current)} document(s)), no reindex in progress`,
+    );
+    return;
+  }
+  const reading = state.status === "building" ? state.from : state.to;
+  console.log(
+    `🔨 Reindex ${state.status}: ${ALIASES.readAlias} → ${reading}, ${ALIASES.writeAlias} → ${state.from}, ${state.to}`,
+  );
+  for (const index of [state.from, state.to]) {
+    console.log(`   ${index}: ${await countDocuments(es, index)} document(s)`);
+  }
+}
+
+async function reindexSearch(command: string | undefined, args: string[]) {
+  const es = new Client({ node: config.elasticsearch.node });
+
+  try {
+    switch (command) {
+      case "start":
+        return await start(es, args);
+      case "swap":
+        return await swap(es);
+      case "rollback": {
+        const { restored, deleted } = await rollbackReindex(es, ALIASES);
+        console.log(
+          `⏪ ${ALIASES.readAlias} / ${ALIASES.writeAlias} point to ${restored} again, deleted ${deleted}`,
+        );
+        return;
+      }
+      case "finish": {
+        const { current, deleted } = await finishReindex(es, ALIASES);
+        console.log(`🧹 Deleted ${deleted}, writing only to ${current}`);
+        return;
+      }
+      case "status":
+        return await status(es);
+      default:
+        throw new Error(
+          `Unknown command: ${command ?? "(none)"} (expected start, swap, rollback, finish or status)`,
+        );
+    }
+  } finally {
+    await es.close();
+  }
+}
+
+// メイン実行
+reindexSearch(process.argv[2], process.argv.slice(3)).catch((error) => {
+  console.error("❌ Reindex failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,191 @@
+/**
+ * DLQ リプレイコマンド
+ * 原因を修正した後、DLQに溜まったイベントを元のハンドラーで再処理する
+ *
+ * 使い方:
+ *   npm run dlq:replay -- search-indexer
+ *   npm run dlq:replay -- cache-updater
+ *   npm run dlq:replay -- author-stats
+ *   npm run dlq:replay -- timeline
+ *   npm run dlq:replay -- webhook-dispatcher
+ *
+ * Consumer が購読しているテーブルごとのDLQ（blogdb.public.posts.cache-updater.dlq など）をまとめて処理する。
+ * 実行開始時点のDLQ末尾まで処理したら終了する（前回のリプレイで処理済みの分は読まない）。
+ * 再処理にも失敗したメッセージは attempts を増やしてDLQに戻す。
+ * オフセットは1件ずつ、再処理するか DLQ に戻し終えてからコミットする（途中で止まっても取りこぼさない）。
+ */
+
+import {
+  consumerDefinition,
+  createConsumerSinks,
+  type ConsumerName,
+} from "../consumers/registry.js";
+import {
+  applyMessage,
+  createKafkaClient,
+  type ChangeEventSink,
+} from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import {
+  captureReplayTargets,
+  readReplayProgress,
+} from "../lib/offset-reset.js";
+import {
+  deadLetterTopic,
+  publishToDeadLetter,
+  readDeadLetterMetadata,
+} from "../lib/dead-letter.js";
+
+import { tableNameOfTopic, tableTopic, type TableName } from "../lib/tables.js";
+
+const config = getConfig();
+
+async function replayDeadLetters(consumerName: string) {
+  // Consumer 本体と同じテーブルごとの sink
+  const { tables } = consumerDefinition(consumerName);
+  const sinks = createConsumerSinks(consumerName as ConsumerName);
+  const sourceTopics = tables.map((table) =>
+    tableTopic(config.kafka.topicPrefix, table),
+  );
+  const groupId = `${consumerName}-dlq-replay-group`;
+
+  const kafka = createKafkaClient(`${consumerName}-dlq-replay`);
+  const admin = kafka.admin();
+  const producer = kafka.producer();
+  const consumer = kafka.consumer({ groupId });
+
+  await admin.connect();
+  await producer.connect();
+  await consumer.connect();
+
+  try {
+    // 一度もDLQに送られていないテーブルのトピックは存在しない
+    const existing = new Set(await admin.listTopics());
+    const dlqTopics = sourceTopics
+      .map((topic) => deadLetterTopic(topic, consumerName))
+      .filter((topic) => existing.has(topic));
+    console.log(`🔁 Replaying DLQ: ${dlqTopics.join(", ") || "(none)"}`);
+
+    // 開始時点の末尾オフセット（ここまで処理したら終了）
+    // 前回のリプレイでコミット済みの分は読まれないので、コミット済みオフセットが末尾に届いている
+    // パーティションは待たない（待つと届かないメッセージを待ち続ける）
+    // キーは "topic:partition"
+    const { partitions } = await readReplayProgress(
+      admin,
+      groupId,
+      await captureReplayTargets(admin, dlqTopics),
+    );
+    const endOffsets = new Map(
+      partitions.map(({ topic, partition, high }) => [
+        `${topic}:${partition}`,
+        high,
+      ]),
+    );
+    const pending = new Set(
+      partitions
+        .filter(({ remaining }) => remaining > 0)
+        .map(({ topic, partition }) => `${topic}:${partition}`),
+    );
+
+    if (pending.size === 0) {
+      console.log("✅ DLQ has nothing left to replay");
+      return;
+    }
+
+    let replayed = 0;
+    let failed = 0;
+
+    await consumer.subscribe({ topics: dlqTopics, fromBeginning: true });
+
+    await new Promise<void>((resolve, reject) => {
+      consumer
+        .run({
+          autoCommit: false,
+          eachMessage: async ({ topic, partition, message }) => {
+            const key = `${topic}:${partition}`;
+            if (!pending.has(key)) return;
+
+            const metadata = readDeadLetterMetadata(message.headers);
+            // DLQ トピック名から元のトピックを求める（ヘッダーが無い古いメッセージ向け）
+            const originalTopic =
+              metadata.originalTopic ||
+              topic.slice(0, -`.${consumerName}.dlq`.length);
+
+            try {
+              // Consumer 本体と同じ sink で再処理する（トゥームストーンはキーだけで）
+              const sink = sinks[
+                tableNameOfTopic(originalTopic) as TableName
+              ] as ChangeEventSink | undefined;
+              if (!sink) {
+                throw new Error(`No sink for ${originalTopic}`);
+              }
+              await applyMessage(message, sink);
+              replayed++;
+              console.log(
+                `  ✅ Replayed ${metadata.originalTopic}[${metadata.originalPartition}]@${metadata.originalOffset}`,
+              );
+            } catch (error) {
+              failed++;
+              console.error(
+                `  ❌ Replay failed for ${metadata.originalTopic}[${metadata.originalPartition}]@${metadata.originalOffset}:`,
+                error,
+              );
+              // 元のメタデータを保ったままDLQに戻す
+              await publishToDeadLetter(producer, {
+                consumerName,
+                consumerGroup: metadata.consumerGroup,
+                topic: originalTopic,
+                partition: metadata.originalPartition,
+                message: { ...message, offset: metadata.originalOffset },
+                error,
+                attempts: metadata.attempts + 1,
+                reason: "replay-failed",
+              });
+            }
+
+            // 再処理した・DLQ に戻した後でコミットする（ここより前に落ちたら次のリプレイで読み直す）
+            const next = BigInt(message.offset) + 1n;
+            await consumer.commitOffsets([
+              { topic, partition, offset: next.toString() },
+            ]);
+            if (next >= BigInt(endOffsets.get(key)!)) {
+              pending.delete(key);
+            }
+            if (pending.size === 0) {
+              resolve();
+            }
+          },
+        })
+        .catch(reject);
+    });
+
+    console.log(
+      `\n🎉 DLQ replay finished: ${replayed} replayed, ${failed} failed`,
+    );
+  } finally {
+    await consumer.disconnect();
+    await producer.disconnect();
+    await admin.disconnect();
+    const closers = new Set(
+      (Object.values(sinks) as ChangeEventSink[]).map((sink) => sink.close),
+    );
+    for (const close of closers) {
+      await close?.();
+    }
+  }
+}
+
+// メイン実行
+const consumerName = process.argv[2];
+
+if (!consumerName) {
+  console.error(
+    "Usage: tsx src/scripts/replay-dlq.ts <search-indexer|cache-updater|author-stats|timeline|webhook-dispatcher>",
+  );
+  process.exit(1);
+}
+
+replayDeadLetters(consumerName).catch((error) => {
+  console.error("❌ DLQ replay failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,311 @@
+/**
+ * Consumer グループのオフセットの付け替えとリプレイ
+ *
+ * 使い方（対象の Consumer を止めてから実行する）:
+ *   npm run consumer:reset -- search-indexer --to=earliest --clear
+ *   npm run consumer:reset -- cache-updater --to=timestamp:2024-01-01T00:00:00Z
+ *   npm run consumer:reset -- author-stats --to=offset:0=120,1=98
+ *   npm run consumer:reset -- timeline --to=latest --table=public.follows --no-wait
+ *
+ * オプション:
+ *   --to=<target>     earliest / latest / offset:<n> / offset:<partition>=<n>,… / timestamp:<ISO-8601|ms>
+ *   --table=<table>   1つのテーブル（トピック）だけ付け替える（offset は購読が1つでなければ必須）
+ *   --clear           付け替えた後、派生ストアを TRUNCATE と同じように消す（ウォーターマークも消す）
+ *                     Search Indexer は空のインデックスを作ってエイリアスを付け替える
+ *   --no-wait         付け替えたら終わる（既定は Consumer が末尾に追いつくまで進み具合を表示する）
+ *   --timeout=<ms>    追いつくのを待つ最大時間（既定は追いつくまで）
+ *
+ * 先にオフセットを付け替えてからストアを消す（ストアだけ消えて、続きから読まれることがないように）。
+ * トランザクションモード（*_TRANSACTION_MODE=true）の Consumer は blogdb.transaction も同じ戻す先に付け替える。
+ * オフセットは blogdb.transaction に当てはめられないので、その場合は timestamp: などを使う。
+ * 待っている間に Consumer を起動すると、付け替えた時点のトピックの末尾まで読んだところで終わる。
+ */
+
+import { Client } from "@elastic/elasticsearch";
+import Redis from "ioredis";
+import {
+  consumerDefinition,
+  consumesTransactionTopic,
+  createConsumerSinks,
+  type ConsumerName,
+} from "../consumers/registry.js";
+import {
+  createKafkaClient,
+  type ChangeEventSink,
+} from "../lib/change-event-consumer.js";
+import { getConfig } from "../lib/config.js";
+import {
+  InvalidResetTargetError,
+  assertGroupStopped,
+  captureReplayTargets,
+  describeResetTarget,
+  parseResetTarget,
+  resetGroupOffsets,
+  resetTransactionOffsets,
+  waitForReplay,
+  type OffsetChange,
+  type ReplayProgress,
+  type ResetTarget,
+} from "../lib/offset-reset.js";
+import { recreatePostsIndex } from "../lib/search-index.js";
+import { lookupTable, tableTopic, type TableName } from "../lib/tables.js";
+import { watermarkKey } from "../lib/watermark.js";
+
+const config = getConfig();
+
+const PROGRESS_POLL_INTERVAL_MS = 2000;
+
+const USAGE =
+  "Usage: npm run consumer:reset -- <search-indexer|cache-updater|author-stats|timeline|webhook-dispatcher> --to=<earliest|latest|offset:<n>|offset:<partition>=<n>,…|timestamp:<ISO-8601|ms>> [--table=<table>] [--clear] [--no-wait] [--timeout=<ms>]";
+
+interface ResetOptions {
+  consumerName: ConsumerName;
+  target: ResetTarget;
+  tables: TableName[];
+  clear: boolean;
+  wait: boolean;
+  timeoutMs?: number;
+}
+
+function parseArgs([consumerName, ...args]: string[]): ResetOptions {
+  if (!consumerName || consumerName.startsWith("--")) {
+    throw new Error(USAGE);
+  }
+  const definition = consumerDefinition(consumerName);
+
+  let target: ResetTarget | null = null;
+  let table: string | null = null;
+  let clear = false;
+  let wait = true;
+  let timeoutMs: number | undefined;
+  for (const arg of args) {
+    if (arg.startsWith("--to=")) {
+      target = parseResetTarget(arg.slice("--to=".length));
+    } else if (arg.startsWith("--table=")) {
+      table = arg.slice("--table=".length);
+    } else if (arg === "--clear") {
+      clear = true;
+    } else if (arg === "--no-wait") {
+      wait = false;
+    } else if (/^--timeout=\d+$/.test(arg)) {
+      timeoutMs = Number(arg.split("=")[1]);
+    } else {
+      throw new Error(`Unknown option: ${arg}\n${USAGE}`);
+    }
+  }
+  if (!target) {
+    throw new Error(`--to is required\n${USAGE}`);
+  }
+
+  let tables = definition.tables;
+  if (table !== null) {
+    const found = lookupTable(table);
+    if (!found || !tables.includes(found.name)) {
+      throw new Error(
+        `${consumerName} does not consume ${table} (expected ${tables.join(" or ")})`,
+      );
+    }
+    tables = [found.name];
+  }
+  // オフセットはトピックごとの位置なので、複数のトピックには同じ値を使えない
+  if (
+    (target.type === "offset" || target.type === "partition-offsets") &&
+    tables.length > 1
+  ) {
+    throw new InvalidResetTargetError(
+      `${consumerName} consumes ${tables.join(" and ")}; choose one with --table to reset to an offset`,
+    );
+  }
+  if (clear && !definition.hasStore) {
+    throw new Error(`${consumerName} has no store to clear`);
+  }
+
+  return {
+    consumerName: consumerName as ConsumerName,
+    target,
+    tables,
+    clear,
+    wait,
+    timeoutMs,
+  };
+}
+
+/**
+ * 派生ストアを消す（Consumer 本体の TRUNCATE と同じ処理）
+ * Search Indexer はインデックスごと作り直す（delete_by_query で消すとリプレイの書き込みが 409 で捨てられる）
+ * ?after= の読み込みが消えたストアを最新とみなさないように、テーブルのウォーターマークも消す
+ */
+async function clearStore(consumerName: ConsumerName, tables: TableName[]) {
+  if (consumerName === "search-indexer") {
+    await recreateSearchIndex();
+  } else {
+    await truncateStore(consumerName, tables);
+  }
+
+  const redis = new Redis(config.redis);
+  try {
+    for (const table of tables) {
+      await redis.del(watermarkKey(consumerName, table));
+    }
+  } finally {
+    await redis.quit();
+  }
+}
+
+async function recreateSearchIndex() {
+  const es = new Client({ node: config.elasticsearch.node });
+  try {
+    const { created, deleted } = await recreatePostsIndex(es, {
+      readAlias: config.elasticsearch.index,
+      writeAlias: config.elasticsearch.writeAlias,
+    });
+    console.log(`🧹 Replaced ${deleted} with an empty ${created}`);
+  } finally {
+    await es.close();
+  }
+}
+
+async function truncateStore(consumerName: ConsumerName, tables: TableName[]) {
+  const sinks = createConsumerSinks(consumerName);
+
+  try {
+    for (const table of tables) {
+      const sink = sinks[table] as ChangeEventSink | undefined;
+      if (!sink?.truncate) {
+        throw new Error(`${consumerName} cannot clear ${table}`);
+      }
+      await sink.truncate();
+      console.log(`🧹 Cleared ${consumerName}'s store for ${table}`);
+    }
+  } finally {
+    const closers = new Set(
+      (Object.values(sinks) as ChangeEventSink[]).map((sink) => sink.close),
+    );
+    for (const close of closers) {
+      await close?.();
+    }
+  }
+}
+
+function printProgress(total: number, progress: ReplayProgress) {
+  const left = new Map<string, number>();
+  for (const { topic, remaining } of progress.partitions) {
+    left.set(topic, (left.get(topic) ?? 0) + remaining);
+  }
+  console.log(
+    `  📄 Replayed ${total - progress.remaining}/${total} message(s) (${[
+      ...left,
+    ]
+      .map(([topic, remaining]) => `${topic}: ${remaining} left`)
+      .join(", ")})`,
+  );
+}
+
+async function resetConsumer({
+  consumerName,
+  target,
+  tables,
+  clear,
+  wait,
+  timeoutMs,
+}: ResetOptions) {
+  const { groupId } = consumerDefinition(consumerName);
+  const topics = tables.map((table) =>
+    tableTopic(config.kafka.topicPrefix, table),
+  );
+  const kafka = createKafkaClient(`${consumerName}-reset`);
+  const admin = kafka.admin();
+
+  await admin.connect();
+
+  try {
+    // 動いている Consumer があるとオフセットを変えられない（変えても上書きされる）
+    await assertGroupStopped(admin, groupId);
+
+    const printChanges = (topic: string, changes: OffsetChange[]) => {
+      console.log(
+        `⏪ Reset ${groupId} on ${topic} to ${describeResetTarget(target)}`,
+      );
+      for (const { partition, from, to } of changes) {
+        console.log(`   [${partition}] ${from ?? "(none)"} → ${to}`);
+      }
+    };
+
+    // トランザクションモードなら END も読み直す（オフセット指定ならここで止めて何も変えない）
+    if (consumesTransactionTopic(consumerName)) {
+      const topic = config.kafka.transactionTopic;
+      printChanges(
+        topic,
+        await resetTransactionOffsets(admin, groupId, topic, target),
+      );
+    }
+    for (const topic of topics) {
+      printChanges(
+        topic,
+        await resetGroupOffsets(admin, groupId, topic, target),
+      );
+    }
+
+    if (clear) {
+      if (target.type !== "earliest") {
+        console.log(
+          "⚠️  Changes before the new offsets will not be replayed into the cleared store",
+        );
+      }
+      await clearStore(consumerName, tables);
+    }
+
+    if (!wait) {
+      console.log(
+        `\n🎉 Done. Start the consumer with npm run dev:${consumerName} to replay`,
+      );
+      return;
+    }
+
+    // 付け替えた時点の末尾まで読めば追いついたことにする
+    const targets = await captureReplayTargets(admin, topics);
+    let total: number | null = null;
+    let last: number | null = null;
+    console.log(
+      `\n⏳ Waiting for ${groupId} to catch up; start the consumer with npm run dev:${consumerName}`,
+    );
+    const caughtUp = await waitForReplay(admin, groupId, targets, {
+      pollIntervalMs: PROGRESS_POLL_INTERVAL_MS,
+      timeoutMs,
+      onProgress: (progress) => {
+        total ??= progress.remaining;
+        if (progress.remaining !== last) {
+          printProgress(total, progress);
+          last = progress.remaining;
+        }
+      },
+    });
+
+    if (!caughtUp) {
+      console.log(
+        `⚠️  ${groupId} has not caught up yet; the replay continues while the consumer is running`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+    console.log(
+      `\n🎉 ${groupId} caught up with the head of ${topics.join(", ")}`,
+    );
+  } finally {
+    await admin.disconnect();
+  }
+}
+
+// メイン実行
+let options: ResetOptions;
+try {
+  options = parseArgs(process.argv.slice(2));
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
+resetConsumer(options).catch((error) => {
+  console.error("❌ Reset failed:", error);
+  process.exit(1);
+});
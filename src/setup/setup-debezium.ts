@@ -3,9 +3,49 @@
  * PostgreSQL の変更をKafkaにストリームするためのコネクタを登録
  */
 
+import { Client } from "pg";
 import { ConnectorStatus, ConnectorConfig } from "../types/index";
+import { getConfig } from "../lib/config.js";
+import { TABLE_NAMES, tableTopic } from "../lib/tables.js";
 
-const DEBEZIUM_API = "http://localhost:8083";
+const config = getConfig();
+const DEBEZIUM_API = config.debezium.api;
+
+// CDC 対象のテーブル（src/lib/tables.ts に登録されたもの）
+const CAPTURED_TABLES = TABLE_NAMES;
+
+/**
+ * 対象テーブルを REPLICA IDENTITY FULL にする
+ *
+ * DEFAULT のままだと update の before は null、delete の before は主キーしか入らない。
+ * 著者の変更などで二次キー（author:{author}:posts）を移すには更新前の行全体が必要。
+ */
+async function ensureReplicaIdentityFull() {
+  console.log("🔧 Ensuring REPLICA IDENTITY FULL...");
+
+  const client = new Client(config.postgres);
+
+  await client.connect();
+  try {
+    for (const table of CAPTURED_TABLES) {
+      // relreplident: d=DEFAULT, n=NOTHING, f=FULL, i=INDEX
+      const result = await client.query<{ relreplident: string }>(
+        "SELECT relreplident FROM pg_class WHERE oid = $1::regclass",
+        [table],
+      );
+
+      if (result.rows[0]?.relreplident === "f") {
+        console.log(`  ✅ ${table} is already REPLICA IDENTITY FULL`);
+        continue;
+      }
+
+      await client.query(`ALTER TABLE ${table} REPLICA IDENTITY FULL`);
+      console.log(`  ✅ Set REPLICA IDENTITY FULL on ${table}`);
+    }
+  } finally {
+    await client.end();
+  }
+}
 
 async function setupDebeziumConnector() {
   console.log("🔧 Setting up Debezium PostgreSQL connector...");
@@ -14,27 +54,34 @@ async function setupDebeziumConnector() {
     name: "postgres-connector",
     config: {
       "connector.class": "io.debezium.connector.postgresql.PostgresConnector",
-      "database.hostname": "postgres",
-      "database.port": "5432",
-      "database.user": "blog_user",
-      "database.password": "blog_pass",
-      "database.dbname": "blog_db",
-      "database.server.name": "blogdb",
-      "table.include.list": "public.posts",
+      "database.hostname": config.debezium.databaseHostname,
+      "database.port": String(config.debezium.databasePort),
+      "database.user": config.postgres.user,
+      "database.password": config.postgres.password,
+      "database.dbname": config.postgres.database,
+      "database.server.name": config.kafka.topicPrefix,
+      "table.include.list": CAPTURED_TABLES.join(","),
       "plugin.name": "pgoutput",
       "publication.autocreate.mode": "filtered",
       "slot.name": "debezium_slot",
-      "topic.prefix": "blogdb",
+      "topic.prefix": config.kafka.topicPrefix,
       // スナップショットモード（初回起動時に既存データも取得）
       "snapshot.mode": "initial",
-      // タイムゾーン設定
+      // 日時を Kafka Connect 標準の論理型（エポックからのミリ秒）で送る
+      // Consumer が schema ブロックを見て ISO-8601 に変換する（src/lib/column-types.ts）
       "time.precision.mode": "connect",
       // トランザクションメタデータも取得
       "provide.transaction.metadata": "true",
+      // TRUNCATE も送る（Debezium 2.x の既定は skipped.operations=t で、TRUNCATE を送らない）
+      // Consumer は op: "t" で派生ストアを丸ごと消す
+      "skipped.operations": "none",
     },
   };
 
   try {
+    // コネクタ登録前に設定しておく（スナップショット後の更新から before が入る）
+    await ensureReplicaIdentityFull();
+
     // 既存のコネクタを削除（存在する場合）
     try {
       await fetch(`${DEBEZIUM_API}/connectors/postgres-connector`, {
@@ -97,7 +144,9 @@ async function checkConnectorStatus() {
       console.log(
         "\n🎉 Connector is running! Changes to PostgreSQL will now be streamed to Kafka.",
       );
-      console.log("📡 Topic: blogdb.public.posts");
+      for (const table of CAPTURED_TABLES) {
+        console.log(`📡 Topic: ${tableTopic(config.kafka.topicPrefix, table)}`);
+      }
     } else {
       console.warn("\n⚠️  Connector is not running. Check logs for errors.");
     }
@@ -1,79 +1,54 @@
 /**
  * Elasticsearch のセットアップスクリプト
- * インデックスの作成とマッピング設定
+ * バージョン付きインデックス（posts_v1）の作成と、読み込み用・書き込み用のエイリアスの設定
+ *
+ * 既にエイリアスがあれば何もしない（作り直しは npm run search:reindex で、検索を止めずに行う）。
+ * エイリアスにする前の posts インデックスが残っていれば、消してから作る。
  */
 
 import { Client } from "@elastic/elasticsearch";
+import { getConfig } from "../lib/config.js";
+import {
+  aliasIndices,
+  createPostsIndex,
+  nextIndexName,
+} from "../lib/search-index.js";
 
-const client = new Client({ node: "http://localhost:9200" });
+const config = getConfig();
+const client = new Client({ node: config.elasticsearch.node });
 
 async function setupElasticsearch() {
   console.log("🔧 Setting up Elasticsearch...");
 
-  const indexName = "posts";
+  const readAlias = config.elasticsearch.index;
+  const writeAlias = config.elasticsearch.writeAlias;
 
   try {
-    // インデックスが既に存在するか確認
-    const exists = await client.indices.exists({ index: indexName });
+    const current = await aliasIndices(client, readAlias);
+    if (current.length > 0) {
+      console.log(
+        `✅ ${readAlias} → ${current.join(", ")}, ${writeAlias} → ${(await aliasIndices(client, writeAlias)).join(", ")}`,
+      );
+      console.log("   Run npm run search:reindex to rebuild the index");
+      return;
+    }
+
+    // エイリアスにする前のインデックスが同じ名前で残っている
+    const exists = await client.indices.exists({ index: readAlias });
 
     if (exists) {
-      console.log(`🗑️  Deleting existing index: ${indexName}`);
-      await client.indices.delete({ index: indexName });
+      console.log(`🗑️  Deleting existing index: ${readAlias}`);
+      await client.indices.delete({ index: readAlias });
     }
 
-    // インデックス作成（マッピング設定付き）
-    console.log(`📝 Creating index: ${indexName}`);
-    await client.indices.create({
-      index: indexName,
-      // body: Elasticsearchに送る設定書の本文
-      // インデックスを作成する際のすべての構成情報(設定や構造)
-      body: {
-        settings: {
-          number_of_shards: 1,
-          number_of_replicas: 0,
-          // analysis:テキストをどのように分解して、検索しやすくするかというルール
-          // analysisの設定で分かち書きや正規化をする
-          // 分かち書き: 文を「ElasticSearch」「を」「学ぶ」のように分解
-          // 正規化: 大文字を
-          analysis: {
-            analyzer: {
-              // 日本語対応のアナライザー（将来的に）
-              default: {
-                type: "standard",
-              },
-            },
-          },
-        },
-        // bodyの一部。RDBでいうテーブル定義書(スキーマ)
-        mappings: {
-          properties: {
-            id: {
-              type: "integer",
-            },
-            title: {
-              type: "text",
-              fields: {
-                keyword: {
-                  type: "keyword",
-                  ignore_above: 256,
-                },
-              },
-            },
-            content: {
-              type: "text",
-            },
-            author: {
-              type: "keyword",
-            },
-            created_at: {
-              type: "date",
-            },
-            updated_at: {
-              type: "date",
-            },
-          },
-        },
-      },
+    // インデックス作成（マッピング設定付き）とエイリアスの設定を1回で行う
+    const indexName = await nextIndexName(client, readAlias);
+    console.log(
+      `📝 Creating index: ${indexName} (aliases: ${readAlias}, ${writeAlias})`,
+    );
+    await createPostsIndex(client, indexName, {
+      [readAlias]: {},
+      [writeAlias]: { is_write_index: true },
     });
 
     console.log("✅ Index created successfully!");
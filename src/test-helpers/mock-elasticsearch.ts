@@ -13,6 +13,12 @@ import type { Client } from "@elastic/elasticsearch";
  */
 export class MockElasticsearch {
   private documents = new Map<string, Map<string, any>>();
+  // 外部バージョン（削除後もトゥームストーンとして残す）
+  private versions = new Map<string, number>();
+  // indices.create で作ったインデックス
+  private createdIndices = new Set<string>();
+  // エイリアス → 指しているインデックスと is_write_index
+  private aliases = new Map<string, Map<string, boolean>>();
 
   // インデックス操作
   index = vi.fn(
@@ -20,42 +26,99 @@ export class MockElasticsearch {
       index: string;
       id: string;
       document: any;
-    }): Promise<any> => {
-      if (!this.documents.has(params.index)) {
-        this.documents.set(params.index, new Map());
-      }
+      version?: number;
+      version_type?: string;
+    }): Promise<any> => this.indexDocument(params),
+  );
 
-      const indexDocs = this.documents.get(params.index)!;
-      indexDocs.set(params.id, params.document);
+  // 削除操作
+  delete = vi.fn(
+    async (params: {
+      index: string;
+      id: string;
+      version?: number;
+      version_type?: string;
+    }): Promise<any> => this.deleteDocument(params),
+  );
 
+  // Multi Get
+  mget = vi.fn(
+    async (params: { index: string; ids: string[] }): Promise<any> => {
+      const indexDocs = this.documents.get(this.resolveIndex(params.index));
       return {
-        _index: params.index,
-        _id: params.id,
-        result: indexDocs.has(params.id) ? "updated" : "created",
+        docs: params.ids.map((id) =>
+          indexDocs?.has(id)
+            ? {
+                _index: params.index,
+                _id: id,
+                found: true,
+                _source: indexDocs.get(id),
+              }
+            : { _index: params.index, _id: id, found: false },
+        ),
       };
     },
   );
 
-  // 削除操作
-  delete = vi.fn(
-    async (params: { index: string; id: string }): Promise<any> => {
-      const indexDocs = this.documents.get(params.index);
-      if (!indexDocs || !indexDocs.has(params.id)) {
-        const error: any = new Error("Document not found");
-        error.meta = { statusCode: 404 };
-        throw error;
+  // Bulk API（operations 形式のみ対応）
+  bulk = vi.fn(async (params: { operations: any[] }): Promise<any> => {
+    const items: any[] = [];
+    const operations = [...params.operations];
+
+    while (operations.length > 0) {
+      const action = operations.shift();
+      const op = action.delete ? "delete" : "index";
+      const target = action[op];
+      const request = {
+        index: target._index,
+        id: target._id,
+        version: target.version,
+        version_type: target.version_type,
+      };
+
+      try {
+        const result =
+          op === "index"
+            ? this.indexDocument({ ...request, document: operations.shift() })
+            : this.deleteDocument(request);
+        items.push({ [op]: { ...result, status: 200 } });
+      } catch (error: any) {
+        items.push({
+          [op]: {
+            _index: request.index,
+            _id: request.id,
+            status: error.meta?.statusCode ?? 500,
+            error: { type: error.message },
+          },
+        });
       }
+    }
 
-      indexDocs.delete(params.id);
+    return {
+      errors: items.some((item) => (item.index ?? item.delete).error),
+      items,
+      took: 1,
+    };
+  });
 
-      return {
-        _index: params.index,
-        _id: params.id,
-        result: "deleted",
-      };
+  // Delete By Query（match_all のみ対応）
+  deleteByQuery = vi.fn(
+    async (params: { index: string; query?: any }): Promise<any> => {
+      if (!params.query?.match_all) {
+        throw new Error("MockElasticsearch: only match_all is supported");
+      }
+      const index = this.resolveIndex(params.index);
+      const deleted = this.documents.get(index)?.size ?? 0;
+      this.documents.get(index)?.clear();
+      return { deleted, failures: [] };
     },
   );
 
+  // Count
+  count = vi.fn(async (params: { index: string }): Promise<any> => ({
+    count: this.getDocumentCount(params.index),
+  }));
+
   // 検索操作
   search = vi.fn(
     async (params: {
@@ -63,7 +126,7 @@ export class MockElasticsearch {
       body?: any;
       query?: any;
     }): Promise<any> => {
-      const indexDocs = this.documents.get(params.index);
+      const indexDocs = this.documents.get(this.resolveIndex(params.index));
       if (!indexDocs) {
         return {
           hits: {
@@ -107,16 +170,104 @@ export class MockElasticsearch {
     return true;
   });
 
-  // インデックス管理
+  // インデックス管理（エイリアスは _aliases の add / remove に対応）
   indices = {
-    exists: vi.fn(async (): Promise<boolean> => {
-      return true;
+    exists: vi.fn(async (params: { index: string }): Promise<boolean> => {
+      return (
+        this.createdIndices.has(params.index) || this.aliases.has(params.index)
+      );
     }),
-    create: vi.fn(async (): Promise<any> => {
+    create: vi.fn(
+      async (params: {
+        index: string;
+        aliases?: Record<string, { is_write_index?: boolean }>;
+      }): Promise<any> => {
+        if (this.createdIndices.has(params.index)) {
+          throw this.responseError(400, "resource_already_exists_exception");
+        }
+        this.createdIndices.add(params.index);
+        for (const [alias, options] of Object.entries(params.aliases ?? {})) {
+          this.addAlias(this.aliases, params.index, alias, options);
+        }
+        return { acknowledged: true, index: params.index };
+      },
+    ),
+    delete: vi.fn(async (params: { index: string }): Promise<any> => {
+      if (!this.createdIndices.delete(params.index)) {
+        throw this.responseError(404, "index_not_found_exception");
+      }
+      this.documents.delete(params.index);
+      for (const members of this.aliases.values()) {
+        members.delete(params.index);
+      }
+      for (const [alias, members] of this.aliases) {
+        if (members.size === 0) this.aliases.delete(alias);
+      }
       return { acknowledged: true };
     }),
-    delete: vi.fn(async (): Promise<any> => {
-      return { acknowledged: true };
+    // 末尾の * だけのワイルドカードに対応
+    get: vi.fn(async (params: { index: string }): Promise<any> => {
+      const prefix = params.index.endsWith("*")
+        ? params.index.slice(0, -1)
+        : null;
+      const matched = [...this.createdIndices].filter((index) =>
+        prefix === null ? index === params.index : index.startsWith(prefix),
+      );
+      if (prefix === null && matched.length === 0) {
+        throw this.responseError(404, "index_not_found_exception");
+      }
+      return Object.fromEntries(matched.map((index) => [index, {}]));
+    }),
+    getAlias: vi.fn(async (params: { name: string }): Promise<any> => {
+      const members = this.aliases.get(params.name);
+      if (!members) {
+        throw this.responseError(404, "aliases_not_found_exception");
+      }
+      return Object.fromEntries(
+        [...members].map(([index, isWriteIndex]) => [
+          index,
+          {
+            aliases: {
+              [params.name]: isWriteIndex ? { is_write_index: true } : {},
+            },
+          },
+        ]),
+      );
+    }),
+    // すべての action を適用できた時だけ反映する（アトミック）
+    updateAliases: vi.fn(
+      async (params: {
+        actions: {
+          add?: { index: string; alias: string; is_write_index?: boolean };
+          remove?: { index: string; alias: string };
+        }[];
+      }): Promise<any> => {
+        const next = new Map(
+          [...this.aliases].map(([alias, members]) => [
+            alias,
+            new Map(members),
+          ]),
+        );
+        for (const { add, remove } of params.actions) {
+          if (add) {
+            if (!this.createdIndices.has(add.index)) {
+              throw this.responseError(404, "index_not_found_exception");
+            }
+            this.addAlias(next, add.index, add.alias, add);
+          }
+          if (remove) {
+            if (!next.get(remove.alias)?.delete(remove.index)) {
+              throw this.responseError(404, "aliases_not_found_exception");
+            }
+            if (next.get(remove.alias)!.size === 0) next.delete(remove.alias);
+          }
+        }
+        this.aliases = next;
+        return { acknowledged: true };
+      },
+    ),
+    refresh: vi.fn(async (): Promise<any> => {
+      return { _shards: { failed: 0 } };
     }),
     getMapping: vi.fn(async (): Promise<any> => {
       return {
@@ -143,17 +294,132 @@ export class MockElasticsearch {
     }),
   };
 
+  private indexDocument(params: {
+    index: string;
+    id: string;
+    document: any;
+    version?: number;
+    version_type?: string;
+  }): any {
+    params = { ...params, index: this.resolveIndex(params.index) };
+    this.checkExternalVersion(params);
+
+    if (!this.documents.has(params.index)) {
+      this.documents.set(params.index, new Map());
+    }
+
+    const indexDocs = this.documents.get(params.index)!;
+    indexDocs.set(params.id, params.document);
+
+    return {
+      _index: params.index,
+      _id: params.id,
+      result: indexDocs.has(params.id) ? "updated" : "created",
+    };
+  }
+
+  private deleteDocument(params: {
+    index: string;
+    id: string;
+    version?: number;
+    version_type?: string;
+  }): any {
+    params = { ...params, index: this.resolveIndex(params.index) };
+    this.checkExternalVersion(params);
+
+    const indexDocs = this.documents.get(params.index);
+    if (!indexDocs || !indexDocs.has(params.id)) {
+      const error: any = new Error("Document not found");
+      error.meta = { statusCode: 404 };
+      throw error;
+    }
+
+    indexDocs.delete(params.id);
+
+    return {
+      _index: params.index,
+      _id: params.id,
+      result: "deleted",
+    };
+  }
+
+  /**
+   * version_type: external の場合、保存済み以下のバージョンは 409 で拒否する
+   * 受け付けたバージョンは（削除でも）記録する
+   */
+  private checkExternalVersion(params: {
+    index: string;
+    id: string;
+    version?: number;
+    version_type?: string;
+  }): void {
+    if (params.version_type !== "external" || params.version === undefined) {
+      return;
+    }
+
+    const key = `${params.index}/${params.id}`;
+    const current = this.versions.get(key);
+    if (current !== undefined && current >= params.version) {
+      const error: any = new Error("version_conflict_engine_exception");
+      error.meta = {
+        statusCode: 409,
+        body: { error: { type: "version_conflict_engine_exception" } },
+      };
+      throw error;
+    }
+    this.versions.set(key, params.version);
+  }
+
+  /**
+   * エイリアスならその先のインデックス
+   * 複数のインデックスを指す場合は is_write_index のインデックス（無ければ 400）
+   */
+  private resolveIndex(name: string): string {
+    const members = this.aliases.get(name);
+    if (!members) return name;
+    if (members.size === 1) return [...members.keys()][0];
+    const writeIndex = [...members].find(([, isWrite]) => isWrite)?.[0];
+    if (!writeIndex) {
+      throw this.responseError(400, "illegal_argument_exception");
+    }
+    return writeIndex;
+  }
+
+  private addAlias(
+    aliases: Map<string, Map<string, boolean>>,
+    index: string,
+    alias: string,
+    options: { is_write_index?: boolean },
+  ): void {
+    if (!aliases.has(alias)) aliases.set(alias, new Map());
+    aliases.get(alias)!.set(index, options.is_write_index === true);
+  }
+
+  private responseError(statusCode: number, type: string): Error {
+    const error: any = new Error(type);
+    error.meta = { statusCode, body: { error: { type } } };
+    return error;
+  }
+
   // ヘルパーメソッド（テスト用）
   clear(): void {
     this.documents.clear();
+    this.versions.clear();
+    this.createdIndices.clear();
+    this.aliases.clear();
   }
 
   getAllDocuments(index: string): Map<string, any> {
-    return this.documents.get(index) || new Map();
+    return this.documents.get(this.resolveIndex(index)) || new Map();
   }
 
   getDocumentCount(index: string): number {
-    return this.documents.get(index)?.size || 0;
+    return this.documents.get(this.resolveIndex(index))?.size || 0;
+  }
+
+  // エイリアスが指すインデックス（テスト用）
+  getAliasIndices(alias: string): string[] {
+    return [...(this.aliases.get(alias)?.keys() ?? [])].sort();
   }
 }
 
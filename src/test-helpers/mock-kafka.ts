@@ -4,7 +4,15 @@
  */
 
 import { vi } from "vitest";
-import type { Consumer, EachMessagePayload, Kafka } from "kafkajs";
+import type {
+  Consumer,
+  EachBatchPayload,
+  EachMessagePayload,
+  Kafka,
+  Message,
+  Producer,
+  RecordMetadata,
+} from "kafkajs";
 
 /**
  * Kafka メッセージのモック生成
@@ -32,17 +40,270 @@ export function createMockKafkaMessage(payload: {
   };
 }
 
+/**
+ * Kafka Producer のモック
+ *
+ * 送信されたメッセージをトピックごとにメモリに保持する（DLQのテスト用）
+ */
+export class MockProducer {
+  private sent = new Map<string, Message[]>();
+
+  connect = vi.fn(async (): Promise<void> => {});
+
+  disconnect = vi.fn(async (): Promise<void> => {});
+
+  send = vi.fn(
+    async (record: {
+      topic: string;
+      messages: Message[];
+    }): Promise<RecordMetadata[]> => {
+      const messages = this.sent.get(record.topic) ?? [];
+      messages.push(...record.messages);
+      this.sent.set(record.topic, messages);
+
+      return [{ topicName: record.topic, partition: 0, errorCode: 0 }];
+    },
+  );
+
+  // テスト用のデータ確認メソッド
+  getSentMessages(topic: string): Message[] {
+    return this.sent.get(topic) ?? [];
+  }
+
+  clear(): void {
+    this.sent.clear();
+  }
+}
+
+/**
+ * Kafka Consumer のモック
+ *
+ * run() に渡された eachMessage / eachBatch を保持し、deliver() でメッセージを1件ずつ、
+ * deliverBatch() でバッチを流す。
+ * コミットされたオフセットは commitOffsets の呼び出しで確認する。
+ */
+export class MockConsumer {
+  private eachMessage?: (payload: EachMessagePayload) => Promise<void>;
+  private eachBatch?: (payload: EachBatchPayload) => Promise<void>;
+  private listeners = new Map<string, (() => void)[]>();
+
+  events = {
+    GROUP_JOIN: "consumer.group_join",
+    STOP: "consumer.stop",
+  } as const;
+
+  connect = vi.fn(async (): Promise<void> => {});
+
+  disconnect = vi.fn(async (): Promise<void> => {});
+
+  // 処理中のハンドラーを待って止める（テストでは即座に終わる）
+  stop = vi.fn(async (): Promise<void> => {});
+
+  subscribe = vi.fn(async (): Promise<void> => {});
+
+  run = vi.fn(
+    async (config: {
+      eachMessage?: (payload: EachMessagePayload) => Promise<void>;
+      eachBatch?: (payload: EachBatchPayload) => Promise<void>;
+    }): Promise<void> => {
+      this.eachMessage = config.eachMessage;
+      this.eachBatch = config.eachBatch;
+    },
+  );
+
+  commitOffsets = vi.fn(
+    async (
+      _offsets: { topic: string; partition: number; offset: string }[],
+    ): Promise<void> => {},
+  );
+
+  // 次に読む位置を変える（コミットはしない）
+  seek = vi.fn(
+    (_target: { topic: string; partition: number; offset: string }): void => {},
+  );
+
+  on = vi.fn((event: string, listener: () => void) => {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return () => {};
+  });
+
+  // テスト用: eachMessage にメッセージを渡す
+  async deliver(payload: EachMessagePayload): Promise<void> {
+    if (!this.eachMessage) {
+      throw new Error("MockConsumer: run() has not been called");
+    }
+    await this.eachMessage(payload);
+  }
+
+  // テスト用: eachBatch にバッチを渡す（resolveOffset などは vi.fn で確認する）
+  async deliverBatch(
+    topic: string,
+    partition: number,
+    messages: EachMessagePayload["message"][],
+  ) {
+    if (!this.eachBatch) {
+      throw new Error("MockConsumer: run() has not been called with eachBatch");
+    }
+    const payload = {
+      batch: { topic, partition, messages },
+      resolveOffset: vi.fn(),
+      heartbeat: vi.fn(async () => {}),
+      commitOffsetsIfNecessary: vi.fn(async () => {}),
+      isRunning: () => true,
+      isStale: () => false,
+    };
+    await this.eachBatch(payload as unknown as EachBatchPayload);
+    return payload;
+  }
+
+  // テスト用: イベントを発火する（リバランスなど）
+  emit(event: string): void {
+    this.listeners.get(event)?.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Kafka Admin のモック
+ *
+ * setTopicOffsets() / setGroupOffsets() で返すオフセットを決める（ラグのテスト用）
+ * どのトピックにも同じオフセットを返す。listTopics() は setTopics() で決める
+ * setOffsets() で変えたオフセットは、そのままコミット済みオフセットになる
+ */
+export class MockAdmin {
+  private topics: string[] = [];
+  private topicOffsets: { partition: number; high: string; low: string }[] = [];
+  private groupOffsets: { partition: number; offset: string }[] = [];
+  private timestampOffsets: { partition: number; offset: string }[] = [];
+  private groupMembers = 0;
+
+  connect = vi.fn(async (): Promise<void> => {});
+
+  disconnect = vi.fn(async (): Promise<void> => {});
+
+  listTopics = vi.fn(async () => this.topics);
+
+  fetchTopicOffsets = vi.fn(async (_topic: string) =>
+    this.topicOffsets.map((offsets) => ({ ...offsets, offset: offsets.high })),
+  );
+
+  fetchOffsets = vi.fn(
+    async ({ topics }: { groupId: string; topics: string[] }) =>
+      topics.map((topic) => ({ topic, partitions: this.groupOffsets })),
+  );
+
+  fetchTopicOffsetsByTimestamp = vi.fn(
+    async (_topic: string, _timestamp?: number) => this.timestampOffsets,
+  );
+
+  describeGroups = vi.fn(async (groupIds: string[]) => ({
+    groups: groupIds.map((groupId) => ({
+      groupId,
+      members: Array.from({ length: this.groupMembers }, (_, i) => ({
+        memberId: `member-${i}`,
+      })),
+    })),
+  }));
+
+  setOffsets = vi.fn(
+    async ({
+      partitions,
+    }: {
+      groupId: string;
+      topic: string;
+      partitions: { partition: number; offset: string }[];
+    }) => {
+      const offsets = new Map(
+        this.groupOffsets.map(({ partition, offset }) => [partition, offset]),
+      );
+      for (const { partition, offset } of partitions) {
+        offsets.set(partition, offset);
+      }
+      this.groupOffsets = [...offsets].map(([partition, offset]) => ({
+        partition,
+        offset,
+      }));
+    },
+  );
+
+  // テスト用: ブローカーにあるトピックを設定する
+  setTopics(topics: string[]): void {
+    this.topics = topics;
+  }
+
+  // テスト用: パーティションごとの high watermark / low を設定する
+  setTopicOffsets(
+    offsets: { partition: number; high: string; low: string }[],
+  ): void {
+    this.topicOffsets = offsets;
+  }
+
+  // テスト用: グループのコミット済みオフセットを設定する（未コミットは "-1"）
+  setGroupOffsets(offsets: { partition: number; offset: string }[]): void {
+    this.groupOffsets = offsets;
+  }
+
+  // テスト用: fetchTopicOffsetsByTimestamp() が返すオフセットを設定する
+  setTimestampOffsets(offsets: { partition: number; offset: string }[]): void {
+    this.timestampOffsets = offsets;
+  }
+
+  // テスト用: グループで動いているメンバーの数を設定する
+  setGroupMembers(count: number): void {
+    this.groupMembers = count;
+  }
+}
+
+/**
+ * Consumer のファクトリー関数
+ * 実際の Consumer 型として渡せるようにキャストして返す
+ */
+export function createMockConsumer(): MockConsumer & Consumer {
+  return new MockConsumer() as unknown as MockConsumer & Consumer;
+}
+
+/**
+ * Producer のファクトリー関数
+ * 実際の Producer 型として渡せるようにキャストして返す
+ */
+export function createMockProducer(): MockProducer & Producer {
+  return new MockProducer() as MockProducer & Producer;
+}
+
+/**
+ * Kafka クライアントのモック
+ * consumer() / producer() / admin() で渡されたモックを返す
+ */
+export function createMockKafka(
+  consumer: MockConsumer,
+  producer: MockProducer,
+  admin: MockAdmin = new MockAdmin(),
+): Kafka {
+  return {
+    consumer: vi.fn(() => consumer),
+    producer: vi.fn(() => producer),
+    admin: vi.fn(() => admin),
+  } as unknown as Kafka;
+}
+
 /**
  * Debezium CDC イベントのモック生成
  */
 export function createMockDebeziumEvent(params: {
-  op: "c" | "u" | "d" | "r"; // create, update, delete, read
+  op: "c" | "u" | "d" | "r" | "t"; // create, update, delete, read, truncate
   before?: any;
   after?: any;
   source?: {
     db?: string;
     schema?: string;
     table?: string;
+    lsn?: number;
+    ts_ms?: number;
+    txId?: number;
+  };
+  transaction?: {
+    id: string;
+    total_order: number;
+    data_collection_order?: number;
   };
 }) {
   return {
@@ -55,21 +316,113 @@ export function createMockDebeziumEvent(params: {
         version: "2.4.0.Final",
         connector: "postgresql",
         name: "blogdb",
-        ts_ms: Date.now(),
+        ts_ms: params.source?.ts_ms ?? Date.now(),
         snapshot: "false",
         db: params.source?.db ?? "blog_db",
         schema: params.source?.schema ?? "public",
         table: params.source?.table ?? "posts",
-        txId: 1,
-        lsn: 1,
+        txId: params.source?.txId ?? 1,
+        lsn: params.source?.lsn ?? 1,
         xmin: null,
       },
       ts_ms: Date.now(),
-      transaction: null,
+      transaction: params.transaction
+        ? {
+            data_collection_order: params.transaction.total_order,
+            ...params.transaction,
+          }
+        : null,
     },
   };
 }
 
+/**
+ * blogdb.transaction トピックの BEGIN / END のモック生成
+ */
+export function createMockTransactionMetadata(params: {
+  status: "BEGIN" | "END";
+  id: string;
+  // END の時の posts のイベント数
+  eventCount?: number;
+  // END の時のテーブルごとのイベント数（指定すると eventCount の代わりに使う）
+  dataCollections?: Record<string, number>;
+}): string {
+  const isEnd = params.status === "END";
+  const collections = Object.entries(
+    params.dataCollections ?? { "public.posts": params.eventCount ?? 0 },
+  );
+  return JSON.stringify({
+    schema: {},
+    payload: {
+      status: params.status,
+      id: params.id,
+      event_count: isEnd
+        ? collections.reduce((sum, [, count]) => sum + count, 0)
+        : null,
+      data_collections: isEnd
+        ? collections.map(([data_collection, event_count]) => ({
+            data_collection,
+            event_count,
+          }))
+        : null,
+      ts_ms: Date.now(),
+    },
+  });
+}
+
+/**
+ * Debezium のメッセージキーのモック生成
+ * schemas.enable の有無で { schema, payload: { id } } か { id } になる
+ */
+export function createMockDebeziumKey(
+  id: number,
+  options: { withSchema?: boolean } = {},
+): string {
+  const withSchema = options.withSchema ?? true;
+  return JSON.stringify(
+    withSchema
+      ? {
+          schema: {
+            type: "struct",
+            fields: [{ type: "int32", optional: false, field: "id" }],
+            optional: false,
+            name: "blogdb.public.posts.Key",
+          },
+          payload: { id },
+        }
+      : { id },
+  );
+}
+
+/**
+ * トゥームストーン（delete の後に送られる value が null のメッセージ）のモック生成
+ */
+export function createMockTombstoneMessage(params: {
+  id: number;
+  topic?: string;
+  partition?: number;
+  offset?: string;
+  withSchema?: boolean;
+}): EachMessagePayload {
+  const payload = createMockKafkaMessage({
+    topic: params.topic ?? "blogdb.public.posts",
+    key: createMockDebeziumKey(params.id, { withSchema: params.withSchema }),
+    value: "",
+    partition: params.partition,
+    offset: params.offset,
+  });
+  return { ...payload, message: { ...payload.message, value: null } };
+}
+
+/**
+ * TRUNCATE イベントのモック生成（before/after は無く、キーも無い）
+ */
+export function createMockTruncateEvent(
+  params: { source?: { lsn?: number; ts_ms?: number } } = {},
+) {
+  return createMockDebeziumEvent({ op: "t", source: params.source });
+}
+
 /**
  * DDT (Data-Driven Testing) 用のテストケース生成
  * 複数のDebeziumイベントパターンをテストするため
@@ -4,6 +4,96 @@
  */
 
 import { vi } from "vitest";
+import {
+  FILL_IF_ABSENT_SCRIPT,
+  VERSIONED_DELETE_SCRIPT,
+  VERSIONED_SET_SCRIPT,
+} from "../lib/versioned-cache.js";
+import {
+  APPLY_POST_DELETE_SCRIPT,
+  APPLY_POST_TOMBSTONE_SCRIPT,
+  APPLY_POST_UPSERT_SCRIPT,
+} from "../consumers/cache-updater-scripts.js";
+import {
+  APPLY_STATS_DELETE_SCRIPT,
+  APPLY_STATS_TOMBSTONE_SCRIPT,
+  APPLY_STATS_UPSERT_SCRIPT,
+} from "../consumers/author-stats-scripts.js";
+import { ADVANCE_WATERMARK_SCRIPT } from "../lib/watermark.js";
+
+// Luaスクリプトの代わりに実行するJS実装（KEYS, ARGV を受け取る）
+type ScriptHandler = (keys: string[], argv: string[]) => unknown;
+
+// パイプライン/MULTI でキューに積めるコマンド
+type QueueableCommand =
+  | "get"
+  | "set"
+  | "setex"
+  | "del"
+  | "zadd"
+  | "zrem"
+  | "zrevrange"
+  | "zscore"
+  | "zcard"
+  | "zremrangebyrank"
+  | "hset"
+  | "hgetall"
+  | "expire"
+  | "eval";
+
+/**
+ * pipeline() / multi() のモック
+ *
+ * コマンドをキューに積み、exec() でまとめて実行する。
+ * 結果は ioredis と同じ [error, result] の配列で返す。
+ * MULTI の場合、モックはシングルスレッドなので途中に他のコマンドは割り込まない。
+ */
+export class MockPipeline {
+  private queue: { command: QueueableCommand; args: unknown[] }[] = [];
+
+  constructor(private redis: MockRedis) {}
+
+  get = (...args: unknown[]) => this.enqueue("get", args);
+  set = (...args: unknown[]) => this.enqueue("set", args);
+  setex = (...args: unknown[]) => this.enqueue("setex", args);
+  del = (...args: unknown[]) => this.enqueue("del", args);
+  zadd = (...args: unknown[]) => this.enqueue("zadd", args);
+  zrem = (...args: unknown[]) => this.enqueue("zrem", args);
+  zrevrange = (...args: unknown[]) => this.enqueue("zrevrange", args);
+  zscore = (...args: unknown[]) => this.enqueue("zscore", args);
+  zcard = (...args: unknown[]) => this.enqueue("zcard", args);
+  zremrangebyrank = (...args: unknown[]) =>
+    this.enqueue("zremrangebyrank", args);
+  hset = (...args: unknown[]) => this.enqueue("hset", args);
+  hgetall = (...args: unknown[]) => this.enqueue("hgetall", args);
+  expire = (...args: unknown[]) => this.enqueue("expire", args);
+  eval = (...args: unknown[]) => this.enqueue("eval", args);
+
+  get length(): number {
+    return this.queue.length;
+  }
+
+  exec = vi.fn(async (): Promise<[Error | null, unknown][]> => {
+    const queue = this.queue;
+    this.queue = [];
+
+    const results: [Error | null, unknown][] = [];
+    for (const { command, args } of queue) {
+      try {
+        const fn = this.redis[command] as (...args: unknown[]) => unknown;
+        results.push([null, await fn(...args)]);
+      } catch (error) {
+        results.push([error as Error, null]);
+      }
+    }
+    return results;
+  });
+
+  private enqueue(command: QueueableCommand, args: unknown[]): this {
+    this.queue.push({ command, args });
+    return this;
+  }
+}
 
 /**
  * Redis クライアントのモック
@@ -14,6 +104,8 @@ export class MockRedis {
   private data = new Map<string, string>();
   private expiry = new Map<string, number>();
   private sortedSets = new Map<string, Map<string, number>>();
+  private hashes = new Map<string, Map<string, string>>();
+  private sets = new Map<string, Set<string>>();
 
   // 基本操作
   get = vi.fn(async (key: string): Promise<string | null> => {
@@ -37,11 +129,13 @@ export class MockRedis {
   del = vi.fn(async (...keys: string[]): Promise<number> => {
     let count = 0;
     for (const key of keys) {
-      if (this.data.delete(key)) {
+      const existed = [this.data, this.sortedSets, this.hashes, this.sets]
+        .map((store) => store.delete(key))
+        .some(Boolean);
+      if (existed) {
         count++;
       }
       this.expiry.delete(key);
-      this.sortedSets.delete(key);
     }
     return count;
   });
@@ -59,37 +153,242 @@ export class MockRedis {
     },
   );
 
+  zscore = vi.fn(
+    async (key: string, member: string): Promise<string | null> => {
+      this.checkExpiry(key);
+      const score = this.sortedSets.get(key)?.get(member);
+      return score === undefined ? null : String(score);
+    },
+  );
+
   zrem = vi.fn(async (key: string, member: string): Promise<number> => {
     const set = this.sortedSets.get(key);
     if (!set) return 0;
     return set.delete(member) ? 1 : 0;
   });
 
+  zrange = vi.fn(
+    async (
+      key: string,
+      start: number,
+      stop: number,
+      withScores?: "WITHSCORES",
+    ): Promise<string[]> =>
+      this.rangeResult(this.sortedEntries(key), start, stop, withScores),
+  );
+
   zrevrange = vi.fn(
-    async (key: string, start: number, stop: number): Promise<string[]> => {
-      const set = this.sortedSets.get(key);
-      if (!set) return [];
+    async (
+      key: string,
+      start: number,
+      stop: number,
+      withScores?: "WITHSCORES",
+    ): Promise<string[]> =>
+      this.rangeResult(
+        this.sortedEntries(key).reverse(),
+        start,
+        stop,
+        withScores,
+      ),
+  );
+
+  // ZREVRANGEBYSCORE key max min [WITHSCORES] [LIMIT offset count]
+  zrevrangebyscore = vi.fn(
+    async (
+      key: string,
+      max: number | string,
+      min: number | string,
+      ...args: (string | number)[]
+    ): Promise<string[]> => {
+      const entries = this.sortedEntries(key)
+        .reverse()
+        .filter(
+          ([, score]) =>
+            score <= this.parseBound(max) && score >= this.parseBound(min),
+        );
+      const limitIndex = args.indexOf("LIMIT");
+      const limited =
+        limitIndex >= 0
+          ? entries.slice(
+              Number(args[limitIndex + 1]),
+              Number(args[limitIndex + 1]) + Number(args[limitIndex + 2]),
+            )
+          : entries;
+      return this.rangeResult(
+        limited,
+        0,
+        -1,
+        args.includes("WITHSCORES") ? "WITHSCORES" : undefined,
+      );
+    },
+  );
+
+  zcount = vi.fn(
+    async (
+      key: string,
+      min: number | string,
+      max: number | string,
+    ): Promise<number> =>
+      this.sortedEntries(key).filter(
+        ([, score]) =>
+          score >= this.parseBound(min) && score <= this.parseBound(max),
+      ).length,
+  );
+
+  // スコアの低い順の start..stop 番目を消す（負の値は末尾から）
+  zremrangebyrank = vi.fn(
+    async (key: string, start: number, stop: number): Promise<number> => {
+      const entries = this.sortedEntries(key);
+      const from = start < 0 ? entries.length + start : start;
+      const to = stop < 0 ? entries.length + stop : stop;
+      if (to < 0) return 0;
+      const removed = entries.slice(Math.max(from, 0), to + 1);
+      for (const [member] of removed) {
+        this.sortedSets.get(key)?.delete(member);
+      }
+      return removed.length;
+    },
+  );
+
+  zcard = vi.fn(async (key: string): Promise<number> => {
+    return this.sortedSets.get(key)?.size ?? 0;
+  });
+
+  // Set 操作
+  sadd = vi.fn(async (key: string, ...members: string[]): Promise<number> => {
+    if (!this.sets.has(key)) {
+      this.sets.set(key, new Set());
+    }
+    const set = this.sets.get(key)!;
+    const added = members.filter((member) => !set.has(member));
+    added.forEach((member) => set.add(member));
+    return added.length;
+  });
+
+  srem = vi.fn(async (key: string, ...members: string[]): Promise<number> => {
+    const set = this.sets.get(key);
+    if (!set) return 0;
+    const removed = members.filter((member) => set.delete(member)).length;
+    if (set.size === 0) this.sets.delete(key);
+    return removed;
+  });
+
+  smembers = vi.fn(async (key: string): Promise<string[]> => {
+    return [...(this.sets.get(key) ?? [])];
+  });
+
+  scard = vi.fn(async (key: string): Promise<number> => {
+    return this.sets.get(key)?.size ?? 0;
+  });
+
+  sismember = vi.fn(async (key: string, member: string): Promise<number> => {
+    return this.sets.get(key)?.has(member) ? 1 : 0;
+  });
 
-      const sorted = Array.from(set.entries())
-        .sort((a, b) => b[1] - a[1])
-        .map(([member]) => member);
+  sinter = vi.fn(async (...keys: string[]): Promise<string[]> => {
+    const [first, ...rest] = keys.map(
+      (key) => this.sets.get(key) ?? new Set<string>(),
+    );
+    return [...first].filter((member) => rest.every((set) => set.has(member)));
+  });
 
-      if (stop === -1) {
-        return sorted.slice(start);
+  // Hash 操作
+  // HSET key field value ... と HSET key { field: value } の両方を受け付ける
+  hset = vi.fn(
+    async (
+      key: string,
+      ...args: (string | number | Record<string, string | number>)[]
+    ): Promise<number> => {
+      const fieldValues =
+        typeof args[0] === "object"
+          ? Object.entries(args[0]).flat()
+          : (args as (string | number)[]);
+      if (!this.hashes.has(key)) {
+        this.hashes.set(key, new Map());
+      }
+      const hash = this.hashes.get(key)!;
+      let added = 0;
+      for (let i = 0; i < fieldValues.length; i += 2) {
+        if (!hash.has(String(fieldValues[i]))) added++;
+        hash.set(String(fieldValues[i]), String(fieldValues[i + 1]));
       }
-      return sorted.slice(start, stop + 1);
+      return added;
+    },
+  );
+
+  hget = vi.fn(async (key: string, field: string): Promise<string | null> => {
+    return this.hashes.get(key)?.get(field) ?? null;
+  });
+
+  hgetall = vi.fn(async (key: string): Promise<Record<string, string>> => {
+    this.checkExpiry(key);
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  });
+
+  // SCAN（MATCH の glob は * と ? のみ対応。モックなので1回で全件返す）
+  scan = vi.fn(
+    async (
+      _cursor: string | number,
+      ...args: (string | number)[]
+    ): Promise<[string, string[]]> => {
+      const matchIndex = args.indexOf("MATCH");
+      const pattern =
+        matchIndex >= 0 ? String(args[matchIndex + 1]) : undefined;
+      const regex = pattern
+        ? new RegExp(
+            "^" +
+              pattern
+                .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+                .replace(/\*/g, ".*")
+                .replace(/\?/g, ".") +
+              "$",
+          )
+        : undefined;
+
+      const keys = [
+        ...this.data.keys(),
+        ...this.sortedSets.keys(),
+        ...this.hashes.keys(),
+        ...this.sets.keys(),
+      ].filter((key) => {
+        this.checkExpiry(key);
+        return this.exists(key) && (!regex || regex.test(key));
+      });
+      return ["0", [...new Set(keys)]];
     },
   );
 
   // その他の操作
   expire = vi.fn(async (key: string, seconds: number): Promise<number> => {
-    if (!this.data.has(key) && !this.sortedSets.has(key)) {
+    if (!this.exists(key)) {
       return 0;
     }
     this.expiry.set(key, Date.now() + seconds * 1000);
     return 1;
   });
 
+  // Luaスクリプト（アプリで使うスクリプトだけをJSで再現）
+  eval = vi.fn(
+    async (
+      script: string,
+      numKeys: number,
+      ...args: (string | number)[]
+    ): Promise<unknown> => {
+      const handler = this.scripts.get(script);
+      if (!handler) {
+        throw new Error("MockRedis: unsupported Lua script");
+      }
+      const keys = args.slice(0, numKeys).map(String);
+      const argv = args.slice(numKeys).map(String);
+      return handler(keys, argv);
+    },
+  );
+
+  // パイプライン / トランザクション
+  pipeline = vi.fn((): MockPipeline => new MockPipeline(this));
+
+  multi = vi.fn((): MockPipeline => new MockPipeline(this));
+
   ping = vi.fn(async (): Promise<"PONG"> => {
     return "PONG";
   });
@@ -99,12 +398,288 @@ export class MockRedis {
     return "OK";
   });
 
+  private scripts = new Map<string, ScriptHandler>([
+    [
+      VERSIONED_SET_SCRIPT,
+      ([key, versionKey], [version, value, ttl]) => {
+        if (this.isNewerOrEqual(versionKey, version)) return 0;
+        this.setWithTtl(key, value, Number(ttl));
+        this.setWithTtl(versionKey, version, Number(ttl));
+        return 1;
+      },
+    ],
+    [
+      VERSIONED_DELETE_SCRIPT,
+      ([key, versionKey], [version, ttl]) => {
+        if (this.isNewerOrEqual(versionKey, version)) return 0;
+        this.data.delete(key);
+        this.expiry.delete(key);
+        this.setWithTtl(versionKey, version, Number(ttl));
+        return 1;
+      },
+    ],
+    [
+      FILL_IF_ABSENT_SCRIPT,
+      ([key, versionKey], [value, ttl]) => {
+        if (this.exists(versionKey)) return 0;
+        this.setWithTtl(key, value, Number(ttl));
+        this.setWithTtl(versionKey, "0", Number(ttl));
+        return 1;
+      },
+    ],
+    [
+      APPLY_POST_UPSERT_SCRIPT,
+      (
+        [key, versionKey, authorKey, postAuthorKey, ...previousAuthorKeys],
+        [version, value, ttl, postId, score, author],
+      ) => {
+        if (this.isNewerOrEqual(versionKey, version)) return 0;
+        this.setWithTtl(key, value, Number(ttl));
+        this.setWithTtl(versionKey, version, Number(ttl));
+        if (!this.sortedSets.has(authorKey)) {
+          this.sortedSets.set(authorKey, new Map());
+        }
+        this.sortedSets.get(authorKey)!.set(postId, Number(score));
+        this.expiry.set(authorKey, Date.now() + Number(ttl) * 1000);
+        this.data.set(postAuthorKey, author);
+        for (const previousKey of previousAuthorKeys) {
+          this.sortedSets.get(previousKey)?.delete(postId);
+        }
+        return 1;
+      },
+    ],
+    [
+      APPLY_POST_DELETE_SCRIPT,
+      (
+        [key, versionKey, postAuthorKey, ...authorKeys],
+        [version, ttl, postId],
+      ) => {
+        if (this.isNewerOrEqual(versionKey, version)) return 0;
+        this.data.delete(key);
+        this.expiry.delete(key);
+        this.setWithTtl(versionKey, version, Number(ttl));
+        this.data.delete(postAuthorKey);
+        for (const authorKey of authorKeys) {
+          this.sortedSets.get(authorKey)?.delete(postId);
+        }
+        return 1;
+      },
+    ],
+    [
+      APPLY_POST_TOMBSTONE_SCRIPT,
+      ([key, postAuthorKey, ...authorKeys], [postId]) => {
+        this.checkExpiry(key);
+        if (!this.data.has(key) && !this.data.has(postAuthorKey)) return 0;
+        this.data.delete(key);
+        this.expiry.delete(key);
+        this.data.delete(postAuthorKey);
+        for (const authorKey of authorKeys) {
+          this.sortedSets.get(authorKey)?.delete(postId);
+        }
+        return 1;
+      },
+    ],
+    [
+      APPLY_STATS_UPSERT_SCRIPT,
+      (
+        [
+          contributionKey,
+          versionKey,
+          rankingKey,
+          statsKey,
+          postsKey,
+          ...previousKeys
+        ],
+        [version, postId, author, contentLength, createdAt],
+      ) => {
+        if (this.isNewerOrEqual(versionKey, version)) return 0;
+        this.data.set(versionKey, version);
+        this.expiry.delete(versionKey);
+        if (previousKeys.length >= 2) {
+          this.subtractStats(
+            contributionKey,
+            previousKeys[0],
+            previousKeys[1],
+            rankingKey,
+            postId,
+          );
+        }
+        this.hashes.set(
+          contributionKey,
+          new Map([
+            ["author", author],
+            ["content_length", contentLength],
+          ]),
+        );
+        this.incrementHash(
+          statsKey,
+          "total_content_length",
+          Number(contentLength),
+        );
+        this.zaddSync(postsKey, Number(createdAt), postId);
+        this.refreshStats(statsKey, postsKey, rankingKey, author);
+        return 1;
+      },
+    ],
+    [
+      APPLY_STATS_DELETE_SCRIPT,
+      (
+        [contributionKey, versionKey, rankingKey, ...authorKeys],
+        [version, ttl, postId],
+      ) => {
+        if (this.isNewerOrEqual(versionKey, version)) return 0;
+        this.setWithTtl(versionKey, version, Number(ttl));
+        if (authorKeys.length >= 2) {
+          this.subtractStats(
+            contributionKey,
+            authorKeys[0],
+            authorKeys[1],
+            rankingKey,
+            postId,
+          );
+        }
+        return 1;
+      },
+    ],
+    [
+      APPLY_STATS_TOMBSTONE_SCRIPT,
+      ([contributionKey, rankingKey, statsKey, postsKey], [postId]) => {
+        if (!this.hashes.has(contributionKey)) return 0;
+        this.subtractStats(
+          contributionKey,
+          statsKey,
+          postsKey,
+          rankingKey,
+          postId,
+        );
+        return 1;
+      },
+    ],
+    [
+      ADVANCE_WATERMARK_SCRIPT,
+      ([key], [lsn, txId]) => {
+        if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+        const watermark = this.hashes.get(key)!;
+        const current = watermark.get("lsn");
+        if (current === undefined || Number(current) < Number(lsn)) {
+          watermark.set("lsn", lsn);
+        }
+        if (txId !== "") watermark.set("txId", txId);
+        return 1;
+      },
+    ],
+  ]);
+
+  private exists(key: string): boolean {
+    return [this.data, this.sortedSets, this.hashes, this.sets].some((store) =>
+      store.has(key),
+    );
+  }
+
+  // スコアの低い順（同じスコアはメンバーの辞書順。Redis と同じ）
+  private sortedEntries(key: string): [string, number][] {
+    this.checkExpiry(key);
+    return [...(this.sortedSets.get(key) ?? [])].sort(
+      ([a, scoreA], [b, scoreB]) =>
+        scoreA - scoreB || (a < b ? -1 : a > b ? 1 : 0),
+    );
+  }
+
+  private rangeResult(
+    entries: [string, number][],
+    start: number,
+    stop: number,
+    withScores?: "WITHSCORES",
+  ): string[] {
+    const sliced = entries.slice(start, stop === -1 ? undefined : stop + 1);
+    return withScores
+      ? sliced.flatMap(([member, score]) => [member, String(score)])
+      : sliced.map(([member]) => member);
+  }
+
+  // ZRANGEBYSCORE の範囲（+inf / -inf と数値）
+  private parseBound(bound: number | string): number {
+    if (bound === "+inf") return Infinity;
+    if (bound === "-inf") return -Infinity;
+    return Number(bound);
+  }
+
+  // author-stats-scripts.ts の refresh と同じ
+  private refreshStats(
+    statsKey: string,
+    postsKey: string,
+    rankingKey: string,
+    author: string,
+  ): void {
+    const scores = [...(this.sortedSets.get(postsKey)?.values() ?? [])];
+    if (scores.length === 0) {
+      this.hashes.delete(statsKey);
+      this.sortedSets.delete(postsKey);
+      this.sortedSets.get(rankingKey)?.delete(author);
+      return;
+    }
+    const hash = this.hashes.get(statsKey) ?? new Map<string, string>();
+    hash.set("post_count", String(scores.length));
+    hash.set("first_post_at", String(Math.min(...scores)));
+    hash.set("last_post_at", String(Math.max(...scores)));
+    this.hashes.set(statsKey, hash);
+    this.zaddSync(rankingKey, scores.length, author);
+  }
+
+  // author-stats-scripts.ts の subtract と同じ
+  private subtractStats(
+    contributionKey: string,
+    statsKey: string,
+    postsKey: string,
+    rankingKey: string,
+    postId: string,
+  ): void {
+    const previous = this.hashes.get(contributionKey);
+    if (!previous) return;
+    this.incrementHash(
+      statsKey,
+      "total_content_length",
+      -Number(previous.get("content_length")),
+    );
+    this.sortedSets.get(postsKey)?.delete(postId);
+    this.refreshStats(statsKey, postsKey, rankingKey, previous.get("author")!);
+    this.hashes.delete(contributionKey);
+  }
+
+  private incrementHash(key: string, field: string, by: number): void {
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, new Map());
+    }
+    const hash = this.hashes.get(key)!;
+    hash.set(field, String(Number(hash.get(field) ?? 0) + by));
+  }
+
+  private zaddSync(key: string, score: number, member: string): void {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    this.sortedSets.get(key)!.set(member, score);
+  }
+
+  private isNewerOrEqual(versionKey: string, version: string): boolean {
+    this.checkExpiry(versionKey);
+    const current = this.data.get(versionKey);
+    return current !== undefined && Number(current) >= Number(version);
+  }
+
+  private setWithTtl(key: string, value: string, seconds: number): void {
+    this.data.set(key, value);
+    this.expiry.set(key, Date.now() + seconds * 1000);
+  }
+
   // ヘルパーメソッド（テスト用）
   private checkExpiry(key: string): void {
     const expiryTime = this.expiry.get(key);
     if (expiryTime && Date.now() > expiryTime) {
       this.data.delete(key);
       this.sortedSets.delete(key);
+      this.hashes.delete(key);
+      this.sets.delete(key);
       this.expiry.delete(key);
     }
   }
@@ -113,6 +688,8 @@ export class MockRedis {
     this.data.clear();
     this.expiry.clear();
     this.sortedSets.clear();
+    this.hashes.clear();
+    this.sets.clear();
   }
 
   // テスト用のデータ確認メソッド
@@ -123,6 +700,10 @@ export class MockRedis {
   getAllSortedSets(): Map<string, Map<string, number>> {
     return new Map(this.sortedSets);
   }
+
+  getAllHashes(): Map<string, Map<string, string>> {
+    return new Map(this.hashes);
+  }
 }
 
 /**
@@ -0,0 +1,63 @@
+/**
+ * Webhook の受け取り側のテストヘルパー
+ * 127.0.0.1 の空いているポートで HTTP サーバーを立て、届いたリクエストを記録する
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface ReceivedWebhook {
+  path: string;
+  headers: IncomingHttpHeaders;
+  // 署名の検証に使う生のボディ
+  body: string;
+}
+
+/**
+ * 受け取り側のスタンドイン
+ * respondWith で返すステータスを順に指定する（使い切ったら 200）
+ */
+export class MockWebhookReceiver {
+  readonly requests: ReceivedWebhook[] = [];
+  private statuses: number[] = [];
+
+  private constructor(
+    private server: Server,
+    readonly url: string,
+  ) {}
+
+  static async start(): Promise<MockWebhookReceiver> {
+    let receiver!: MockWebhookReceiver;
+    const server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        receiver.requests.push({
+          path: req.url ?? "/",
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString("utf8"),
+        });
+        res.statusCode = receiver.statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    receiver = new MockWebhookReceiver(server, `http://127.0.0.1:${port}`);
+    return receiver;
+  }
+
+  respondWith(...statuses: number[]) {
+    this.statuses.push(...statuses);
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * WebhookStore モック用のテストヘルパー
+ * 単体テストで PostgreSQL なしで Webhook Dispatcher をテストするため
+ */
+
+import { vi } from "vitest";
+import type {
+  NewWebhookDelivery,
+  WebhookDelivery,
+  WebhookStore,
+  WebhookSubscription,
+} from "../lib/webhooks.js";
+
+/**
+ * 購読と配信の記録をメモリ上に持つ WebhookStore
+ * recordDelivery は PgWebhookStore の UPDATE と同じように続けて失敗した数を数える
+ */
+export class MockWebhookStore implements WebhookStore {
+  private subscriptions = new Map<number, WebhookSubscription>();
+  private deliveries: WebhookDelivery[] = [];
+  private nextId = 1;
+
+  listActiveSubscriptions = vi.fn(async (): Promise<WebhookSubscription[]> =>
+    [...this.subscriptions.values()]
+      .filter((subscription) => subscription.active)
+      .map((subscription) => ({ ...subscription })),
+  );
+
+  deliveredSubscriptionIds = vi.fn(
+    async (eventId: string): Promise<Set<number>> =>
+      new Set(
+        this.deliveries
+          .filter(
+            (delivery) =>
+              delivery.event_id === eventId && delivery.status === "succeeded",
+          )
+          .map((delivery) => delivery.subscription_id),
+      ),
+  );
+
+  recordDelivery = vi.fn(
+    async (
+      delivery: NewWebhookDelivery,
+      disableAfterFailures: number,
+    ): Promise<{ disabled: boolean }> => {
+      const now = new Date().toISOString();
+      this.deliveries.push({
+        ...delivery,
+        id: this.deliveries.length + 1,
+        created_at: now,
+      });
+
+      const subscription = this.subscriptions.get(delivery.subscription_id);
+      if (!subscription) return { disabled: false };
+
+      if (delivery.status === "succeeded") {
+        subscription.consecutive_failures = 0;
+        return { disabled: false };
+      }
+      subscription.consecutive_failures++;
+      if (
+        subscription.active &&
+        subscription.consecutive_failures >= disableAfterFailures
+      ) {
+        subscription.active = false;
+        subscription.disabled_at = now;
+        return { disabled: true };
+      }
+      return { disabled: false };
+    },
+  );
+
+  close = vi.fn(async (): Promise<void> => {});
+
+  // テスト用ヘルパー
+  addSubscription(
+    subscription: Partial<WebhookSubscription> &
+      Pick<WebhookSubscription, "url">,
+  ): WebhookSubscription {
+    const now = new Date().toISOString();
+    const created: WebhookSubscription = {
+      id: this.nextId++,
+      secret: "test-secret",
+      event_types: ["post.created", "post.updated", "post.deleted"],
+      active: true,
+      consecutive_failures: 0,
+      disabled_at: null,
+      created_at: now,
+      updated_at: now,
+      ...subscription,
+    };
+    this.subscriptions.set(created.id, created);
+    return created;
+  }
+
+  getSubscription(id: number): WebhookSubscription | undefined {
+    return this.subscriptions.get(id);
+  }
+
+  getDeliveries(subscriptionId?: number): WebhookDelivery[] {
+    return this.deliveries.filter(
+      (delivery) =>
+        subscriptionId === undefined ||
+        delivery.subscription_id === subscriptionId,
+    );
+  }
+}
+
+export function createMockWebhookStore(): MockWebhookStore {
+  return new MockWebhookStore();
+}
@@ -1,21 +1,66 @@
 // Post entity
+// 日時は API・Redis・Elasticsearch のどこでも ISO-8601（UTC）の文字列にそろえる
+// （created_at / updated_at は DEFAULT があるだけで NOT NULL ではないので null もありうる）
 export interface Post {
   id: number;
   title: string;
   content: string;
   author: string;
-  created_at: Date;
-  updated_at: Date;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// Comment entity（posts に付くコメント）
+export interface Comment {
+  id: number;
+  post_id: number;
+  author: string;
+  body: string;
+  created_at: string | null;
+}
+
+// Follow entity（follower が followee をフォローする）
+export interface Follow {
+  id: number;
+  follower: string;
+  followee: string;
+  created_at: string | null;
+}
+
+// 著者ごとの集計（Author Stats Consumer が Redis に作る）
+export interface AuthorStats {
+  author: string;
+  post_count: number;
+  first_post_at: string;
+  last_post_at: string;
+  // 本文の合計文字数
+  total_content_length: number;
 }
 
 type SnapshotFlag = "true" | "false" | "last";
 
+// Kafka Connect のスキーマ（JsonConverter の schemas.enable=true の時の schema ブロック）
+// name は論理型（org.apache.kafka.connect.data.Timestamp など）
+export interface ConnectSchema {
+  type: string;
+  name?: string;
+  optional?: boolean;
+  parameters?: Record<string, string>;
+  // struct のフィールド
+  fields?: ConnectField[];
+}
+
+export interface ConnectField extends ConnectSchema {
+  field: string;
+}
+
 // Debezium CDC Event Structure
-export interface DebeziumChangeEvent {
-  schema?: unknown;
+// T はテーブルの行の型（src/lib/tables.ts の TableRows）
+export interface DebeziumChangeEvent<T = unknown> {
+  schema?: ConnectSchema;
   payload: {
-    before: Post | null;
-    after: Post | null;
+    before: T | null;
+    after: T | null;
     source: {
       version: string;
       connector: string;
@@ -29,7 +74,7 @@ export interface DebeziumChangeEvent {
       txId: string | number;
       xmin: number | null;
     };
-    op: "c" | "u" | "d" | "r"; // create, update, delete, read(snapshot)
+    op: "c" | "u" | "d" | "r" | "t"; // create, update, delete, read(snapshot), truncate
     ts_ms: number;
     transaction?: {
       id: string;